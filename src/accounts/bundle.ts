@@ -0,0 +1,284 @@
+/**
+ * Account bundles - export accounts to a single file and import them elsewhere
+ *
+ * A bundle holds each account's tokens, metadata, cached quota and wake-up state.
+ * It can be encrypted with a passphrase (same AES-256-GCM/scrypt format as tokens.json).
+ */
+
+import { debug } from '../core/logger.js'
+import { AccountBundleError } from '../core/errors.js'
+import { encryptJson, decryptJson, isEncryptedTokenFile, type EncryptedTokenFile } from './encryption.js'
+import {
+  accountExists,
+  listAccountEmails,
+  loadAccountTokens,
+  saveAccountTokens,
+  loadAccountMetadata,
+  saveAccountMetadata,
+  loadAccountCache,
+  saveAccountCache,
+  deleteAccountCache
+} from './storage.js'
+import { loadWakeupState, saveWakeupState } from '../wakeup/storage.js'
+import type { StoredTokens } from '../quota/types.js'
+import type { WakeupState } from '../wakeup/types.js'
+import type { AccountMetadata, CachedQuota } from './types.js'
+
+export const ACCOUNT_BUNDLE_FORMAT = 'antigravity-usage-accounts'
+export const ACCOUNT_BUNDLE_VERSION = 1
+
+// Environment variable with the bundle passphrase (otherwise prompted for)
+export const BUNDLE_PASSPHRASE_ENV = 'ANTIGRAVITY_BUNDLE_PASSPHRASE'
+
+/**
+ * One account in a bundle
+ */
+export interface AccountBundleEntry {
+  email: string
+  tokens: StoredTokens
+  metadata: AccountMetadata | null
+  cache: CachedQuota | null
+  wakeupState: WakeupState | null
+}
+
+/**
+ * Exported accounts
+ */
+export interface AccountBundle {
+  format: typeof ACCOUNT_BUNDLE_FORMAT
+  version: number
+  exportedAt: string                 // ISO date string
+  accounts: AccountBundleEntry[]
+}
+
+/**
+ * Bundle file whose accounts are encrypted with a passphrase
+ */
+interface EncryptedAccountBundle {
+  format: typeof ACCOUNT_BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  encrypted: EncryptedTokenFile
+}
+
+export type AccountConflictMode = 'skip' | 'overwrite'
+
+export const ACCOUNT_CONFLICT_MODES: AccountConflictMode[] = ['skip', 'overwrite']
+
+/**
+ * What importing a bundle will do for one account
+ */
+export interface AccountImportPlanEntry {
+  email: string
+  exists: boolean                    // Account already exists on this machine
+  action: 'add' | 'overwrite' | 'skip'
+  hasCache: boolean
+  hasWakeupState: boolean
+  aliasConflict?: string             // Account that keeps the bundled alias; it is dropped on import
+}
+
+/**
+ * Collect accounts into a bundle
+ * Accounts whose tokens can't be read are left out and reported in `skipped`.
+ */
+export function createAccountBundle(emails: string[], now: Date = new Date()): { bundle: AccountBundle; skipped: string[] } {
+  const accounts: AccountBundleEntry[] = []
+  const skipped: string[] = []
+
+  for (const email of emails) {
+    const tokens = loadAccountTokens(email)
+    if (!tokens) {
+      debug('account-bundle', `Skipping ${email}: no readable tokens`)
+      skipped.push(email)
+      continue
+    }
+    accounts.push({
+      email,
+      tokens,
+      metadata: loadAccountMetadata(email),
+      cache: loadAccountCache(email),
+      wakeupState: loadWakeupState(email)
+    })
+  }
+
+  return {
+    bundle: {
+      format: ACCOUNT_BUNDLE_FORMAT,
+      version: ACCOUNT_BUNDLE_VERSION,
+      exportedAt: now.toISOString(),
+      accounts
+    },
+    skipped
+  }
+}
+
+/**
+ * Serialize a bundle, encrypting its accounts when a passphrase is given
+ */
+export function serializeAccountBundle(bundle: AccountBundle, passphrase?: string): string {
+  if (!passphrase) {
+    return JSON.stringify(bundle, null, 2)
+  }
+
+  const encrypted: EncryptedAccountBundle = {
+    format: bundle.format,
+    version: bundle.version,
+    exportedAt: bundle.exportedAt,
+    encrypted: encryptJson(bundle.accounts, { source: 'passphrase', secret: Buffer.from(passphrase, 'utf-8') })
+  }
+  return JSON.stringify(encrypted, null, 2)
+}
+
+function parseBundleFile(content: string): AccountBundle | EncryptedAccountBundle {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    throw new AccountBundleError('Not an account bundle: invalid JSON')
+  }
+
+  const file = parsed as Partial<AccountBundle & EncryptedAccountBundle>
+  if (typeof parsed !== 'object' || parsed === null || file.format !== ACCOUNT_BUNDLE_FORMAT) {
+    throw new AccountBundleError('Not an account bundle')
+  }
+  if (typeof file.version !== 'number' || file.version > ACCOUNT_BUNDLE_VERSION) {
+    throw new AccountBundleError(`Unsupported bundle version ${file.version}. Update antigravity-usage to import it.`)
+  }
+  return file as AccountBundle | EncryptedAccountBundle
+}
+
+/**
+ * Check whether bundle content is passphrase-encrypted
+ */
+export function isEncryptedAccountBundle(content: string): boolean {
+  return 'encrypted' in parseBundleFile(content)
+}
+
+// Emails become directory names, so refuse anything that could escape the accounts dir
+function isSafeEmail(email: unknown): email is string {
+  return typeof email === 'string' && email.length > 0 && !/[/\\]/.test(email) && email !== '.' && email !== '..'
+}
+
+function validateAccounts(accounts: unknown): AccountBundleEntry[] {
+  if (!Array.isArray(accounts)) {
+    throw new AccountBundleError('Invalid account bundle: accounts must be a list')
+  }
+  for (const entry of accounts as Partial<AccountBundleEntry>[]) {
+    if (!isSafeEmail(entry?.email)) {
+      throw new AccountBundleError(`Invalid account bundle: bad account email ${JSON.stringify(entry?.email)}`)
+    }
+    if (typeof entry.tokens?.accessToken !== 'string' || typeof entry.tokens?.refreshToken !== 'string') {
+      throw new AccountBundleError(`Invalid account bundle: missing tokens for ${entry.email}`)
+    }
+  }
+  return accounts as AccountBundleEntry[]
+}
+
+/**
+ * Parse bundle content, decrypting it if needed
+ * @throws AccountBundleError for malformed bundles or a missing passphrase
+ * @throws TokenEncryptionError for a wrong passphrase
+ */
+export function parseAccountBundle(content: string, passphrase?: string): AccountBundle {
+  const file = parseBundleFile(content)
+
+  if (!('encrypted' in file)) {
+    return { ...file, accounts: validateAccounts(file.accounts) }
+  }
+  if (!isEncryptedTokenFile(file.encrypted)) {
+    throw new AccountBundleError('Invalid account bundle: unknown encryption')
+  }
+  if (!passphrase) {
+    throw new AccountBundleError('Bundle is encrypted: a passphrase is required')
+  }
+
+  const accounts = decryptJson<unknown>(file.encrypted, { source: 'passphrase', secret: Buffer.from(passphrase, 'utf-8') }, 'account bundle')
+  return {
+    format: file.format,
+    version: file.version,
+    exportedAt: file.exportedAt,
+    accounts: validateAccounts(accounts)
+  }
+}
+
+/**
+ * Work out what importing a bundle will do, without changing anything
+ * An imported alias already used by another account (or an earlier account in the
+ * bundle) is reported as a conflict, since aliases must resolve to a single account.
+ */
+export function planAccountImport(bundle: AccountBundle, onConflict: AccountConflictMode = 'skip'): AccountImportPlanEntry[] {
+  const plan: AccountImportPlanEntry[] = bundle.accounts.map(entry => {
+    const exists = accountExists(entry.email)
+    return {
+      email: entry.email,
+      exists,
+      action: !exists ? 'add' : onConflict === 'overwrite' ? 'overwrite' : 'skip',
+      hasCache: entry.cache !== null,
+      hasWakeupState: entry.wakeupState !== null
+    }
+  })
+
+  // Aliases of local accounts the import leaves alone, keyed case-insensitively like resolveAccount
+  const imported = new Set(plan.filter(p => p.action !== 'skip').map(p => p.email))
+  const aliasOwners = new Map<string, string>()
+  for (const email of listAccountEmails()) {
+    const alias = loadAccountMetadata(email)?.alias
+    if (alias && !imported.has(email)) {
+      aliasOwners.set(alias.toLowerCase(), email)
+    }
+  }
+
+  bundle.accounts.forEach((entry, index) => {
+    const alias = entry.metadata?.alias?.toLowerCase()
+    if (!alias || plan[index].action === 'skip') return
+
+    const owner = aliasOwners.get(alias)
+    if (owner) {
+      plan[index].aliasConflict = owner
+    } else {
+      aliasOwners.set(alias, entry.email)
+    }
+  })
+
+  return plan
+}
+
+/**
+ * Import the accounts of a bundle according to a plan
+ * Tokens go through the configured credential store.
+ * @returns Emails that were imported
+ */
+export function applyAccountImport(bundle: AccountBundle, plan: AccountImportPlanEntry[]): string[] {
+  const imported: string[] = []
+
+  for (const entry of bundle.accounts) {
+    const planEntry = plan.find(p => p.email === entry.email)
+    const action = planEntry?.action ?? 'skip'
+    if (action === 'skip') {
+      continue
+    }
+
+    debug('account-bundle', `Importing ${entry.email} (${action})`)
+    saveAccountTokens(entry.email, entry.tokens)
+
+    const now = new Date().toISOString()
+    const metadata = entry.metadata ?? { email: entry.email, addedAt: now, lastUsed: now }
+    if (planEntry?.aliasConflict) {
+      debug('account-bundle', `Dropping alias '${metadata.alias}' of ${entry.email}: used by ${planEntry.aliasConflict}`)
+    }
+    saveAccountMetadata(entry.email, planEntry?.aliasConflict ? { ...metadata, alias: undefined } : metadata)
+
+    if (entry.cache) {
+      saveAccountCache(entry.email, entry.cache)
+    } else {
+      deleteAccountCache(entry.email)
+    }
+    if (entry.wakeupState) {
+      saveWakeupState(entry.email, entry.wakeupState)
+    }
+
+    imported.push(entry.email)
+  }
+
+  return imported
+}
@@ -0,0 +1,189 @@
+/**
+ * Credential stores - pluggable backends for account tokens
+ *
+ * The account directory (metadata, cache) always stays on disk; only the tokens
+ * go through the configured store.
+ */
+
+import { spawnSync } from 'node:child_process'
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { getAccountDir } from '../core/env.js'
+import { debug } from '../core/logger.js'
+import { CredentialStoreError } from '../core/errors.js'
+import { loadConfig } from './config.js'
+import { serializeTokens, parseTokens } from './encryption.js'
+import type { StoredTokens } from '../quota/types.js'
+import type { CredentialStoreConfig, CredentialStoreType } from './types.js'
+
+export const CREDENTIAL_STORE_TYPES: CredentialStoreType[] = ['file', 'encrypted', 'command']
+
+// Identifies this tool to credential helpers that serve several services
+export const CREDENTIAL_SERVICE = 'antigravity-usage'
+
+const DEFAULT_HELPER_TIMEOUT_MS = 30_000
+
+/**
+ * Backend that keeps account tokens
+ */
+export interface CredentialStore {
+  readonly type: CredentialStoreType
+  /** Whether tokens are stored for the account (without reading them) */
+  has(email: string): boolean
+  /** Read tokens, or null if none are stored */
+  get(email: string): StoredTokens | null
+  store(email: string, tokens: StoredTokens): void
+  erase(email: string): void
+}
+
+/**
+ * tokens.json in the account directory
+ * @param encrypt undefined: encrypt when a secret is configured; true: always (requires a secret); false: plaintext
+ */
+export class FileCredentialStore implements CredentialStore {
+  readonly type: CredentialStoreType
+
+  constructor(private readonly encrypt?: boolean) {
+    this.type = encrypt ? 'encrypted' : 'file'
+  }
+
+  private path(email: string): string {
+    return join(getAccountDir(email), 'tokens.json')
+  }
+
+  has(email: string): boolean {
+    return existsSync(this.path(email))
+  }
+
+  get(email: string): StoredTokens | null {
+    const path = this.path(email)
+    if (!existsSync(path)) {
+      return null
+    }
+    return parseTokens(readFileSync(path, 'utf-8'))
+  }
+
+  store(email: string, tokens: StoredTokens): void {
+    writeFileSync(this.path(email), serializeTokens(tokens, this.encrypt), { mode: 0o600 })
+  }
+
+  erase(email: string): void {
+    rmSync(this.path(email), { force: true })
+  }
+}
+
+/**
+ * External helper command, git-credential style
+ *
+ * The helper is run as `<command> get|store|erase` with key=value lines on stdin,
+ * terminated by a blank line:
+ *
+ *   service=antigravity-usage
+ *   account=<email>
+ *   tokens=<JSON>          (store only)
+ *
+ * For `get` it prints `tokens=<JSON>` on stdout, or nothing if it has no tokens.
+ * A non-zero exit status is an error. The account directory (metadata.json)
+ * marks which accounts exist, since the protocol has no way to list them.
+ */
+export class CommandCredentialStore implements CredentialStore {
+  readonly type: CredentialStoreType = 'command'
+
+  constructor(
+    private readonly command: string,
+    private readonly timeoutMs = DEFAULT_HELPER_TIMEOUT_MS
+  ) {}
+
+  private run(action: 'get' | 'store' | 'erase', fields: Record<string, string>): Record<string, string> {
+    const input = Object.entries({ service: CREDENTIAL_SERVICE, ...fields })
+      .map(([key, value]) => `${key}=${value}`)
+      .join('\n') + '\n\n'
+
+    debug('credential-store', `Running credential helper: ${action} ${fields.account}`)
+    const result = spawnSync(`${this.command} ${action}`, {
+      shell: true,
+      input,
+      encoding: 'utf-8',
+      timeout: this.timeoutMs
+    })
+
+    if (result.error) {
+      throw new CredentialStoreError(`Credential helper '${action}' failed: ${result.error.message}`)
+    }
+    if (result.status !== 0) {
+      const detail = result.stderr?.trim() || (result.signal ? `killed by ${result.signal}` : `exit code ${result.status}`)
+      throw new CredentialStoreError(`Credential helper '${action}' failed: ${detail}`)
+    }
+
+    return parseHelperOutput(result.stdout ?? '')
+  }
+
+  has(email: string): boolean {
+    return existsSync(join(getAccountDir(email), 'metadata.json'))
+  }
+
+  get(email: string): StoredTokens | null {
+    const output = this.run('get', { account: email })
+    if (!output.tokens) {
+      return null
+    }
+    try {
+      return JSON.parse(output.tokens) as StoredTokens
+    } catch {
+      throw new CredentialStoreError(`Credential helper returned invalid tokens for ${email}`)
+    }
+  }
+
+  store(email: string, tokens: StoredTokens): void {
+    // JSON.stringify escapes newlines, so the value always fits on one line
+    this.run('store', { account: email, tokens: JSON.stringify(tokens) })
+  }
+
+  erase(email: string): void {
+    this.run('erase', { account: email })
+  }
+}
+
+/**
+ * Parse key=value lines, stopping at the first blank line
+ */
+function parseHelperOutput(output: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  for (const line of output.split(/\r?\n/)) {
+    if (line === '') {
+      break
+    }
+    const index = line.indexOf('=')
+    if (index > 0) {
+      fields[line.slice(0, index)] = line.slice(index + 1)
+    }
+  }
+  return fields
+}
+
+/**
+ * Create a credential store from its config
+ * @throws CredentialStoreError for an unknown type or a command store without a command
+ */
+export function createCredentialStore(config: CredentialStoreConfig | undefined): CredentialStore {
+  switch (config?.type ?? 'file') {
+    case 'file':
+      return new FileCredentialStore()
+    case 'encrypted':
+      return new FileCredentialStore(true)
+    case 'command':
+      if (!config?.command) {
+        throw new CredentialStoreError('credentialStore.command is required when credentialStore.type is "command"')
+      }
+      return new CommandCredentialStore(config.command, config.timeoutMs)
+    default:
+      throw new CredentialStoreError(`Unknown credentialStore.type "${config?.type}". Use one of: ${CREDENTIAL_STORE_TYPES.join(', ')}`)
+  }
+}
+
+/**
+ * Get the credential store selected in config.json
+ */
+export function getCredentialStore(): CredentialStore {
+  return createCredentialStore(loadConfig().credentialStore)
+}
@@ -0,0 +1,181 @@
+/**
+ * Encrypted-at-rest token storage
+ * AES-256-GCM with a key derived via scrypt from a passphrase or a key file.
+ * Encryption is on when ANTIGRAVITY_TOKEN_PASSPHRASE or ANTIGRAVITY_TOKEN_KEY_FILE is set.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { debug } from '../core/logger.js'
+import { TokenEncryptionError } from '../core/errors.js'
+import type { StoredTokens } from '../quota/types.js'
+
+export const TOKEN_PASSPHRASE_ENV = 'ANTIGRAVITY_TOKEN_PASSPHRASE'
+export const TOKEN_KEY_FILE_ENV = 'ANTIGRAVITY_TOKEN_KEY_FILE'
+
+const CIPHER = 'aes-256-gcm'
+const KEY_LENGTH = 32
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+
+export type TokenKeySource = 'passphrase' | 'keyfile'
+
+/**
+ * Secret that token encryption keys are derived from
+ */
+export interface TokenEncryptionSecret {
+  source: TokenKeySource
+  secret: Buffer
+}
+
+/**
+ * On-disk format of an encrypted tokens.json (also used for account bundles)
+ */
+export interface EncryptedTokenFile {
+  encrypted: typeof CIPHER
+  kdf: 'scrypt'
+  keySource: TokenKeySource          // Informational: which secret is needed to decrypt
+  salt: string                       // base64
+  iv: string                         // base64
+  tag: string                        // base64 GCM auth tag
+  data: string                       // base64 ciphertext of the JSON payload
+}
+
+// Derived keys by secret hash + salt (scrypt is deliberately slow)
+const keyCache = new Map<string, Buffer>()
+
+/**
+ * Get the configured encryption secret, or null when encryption is off
+ * The key file takes precedence when both variables are set.
+ * @throws TokenEncryptionError if the key file can't be read or is empty
+ */
+export function getTokenEncryptionSecret(env: NodeJS.ProcessEnv = process.env): TokenEncryptionSecret | null {
+  const keyFile = env[TOKEN_KEY_FILE_ENV]
+  if (keyFile) {
+    let secret: Buffer
+    try {
+      secret = readFileSync(keyFile)
+    } catch (err) {
+      throw new TokenEncryptionError(`Cannot read ${TOKEN_KEY_FILE_ENV} (${keyFile}): ${err instanceof Error ? err.message : err}`)
+    }
+    // Text key files usually end with a newline that isn't part of the key
+    const trimmed = Buffer.from(secret.toString('latin1').trim(), 'latin1')
+    if (trimmed.length === 0) {
+      throw new TokenEncryptionError(`${TOKEN_KEY_FILE_ENV} (${keyFile}) is empty`)
+    }
+    return { source: 'keyfile', secret: trimmed }
+  }
+
+  const passphrase = env[TOKEN_PASSPHRASE_ENV]
+  if (passphrase) {
+    return { source: 'passphrase', secret: Buffer.from(passphrase, 'utf-8') }
+  }
+
+  return null
+}
+
+/**
+ * Check whether token encryption is configured
+ */
+export function isTokenEncryptionEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env[TOKEN_KEY_FILE_ENV] || env[TOKEN_PASSPHRASE_ENV])
+}
+
+function deriveKey(secret: TokenEncryptionSecret, salt: Buffer): Buffer {
+  const cacheKey = `${createHash('sha256').update(secret.secret).digest('hex')}:${salt.toString('base64')}`
+  let key = keyCache.get(cacheKey)
+  if (!key) {
+    key = scryptSync(secret.secret, salt, KEY_LENGTH)
+    keyCache.set(cacheKey, key)
+  }
+  return key
+}
+
+/**
+ * Check whether a parsed tokens file is encrypted
+ */
+export function isEncryptedTokenFile(value: unknown): value is EncryptedTokenFile {
+  return typeof value === 'object' && value !== null && (value as EncryptedTokenFile).encrypted === CIPHER
+}
+
+/**
+ * Encrypt a JSON value with a fresh salt and IV
+ */
+export function encryptJson(value: unknown, secret: TokenEncryptionSecret): EncryptedTokenFile {
+  const salt = randomBytes(SALT_LENGTH)
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(CIPHER, deriveKey(secret, salt), iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()])
+
+  return {
+    encrypted: CIPHER,
+    kdf: 'scrypt',
+    keySource: secret.source,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  }
+}
+
+/**
+ * Decrypt an encrypted JSON value
+ * @param label What was encrypted, for the error message
+ * @throws TokenEncryptionError if the secret is wrong or the file was tampered with
+ */
+export function decryptJson<T>(file: EncryptedTokenFile, secret: TokenEncryptionSecret, label = 'stored tokens'): T {
+  try {
+    const decipher = createDecipheriv(CIPHER, deriveKey(secret, Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'))
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()])
+    return JSON.parse(plain.toString('utf-8')) as T
+  } catch (err) {
+    debug('token-encryption', 'Decryption failed', err)
+    throw new TokenEncryptionError(`Failed to decrypt ${label}: wrong ${file.keySource === 'keyfile' ? 'key file' : 'passphrase'} or corrupted file`)
+  }
+}
+
+/**
+ * Encrypt tokens with a fresh salt and IV
+ */
+export function encryptTokens(tokens: StoredTokens, secret: TokenEncryptionSecret): EncryptedTokenFile {
+  return encryptJson(tokens, secret)
+}
+
+/**
+ * Decrypt an encrypted tokens file
+ * @throws TokenEncryptionError if the secret is wrong or the file was tampered with
+ */
+export function decryptTokens(file: EncryptedTokenFile, secret: TokenEncryptionSecret): StoredTokens {
+  return decryptJson<StoredTokens>(file, secret)
+}
+
+/**
+ * Serialize tokens for tokens.json, encrypted when a secret is configured
+ * @param encrypt Override: true requires a secret, false always writes plaintext
+ */
+export function serializeTokens(tokens: StoredTokens, encrypt?: boolean): string {
+  const secret = encrypt === false ? null : getTokenEncryptionSecret()
+  if (encrypt && !secret) {
+    throw new TokenEncryptionError(`Set ${TOKEN_PASSPHRASE_ENV} or ${TOKEN_KEY_FILE_ENV} to encrypt tokens`)
+  }
+  const content = secret ? encryptTokens(tokens, secret) : tokens
+  return JSON.stringify(content, null, 2)
+}
+
+/**
+ * Parse a tokens.json document, decrypting it if needed
+ * @throws TokenEncryptionError if the file is encrypted and no (or the wrong) secret is configured
+ */
+export function parseTokens(content: string): StoredTokens {
+  const parsed = JSON.parse(content) as unknown
+  if (!isEncryptedTokenFile(parsed)) {
+    return parsed as StoredTokens
+  }
+
+  const secret = getTokenEncryptionSecret()
+  if (!secret) {
+    throw new TokenEncryptionError(`Stored tokens are encrypted. Set ${parsed.keySource === 'keyfile' ? TOKEN_KEY_FILE_ENV : TOKEN_PASSPHRASE_ENV} to use them`)
+  }
+  return decryptTokens(parsed, secret)
+}
@@ -13,15 +13,63 @@ export {
   listAccountEmails,
   saveAccountTokens,
   loadAccountTokens,
+  isAccountTokensEncrypted,
   saveAccountMetadata,
   loadAccountMetadata,
   updateLastUsed,
+  markRefreshFailure,
+  clearRefreshFailure,
   saveAccountCache,
   loadAccountCache,
   deleteAccountCache,
   deleteAccount
 } from './storage.js'
 
+// Token encryption
+export {
+  TOKEN_PASSPHRASE_ENV,
+  TOKEN_KEY_FILE_ENV,
+  getTokenEncryptionSecret,
+  isTokenEncryptionEnabled
+} from './encryption.js'
+
+// Credential stores
+export {
+  CREDENTIAL_STORE_TYPES,
+  CREDENTIAL_SERVICE,
+  FileCredentialStore,
+  CommandCredentialStore,
+  createCredentialStore,
+  getCredentialStore,
+  type CredentialStore
+} from './credential-store.js'
+
+// Account bundles (export/import)
+export {
+  ACCOUNT_BUNDLE_FORMAT,
+  ACCOUNT_BUNDLE_VERSION,
+  ACCOUNT_CONFLICT_MODES,
+  BUNDLE_PASSPHRASE_ENV,
+  createAccountBundle,
+  serializeAccountBundle,
+  parseAccountBundle,
+  isEncryptedAccountBundle,
+  planAccountImport,
+  applyAccountImport,
+  type AccountBundle,
+  type AccountBundleEntry,
+  type AccountConflictMode,
+  type AccountImportPlanEntry
+} from './bundle.js'
+
+// Aliases, labels and tags
+export {
+  validateAlias,
+  validateTag,
+  parseLabelArg,
+  hasTag
+} from './labels.js'
+
 // Config operations 
 export {
   loadConfig,
@@ -0,0 +1,58 @@
+/**
+ * Account aliases, labels and tags - validation and parsing
+ */
+
+import type { AccountMetadata } from './types.js'
+
+// Aliases never contain '@', so they can't be mistaken for emails
+const ALIAS_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/i
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._:-]{0,63}$/i
+const LABEL_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i
+
+/**
+ * Validate an alias
+ * @returns Error message, or null if valid
+ */
+export function validateAlias(alias: string): string | null {
+  if (!ALIAS_PATTERN.test(alias)) {
+    return `Invalid alias '${alias}'. Use up to 32 letters, digits, '.', '_' or '-' (no '@').`
+  }
+  return null
+}
+
+/**
+ * Validate a tag
+ * @returns Error message, or null if valid
+ */
+export function validateTag(tag: string): string | null {
+  if (!TAG_PATTERN.test(tag)) {
+    return `Invalid tag '${tag}'. Use letters, digits, '.', '_', ':' or '-'.`
+  }
+  return null
+}
+
+/**
+ * Parse a `key=value` label argument (`key=` removes the label)
+ * @returns The label, or an error message
+ */
+export function parseLabelArg(arg: string): { key: string; value: string | null } | { error: string } {
+  const index = arg.indexOf('=')
+  if (index <= 0) {
+    return { error: `Invalid label '${arg}'. Use key=value (or key= to remove).` }
+  }
+
+  const key = arg.slice(0, index)
+  if (!LABEL_KEY_PATTERN.test(key)) {
+    return { error: `Invalid label key '${key}'. Use letters, digits, '.', '_' or '-'.` }
+  }
+  const value = arg.slice(index + 1)
+  return { key, value: value === '' ? null : value }
+}
+
+/**
+ * Check whether an account has a tag (case-insensitive)
+ */
+export function hasTag(metadata: AccountMetadata | null, tag: string): boolean {
+  const wanted = tag.toLowerCase()
+  return metadata?.tags?.some(t => t.toLowerCase() === wanted) ?? false
+}
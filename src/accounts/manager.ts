@@ -22,6 +22,7 @@ import {
   loadCacheWithMeta,
   getCacheAge
 } from './cache.js'
+import { hasTag } from './labels.js'
 import type { StoredTokens } from '../quota/types.js'
 import type { 
   AccountInfo, 
@@ -91,6 +92,51 @@ export class AccountManager {
     return accountExists(email)
   }
   
+  /**
+   * Resolve an email or alias to an account email
+   * Anything containing '@' is taken as an email; aliases match case-insensitively.
+   * Returns null if no account has the alias.
+   */
+  resolveAccount(emailOrAlias: string): string | null {
+    if (emailOrAlias.includes('@')) {
+      return emailOrAlias
+    }
+    
+    const wanted = emailOrAlias.toLowerCase()
+    const email = this.getAccountEmails().find(e => loadAccountMetadata(e)?.alias?.toLowerCase() === wanted)
+    return email ?? null
+  }
+  
+  /**
+   * Get the emails of accounts with a tag
+   */
+  getAccountsByTag(tag: string): string[] {
+    return this.getAccountEmails().filter(email => hasTag(loadAccountMetadata(email), tag))
+  }
+  
+  /**
+   * Update an account's alias, labels or tags
+   * Keys set to undefined are removed.
+   */
+  updateMetadata(email: string, changes: Partial<Pick<AccountMetadata, 'alias' | 'labels' | 'tags'>>): boolean {
+    if (!accountExists(email)) {
+      debug('account-manager', `Cannot update metadata: account ${email} does not exist`)
+      return false
+    }
+    
+    const now = new Date().toISOString()
+    const metadata: AccountMetadata = { ...(loadAccountMetadata(email) ?? { email, addedAt: now, lastUsed: now }), ...changes }
+    for (const key of Object.keys(changes) as (keyof typeof changes)[]) {
+      if (metadata[key] === undefined) {
+        delete metadata[key]
+      }
+    }
+    
+    saveAccountMetadata(email, metadata)
+    debug('account-manager', `Updated metadata for ${email}`)
+    return true
+  }
+  
   /**
    * Get account status
    */
@@ -101,6 +147,11 @@ export class AccountManager {
       return 'invalid'
     }
     
+    // Refresh token was rejected - only a new login helps
+    if (loadAccountMetadata(email)?.refreshFailure) {
+      return 'revoked'
+    }
+    
     // Check if token is expired
     const now = Date.now()
     if (now >= tokens.expiresAt - EXPIRY_BUFFER_MS) {
@@ -165,6 +216,9 @@ export class AccountManager {
         isActive: email === activeEmail,
         status,
         lastUsed: metadata?.lastUsed || null,
+        alias: metadata?.alias,
+        tags: metadata?.tags,
+        refreshFailure: metadata?.refreshFailure,
         cachedCredits
       }
     })
@@ -179,13 +233,17 @@ export class AccountManager {
     // Save tokens
     saveAccountTokens(email, tokens)
     
-    // Create metadata
+    // Create metadata (logging in again keeps alias, labels and tags, and clears a refresh failure)
     const now = new Date().toISOString()
+    const existing = loadAccountMetadata(email)
     const metadata: AccountMetadata = {
       email,
-      addedAt: now,
+      addedAt: existing?.addedAt ?? now,
       lastUsed: now
     }
+    if (existing?.alias) metadata.alias = existing.alias
+    if (existing?.labels) metadata.labels = existing.labels
+    if (existing?.tags) metadata.tags = existing.tags
     saveAccountMetadata(email, metadata)
     
     // Set as active account
@@ -5,7 +5,10 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, rmSync } from 'node:fs'
 import { join, basename } from 'node:path'
 import { getAccountsDir, getAccountDir } from '../core/env.js'
-import { debug } from '../core/logger.js'
+import { debug, warn } from '../core/logger.js'
+import { TokenEncryptionError, CredentialStoreError } from '../core/errors.js'
+import { isEncryptedTokenFile } from './encryption.js'
+import { getCredentialStore, FileCredentialStore } from './credential-store.js'
 import type { StoredTokens } from '../quota/types.js'
 import type { AccountMetadata, CachedQuota } from './types.js'
 
@@ -36,8 +39,7 @@ export function ensureAccountDir(email: string): void {
  * Check if an account exists
  */
 export function accountExists(email: string): boolean {
-  const dir = getAccountDir(email)
-  return existsSync(dir) && existsSync(join(dir, 'tokens.json'))
+  return existsSync(getAccountDir(email)) && getCredentialStore().has(email)
 }
 
 /**
@@ -50,17 +52,16 @@ export function listAccountEmails(): string[] {
     return []
   }
   
+  const store = getCredentialStore()
+  
   try {
     const entries = readdirSync(accountsDir, { withFileTypes: true })
     const emails: string[] = []
     
     for (const entry of entries) {
-      if (entry.isDirectory()) {
-        // Check if it has a tokens.json file
-        const tokensPath = join(accountsDir, entry.name, 'tokens.json')
-        if (existsSync(tokensPath)) {
-          emails.push(entry.name)
-        }
+      // Check that the store has tokens for it
+      if (entry.isDirectory() && store.has(entry.name)) {
+        emails.push(entry.name)
       }
     }
     
@@ -75,37 +76,54 @@ export function listAccountEmails(): string[] {
 // Token operations
 // ============================================================
 
+// Accounts already warned about unreadable tokens (warn once per process)
+const loadWarnings = new Set<string>()
+
 /**
- * Save tokens for an account
+ * Save tokens for an account through the configured credential store
+ * With the file store, tokens are encrypted when a passphrase or key file is configured (see encryption.ts).
+ * @param encrypt Write tokens.json encrypted or in plaintext regardless of config (used by accounts encrypt/decrypt)
  */
-export function saveAccountTokens(email: string, tokens: StoredTokens): void {
+export function saveAccountTokens(email: string, tokens: StoredTokens, encrypt?: boolean): void {
   ensureAccountDir(email)
-  const path = join(getAccountDir(email), 'tokens.json')
+  const store = encrypt === undefined ? getCredentialStore() : new FileCredentialStore(encrypt)
   
-  debug('accounts-storage', `Saving tokens for ${email}`)
-  writeFileSync(path, JSON.stringify(tokens, null, 2), { mode: 0o600 })
+  debug('accounts-storage', `Saving tokens for ${email} (${store.type} store)`)
+  store.store(email, tokens)
 }
 
 /**
- * Load tokens for an account
+ * Load tokens for an account from the configured credential store
  */
 export function loadAccountTokens(email: string): StoredTokens | null {
-  const path = join(getAccountDir(email), 'tokens.json')
-  
-  if (!existsSync(path)) {
-    debug('accounts-storage', `No tokens file for ${email}`)
-    return null
-  }
-  
   try {
-    const content = readFileSync(path, 'utf-8')
-    return JSON.parse(content) as StoredTokens
+    const tokens = getCredentialStore().get(email)
+    if (!tokens) {
+      debug('accounts-storage', `No tokens stored for ${email}`)
+    }
+    return tokens
   } catch (err) {
-    debug('accounts-storage', `Failed to parse tokens for ${email}`, err)
+    if ((err instanceof TokenEncryptionError || err instanceof CredentialStoreError) && !loadWarnings.has(email)) {
+      loadWarnings.add(email)
+      warn(`${email}: ${err.message}`)
+    }
+    debug('accounts-storage', `Failed to load tokens for ${email}`, err)
     return null
   }
 }
 
+/**
+ * Check whether an account's tokens are stored encrypted
+ */
+export function isAccountTokensEncrypted(email: string): boolean {
+  try {
+    const content = readFileSync(join(getAccountDir(email), 'tokens.json'), 'utf-8')
+    return isEncryptedTokenFile(JSON.parse(content))
+  } catch {
+    return false
+  }
+}
+
 // ============================================================
 // Metadata operations
 // ============================================================
@@ -151,6 +169,29 @@ export function updateLastUsed(email: string): void {
   }
 }
 
+/**
+ * Record that an account's refresh token was rejected
+ */
+export function markRefreshFailure(email: string, reason: string, at: Date = new Date()): void {
+  const now = at.toISOString()
+  const metadata = loadAccountMetadata(email) ?? { email, addedAt: now, lastUsed: now }
+  metadata.refreshFailure = { reason, at: now }
+  saveAccountMetadata(email, metadata)
+  debug('accounts-storage', `Marked refresh failure for ${email}: ${reason}`)
+}
+
+/**
+ * Clear a recorded refresh failure (after a successful refresh)
+ */
+export function clearRefreshFailure(email: string): void {
+  const metadata = loadAccountMetadata(email)
+  if (metadata?.refreshFailure) {
+    delete metadata.refreshFailure
+    saveAccountMetadata(email, metadata)
+    debug('accounts-storage', `Cleared refresh failure for ${email}`)
+  }
+}
+
 // ============================================================
 // Cache operations
 // ============================================================
@@ -216,6 +257,12 @@ export function deleteAccount(email: string): boolean {
     return false
   }
   
+  try {
+    getCredentialStore().erase(email)
+  } catch (err) {
+    warn(`${email}: ${err instanceof Error ? err.message : err}`)
+  }
+  
   try {
     rmSync(dir, { recursive: true, force: true })
     debug('accounts-storage', `Deleted account ${email}`)
@@ -3,6 +3,7 @@
  */
 
 import type { StoredTokens, QuotaSnapshot } from '../quota/types.js'
+import type { AlertsConfig } from '../alerts/types.js'
 
 /**
  * Global configuration stored in config.json
@@ -11,6 +12,25 @@ export interface GlobalConfig {
   version: string
   activeAccount: string | null
   preferences: ConfigPreferences
+  alerts?: AlertsConfig
+  credentialStore?: CredentialStoreConfig
+}
+
+/**
+ * Where account tokens are kept
+ * - file: tokens.json per account (encrypted when a token passphrase/key file is set)
+ * - encrypted: tokens.json per account, always encrypted (fails without a secret)
+ * - command: an external helper speaking a git-credential style get/store/erase protocol
+ */
+export type CredentialStoreType = 'file' | 'encrypted' | 'command'
+
+/**
+ * Credential store selection in config.json
+ */
+export interface CredentialStoreConfig {
+  type: CredentialStoreType
+  command?: string       // Helper command for type 'command'; the action is appended as an argument
+  timeoutMs?: number     // Helper timeout (default 30s)
 }
 
 /**
@@ -38,6 +58,18 @@ export interface AccountMetadata {
   email: string
   addedAt: string  // ISO date string
   lastUsed: string  // ISO date string
+  alias?: string                     // Short name accepted wherever an email is (e.g. "work")
+  labels?: Record<string, string>    // Free-form key/value notes (e.g. team=a)
+  tags?: string[]                    // Used to select groups of accounts (e.g. --tag team-a)
+  refreshFailure?: RefreshFailure    // Set when the refresh token was rejected; cleared by a successful refresh or login
+}
+
+/**
+ * A permanent token refresh failure (revoked or expired refresh token)
+ */
+export interface RefreshFailure {
+  reason: string
+  at: string  // ISO date string
 }
 
 /**
@@ -63,8 +95,9 @@ export interface AccountInfo {
 
 /**
  * Account status for display
+ * 'revoked' means the refresh token was rejected and the account needs a new login.
  */
-export type AccountStatus = 'valid' | 'expired' | 'invalid'
+export type AccountStatus = 'valid' | 'expired' | 'invalid' | 'revoked'
 
 /**
  * Account summary for list display
@@ -74,6 +107,9 @@ export interface AccountSummary {
   isActive: boolean
   status: AccountStatus
   lastUsed: string | null
+  alias?: string
+  tags?: string[]
+  refreshFailure?: RefreshFailure
   cachedCredits?: {
     used: number
     limit: number
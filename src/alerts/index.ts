@@ -0,0 +1,36 @@
+/**
+ * Threshold alerts module - barrel export
+ */
+
+// Types
+export * from './types.js'
+
+// Storage
+export {
+  loadAlertsConfig,
+  saveAlertsConfig,
+  loadAlertState,
+  saveAlertState
+} from './storage.js'
+
+// Rules
+export {
+  matchesModel,
+  evaluateSnapshotRules,
+  evaluateAccountRules,
+  selectAlertsToFire
+} from './rules.js'
+
+// Notifiers
+export {
+  sendNotification,
+  describeNotifier,
+  buildAlertEnv
+} from './notifiers.js'
+
+// Service
+export {
+  dispatchAlerts,
+  processSnapshotAlerts,
+  processAccountFailureAlerts
+} from './service.js'
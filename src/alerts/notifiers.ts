@@ -0,0 +1,110 @@
+/**
+ * Alert notifiers
+ * Deliver fired alerts to the desktop, a webhook, or a local shell hook
+ */
+
+import { exec, execFile } from 'child_process'
+import { promisify } from 'util'
+import { debug } from '../core/logger.js'
+import type { AlertEvent, NotifierConfig } from './types.js'
+
+const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
+
+const COMMAND_TIMEOUT_MS = 30000
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * Show a native desktop notification
+ */
+async function notifyDesktop(event: AlertEvent): Promise<void> {
+  if (process.platform === 'darwin') {
+    const script = `display notification ${JSON.stringify(event.message)} with title ${JSON.stringify(event.title)}`
+    await execFileAsync('osascript', ['-e', script], { timeout: COMMAND_TIMEOUT_MS })
+    return
+  }
+
+  if (process.platform === 'linux') {
+    await execFileAsync('notify-send', ['--app-name=antigravity-usage', event.title, event.message], {
+      timeout: COMMAND_TIMEOUT_MS
+    })
+    return
+  }
+
+  throw new Error(`Desktop notifications are not supported on ${process.platform}`)
+}
+
+/**
+ * POST the alert event as JSON
+ */
+async function notifyWebhook(url: string, headers: Record<string, string> | undefined, event: AlertEvent): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(event),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`)
+  }
+}
+
+/**
+ * Build the environment passed to shell hooks
+ */
+export function buildAlertEnv(event: AlertEvent): Record<string, string> {
+  const env: Record<string, string> = {
+    ANTIGRAVITY_ALERT_RULE: event.ruleId,
+    ANTIGRAVITY_ALERT_TYPE: event.type,
+    ANTIGRAVITY_ALERT_ACCOUNT: event.account,
+    ANTIGRAVITY_ALERT_TITLE: event.title,
+    ANTIGRAVITY_ALERT_MESSAGE: event.message,
+    ANTIGRAVITY_ALERT_JSON: JSON.stringify(event)
+  }
+  if (event.modelId) env.ANTIGRAVITY_ALERT_MODEL = event.modelId
+  if (event.value !== undefined) env.ANTIGRAVITY_ALERT_VALUE = String(event.value)
+  if (event.threshold !== undefined) env.ANTIGRAVITY_ALERT_THRESHOLD = String(event.threshold)
+  if (event.resetTime) env.ANTIGRAVITY_ALERT_RESET_TIME = event.resetTime
+  return env
+}
+
+/**
+ * Run a shell hook with the alert in its environment
+ */
+async function notifyShell(command: string, event: AlertEvent): Promise<void> {
+  await execAsync(command, {
+    env: { ...process.env, ...buildAlertEnv(event) },
+    timeout: COMMAND_TIMEOUT_MS
+  })
+}
+
+/**
+ * Deliver an alert through one notifier
+ */
+export async function sendNotification(notifier: NotifierConfig, event: AlertEvent): Promise<void> {
+  debug('alerts', `Sending ${event.ruleId} via ${notifier.type}`)
+
+  switch (notifier.type) {
+    case 'desktop':
+      return notifyDesktop(event)
+    case 'webhook':
+      return notifyWebhook(notifier.url, notifier.headers, event)
+    case 'shell':
+      return notifyShell(notifier.command, event)
+  }
+}
+
+/**
+ * Human-readable notifier description
+ */
+export function describeNotifier(notifier: NotifierConfig): string {
+  switch (notifier.type) {
+    case 'desktop':
+      return 'Desktop notification'
+    case 'webhook':
+      return `Webhook → ${notifier.url}`
+    case 'shell':
+      return `Shell → ${notifier.command}`
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Alert rule evaluation
+ * Pure functions: snapshot + rules in, candidates out; state in, events out
+ */
+
+import type { QuotaSnapshot } from '../quota/types.js'
+import type {
+  AlertRule,
+  AlertCandidate,
+  AlertEvent,
+  AlertState
+} from './types.js'
+
+function appliesToAccount(rule: AlertRule, email: string): boolean {
+  return !rule.account || rule.account === email
+}
+
+/**
+ * Check whether a rule's model pattern matches a model (case-insensitive substring)
+ */
+export function matchesModel(pattern: string | undefined, label: string, modelId: string): boolean {
+  if (!pattern) return true
+  const needle = pattern.toLowerCase()
+  return label.toLowerCase().includes(needle) || modelId.toLowerCase().includes(needle)
+}
+
+/**
+ * Evaluate quota rules (model and credit thresholds) against a snapshot
+ */
+export function evaluateSnapshotRules(
+  rules: AlertRule[],
+  email: string,
+  snapshot: QuotaSnapshot,
+  now: Date = new Date()
+): AlertCandidate[] {
+  const timestamp = now.toISOString()
+  const candidates: AlertCandidate[] = []
+
+  for (const rule of rules) {
+    if (!appliesToAccount(rule, email)) continue
+
+    if (rule.type === 'model_below') {
+      for (const model of snapshot.models) {
+        if (!matchesModel(rule.model, model.label, model.modelId)) continue
+
+        const percent = model.remainingPercentage !== undefined
+          ? model.remainingPercentage * 100
+          : (model.isExhausted ? 0 : undefined)
+        if (percent === undefined) continue
+
+        candidates.push({
+          key: `${rule.id}|${email}|${model.modelId}`,
+          cycle: model.resetTime ?? null,
+          active: percent < rule.threshold,
+          event: {
+            ruleId: rule.id,
+            type: rule.type,
+            account: email,
+            title: `${model.label} below ${rule.threshold}%`,
+            message: `${model.label} has ${Math.round(percent)}% quota remaining on ${email}`,
+            timestamp,
+            modelId: model.modelId,
+            label: model.label,
+            value: Math.round(percent * 10) / 10,
+            threshold: rule.threshold,
+            resetTime: model.resetTime
+          }
+        })
+      }
+    }
+
+    if (rule.type === 'credits_below' && snapshot.promptCredits) {
+      const available = snapshot.promptCredits.available
+      candidates.push({
+        key: `${rule.id}|${email}`,
+        cycle: null,
+        active: available < rule.threshold,
+        event: {
+          ruleId: rule.id,
+          type: rule.type,
+          account: email,
+          title: `Prompt credits below ${rule.threshold}`,
+          message: `${email} has ${available} prompt credits left`,
+          timestamp,
+          value: available,
+          threshold: rule.threshold
+        }
+      })
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Evaluate account rules against whether the account's tokens are usable
+ */
+export function evaluateAccountRules(
+  rules: AlertRule[],
+  email: string,
+  valid: boolean,
+  reason?: string,
+  now: Date = new Date()
+): AlertCandidate[] {
+  return rules
+    .filter(rule => rule.type === 'account_invalid' && appliesToAccount(rule, email))
+    .map(rule => ({
+      key: `${rule.id}|${email}`,
+      cycle: null,
+      active: !valid,
+      event: {
+        ruleId: rule.id,
+        type: rule.type,
+        account: email,
+        title: 'Account token invalid',
+        message: reason
+          ? `${email} needs to log in again: ${reason}`
+          : `${email} needs to log in again`,
+        timestamp: now.toISOString()
+      }
+    }))
+}
+
+/**
+ * Decide which candidates fire, given what already fired
+ *
+ * An active candidate fires once per reset cycle. Candidates without a
+ * tracked cycle (credits, account status) re-arm once the condition clears.
+ */
+export function selectAlertsToFire(
+  candidates: AlertCandidate[],
+  state: AlertState
+): { events: AlertEvent[]; state: AlertState } {
+  const next: AlertState = { ...state }
+  const events: AlertEvent[] = []
+
+  for (const candidate of candidates) {
+    const previous = next[candidate.key]
+
+    if (candidate.active) {
+      if (!previous || previous.cycle !== candidate.cycle) {
+        events.push(candidate.event)
+        next[candidate.key] = { cycle: candidate.cycle, firedAt: candidate.event.timestamp }
+      }
+    } else if (previous && (candidate.cycle === null || previous.cycle !== candidate.cycle)) {
+      delete next[candidate.key]
+    }
+  }
+
+  return { events, state: next }
+}
@@ -0,0 +1,66 @@
+/**
+ * Alert service
+ * Evaluates rules whenever a snapshot (or account failure) is produced and delivers new alerts
+ */
+
+import { debug } from '../core/logger.js'
+import { loadAlertsConfig, loadAlertState, saveAlertState } from './storage.js'
+import { evaluateSnapshotRules, evaluateAccountRules, selectAlertsToFire } from './rules.js'
+import { sendNotification } from './notifiers.js'
+import type { QuotaSnapshot } from '../quota/types.js'
+import type { AlertCandidate, AlertEvent, NotifierConfig } from './types.js'
+
+/**
+ * Deliver events through every notifier
+ * Failures are logged and never propagate to the caller
+ */
+export async function dispatchAlerts(events: AlertEvent[], notifiers: NotifierConfig[]): Promise<void> {
+  const deliveries = events.flatMap(event =>
+    notifiers.map(notifier => sendNotification(notifier, event))
+  )
+
+  const results = await Promise.allSettled(deliveries)
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      debug('alerts', 'Notifier failed:', result.reason)
+    }
+  }
+}
+
+async function processCandidates(candidates: AlertCandidate[], notifiers: NotifierConfig[]): Promise<AlertEvent[]> {
+  if (candidates.length === 0) return []
+
+  const { events, state } = selectAlertsToFire(candidates, loadAlertState())
+  saveAlertState(state)
+
+  if (events.length > 0) {
+    debug('alerts', `Firing ${events.length} alert(s)`)
+    await dispatchAlerts(events, notifiers)
+  }
+
+  return events
+}
+
+/**
+ * Evaluate alert rules for a freshly produced snapshot
+ * A successful snapshot also means the account is valid again
+ */
+export async function processSnapshotAlerts(email: string, snapshot: QuotaSnapshot): Promise<AlertEvent[]> {
+  const { rules, notifiers } = loadAlertsConfig()
+  if (rules.length === 0) return []
+
+  return processCandidates([
+    ...evaluateSnapshotRules(rules, email, snapshot),
+    ...evaluateAccountRules(rules, email, true)
+  ], notifiers)
+}
+
+/**
+ * Evaluate account rules after an authentication failure
+ */
+export async function processAccountFailureAlerts(email: string, reason?: string): Promise<AlertEvent[]> {
+  const { rules, notifiers } = loadAlertsConfig()
+  if (rules.length === 0) return []
+
+  return processCandidates(evaluateAccountRules(rules, email, false, reason), notifiers)
+}
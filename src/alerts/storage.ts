@@ -0,0 +1,64 @@
+/**
+ * Alert storage
+ * Rules and notifiers live in the global config; fired-alert state in alerts-state.json
+ */
+
+import { join } from 'path'
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs'
+import { debug } from '../core/logger.js'
+import { getConfigDir } from '../core/env.js'
+import { loadConfig, saveConfig } from '../accounts/config.js'
+import type { AlertsConfig, AlertState } from './types.js'
+
+const STATE_FILE_NAME = 'alerts-state.json'
+
+/**
+ * Load alert rules and notifiers from the global config
+ */
+export function loadAlertsConfig(): AlertsConfig {
+  const config = loadConfig()
+  return {
+    rules: config.alerts?.rules || [],
+    notifiers: config.alerts?.notifiers || []
+  }
+}
+
+/**
+ * Save alert rules and notifiers to the global config
+ */
+export function saveAlertsConfig(alerts: AlertsConfig): void {
+  const config = loadConfig()
+  config.alerts = alerts
+  saveConfig(config)
+  debug('alerts-storage', `Saved ${alerts.rules.length} rules, ${alerts.notifiers.length} notifiers`)
+}
+
+function getStatePath(): string {
+  return join(getConfigDir(), STATE_FILE_NAME)
+}
+
+/**
+ * Load fired-alert state
+ */
+export function loadAlertState(): AlertState {
+  const path = getStatePath()
+  try {
+    if (existsSync(path)) {
+      return JSON.parse(readFileSync(path, 'utf-8')) as AlertState
+    }
+  } catch (err) {
+    debug('alerts-storage', 'Error reading alert state:', err)
+  }
+  return {}
+}
+
+/**
+ * Save fired-alert state
+ */
+export function saveAlertState(state: AlertState): void {
+  const dir = getConfigDir()
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  writeFileSync(getStatePath(), JSON.stringify(state, null, 2), 'utf-8')
+}
@@ -0,0 +1,112 @@
+/**
+ * Threshold alert types
+ */
+
+/**
+ * Fields shared by all alert rules
+ */
+interface AlertRuleBase {
+  id: string
+  account?: string                   // Limit to one account (undefined = all accounts)
+}
+
+/**
+ * Fires when a model's remaining quota drops below a percentage
+ */
+export interface ModelAlertRule extends AlertRuleBase {
+  type: 'model_below'
+  model?: string                     // Label or model ID substring (undefined = any model)
+  threshold: number                  // Percent (0-100)
+}
+
+/**
+ * Fires when available prompt credits drop below a value
+ */
+export interface CreditsAlertRule extends AlertRuleBase {
+  type: 'credits_below'
+  threshold: number
+}
+
+/**
+ * Fires when an account's tokens can no longer be used
+ */
+export interface AccountAlertRule extends AlertRuleBase {
+  type: 'account_invalid'
+}
+
+export type AlertRule = ModelAlertRule | CreditsAlertRule | AccountAlertRule
+
+export type AlertRuleType = AlertRule['type']
+
+/**
+ * Desktop notification (osascript on macOS, notify-send on Linux)
+ */
+export interface DesktopNotifier {
+  type: 'desktop'
+}
+
+/**
+ * JSON POST of the alert event to a URL
+ */
+export interface WebhookNotifier {
+  type: 'webhook'
+  url: string
+  headers?: Record<string, string>
+}
+
+/**
+ * Local shell command, receives the alert via ANTIGRAVITY_ALERT_* env vars
+ */
+export interface ShellNotifier {
+  type: 'shell'
+  command: string
+}
+
+export type NotifierConfig = DesktopNotifier | WebhookNotifier | ShellNotifier
+
+export type NotifierType = NotifierConfig['type']
+
+/**
+ * Alert settings stored in config.json
+ */
+export interface AlertsConfig {
+  rules: AlertRule[]
+  notifiers: NotifierConfig[]
+}
+
+/**
+ * A fired alert, as delivered to notifiers
+ */
+export interface AlertEvent {
+  ruleId: string
+  type: AlertRuleType
+  account: string
+  title: string
+  message: string
+  timestamp: string
+  modelId?: string
+  label?: string
+  value?: number                     // Percent for model rules, credits for credit rules
+  threshold?: number
+  resetTime?: string
+}
+
+/**
+ * Result of evaluating one rule against one subject (model/account)
+ */
+export interface AlertCandidate {
+  key: string                        // Unique per rule + account (+ model)
+  cycle: string | null               // Reset cycle (model resetTime), null if untracked
+  active: boolean                    // Whether the rule's condition currently holds
+  event: AlertEvent
+}
+
+/**
+ * Record of fired alerts, used to fire each crossing once per reset cycle
+ */
+export interface AlertState {
+  [key: string]: {
+    cycle: string | null
+    firedAt: string
+  }
+}
@@ -2,14 +2,43 @@
  * Accounts command - manage multiple accounts
  */
 
-import { getAccountManager } from '../accounts/index.js'
+import { chmodSync, existsSync, readFileSync, writeFileSync } from 'node:fs'
+import inquirer from 'inquirer'
+import {
+  getAccountManager,
+  listAccountEmails,
+  loadAccountTokens,
+  saveAccountTokens,
+  isAccountTokensEncrypted,
+  isTokenEncryptionEnabled,
+  getTokenEncryptionSecret,
+  getCredentialStore,
+  TOKEN_PASSPHRASE_ENV,
+  TOKEN_KEY_FILE_ENV,
+  createAccountBundle,
+  serializeAccountBundle,
+  parseAccountBundle,
+  isEncryptedAccountBundle,
+  planAccountImport,
+  applyAccountImport,
+  ACCOUNT_CONFLICT_MODES,
+  BUNDLE_PASSPHRASE_ENV,
+  type AccountConflictMode,
+  type AccountImportPlanEntry
+} from '../accounts/index.js'
+import { rewriteLegacyTokens } from '../google/storage.js'
+import { refreshExpiringTokens, type TokenRefreshResult } from '../google/token-refresh.js'
+import { parseDuration, formatDuration } from '../core/duration.js'
+import { validateAlias, validateTag, parseLabelArg } from '../accounts/labels.js'
 import { startOAuthFlow } from '../google/oauth.js'
 import { getTokenManagerForAccount, resetTokenManager } from '../google/token-manager.js'
-import { renderAccountsTable } from '../render/table.js'
+import { renderAccountsTable, renderAccountRankingTable } from '../render/table.js'
+import { switchToBestAccount } from '../quota/ranking.js'
 import { success, warn, error as logError, info } from '../core/logger.js'
 
 interface ListOptions {
   refresh?: boolean
+  tag?: string
 }
 
 interface RemoveOptions {
@@ -18,6 +47,29 @@ interface RemoveOptions {
 
 interface RefreshOptions {
   all?: boolean
+  expiringWithin?: string
+}
+
+interface BestOptions {
+  model?: string
+  refresh?: boolean
+  json?: boolean
+}
+
+interface ExportOptions {
+  all?: boolean
+  out?: string
+  encrypt?: boolean
+}
+
+interface ImportOptions {
+  onConflict?: string
+  dryRun?: boolean
+  yes?: boolean
+}
+
+interface AliasOptions {
+  clear?: boolean
 }
 
 /**
@@ -25,7 +77,16 @@ interface RefreshOptions {
  */
 export function listAccountsCommand(options: ListOptions): void {
   const manager = getAccountManager()
-  const summaries = manager.getAccountSummaries()
+  let summaries = manager.getAccountSummaries()
+  
+  if (options.tag) {
+    const tagged = manager.getAccountsByTag(options.tag)
+    summaries = summaries.filter(summary => tagged.includes(summary.email))
+    if (summaries.length === 0) {
+      info(`No accounts tagged '${options.tag}'.`)
+      return
+    }
+  }
   
   renderAccountsTable(summaries)
   
@@ -152,6 +213,15 @@ export function currentAccountCommand(): void {
         const expiresAt = new Date(info.tokens.expiresAt).toLocaleString()
         console.log(`   Token expires: ${expiresAt}`)
       }
+      if (info.metadata?.alias) {
+        console.log(`   Alias: ${info.metadata.alias}`)
+      }
+      if (info.metadata?.tags?.length) {
+        console.log(`   Tags: ${info.metadata.tags.join(', ')}`)
+      }
+      for (const [key, value] of Object.entries(info.metadata?.labels ?? {})) {
+        console.log(`   ${key}: ${value}`)
+      }
     }
     console.log()
   } else {
@@ -170,12 +240,89 @@ export function currentAccountCommand(): void {
   }
 }
 
+/**
+ * Print one line of the token expiry report
+ */
+function printTokenRefreshResult(result: TokenRefreshResult, now: number): void {
+  const expires = result.expiresAt !== undefined
+    ? result.expiresAt > now ? `expires in ${formatDuration(result.expiresAt - now)}` : 'expired'
+    : ''
+
+  switch (result.status) {
+    case 'refreshed':
+      console.log(`  ✅ ${result.email} refreshed (${expires})`)
+      break
+    case 'valid':
+      console.log(`  ⏭️  ${result.email} still valid (${expires})`)
+      break
+    case 'revoked':
+      console.log(`  🚫 ${result.email} refresh token rejected${result.failedAt ? ` at ${new Date(result.failedAt).toLocaleString()}` : ''}: ${result.error}`)
+      break
+    case 'failed':
+      console.log(`  ❌ ${result.email}: ${result.error}`)
+      break
+  }
+}
+
+/**
+ * Refresh tokens that expire within a window and report expiry for each account
+ */
+async function refreshExpiringAccountsCommand(email: string | undefined, within: string): Promise<void> {
+  const manager = getAccountManager()
+
+  const withinMs = parseDuration(within)
+  if (withinMs === null) {
+    logError(`Invalid --expiring-within value: '${within}'. Use a duration like 30m, 2h or 1d.`)
+    process.exit(1)
+  }
+
+  if (email && !manager.hasAccount(email)) {
+    logError(`Account '${email}' not found.`)
+    process.exit(1)
+  }
+  const emails = email ? [email] : manager.getAccountEmails()
+  if (emails.length === 0) {
+    warn('No accounts to refresh.')
+    return
+  }
+
+  console.log(`\n🔄 Checking ${emails.length} account(s) for tokens expiring within ${formatDuration(withinMs)}...\n`)
+
+  const results = await refreshExpiringTokens(emails, withinMs)
+  resetTokenManager()
+
+  const now = Date.now()
+  for (const result of results) {
+    printTokenRefreshResult(result, now)
+  }
+
+  const refreshed = results.filter(r => r.status === 'refreshed').length
+  const revoked = results.filter(r => r.status === 'revoked').length
+  const failed = results.filter(r => r.status === 'failed').length
+
+  console.log()
+  if (revoked > 0) {
+    warn(`${revoked} account(s) need re-authentication. Run: antigravity-usage login`)
+  }
+  if (failed > 0) {
+    warn(`${failed} account(s) could not be refreshed. Try again later.`)
+  }
+  if (revoked === 0 && failed === 0) {
+    success(`${refreshed} refreshed, ${results.length - refreshed} still valid`)
+  }
+}
+
 /**
  * Refresh account tokens
  */
 export async function refreshAccountCommand(email: string | undefined, options: RefreshOptions): Promise<void> {
   const manager = getAccountManager()
   
+  if (options.expiringWithin !== undefined) {
+    await refreshExpiringAccountsCommand(options.all ? undefined : email, options.expiringWithin)
+    return
+  }
+  
   // Refresh all accounts
   if (options.all) {
     const emails = manager.getAccountEmails()
@@ -255,17 +402,428 @@ export async function refreshAccountCommand(email: string | undefined, options:
   }
 }
 
+/**
+ * Rank accounts by remaining quota and activate the best one
+ */
+export async function bestAccountCommand(options: BestOptions): Promise<void> {
+  const manager = getAccountManager()
+
+  if (manager.getAccountEmails().length === 0) {
+    info('No accounts found. Run `antigravity-usage login` to add one.')
+    return
+  }
+
+  const { rankings, best, switched } = await switchToBestAccount(options.model, options.refresh)
+
+  if (options.json) {
+    console.log(JSON.stringify({ best: best?.email || null, switched, rankings }, null, 2))
+  } else {
+    renderAccountRankingTable(rankings, options.model)
+  }
+
+  if (!best) {
+    logError(options.model
+      ? `No account has quota data for model "${options.model}".`
+      : 'No account has quota data.')
+    process.exit(1)
+  }
+
+  if (!options.json) {
+    if (switched) {
+      success(`Switched to account: ${best.email}`)
+    } else {
+      info(`Already using the best account: ${best.email}`)
+    }
+  }
+}
+
+/**
+ * Check that tokens live in files and an encryption secret is configured (and readable), exiting otherwise
+ */
+function requireTokenSecret(): void {
+  try {
+    if (getCredentialStore().type === 'command') {
+      logError('Tokens are kept by the credential helper (credentialStore.type "command"); nothing to migrate.')
+      process.exit(1)
+    }
+    if (getTokenEncryptionSecret()) {
+      return
+    }
+  } catch (err) {
+    logError(err instanceof Error ? err.message : String(err))
+    process.exit(1)
+  }
+  logError(`Token encryption is not configured. Set ${TOKEN_PASSPHRASE_ENV} or ${TOKEN_KEY_FILE_ENV}.`)
+  process.exit(1)
+}
+
+/**
+ * Rewrite every stored tokens file encrypted or in plaintext
+ */
+function migrateTokens(encrypt: boolean): void {
+  const verb = encrypt ? 'Encrypted' : 'Decrypted'
+  let changed = 0
+  let unchanged = 0
+  let failed = 0
+
+  for (const email of listAccountEmails()) {
+    if (isAccountTokensEncrypted(email) === encrypt) {
+      unchanged++
+      continue
+    }
+    const tokens = loadAccountTokens(email)
+    if (!tokens) {
+      logError(`${email}: could not read tokens`)
+      failed++
+      continue
+    }
+    saveAccountTokens(email, tokens, encrypt)
+    changed++
+  }
+
+  // Legacy single-account tokens file
+  try {
+    if (rewriteLegacyTokens(encrypt)) {
+      changed++
+    }
+  } catch (err) {
+    logError(`Legacy tokens file: ${err instanceof Error ? err.message : err}`)
+    failed++
+  }
+
+  if (changed > 0) {
+    success(`${verb} ${changed} tokens file(s)`)
+  }
+  if (unchanged > 0) {
+    info(`${unchanged} account(s) already ${encrypt ? 'encrypted' : 'in plaintext'}`)
+  }
+  if (changed === 0 && unchanged === 0 && failed === 0) {
+    info('No stored tokens found.')
+  }
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Encrypt all stored tokens with the configured passphrase or key file
+ */
+export function encryptAccountsCommand(): void {
+  requireTokenSecret()
+  migrateTokens(true)
+}
+
+/**
+ * Decrypt all stored tokens back to plaintext
+ */
+export function decryptAccountsCommand(): void {
+  requireTokenSecret()
+  migrateTokens(false)
+
+  if (isTokenEncryptionEnabled()) {
+    warn(`Unset ${TOKEN_PASSPHRASE_ENV} / ${TOKEN_KEY_FILE_ENV}, or tokens will be encrypted again the next time they are saved.`)
+  }
+}
+
+/**
+ * Get the bundle passphrase from the environment, or prompt for it
+ */
+async function getBundlePassphrase(confirm: boolean): Promise<string> {
+  const fromEnv = process.env[BUNDLE_PASSPHRASE_ENV]
+  if (fromEnv) {
+    return fromEnv
+  }
+  if (!process.stdin.isTTY) {
+    logError(`A passphrase is required. Set ${BUNDLE_PASSPHRASE_ENV} when not running interactively.`)
+    process.exit(1)
+  }
+
+  const { passphrase } = await inquirer.prompt([{
+    type: 'password',
+    name: 'passphrase',
+    message: 'Bundle passphrase:',
+    mask: '*',
+    validate: (val: string) => val.length > 0 || 'Passphrase cannot be empty'
+  }])
+  if (confirm) {
+    const { repeated } = await inquirer.prompt([{
+      type: 'password',
+      name: 'repeated',
+      message: 'Repeat passphrase:',
+      mask: '*'
+    }])
+    if (repeated !== passphrase) {
+      logError('Passphrases do not match.')
+      process.exit(1)
+    }
+  }
+  return passphrase
+}
+
+/**
+ * Export accounts to a bundle file
+ */
+export async function exportAccountsCommand(email: string | undefined, options: ExportOptions): Promise<void> {
+  const manager = getAccountManager()
+
+  if (!options.out) {
+    logError('Please specify the bundle file with --out <file>.')
+    process.exit(1)
+  }
+
+  let emails: string[]
+  if (options.all) {
+    emails = manager.getAccountEmails()
+  } else {
+    const target = email ?? manager.getActiveEmail()
+    if (!target) {
+      logError('No active account. Specify an email or use --all.')
+      process.exit(1)
+    }
+    if (!manager.hasAccount(target)) {
+      logError(`Account '${target}' not found.`)
+      process.exit(1)
+    }
+    emails = [target]
+  }
+
+  if (emails.length === 0) {
+    info('No accounts found. Run `antigravity-usage login` to add one.')
+    return
+  }
+
+  const passphrase = options.encrypt ? await getBundlePassphrase(true) : undefined
+  const { bundle, skipped } = createAccountBundle(emails)
+
+  for (const skippedEmail of skipped) {
+    warn(`${skippedEmail}: tokens could not be read, not exported`)
+  }
+  if (bundle.accounts.length === 0) {
+    logError('Nothing to export.')
+    process.exit(1)
+  }
+
+  // mode only applies to new files, so restrict an existing one before the tokens go in
+  if (existsSync(options.out)) {
+    chmodSync(options.out, 0o600)
+  }
+  writeFileSync(options.out, serializeAccountBundle(bundle, passphrase), { mode: 0o600 })
+  success(`Exported ${bundle.accounts.length} account(s) to ${options.out}`)
+  if (!passphrase) {
+    warn('The bundle contains plaintext tokens. Keep it private, or use --encrypt.')
+  }
+}
+
+function printImportPlan(plan: AccountImportPlanEntry[], exportedAt: string): void {
+  console.log(`\nBundle exported ${new Date(exportedAt).toLocaleString()} with ${plan.length} account(s):`)
+  for (const entry of plan) {
+    const extras = [entry.hasCache && 'cache', entry.hasWakeupState && 'wake-up state'].filter(Boolean).join(', ')
+    const detail = extras ? ` + ${extras}` : ''
+    switch (entry.action) {
+      case 'add':
+        console.log(`  + ${entry.email} (new${detail})`)
+        break
+      case 'overwrite':
+        console.log(`  ~ ${entry.email} (exists, will be overwritten${detail})`)
+        break
+      case 'skip':
+        console.log(`  - ${entry.email} (exists, skipped)`)
+        break
+    }
+    if (entry.aliasConflict) {
+      console.log(`    alias already used by ${entry.aliasConflict}, will not be imported`)
+    }
+  }
+  console.log()
+}
+
+/**
+ * Import accounts from a bundle file
+ */
+export async function importAccountsCommand(file: string, options: ImportOptions): Promise<void> {
+  const onConflict = (options.onConflict ?? 'skip') as AccountConflictMode
+  if (!ACCOUNT_CONFLICT_MODES.includes(onConflict)) {
+    logError(`Invalid --on-conflict value: '${options.onConflict}'. Use ${ACCOUNT_CONFLICT_MODES.join(' or ')}.`)
+    process.exit(1)
+  }
+  if (!existsSync(file)) {
+    logError(`Bundle file not found: ${file}`)
+    process.exit(1)
+  }
+
+  const content = readFileSync(file, 'utf-8')
+  let bundle
+  try {
+    const passphrase = isEncryptedAccountBundle(content) ? await getBundlePassphrase(false) : undefined
+    bundle = parseAccountBundle(content, passphrase)
+  } catch (err) {
+    logError(err instanceof Error ? err.message : String(err))
+    process.exit(1)
+  }
+
+  const plan = planAccountImport(bundle, onConflict)
+  printImportPlan(plan, bundle.exportedAt)
+
+  const toImport = plan.filter(entry => entry.action !== 'skip')
+  if (options.dryRun) {
+    info(`Dry run: ${toImport.length} account(s) would be imported.`)
+    return
+  }
+  if (toImport.length === 0) {
+    info('Nothing to import. Use --on-conflict overwrite to replace existing accounts.')
+    return
+  }
+
+  if (!options.yes && process.stdin.isTTY) {
+    const { confirmed } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'confirmed',
+      message: `Import ${toImport.length} account(s)?`,
+      default: true
+    }])
+    if (!confirmed) {
+      info('Import cancelled.')
+      return
+    }
+  }
+
+  const imported = applyAccountImport(bundle, plan)
+  success(`Imported ${imported.length} account(s)`)
+  for (const entry of toImport.filter(entry => entry.aliasConflict)) {
+    warn(`Alias of ${entry.email} not imported: already used by ${entry.aliasConflict}. Set another with 'accounts alias'.`)
+  }
+
+  const manager = getAccountManager()
+  if (!manager.getActiveEmail() && imported.length > 0) {
+    manager.setActiveAccount(imported[0])
+    info(`Active account: ${imported[0]}`)
+  }
+}
+
+/**
+ * Exit unless an account exists
+ */
+function requireAccount(email: string): void {
+  if (!getAccountManager().hasAccount(email)) {
+    logError(`Account '${email}' not found.`)
+    process.exit(1)
+  }
+}
+
+/**
+ * Set or clear an account's alias
+ */
+export function aliasAccountCommand(email: string, alias: string | undefined, options: AliasOptions): void {
+  const manager = getAccountManager()
+  requireAccount(email)
+
+  if (options.clear || !alias) {
+    if (!options.clear) {
+      logError('Please specify an alias, or use --clear to remove it.')
+      console.log('Usage: antigravity-usage accounts alias <account> <alias>')
+      process.exit(1)
+    }
+    manager.updateMetadata(email, { alias: undefined })
+    success(`Removed alias of ${email}`)
+    return
+  }
+
+  const invalid = validateAlias(alias)
+  if (invalid) {
+    logError(invalid)
+    process.exit(1)
+  }
+  const owner = manager.resolveAccount(alias)
+  if (owner && owner !== email) {
+    logError(`Alias '${alias}' is already used by ${owner}.`)
+    process.exit(1)
+  }
+
+  manager.updateMetadata(email, { alias })
+  success(`${email} is now '${alias}'`)
+}
+
+/**
+ * Set (key=value) or remove (key=) labels on an account
+ */
+export function labelAccountCommand(email: string, labelArgs: string[]): void {
+  const manager = getAccountManager()
+  requireAccount(email)
+
+  const labels = { ...manager.getAccountInfo(email)?.metadata?.labels }
+  for (const arg of labelArgs) {
+    const parsed = parseLabelArg(arg)
+    if ('error' in parsed) {
+      logError(parsed.error)
+      process.exit(1)
+    }
+    if (parsed.value === null) {
+      delete labels[parsed.key]
+    } else {
+      labels[parsed.key] = parsed.value
+    }
+  }
+
+  manager.updateMetadata(email, { labels: Object.keys(labels).length > 0 ? labels : undefined })
+  const summary = Object.entries(labels).map(([key, value]) => `${key}=${value}`).join(', ')
+  success(`Labels of ${email}: ${summary || 'none'}`)
+}
+
+/**
+ * Add or remove tags on an account
+ */
+export function tagAccountCommand(email: string, tagArgs: string[], remove: boolean): void {
+  const manager = getAccountManager()
+  requireAccount(email)
+
+  for (const tag of tagArgs) {
+    const invalid = validateTag(tag)
+    if (invalid) {
+      logError(invalid)
+      process.exit(1)
+    }
+  }
+
+  const current = manager.getAccountInfo(email)?.metadata?.tags ?? []
+  const lower = tagArgs.map(tag => tag.toLowerCase())
+  const tags = remove
+    ? current.filter(tag => !lower.includes(tag.toLowerCase()))
+    : [...current, ...tagArgs.filter(tag => !current.some(t => t.toLowerCase() === tag.toLowerCase()))]
+
+  manager.updateMetadata(email, { tags: tags.length > 0 ? tags : undefined })
+  success(`Tags of ${email}: ${tags.join(', ') || 'none'}`)
+}
+
 /**
  * Main accounts command handler - dispatches to subcommands
  */
 export async function accountsCommand(
   subcommand: string,
   args: string[],
-  options: { refresh?: boolean; force?: boolean; all?: boolean }
+  options: {
+    refresh?: boolean
+    force?: boolean
+    all?: boolean
+    model?: string
+    json?: boolean
+    out?: string
+    encrypt?: boolean
+    onConflict?: string
+    dryRun?: boolean
+    yes?: boolean
+    tag?: string
+    clear?: boolean
+    expiringWithin?: string
+  }
 ): Promise<void> {
+  // Accept an alias wherever an account email is expected (the import argument is a file)
+  if (args[0] && subcommand !== 'import') {
+    args = [getAccountManager().resolveAccount(args[0]) ?? args[0], ...args.slice(1)]
+  }
+
   switch (subcommand) {
     case 'list':
-      listAccountsCommand({ refresh: options.refresh })
+      listAccountsCommand({ refresh: options.refresh, tag: options.tag })
       break
       
     case 'add':
@@ -295,7 +853,45 @@ export async function accountsCommand(
       break
       
     case 'refresh':
-      await refreshAccountCommand(args[0], { all: options.all })
+      await refreshAccountCommand(args[0], { all: options.all, expiringWithin: options.expiringWithin })
+      break
+
+    case 'best':
+      await bestAccountCommand({ model: options.model, refresh: options.refresh, json: options.json })
+      break
+
+    case 'encrypt':
+      encryptAccountsCommand()
+      break
+
+    case 'decrypt':
+      decryptAccountsCommand()
+      break
+
+    case 'export':
+      await exportAccountsCommand(args[0], { all: options.all, out: options.out, encrypt: options.encrypt })
+      break
+
+    case 'import':
+      if (!args[0]) {
+        logError('Please specify a bundle file to import.')
+        console.log('Usage: antigravity-usage accounts import <file>')
+        process.exit(1)
+      }
+      await importAccountsCommand(args[0], { onConflict: options.onConflict, dryRun: options.dryRun, yes: options.yes })
+      break
+
+    case 'alias':
+      aliasAccountCommand(args[0], args[1], { clear: options.clear })
+      break
+
+    case 'label':
+      labelAccountCommand(args[0], args.slice(1))
+      break
+
+    case 'tag':
+    case 'untag':
+      tagAccountCommand(args[0], args.slice(1), subcommand === 'untag')
       break
       
     default:
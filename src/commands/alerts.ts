@@ -0,0 +1,227 @@
+/**
+ * Alerts command - manage threshold alert rules and notifiers
+ */
+
+import Table from 'cli-table3'
+import {
+  loadAlertsConfig,
+  saveAlertsConfig,
+  describeNotifier,
+  dispatchAlerts,
+  type AlertRule,
+  type NotifierConfig,
+  type NotifierType
+} from '../alerts/index.js'
+import { success, error as logError, info } from '../core/logger.js'
+
+interface AddRuleOptions {
+  model?: string
+  below?: string
+  creditsBelow?: string
+  accountInvalid?: boolean
+  account?: string
+}
+
+interface NotifyOptions {
+  header?: string[]
+}
+
+const NOTIFIER_TYPES: NotifierType[] = ['desktop', 'webhook', 'shell']
+
+/**
+ * Describe a rule's condition for display
+ */
+export function describeRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'model_below':
+      return `${rule.model ? `"${rule.model}" models` : 'Any model'} below ${rule.threshold}%`
+    case 'credits_below':
+      return `Prompt credits below ${rule.threshold}`
+    case 'account_invalid':
+      return 'Account token invalid'
+  }
+}
+
+function nextRuleId(rules: AlertRule[]): string {
+  const max = rules.reduce((acc, rule) => Math.max(acc, parseInt(rule.id, 10) || 0), 0)
+  return String(max + 1)
+}
+
+function parseNumber(value: string, name: string): number {
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    logError(`Invalid ${name}: ${value}`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+/**
+ * List rules and notifiers
+ */
+export function listAlertsCommand(): void {
+  const { rules, notifiers } = loadAlertsConfig()
+
+  if (rules.length === 0) {
+    info('\n🔔 No alert rules configured.')
+    info('   Add one: antigravity-usage alerts add --model claude --below 20\n')
+  } else {
+    info('\n🔔 Alert Rules\n')
+    const table = new Table({
+      head: ['ID', 'Condition', 'Account'],
+      style: { head: ['cyan'] }
+    })
+    for (const rule of rules) {
+      table.push([rule.id, describeRule(rule), rule.account || 'All'])
+    }
+    info(table.toString())
+  }
+
+  if (notifiers.length === 0) {
+    info('\n📭 No notifiers configured. Alerts will not be delivered.')
+    info('   Add one: antigravity-usage alerts notify desktop\n')
+  } else {
+    info('\n📬 Notifiers\n')
+    notifiers.forEach((notifier, index) => info(`   ${index + 1}. ${describeNotifier(notifier)}`))
+    info('')
+  }
+}
+
+/**
+ * Add an alert rule
+ */
+export function addAlertCommand(options: AddRuleOptions): void {
+  const alerts = loadAlertsConfig()
+  const id = nextRuleId(alerts.rules)
+  const account = options.account
+
+  let rule: AlertRule
+  if (options.accountInvalid) {
+    rule = { id, type: 'account_invalid', account }
+  } else if (options.creditsBelow !== undefined) {
+    rule = { id, type: 'credits_below', threshold: parseNumber(options.creditsBelow, 'credit threshold'), account }
+  } else if (options.below !== undefined) {
+    const threshold = parseNumber(options.below, 'percentage')
+    if (threshold > 100) {
+      logError('Percentage must be between 0 and 100')
+      process.exit(1)
+    }
+    rule = { id, type: 'model_below', model: options.model, threshold, account }
+  } else {
+    logError('Specify a condition: --below <percent> [--model <name>], --credits-below <n> or --account-invalid')
+    process.exit(1)
+  }
+
+  alerts.rules.push(rule)
+  saveAlertsConfig(alerts)
+  success(`Added rule ${id}: ${describeRule(rule)}${account ? ` (${account})` : ''}`)
+
+  if (alerts.notifiers.length === 0) {
+    info('   No notifiers yet. Add one: antigravity-usage alerts notify desktop')
+  }
+}
+
+/**
+ * Remove an alert rule by ID
+ */
+export function removeAlertCommand(id: string): void {
+  const alerts = loadAlertsConfig()
+  const rule = alerts.rules.find(r => r.id === id)
+
+  if (!rule) {
+    logError(`Rule not found: ${id}`)
+    process.exit(1)
+  }
+
+  alerts.rules = alerts.rules.filter(r => r.id !== id)
+  saveAlertsConfig(alerts)
+  success(`Removed rule ${id}: ${describeRule(rule)}`)
+}
+
+/**
+ * Add a notifier
+ */
+export function addNotifierCommand(type: string, target: string | undefined, options: NotifyOptions): void {
+  if (!NOTIFIER_TYPES.includes(type as NotifierType)) {
+    logError(`Unknown notifier type: ${type}. Use one of: ${NOTIFIER_TYPES.join(', ')}`)
+    process.exit(1)
+  }
+
+  let notifier: NotifierConfig
+  if (type === 'webhook') {
+    if (!target) {
+      logError('Webhook URL required: antigravity-usage alerts notify webhook <url>')
+      process.exit(1)
+    }
+    try {
+      new URL(target)
+    } catch {
+      logError(`Invalid URL: ${target}`)
+      process.exit(1)
+    }
+
+    const headers: Record<string, string> = {}
+    for (const header of options.header || []) {
+      const separator = header.indexOf(':')
+      if (separator <= 0) {
+        logError(`Invalid header (expected "Name: value"): ${header}`)
+        process.exit(1)
+      }
+      headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim()
+    }
+    notifier = { type: 'webhook', url: target, ...(Object.keys(headers).length > 0 ? { headers } : {}) }
+  } else if (type === 'shell') {
+    if (!target) {
+      logError('Command required: antigravity-usage alerts notify shell "<command>"')
+      process.exit(1)
+    }
+    notifier = { type: 'shell', command: target }
+  } else {
+    notifier = { type: 'desktop' }
+  }
+
+  const alerts = loadAlertsConfig()
+  alerts.notifiers.push(notifier)
+  saveAlertsConfig(alerts)
+  success(`Added notifier: ${describeNotifier(notifier)}`)
+}
+
+/**
+ * Remove a notifier by its 1-based list position
+ */
+export function removeNotifierCommand(position: string): void {
+  const alerts = loadAlertsConfig()
+  const index = parseInt(position, 10) - 1
+
+  if (isNaN(index) || index < 0 || index >= alerts.notifiers.length) {
+    logError(`Notifier not found: ${position}`)
+    process.exit(1)
+  }
+
+  const [removed] = alerts.notifiers.splice(index, 1)
+  saveAlertsConfig(alerts)
+  success(`Removed notifier: ${describeNotifier(removed)}`)
+}
+
+/**
+ * Send a test alert through every notifier
+ */
+export async function testAlertsCommand(): Promise<void> {
+  const { notifiers } = loadAlertsConfig()
+
+  if (notifiers.length === 0) {
+    logError('No notifiers configured. Add one: antigravity-usage alerts notify desktop')
+    process.exit(1)
+  }
+
+  await dispatchAlerts([{
+    ruleId: 'test',
+    type: 'model_below',
+    account: 'test@example.com',
+    title: 'antigravity-usage test alert',
+    message: 'If you can read this, alert delivery works.',
+    timestamp: new Date().toISOString()
+  }], notifiers)
+
+  success(`Sent test alert to ${notifiers.length} notifier(s). Use --debug to see delivery errors.`)
+}
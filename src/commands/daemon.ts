@@ -0,0 +1,46 @@
+/**
+ * Daemon command - local REST/JSON API for quota and wake-up triggers
+ */
+
+import { startApiServer, loadOrCreateApiToken, getApiTokenPath } from '../server/index.js'
+import { error as logError, info } from '../core/logger.js'
+
+interface DaemonOptions {
+  port?: string
+  host?: string
+}
+
+const DEFAULT_API_PORT = 9465
+const DEFAULT_HOST = '127.0.0.1'
+
+export async function daemonCommand(options: DaemonOptions): Promise<void> {
+  const port = options.port ? parseInt(options.port, 10) : DEFAULT_API_PORT
+  if (isNaN(port) || port < 0 || port > 65535) {
+    logError(`Invalid port: ${options.port}`)
+    process.exit(1)
+  }
+  const host = options.host || DEFAULT_HOST
+
+  try {
+    loadOrCreateApiToken()
+    await startApiServer({ port, host })
+  } catch (err) {
+    logError(`Failed to start daemon: ${err instanceof Error ? err.message : err}`)
+    process.exit(1)
+  }
+
+  const base = `http://${host}:${port}`
+  info(`🛰️  antigravity-usage daemon listening on ${base}`)
+  info(`   GET  ${base}/accounts`)
+  info(`   GET  ${base}/accounts/:email/quota`)
+  info(`   GET  ${base}/quota`)
+  info(`   POST ${base}/wakeup/trigger  (Authorization: Bearer <token from ${getApiTokenPath()}>)`)
+  info('   Press Ctrl+C to stop.')
+
+  const stop = (): void => {
+    info('\nStopping daemon.')
+    process.exit(0)
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+}
@@ -6,6 +6,8 @@ import { getTokenManager } from '../google/token-manager.js'
 import { getStorageInfo } from '../google/storage.js'
 import { getConfigDir, getPlatform } from '../core/env.js'
 import { maskEmail } from '../core/mask.js'
+import { isTokenEncryptionEnabled, TOKEN_KEY_FILE_ENV } from '../accounts/encryption.js'
+import { loadConfig } from '../accounts/config.js'
 import { version } from '../version'
 
 export function doctorCommand(): void {
@@ -29,6 +31,10 @@ export function doctorCommand(): void {
   console.log(`  Config dir: ${storage.configDir}`)
   console.log(`  Tokens file: ${storage.tokensPath}`)
   console.log(`  Tokens exist: ${storage.exists ? 'Yes' : 'No'}`)
+  console.log(`  Credential store: ${loadConfig().credentialStore?.type ?? 'file'}`)
+  console.log(`  Token encryption: ${isTokenEncryptionEnabled()
+    ? `On (${process.env[TOKEN_KEY_FILE_ENV] ? 'key file' : 'passphrase'})`
+    : 'Off'}`)
   console.log()
   
   // Auth status
@@ -0,0 +1,102 @@
+/**
+ * History command - query recorded quota snapshots
+ */
+
+import Table from 'cli-table3'
+import { queryQuotaHistory, type HistoryQuery } from '../history/index.js'
+import { parseTimeArg } from '../core/duration.js'
+import { error as logError, info } from '../core/logger.js'
+
+interface HistoryOptions {
+  account?: string
+  model?: string
+  since?: string
+  until?: string
+  limit?: string
+  json?: boolean
+}
+
+/**
+ * Format a remaining fraction (0-1) as a percentage
+ */
+function formatRemaining(remaining: number | undefined, isExhausted: boolean): string {
+  if (isExhausted) return 'EXHAUSTED'
+  if (remaining === undefined) return 'N/A'
+  return `${Math.round(remaining * 100)}%`
+}
+
+/**
+ * Parse --since/--until, exiting with an error on bad input
+ */
+function parseTimeOption(name: string, value: string | undefined): Date | undefined {
+  if (!value) return undefined
+
+  const date = parseTimeArg(value)
+  if (!date) {
+    logError(`Invalid --${name} value: '${value}'. Use a date (2026-01-15) or a duration (7d, 12h).`)
+    process.exit(1)
+  }
+  return date
+}
+
+export function historyCommand(options: HistoryOptions): void {
+  const query: HistoryQuery = {
+    email: options.account,
+    modelId: options.model,
+    since: parseTimeOption('since', options.since),
+    until: parseTimeOption('until', options.until)
+  }
+
+  if (options.limit) {
+    const limit = parseInt(options.limit, 10)
+    if (isNaN(limit) || limit <= 0) {
+      logError(`Invalid --limit value: '${options.limit}'`)
+      process.exit(1)
+    }
+    query.limit = limit
+  }
+
+  const entries = queryQuotaHistory(query)
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2))
+    return
+  }
+
+  if (entries.length === 0) {
+    console.log('\n📜 No quota history recorded for this filter.')
+    info('\n💡 History is recorded every time `antigravity-usage quota` fetches fresh data.\n')
+    return
+  }
+
+  console.log(`\n📜 Quota History (${entries.length} snapshot${entries.length === 1 ? '' : 's'})\n`)
+
+  const table = new Table({
+    head: ['Time', 'Account', 'Model', 'Remaining', 'Resets At', 'Credits'],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  })
+
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).toLocaleString()
+    const credits = entry.promptCredits
+      ? `${entry.promptCredits.available} / ${entry.promptCredits.monthly}`
+      : '-'
+
+    for (const model of entry.models) {
+      table.push([
+        time,
+        entry.email,
+        model.label,
+        formatRemaining(model.remainingPercentage, model.isExhausted),
+        model.resetTime ? new Date(model.resetTime).toLocaleString() : '-',
+        credits
+      ])
+    }
+  }
+
+  console.log(table.toString())
+  console.log()
+}
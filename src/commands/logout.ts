@@ -10,8 +10,10 @@ interface LogoutOptions {
   all?: boolean
 }
 
-export function logoutCommand(options: LogoutOptions, email?: string): void {
+export function logoutCommand(options: LogoutOptions, account?: string): void {
   const manager = getAccountManager()
+  // Accept an alias in place of the email
+  const email = account ? manager.resolveAccount(account) ?? account : undefined
   
   // Logout all accounts
   if (options.all) {
@@ -4,10 +4,22 @@
 
 import { fetchQuota, type QuotaMethod } from '../quota/service.js'
 import { printQuotaTable, printQuotaJson } from '../quota/format.js'
-import { getTokenManager, getTokenManagerForAccount, resetTokenManager } from '../google/token-manager.js'
-import { getAccountManager, saveCache, isCacheValid, loadCache, getCacheAge } from '../accounts/index.js'
+import { fetchQuotaForAccount, persistSnapshot, recordSnapshot, recordFetchFailure } from '../quota/accounts.js'
+import { getTokenManager, getTokenManagerForAccount } from '../google/token-manager.js'
+import { getAccountManager, isCacheValid, loadCache, getCacheAge } from '../accounts/index.js'
 import { renderAllQuotaTable, type AllAccountsQuotaResult } from '../render/index.js'
-import { error as logError, debug, info } from '../core/logger.js'
+import { attachForecasts } from '../quota/forecast.js'
+import { switchToBestAccount } from '../quota/ranking.js'
+import {
+  formatSnapshot,
+  formatAllAccounts,
+  parseOutputFormat,
+  OUTPUT_FORMATS,
+  type OutputFormat
+} from '../quota/export.js'
+import { diffSnapshots, getMinRemaining, ageSnapshot } from '../quota/diff.js'
+import { error as logError, debug, info, warn } from '../core/logger.js'
+import type { QuotaSnapshot } from '../quota/types.js'
 import {
   NotLoggedInError,
   AuthenticationError,
@@ -22,26 +34,92 @@ import {
 
 interface QuotaOptions {
   json?: boolean
+  format?: string
   method?: QuotaMethod
   all?: boolean
   account?: string
   refresh?: boolean
   allModels?: boolean
+  watch?: boolean | string
+  autoSwitch?: boolean
+  model?: string
+  group?: boolean
+  tag?: string
 }
 
+// Watch mode refresh interval bounds (seconds)
+const DEFAULT_WATCH_INTERVAL_SECONDS = 60
+const MIN_WATCH_INTERVAL_SECONDS = 10
+
+// ANSI sequences for in-place redraw
+const CLEAR_SCREEN = '\x1b[H\x1b[2J'
+const HIDE_CURSOR = '\x1b[?25l'
+const SHOW_CURSOR = '\x1b[?25h'
+
 /**
- * Fetch quota for a single account
+ * Fetch, persist and forecast the snapshot for a single account
+ * Throws on fetch errors so callers decide how to report them
  */
-async function fetchSingleAccountQuota(options: QuotaOptions): Promise<void> {
-  // Determine which account to use
+async function loadSingleAccountSnapshot(options: QuotaOptions, method: QuotaMethod): Promise<QuotaSnapshot> {
   const manager = getAccountManager()
   const accountEmail = options.account || manager.getActiveEmail()
   const originalActiveEmail = manager.getActiveEmail()
 
-  // Force google method when --account is specified
+  // Temporarily switch to the target account if needed
+  let accountSwitched = false
+
+  if (options.account && options.account !== originalActiveEmail) {
+    debug('quota', `Temporarily switching to account ${options.account} for fetch`)
+    manager.setActiveAccount(options.account)
+    accountSwitched = true
+  }
+
+  try {
+    debug('quota', `Fetching quota via ${method} method...`)
+
+    let snapshot: QuotaSnapshot
+    try {
+      snapshot = await fetchQuota(method)
+    } catch (err) {
+      if (accountEmail) {
+        await recordFetchFailure(accountEmail, err)
+      }
+      throw err
+    }
+
+    // Cache the result if we have an account email
+    // (history is still recorded for IDE accounts that were never logged in)
+    if (accountEmail) {
+      await persistSnapshot(accountEmail, snapshot)
+    } else if (snapshot.email) {
+      await recordSnapshot(snapshot.email, snapshot)
+    }
+
+    // Add burn-rate forecasts from the account's history
+    const historyEmail = accountEmail || snapshot.email
+    if (historyEmail) {
+      snapshot = attachForecasts(historyEmail, snapshot)
+    }
+
+    return snapshot
+  } finally {
+    // Always restore original active account
+    if (accountSwitched && originalActiveEmail) {
+      debug('quota', `Restoring active account to ${originalActiveEmail}`)
+      manager.setActiveAccount(originalActiveEmail)
+    }
+  }
+}
+
+/**
+ * Resolve the fetch method for a single account and verify login
+ * Exits the process if the google method is required but not logged in
+ */
+function resolveSingleAccountMethod(options: QuotaOptions): QuotaMethod {
+  // Force google method when --account or --auto-switch is specified
   // (local method always uses IDE's logged-in account)
   let method = options.method || 'auto'
-  if (options.account && method !== 'google') {
+  if ((options.account || options.autoSwitch) && method !== 'google') {
     debug('quota', `Account specified, forcing google method (local uses IDE account)`)
     method = 'google'
   }
@@ -58,37 +136,25 @@ async function fetchSingleAccountQuota(options: QuotaOptions): Promise<void> {
     }
   }
 
-  try {
-    // Temporarily switch to the target account if needed
-    let accountSwitched = false
-
-    if (options.account && options.account !== originalActiveEmail) {
-      debug('quota', `Temporarily switching to account ${options.account} for fetch`)
-      manager.setActiveAccount(options.account)
-      accountSwitched = true
-    }
-
-    try {
-      debug('quota', `Fetching quota via ${method} method...`)
-
-      const snapshot = await fetchQuota(method)
+  return method
+}
 
-      // Cache the result if we have an account email
-      if (accountEmail) {
-        saveCache(accountEmail, snapshot)
-      }
+/**
+ * Fetch quota for a single account
+ */
+async function fetchSingleAccountQuota(options: QuotaOptions): Promise<void> {
+  const method = resolveSingleAccountMethod(options)
 
-      if (options.json) {
-        printQuotaJson(snapshot)
-      } else {
-        printQuotaTable(snapshot, { allModels: options.allModels })
-      }
-    } finally {
-      // Always restore original active account
-      if (accountSwitched && originalActiveEmail) {
-        debug('quota', `Restoring active account to ${originalActiveEmail}`)
-        manager.setActiveAccount(originalActiveEmail)
-      }
+  try {
+    const snapshot = await loadSingleAccountSnapshot(options, method)
+
+    const format = getOutputFormat(options)
+    if (format === 'table') {
+      printQuotaTable(snapshot, { allModels: options.allModels, grouped: options.group !== false })
+    } else if (format === 'json') {
+      printQuotaJson(snapshot)
+    } else {
+      process.stdout.write(formatSnapshot(snapshot, format, options.allModels))
     }
   } catch (err) {
     handleQuotaError(err)
@@ -96,22 +162,10 @@ async function fetchSingleAccountQuota(options: QuotaOptions): Promise<void> {
 }
 
 /**
- * Fetch quota for all accounts
+ * Collect quota results for every account (cache-aware, never throws per account)
  */
-async function fetchAllAccountsQuota(options: QuotaOptions): Promise<void> {
-  const manager = getAccountManager()
-  const emails = manager.getAccountEmails()
-  const activeEmail = manager.getActiveEmail()
-
-  if (emails.length === 0) {
-    logError('No accounts found. Run: antigravity-usage login')
-    process.exit(1)
-  }
-
-  if (options.refresh) {
-    info('🔄 Refreshing quota data for all accounts...\n')
-  }
-
+async function loadAllAccountsResults(emails: string[], options: QuotaOptions): Promise<AllAccountsQuotaResult[]> {
+  const activeEmail = getAccountManager().getActiveEmail()
 
   // IMPORTANT: Fetch sequentially, NOT in parallel
   // Parallel fetching causes race conditions with account switching
@@ -142,8 +196,8 @@ async function fetchAllAccountsQuota(options: QuotaOptions): Promise<void> {
 
       const snapshot = await fetchQuotaForAccount(email, options.method || 'auto')
 
-      // Cache the result
-      saveCache(email, snapshot)
+      // Cache and record the result
+      await persistSnapshot(email, snapshot)
 
       results.push({
         email,
@@ -175,53 +229,51 @@ async function fetchAllAccountsQuota(options: QuotaOptions): Promise<void> {
     }
   }
 
-
-  if (options.json) {
-    console.log(JSON.stringify(results, null, 2))
-  } else {
-    renderAllQuotaTable(results, { allModels: options.allModels })
+  // Add burn-rate forecasts from each account's history
+  for (const result of results) {
+    if (result.snapshot) {
+      result.snapshot = attachForecasts(result.email, result.snapshot)
+    }
   }
+
+  return results
 }
 
 /**
- * Fetch quota for a specific account
+ * Accounts covered by --all (or --tag)
+ * Exits if there are none
  */
-async function fetchQuotaForAccount(email: string, method: QuotaMethod): Promise<any> {
+function resolveAllAccountEmails(options: QuotaOptions): string[] {
   const manager = getAccountManager()
-  const originalActiveEmail = manager.getActiveEmail()
+  const emails = options.tag ? manager.getAccountsByTag(options.tag) : manager.getAccountEmails()
 
-  // CRITICAL: Local method always returns IDE's logged-in account data
-  // We CANNOT use local method for non-IDE accounts in multi-account mode
-  // Force Google API method to ensure we get the correct account's data
-  let effectiveMethod = method
-
-  if (method === 'auto' || method === 'local') {
-    // Always use Google API for multi-account to avoid cache pollution
-    effectiveMethod = 'google'
-    debug('quota', `Forcing Google API for multi-account fetch (email: ${email})`)
+  if (emails.length === 0) {
+    logError(options.tag
+      ? `No accounts tagged '${options.tag}'.`
+      : 'No accounts found. Run: antigravity-usage login')
+    process.exit(1)
   }
+  return emails
+}
 
-  // Temporarily switch to target account
-  let accountSwitched = false
-  if (email !== originalActiveEmail) {
-    debug('quota', `Switching to ${email} for fetch`)
-    manager.setActiveAccount(email)
-    // CRITICAL: Reset TokenManager singleton so it loads the new account's tokens
-    resetTokenManager()
-    accountSwitched = true
+/**
+ * Fetch quota for all accounts
+ */
+async function fetchAllAccountsQuota(options: QuotaOptions): Promise<void> {
+  const emails = resolveAllAccountEmails(options)
+
+  // Keep machine-readable output clean for pipes
+  if (options.refresh && getOutputFormat(options) === 'table') {
+    info('🔄 Refreshing quota data for all accounts...\n')
   }
 
-  try {
-    const snapshot = await fetchQuota(effectiveMethod)
-    return snapshot
-  } finally {
-    // Always restore original active account
-    if (accountSwitched && originalActiveEmail) {
-      debug('quota', `Restoring active account to ${originalActiveEmail}`)
-      manager.setActiveAccount(originalActiveEmail)
-      // Reset TokenManager again to pick up original account's tokens
-      resetTokenManager()
-    }
+  const results = await loadAllAccountsResults(emails, options)
+
+  const format = getOutputFormat(options)
+  if (format === 'table') {
+    renderAllQuotaTable(results, { allModels: options.allModels })
+  } else {
+    process.stdout.write(formatAllAccounts(results, format, options.allModels))
   }
 }
 
@@ -290,8 +342,235 @@ function handleQuotaError(err: unknown): never {
   process.exit(1)
 }
 
+/**
+ * State shown by watch mode between refreshes
+ */
+interface WatchView {
+  fetchedAt: number
+  snapshot?: QuotaSnapshot
+  results?: AllAccountsQuotaResult[]
+  changes: Map<string, number>
+  error?: string
+}
+
+/**
+ * Parse the --watch interval (seconds)
+ */
+function parseWatchInterval(value: boolean | string | undefined): number {
+  if (value === undefined || value === true || value === false) {
+    return DEFAULT_WATCH_INTERVAL_SECONDS
+  }
+
+  const seconds = parseInt(value, 10)
+  if (isNaN(seconds) || seconds < MIN_WATCH_INTERVAL_SECONDS) {
+    logError(`Invalid watch interval '${value}'. Use a number of seconds >= ${MIN_WATCH_INTERVAL_SECONDS}.`)
+    process.exit(1)
+  }
+  return seconds
+}
+
+/**
+ * Live-refresh dashboard: refetch on an interval, redraw in place every second
+ */
+async function watchQuota(options: QuotaOptions): Promise<void> {
+  const intervalMs = parseWatchInterval(options.watch) * 1000
+
+  // Validate up front, same as the one-shot paths
+  const method = options.all ? undefined : resolveSingleAccountMethod(options)
+  const emails = options.all ? resolveAllAccountEmails(options) : []
+
+  // Watch mode always shows fresh data
+  const fetchOptions: QuotaOptions = { ...options, refresh: true }
+
+  let view: WatchView | undefined
+
+  const refresh = async (): Promise<void> => {
+    const fetchedAt = Date.now()
+
+    try {
+      if (options.all) {
+        const results = await loadAllAccountsResults(emails, fetchOptions)
+
+        // Compare each account's minimum remaining against the previous tick
+        const changes = new Map<string, number>()
+        for (const result of results) {
+          const before = getMinRemaining(view?.results?.find(r => r.email === result.email)?.snapshot, options.allModels)
+          const after = getMinRemaining(result.snapshot, options.allModels)
+          if (before !== undefined && after !== undefined && Math.abs(after - before) > 1e-9) {
+            changes.set(result.email, after - before)
+          }
+        }
+
+        view = { fetchedAt, results, changes }
+      } else {
+        const snapshot = await loadSingleAccountSnapshot(fetchOptions, method!)
+        view = { fetchedAt, snapshot, changes: diffSnapshots(view?.snapshot, snapshot) }
+      }
+    } catch (err) {
+      debug('quota', 'Watch refresh failed', err)
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      view = view
+        ? { ...view, error: message }
+        : { fetchedAt, changes: new Map(), error: message }
+    }
+  }
+
+  const draw = (nextFetchAt: number): void => {
+    if (!view) return
+
+    const elapsedMs = Date.now() - view.fetchedAt
+    process.stdout.write(CLEAR_SCREEN)
+
+    if (view.results) {
+      const aged = view.results.map(r => r.snapshot ? { ...r, snapshot: ageSnapshot(r.snapshot, elapsedMs) } : r)
+      renderAllQuotaTable(aged, { allModels: options.allModels, changes: view.changes })
+    } else if (view.snapshot) {
+      printQuotaTable(ageSnapshot(view.snapshot, elapsedMs), {
+        allModels: options.allModels,
+        changes: view.changes,
+        grouped: options.group !== false
+      })
+    }
+
+    if (view.error) {
+      logError(`Last refresh failed: ${view.error}`)
+    }
+
+    const nextIn = Math.max(0, Math.ceil((nextFetchAt - Date.now()) / 1000))
+    console.log(`🔄 Refreshing every ${intervalMs / 1000}s · next in ${nextIn}s · Ctrl+C to exit`)
+  }
+
+  const stop = (): void => {
+    process.stdout.write(SHOW_CURSOR)
+    console.log()
+    process.exit(0)
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+
+  // JSON mode: one compact document per refresh, no redraw
+  const format = getOutputFormat(options)
+  if (format === 'json') {
+    for (;;) {
+      await refresh()
+      console.log(JSON.stringify(view?.results ?? view?.snapshot ?? { error: view?.error }))
+      await new Promise(resolve => setTimeout(resolve, intervalMs))
+    }
+  }
+
+  // NDJSON mode: one row per model per refresh
+  if (format === 'ndjson') {
+    for (;;) {
+      await refresh()
+      if (view?.results) {
+        process.stdout.write(formatAllAccounts(view.results, 'ndjson', options.allModels))
+      } else if (view?.snapshot) {
+        process.stdout.write(formatSnapshot(view.snapshot, 'ndjson', options.allModels))
+      } else {
+        console.log(JSON.stringify({ error: view?.error }))
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs))
+    }
+  }
+
+  process.stdout.write(HIDE_CURSOR)
+
+  let nextFetchAt = 0
+  for (;;) {
+    if (Date.now() >= nextFetchAt) {
+      await refresh()
+      nextFetchAt = Date.now() + intervalMs
+    }
+    draw(nextFetchAt)
+    await new Promise(resolve => setTimeout(resolve, 1000))
+  }
+}
+
+/**
+ * Activate the account with the most remaining quota before showing quota
+ */
+async function autoSwitchAccount(options: QuotaOptions): Promise<void> {
+  if (options.account) {
+    logError('--auto-switch cannot be combined with --account')
+    process.exit(1)
+  }
+
+  const { best, switched } = await switchToBestAccount(options.model, options.refresh)
+
+  if (!best) {
+    warn(options.model
+      ? `No account has quota data for model "${options.model}"; keeping the active account.`
+      : 'No account has quota data; keeping the active account.')
+    return
+  }
+
+  if (getOutputFormat(options) === 'table') {
+    const remaining = best.remaining !== null ? ` (${Math.round(best.remaining * 100)}% remaining)` : ''
+    info(switched
+      ? `🔀 Switched to ${best.email}${remaining}`
+      : `✓ Already on the best account: ${best.email}${remaining}`)
+  }
+}
+
+/**
+ * Resolve the output format (--json is shorthand for --format json)
+ * Only valid after validateOutputFormat
+ */
+function getOutputFormat(options: QuotaOptions): OutputFormat {
+  if (options.json) return 'json'
+  return options.format ? parseOutputFormat(options.format) ?? 'table' : 'table'
+}
+
+/**
+ * Reject unknown or conflicting --format values before fetching
+ */
+function validateOutputFormat(options: QuotaOptions): void {
+  if (!options.format) return
+
+  const format = parseOutputFormat(options.format)
+  if (!format) {
+    logError(`Unknown format: ${options.format}. Use one of: ${OUTPUT_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+  if (options.json && format !== 'json') {
+    logError(`--json conflicts with --format ${format}`)
+    process.exit(1)
+  }
+  if (options.watch && !['table', 'json', 'ndjson'].includes(format)) {
+    logError(`--watch supports table, json and ndjson formats, not ${format}`)
+    process.exit(1)
+  }
+}
+
 export async function quotaCommand(options: QuotaOptions): Promise<void> {
-  if (options.all) {
+  validateOutputFormat(options)
+
+  if (options.account) {
+    // Accept an alias in place of the email
+    const email = getAccountManager().resolveAccount(options.account)
+    if (!email) {
+      logError(`Account '${options.account}' not found.`)
+      process.exit(1)
+    }
+    options.account = email
+  }
+
+  if (options.tag) {
+    if (options.account || options.autoSwitch) {
+      logError(`--tag cannot be combined with ${options.account ? '--account' : '--auto-switch'}`)
+      process.exit(1)
+    }
+    // A tag selects a subset of --all
+    options.all = true
+  }
+
+  if (options.autoSwitch) {
+    await autoSwitchAccount(options)
+  }
+
+  if (options.watch) {
+    await watchQuota(options)
+  } else if (options.all) {
     await fetchAllAccountsQuota(options)
   } else {
     await fetchSingleAccountQuota(options)
@@ -0,0 +1,90 @@
+/**
+ * Serve command - long-running HTTP exporters
+ */
+
+import { startMetricsServer } from '../server/index.js'
+import { fetchQuotaForAccount, persistSnapshot } from '../quota/accounts.js'
+import { getAccountManager, isCacheValid, getCacheTTL } from '../accounts/index.js'
+import { debug, error as logError, info } from '../core/logger.js'
+
+interface ServeOptions {
+  metrics?: boolean
+  port?: string
+  host?: string
+  refresh?: boolean
+}
+
+const DEFAULT_METRICS_PORT = 9464
+const DEFAULT_HOST = '127.0.0.1'
+
+/**
+ * Refetch quota for every account whose cache has expired
+ * Sequential on purpose: fetching switches the active account temporarily
+ */
+async function refreshStaleAccounts(): Promise<void> {
+  const emails = getAccountManager().getAccountEmails()
+
+  for (const email of emails) {
+    if (isCacheValid(email)) continue
+
+    try {
+      debug('serve', `Refreshing quota for ${email}`)
+      const snapshot = await fetchQuotaForAccount(email, 'google')
+      await persistSnapshot(email, snapshot)
+    } catch (err) {
+      debug('serve', `Failed to refresh quota for ${email}`, err)
+    }
+  }
+}
+
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  if (!options.metrics) {
+    logError('Nothing to serve. Use: antigravity-usage serve --metrics')
+    process.exit(1)
+  }
+
+  const port = options.port ? parseInt(options.port, 10) : DEFAULT_METRICS_PORT
+  if (isNaN(port) || port < 0 || port > 65535) {
+    logError(`Invalid port: ${options.port}`)
+    process.exit(1)
+  }
+  const host = options.host || DEFAULT_HOST
+
+  try {
+    await startMetricsServer({ port, host })
+  } catch (err) {
+    logError(`Failed to start metrics server: ${err instanceof Error ? err.message : err}`)
+    process.exit(1)
+  }
+
+  info(`📈 Serving Prometheus metrics at http://${host}:${port}/metrics`)
+
+  // Keep cached quota fresh in the background so scrapes stay fast
+  if (options.refresh !== false) {
+    const intervalMs = getCacheTTL() * 1000
+    let refreshing = false
+
+    const tick = async (): Promise<void> => {
+      if (refreshing) return
+      refreshing = true
+      try {
+        await refreshStaleAccounts()
+      } finally {
+        refreshing = false
+      }
+    }
+
+    void tick()
+    setInterval(() => void tick(), intervalMs)
+    info(`   Refreshing stale quota every ${Math.round(intervalMs / 1000)}s (cache TTL)`)
+  }
+
+  info('   Press Ctrl+C to stop.')
+
+  const stop = (): void => {
+    info('\nStopping metrics server.')
+    process.exit(0)
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+}
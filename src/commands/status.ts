@@ -140,11 +140,12 @@ export function statusCommand(options: StatusOptions = {}): void {
   
   if (options.account) {
     const manager = getAccountManager()
-    if (!manager.hasAccount(options.account)) {
+    const email = manager.resolveAccount(options.account)
+    if (!email || !manager.hasAccount(email)) {
       warn(`Account '${options.account}' not found.`)
       return
     }
-    showSingleAccountStatus(options.account)
+    showSingleAccountStatus(email)
     return
   }
   
@@ -0,0 +1,18 @@
+/**
+ * TUI command - full-screen interactive dashboard
+ */
+
+import { runTui } from '../tui/app.js'
+import { error as logError } from '../core/logger.js'
+
+export async function tuiCommand(): Promise<void> {
+  try {
+    await runTui()
+  } catch (err) {
+    logError(err instanceof Error ? err.message : 'Failed to start TUI')
+    process.exit(1)
+  }
+
+  // Exit cleanly to avoid hanging on open HTTP connections
+  process.exit(0)
+}
@@ -2,6 +2,7 @@
  * Wakeup command - Auto wake-up and warm up AI models
  */
 
+import { readFileSync, writeFileSync } from 'fs'
 import inquirer from 'inquirer'
 import Table from 'cli-table3'
 import {
@@ -10,41 +11,102 @@ import {
   getOrCreateConfig,
   getRecentHistory,
   getLastTrigger,
+  loadWakeupState,
   clearTriggerHistory,
   detectResetAndTrigger,
   type WakeupConfig,
+  type WeeklySchedule,
   type TriggerRecord,
-  getDefaultConfig
+  getDefaultConfig,
+  startScheduler,
+  getSchedulerPid,
+  acquireSchedulerLock,
+  releaseSchedulerLock,
+  loadTriggerRunState,
+  saveTriggerRunState,
+  CATCH_UP_POLICIES,
+  type CatchUpPolicy,
+  type InstallBackend,
+  validateWakeupConfig,
+  applyWakeupFlags,
+  hasWakeupFlags,
+  getConfigFormat,
+  parseWakeupConfigDocument,
+  serializeWakeupConfig,
+  queryTriggerHistory,
+  computeTriggerStats,
+  formatTriggerRecords,
+  parseHistoryExportFormat,
+  type TriggerHistoryQuery,
+  type TriggerPlan,
+  type TriggerStats,
+  type WakeupConfigFlags,
+  type WakeupConfigFormat
 } from '../wakeup/index.js'
 import {
   installCronJob,
   uninstallCronJob,
   getCronStatus,
-  isCronSupported
+  isCronSupported,
+  isCrontabAvailable
 } from '../wakeup/cron-installer.js'
 import {
-  configToCronExpression,
+  installSystemdTimer,
+  uninstallSystemdTimer,
+  isSystemdSupported,
+  cronToOnCalendar,
+  SYSTEMD_UNIT_NAME
+} from '../wakeup/systemd-installer.js'
+import {
+  getTriggerCronExpressions,
   getScheduleDescription,
-  getNextRunEstimate
+  getNextRunEstimate,
+  getSchedulePreview,
+  formatRunTime,
+  DAY_NAMES
 } from '../wakeup/schedule-converter.js'
+import { parseCronExpression, isValidCronExpression, getPreviousRunTime } from '../wakeup/cron-parser.js'
+import { isValidTime } from '../wakeup/config-file.js'
 import {
-  executeTrigger,
   testTrigger
 } from '../wakeup/trigger-service.js'
+import { executeTriggersWithRetry, resolveRetryPolicy } from '../wakeup/retry.js'
+import { planScheduledTriggers } from '../wakeup/trigger-plan.js'
+import { planResetTriggers, evaluateModel } from '../wakeup/reset-detector.js'
 import {
-  resolveAccounts,
+  getAccountConfig,
+  hasScheduleOverride,
   getAccountResolutionStatus
 } from '../wakeup/account-resolver.js'
 import { getAccountManager } from '../accounts/manager.js'
-import { debug } from '../core/logger.js'
+import { refreshExpiringTokens, WAKEUP_TOKEN_REFRESH_WINDOW_MS } from '../google/token-refresh.js'
+import { previewQuotaForAccount } from '../quota/accounts.js'
+import { MODEL_GROUPS, getModelGroup } from '../quota/groups.js'
+import { debug, error as logError } from '../core/logger.js'
+import { parseTimeArg } from '../core/duration.js'
 
 // Subcommand type
-type WakeupSubcommand = 'config' | 'trigger' | 'install' | 'uninstall' | 'test' | 'history' | 'status'
+type WakeupSubcommand = 'config' | 'trigger' | 'run-scheduler' | 'install' | 'uninstall' | 'test' | 'history' | 'history-export' | 'stats' | 'status'
+
+const INSTALL_BACKENDS: InstallBackend[] = ['cron', 'systemd']
 
-interface WakeupOptions {
+interface WakeupOptions extends WakeupConfigFlags {
   scheduled?: boolean
   limit?: string
   json?: boolean
+  since?: string
+  until?: string
+  account?: string
+  model?: string
+  failed?: boolean
+  output?: string
+  from?: string
+  export?: string | boolean
+  format?: string
+  install?: boolean
+  catchUp?: string
+  backend?: string
+  dryRun?: boolean
 }
 
 /**
@@ -59,15 +121,29 @@ export async function wakeupCommand(
 
   switch (subcommand) {
     case 'config':
-      await configureWakeup()
+      if (options.export !== undefined) {
+        exportWakeupConfig(options)
+      } else if (options.from !== undefined || hasWakeupFlags(options)) {
+        await applyDeclarativeConfig(options)
+      } else {
+        await configureWakeup()
+      }
       break
 
     case 'trigger':
-      await runScheduledTrigger(options.scheduled ?? false)
+      if (options.dryRun) {
+        await dryRunTrigger(options.scheduled ?? false)
+      } else {
+        await runScheduledTrigger(options.scheduled ?? false)
+      }
+      break
+
+    case 'run-scheduler':
+      await runScheduler(options)
       break
 
     case 'install':
-      await installSchedule()
+      await installSchedule(options.backend)
       break
 
     case 'uninstall':
@@ -75,13 +151,21 @@ export async function wakeupCommand(
       break
 
     case 'test':
-      await runTestTrigger()
+      await runTestTrigger(options.dryRun ?? false)
       break
 
     case 'history':
       await showHistory(options)
       break
 
+    case 'history-export':
+      exportHistory(options)
+      break
+
+    case 'stats':
+      showStats(options)
+      break
+
     case 'status':
     default:
       await showStatus()
@@ -140,58 +224,29 @@ async function configureWakeup(): Promise<void> {
 
   // Step 3: Configure schedule (if schedule mode)
   if (!config.wakeOnReset) {
-    const { scheduleMode } = await inquirer.prompt([{
-      type: 'list',
-      name: 'scheduleMode',
-      message: 'Schedule type:',
-      choices: [
-        { name: 'Every N hours', value: 'interval' },
-        { name: 'Daily at specific times', value: 'daily' },
-        { name: 'Custom cron expression', value: 'custom' }
-      ],
-      default: config.scheduleMode
-    }])
-
-    config.scheduleMode = scheduleMode
-
-    if (scheduleMode === 'interval') {
-      const { intervalHours } = await inquirer.prompt([{
-        type: 'number',
-        name: 'intervalHours',
-        message: 'Trigger every N hours:',
-        default: config.intervalHours || 6,
-        validate: (val: number) => val >= 1 && val <= 23 ? true : 'Must be 1-23'
-      }])
-      config.intervalHours = intervalHours
-    } else if (scheduleMode === 'daily') {
-      const { dailyTime } = await inquirer.prompt([{
-        type: 'input',
-        name: 'dailyTime',
-        message: 'Time to trigger (HH:MM):',
-        default: config.dailyTimes?.[0] || '09:00',
-        validate: (val: string) => /^\d{1,2}:\d{2}$/.test(val) ? true : 'Use HH:MM format'
-      }])
-      config.dailyTimes = [dailyTime]
-    } else if (scheduleMode === 'custom') {
-      const { cronExpression } = await inquirer.prompt([{
-        type: 'input',
-        name: 'cronExpression',
-        message: 'Cron expression (min hour day month weekday):',
-        default: config.cronExpression || '0 */6 * * *'
-      }])
-      config.cronExpression = cronExpression
-    }
+    await promptSchedule(config)
   } else {
     // Reset mode - no additional configuration needed
     // Deduplication is handled by cache.json resetTime comparison
   }
 
-  // Step 4: Models - Use default models that cover both families
-  // claude-sonnet-4-6 triggers Claude family
-  // gemini-3-flash and gemini-3.1-pro-low trigger both Gemini quota groups
-  config.selectedModels = ['claude-sonnet-4-6', 'gemini-3-flash', 'gemini-3.1-pro-low']
-  console.log('\n   📦 Models: claude-sonnet-4-6, gemini-3-flash, gemini-3.1-pro-low')
-  console.log('      (Triggers both Claude and Gemini families)')
+  // Step 4: Models - one representative per quota group
+  // Triggering any member wakes up the whole shared pool
+  const { selectedGroups } = await inquirer.prompt([{
+    type: 'checkbox',
+    name: 'selectedGroups',
+    message: 'Quota groups to wake up:',
+    choices: MODEL_GROUPS.map(group => ({
+      name: `${group.label} (${group.representative})`,
+      value: group.id,
+      checked: config.selectedModels.some(modelId => getModelGroup(modelId)?.id === group.id)
+    })),
+    validate: (val: string[]) => val.length > 0 ? true : 'Select at least one group'
+  }])
+  config.selectedModels = MODEL_GROUPS
+    .filter(group => selectedGroups.includes(group.id))
+    .map(group => group.representative)
+  console.log(`\n   📦 Models: ${config.selectedModels.join(', ')}`)
 
   // Step 5: Select accounts
   if (accounts.length > 1) {
@@ -257,11 +312,249 @@ async function configureWakeup(): Promise<void> {
   console.log('')
 }
 
+/**
+ * Prompt for a comma-separated list of HH:MM times
+ */
+async function promptTimes(message: string, defaults: string[]): Promise<string[]> {
+  const { times } = await inquirer.prompt([{
+    type: 'input',
+    name: 'times',
+    message,
+    default: defaults.join(', '),
+    validate: (val: string) => {
+      const list = val.split(',').map(t => t.trim()).filter(Boolean)
+      if (list.length === 0) return 'Enter at least one time'
+      const invalid = list.find(t => !isValidTime(t))
+      return invalid ? `"${invalid}" is not a valid HH:MM time` : true
+    }
+  }])
+  return times.split(',').map((t: string) => t.trim()).filter(Boolean)
+}
+
+/**
+ * Print the next fire times of a schedule
+ */
+function printSchedulePreview(config: WakeupConfig, count = 5): void {
+  try {
+    const runs = getSchedulePreview(config, count)
+    console.log(`\n   📅 Next ${runs.length} run${runs.length === 1 ? '' : 's'}:`)
+    for (const run of runs) {
+      console.log(`      ${formatRunTime(run)}`)
+    }
+  } catch (err) {
+    console.log(`\n   ⚠️  Cannot preview schedule: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+/**
+ * Interactive schedule setup, repeated until the preview is accepted
+ */
+async function promptSchedule(config: WakeupConfig): Promise<void> {
+  for (;;) {
+    const { scheduleMode } = await inquirer.prompt([{
+      type: 'list',
+      name: 'scheduleMode',
+      message: 'Schedule type:',
+      choices: [
+        { name: 'Every N hours', value: 'interval' },
+        { name: 'Daily at specific times', value: 'daily' },
+        { name: 'Weekly on specific days', value: 'weekly' },
+        { name: 'Custom cron expression', value: 'custom' }
+      ],
+      default: config.scheduleMode
+    }])
+
+    config.scheduleMode = scheduleMode
+    // A cron expression overrides every other mode, so only keep it for custom
+    if (scheduleMode !== 'custom') {
+      config.cronExpression = undefined
+    }
+
+    if (scheduleMode === 'interval') {
+      const { intervalHours } = await inquirer.prompt([{
+        type: 'number',
+        name: 'intervalHours',
+        message: 'Trigger every N hours:',
+        default: config.intervalHours || 6,
+        validate: (val: number) => val >= 1 && val <= 23 ? true : 'Must be 1-23'
+      }])
+      config.intervalHours = intervalHours
+    } else if (scheduleMode === 'daily') {
+      config.dailyTimes = await promptTimes('Times to trigger (HH:MM, comma-separated):', config.dailyTimes?.length ? config.dailyTimes : ['09:00'])
+    } else if (scheduleMode === 'weekly') {
+      const current = config.weeklySchedule || {}
+      const { days } = await inquirer.prompt([{
+        type: 'checkbox',
+        name: 'days',
+        message: 'Days to trigger:',
+        choices: DAY_NAMES.map((name, day) => ({ name, value: day, checked: Boolean(current[day]?.length) })),
+        validate: (val: number[]) => val.length > 0 ? true : 'Select at least one day'
+      }])
+
+      const schedule: WeeklySchedule = {}
+      let previous = config.dailyTimes?.length ? config.dailyTimes : ['09:00']
+      for (const day of days as number[]) {
+        schedule[day] = await promptTimes(`${DAY_NAMES[day]} times (HH:MM, comma-separated):`, current[day]?.length ? current[day] : previous)
+        previous = schedule[day]
+      }
+      config.weeklySchedule = schedule
+    } else if (scheduleMode === 'custom') {
+      const { cronExpression } = await inquirer.prompt([{
+        type: 'input',
+        name: 'cronExpression',
+        message: 'Cron expression (min hour day month weekday):',
+        default: config.cronExpression || '0 */6 * * *',
+        validate: (val: string) => {
+          try {
+            parseCronExpression(val)
+            return true
+          } catch (err) {
+            return err instanceof Error ? err.message : String(err)
+          }
+        }
+      }])
+      config.cronExpression = cronExpression
+    }
+
+    printSchedulePreview(config)
+
+    const { confirmed } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'confirmed',
+      message: 'Use this schedule?',
+      default: true
+    }])
+    if (confirmed) return
+  }
+}
+
+/**
+ * Configure wake-up from a JSON/YAML file or command-line flags
+ */
+async function applyDeclarativeConfig(options: WakeupOptions): Promise<void> {
+  let result
+
+  if (options.from !== undefined) {
+    if (hasWakeupFlags(options)) {
+      logError('--from cannot be combined with other config flags')
+      process.exit(1)
+    }
+
+    let content: string
+    try {
+      content = readFileSync(options.from, 'utf-8')
+    } catch (err) {
+      logError(`Cannot read ${options.from}: ${err instanceof Error ? err.message : err}`)
+      process.exit(1)
+    }
+
+    let document: unknown
+    try {
+      document = parseWakeupConfigDocument(content)
+    } catch (err) {
+      logError(`Cannot parse ${options.from}: ${err instanceof Error ? err.message : err}`)
+      process.exit(1)
+    }
+
+    result = validateWakeupConfig(document)
+  } else {
+    result = applyWakeupFlags(getOrCreateConfig(), options)
+  }
+
+  if (result.errors.length > 0) {
+    logError('Invalid wake-up configuration:')
+    for (const message of result.errors) {
+      console.error(`   • ${message}`)
+    }
+    process.exit(1)
+  }
+
+  const config = result.config
+  saveWakeupConfig(config)
+
+  console.log('\n✅ Configuration saved!')
+  console.log(`   Enabled: ${config.enabled ? 'Yes' : 'No'}`)
+  console.log(`   Mode: ${config.wakeOnReset ? 'Quota reset detection' : getScheduleDescription(config)}`)
+  console.log(`   Models: ${config.selectedModels.join(', ')}`)
+  console.log(`   Accounts: ${config.selectedAccounts?.join(', ') || 'Active account'}`)
+  if (config.enabled) {
+    printSchedulePreview(config)
+  }
+
+  if (options.install) {
+    await installSchedule()
+  } else {
+    console.log('')
+  }
+}
+
+/**
+ * Export the current wake-up config as JSON or YAML
+ */
+function exportWakeupConfig(options: WakeupOptions): void {
+  const file = typeof options.export === 'string' ? options.export : undefined
+
+  let format: WakeupConfigFormat = file ? getConfigFormat(file) : 'json'
+  if (options.format !== undefined) {
+    const requested = options.format.toLowerCase()
+    if (requested !== 'json' && requested !== 'yaml') {
+      logError(`Invalid format "${options.format}". Use json or yaml`)
+      process.exit(1)
+    }
+    format = requested
+  }
+
+  const config = loadWakeupConfig()
+  if (!config) {
+    logError('No wake-up configuration found. Run: antigravity-usage wakeup config')
+    process.exit(1)
+  }
+
+  const content = serializeWakeupConfig(config, format)
+  if (file) {
+    writeFileSync(file, content)
+    console.log(`✅ Exported wake-up configuration to ${file}`)
+  } else {
+    process.stdout.write(content)
+  }
+}
+
+/**
+ * Refresh access tokens that expire soon, so triggers don't start with a stale token
+ * and revoked refresh tokens are recorded before the run
+ */
+async function refreshExpiringAccountTokens(): Promise<void> {
+  try {
+    const results = await refreshExpiringTokens(getAccountManager().getAccountEmails(), WAKEUP_TOKEN_REFRESH_WINDOW_MS)
+    for (const result of results) {
+      if (result.status === 'revoked') {
+        console.log(`🚫 ${result.email}: refresh token rejected (${result.error}). Run: antigravity-usage login`)
+      } else {
+        debug('wakeup', `Token check for ${result.email}: ${result.status}${result.error ? ` (${result.error})` : ''}`)
+      }
+    }
+  } catch (err) {
+    debug('wakeup', 'Proactive token refresh failed:', err)
+  }
+}
+
+/**
+ * Start of the due window for a scheduled run: the previous scheduled run, if known
+ * Catch-up runs (systemd Persistent=true) then cover every schedule that fired while the machine was off.
+ */
+function getLastScheduledRun(): Date | undefined {
+  const state = loadTriggerRunState()
+  const last = state ? new Date(state.lastScheduledRunAt) : undefined
+  return last && !isNaN(last.getTime()) ? last : undefined
+}
+
 /**
  * Run a scheduled trigger (called by cron)
+ * @param since Start of the due window (the built-in scheduler passes its last check)
  */
-async function runScheduledTrigger(isScheduled: boolean): Promise<void> {
+async function runScheduledTrigger(isScheduled: boolean, since?: Date): Promise<void> {
   debug('wakeup', `Running trigger (scheduled: ${isScheduled})`)
+  const startedAt = new Date()
 
   const config = loadWakeupConfig()
 
@@ -270,6 +563,8 @@ async function runScheduledTrigger(isScheduled: boolean): Promise<void> {
     return
   }
 
+  await refreshExpiringAccountTokens()
+
   // Quota-reset mode: use detectResetAndTrigger
   if (config.wakeOnReset) {
     debug('wakeup', 'Using quota-reset mode: fetching quota and detecting resets')
@@ -285,46 +580,197 @@ async function runScheduledTrigger(isScheduled: boolean): Promise<void> {
     return
   }
 
-  // Scheduled mode: trigger selected models directly
-  const accounts = resolveAccounts(config.selectedAccounts)
+  // Scheduled mode: trigger each account's models directly
+  const plan = planScheduledTriggers(config, {
+    scheduled: isScheduled,
+    now: startedAt,
+    since: isScheduled ? since ?? getLastScheduledRun() : undefined
+  })
+  if (isScheduled) {
+    saveTriggerRunState({ lastScheduledRunAt: startedAt.toISOString() })
+  }
+  const accounts = plan.accounts.filter(account => {
+    if (account.skipped) {
+      debug('wakeup', `Skipping ${account.email}: ${account.skipped}`)
+      return false
+    }
+    return true
+  })
   if (accounts.length === 0) {
-    debug('wakeup', 'No valid accounts')
+    debug('wakeup', 'No accounts to trigger')
     return
   }
 
-  if (config.selectedModels.length === 0) {
-    debug('wakeup', 'No models selected')
+  // Execute trigger for each account, then retry failed models
+  const attempts = await executeTriggersWithRetry(
+    accounts.map(({ email, models }) => {
+      const accountConfig = getAccountConfig(config, email)
+      return {
+        models: models.map(model => model.modelId),
+        accountEmail: email,
+        triggerType: 'auto' as const,
+        triggerSource: plan.source,
+        customPrompt: accountConfig.customPrompt,
+        maxOutputTokens: accountConfig.maxOutputTokens
+      }
+    }),
+    resolveRetryPolicy(config.retryPolicy)
+  )
+
+  for (const { options, result } of attempts) {
+    const successCount = result.results.filter(r => r.success).length
+    console.log(`[${new Date().toISOString()}] ${options.accountEmail}: ${successCount}/${result.results.length} models triggered`)
+  }
+}
+
+/**
+ * Show which accounts and models a trigger run would trigger, and why
+ * Nothing is triggered and no history or reset state is written.
+ */
+async function dryRunTrigger(isScheduled: boolean): Promise<void> {
+  const config = loadWakeupConfig()
+  if (!config) {
+    console.log('\n❌ Wake-up is not configured. Run: antigravity-usage wakeup config\n')
     return
   }
 
-  // Execute trigger for each account
-  for (const accountEmail of accounts) {
-    const result = await executeTrigger({
-      models: config.selectedModels,
-      accountEmail,
-      triggerType: 'auto',
-      triggerSource: isScheduled ? 'scheduled' : 'manual',
-      customPrompt: config.customPrompt,
-      maxOutputTokens: config.maxOutputTokens
-    })
+  const mode = config.wakeOnReset ? 'quota-reset mode' : 'schedule mode'
+  console.log(`\n🔍 Dry run (${mode}) - nothing will be triggered\n`)
 
-    const successCount = result.results.filter(r => r.success).length
-    console.log(`[${new Date().toISOString()}] ${accountEmail}: ${successCount}/${result.results.length} models triggered`)
+  if (!config.enabled) {
+    console.log('   ⚠️  Wake-up is disabled, so a real run would not trigger anything.\n')
   }
+
+  const plan = config.wakeOnReset
+    ? await planResetTriggers(config)
+    : planScheduledTriggers(config, { scheduled: isScheduled, since: isScheduled ? getLastScheduledRun() : undefined })
+
+  printTriggerPlan(plan)
+
+  // Exit cleanly to avoid hanging on open HTTP connections
+  if (config.wakeOnReset) process.exit(0)
+}
+
+function printTriggerPlan(plan: TriggerPlan): void {
+  if (plan.accounts.length === 0) {
+    console.log('   No valid accounts to trigger\n')
+    return
+  }
+
+  let modelCount = 0
+  let accountCount = 0
+
+  for (const account of plan.accounts) {
+    console.log(`   ${account.email}`)
+    if (account.error) {
+      console.log(`     ❌ Failed to fetch quota: ${account.error}`)
+    } else if (account.skipped) {
+      console.log(`     ⏭️  ${account.skipped}`)
+    }
+
+    for (const model of account.models) {
+      console.log(`     ${model.trigger ? '✅' : '⏭️ '} ${model.modelId}: ${model.reason}`)
+    }
+
+    const triggered = account.models.filter(model => model.trigger).length
+    modelCount += triggered
+    if (triggered > 0) accountCount++
+  }
+
+  console.log('')
+  console.log(`   Would trigger ${modelCount} model${modelCount === 1 ? '' : 's'} on ${accountCount} account${accountCount === 1 ? '' : 's'}`)
+  console.log('')
 }
 
 /**
- * Install schedule to system cron
+ * Run the built-in scheduler in the foreground (alternative to cron)
  */
-async function installSchedule(): Promise<void> {
-  console.log('\n📅 Installing wake-up schedule to cron...\n')
+async function runScheduler(options: WakeupOptions): Promise<void> {
+  const catchUp = (options.catchUp ?? 'once') as CatchUpPolicy
+  if (!CATCH_UP_POLICIES.includes(catchUp)) {
+    logError(`Invalid catch-up policy "${options.catchUp}". Use one of: ${CATCH_UP_POLICIES.join(', ')}`)
+    process.exit(1)
+  }
+
+  const config = loadWakeupConfig()
+  if (!config || !config.enabled) {
+    logError('Wake-up is not configured or disabled. Run: antigravity-usage wakeup config')
+    process.exit(1)
+  }
+
+  const lock = acquireSchedulerLock()
+  if (!lock.acquired) {
+    logError(lock.pid
+      ? `Scheduler is already running (pid ${lock.pid})`
+      : 'Could not acquire the scheduler lock')
+    process.exit(1)
+  }
+
+  const description = config.wakeOnReset ? 'Every 1 hour (quota-reset check)' : getScheduleDescription(config)
+  console.log('\n⏰ Wake-up scheduler running')
+  console.log(`   Schedule: ${description}`)
+  console.log(`   Next run: ${getNextRunEstimate(getTriggerCronExpressions(config))}`)
+  console.log(`   Missed runs: ${catchUp === 'once' ? 'catch up once' : 'skip'}`)
+  console.log('   Press Ctrl+C to stop.\n')
+
+  const scheduler = startScheduler({
+    catchUp,
+    runTrigger: (since) => runScheduledTrigger(true, since)
+  })
+
+  let stopping = false
+  const stop = async (): Promise<void> => {
+    if (stopping) return
+    stopping = true
+    console.log('\nStopping scheduler...')
+    try {
+      await scheduler.stop()
+    } finally {
+      releaseSchedulerLock()
+    }
+    process.exit(0)
+  }
+  process.on('SIGINT', () => { void stop() })
+  process.on('SIGTERM', () => { void stop() })
+}
 
-  if (!isCronSupported()) {
+/**
+ * Pick the install backend: the requested one, else cron when crontab exists, else systemd
+ */
+function resolveInstallBackend(requested?: string): InstallBackend | null {
+  if (requested !== undefined) {
+    return INSTALL_BACKENDS.includes(requested as InstallBackend) ? requested as InstallBackend : null
+  }
+  if (!isCrontabAvailable() && isSystemdSupported()) {
+    return 'systemd'
+  }
+  return 'cron'
+}
+
+/**
+ * Install schedule to system cron or a systemd user timer
+ */
+async function installSchedule(requestedBackend?: string): Promise<void> {
+  const backend = resolveInstallBackend(requestedBackend)
+  if (!backend) {
+    logError(`Invalid backend "${requestedBackend}". Use one of: ${INSTALL_BACKENDS.join(', ')}`)
+    process.exit(1)
+  }
+
+  console.log(`\n📅 Installing wake-up schedule to ${backend}...\n`)
+
+  if (backend === 'cron' && !isCronSupported()) {
     console.log('❌ Cron is not supported on this platform.')
     console.log('   Windows Task Scheduler support coming soon.')
     return
   }
 
+  if (backend === 'systemd' && !isSystemdSupported()) {
+    console.log('❌ systemd is not available on this system.')
+    console.log('   Use: antigravity-usage wakeup install --backend cron')
+    return
+  }
+
   const config = loadWakeupConfig()
 
   if (!config) {
@@ -341,18 +787,30 @@ async function installSchedule(): Promise<void> {
 
   // For quota-reset mode, use a fixed 1-hour interval
   // For schedule mode, use the configured cron expression
-  const cronExpression = config.wakeOnReset ? '0 */1 * * *' : configToCronExpression(config)
+  const cronExpressions = getTriggerCronExpressions(config)
   const description = config.wakeOnReset ? 'Every 1 hour (quota-reset check)' : getScheduleDescription(config)
   console.log(`   Schedule: ${description}`)
-  console.log(`   Cron: ${cronExpression}`)
+  console.log(`   Cron: ${cronExpressions.join('; ')}`)
+  if (backend === 'systemd') {
+    console.log(`   OnCalendar: ${cronExpressions.flatMap(cronToOnCalendar).join('; ')}`)
+  }
   try {
     console.log('')
 
-    const result = await installCronJob(cronExpression)
+    const result = backend === 'systemd'
+      ? await installSystemdTimer(cronExpressions)
+      : await installCronJob(cronExpressions)
 
     if (result.success) {
-      console.log('✅ Cron job installed successfully!')
-      console.log(`   Next run: ${getNextRunEstimate(cronExpression)}`)
+      // Only one backend should trigger, or every run would fire twice
+      if (backend === 'systemd') {
+        if (isCrontabAvailable()) await uninstallCronJob()
+      } else {
+        await uninstallSystemdTimer()
+      }
+
+      console.log(backend === 'systemd' ? '✅ systemd timer installed successfully!' : '✅ Cron job installed successfully!')
+      console.log(`   Next run: ${getNextRunEstimate(cronExpressions)}`)
       console.log('')
       console.log('   To check status: antigravity-usage wakeup status')
       console.log('   To uninstall: antigravity-usage wakeup uninstall')
@@ -371,18 +829,28 @@ async function installSchedule(): Promise<void> {
 }
 
 /**
- * Uninstall schedule from system cron
+ * Uninstall schedule from system cron and the systemd user timer
  */
 async function uninstallSchedule(): Promise<void> {
-  console.log('\n🗑️  Removing wake-up schedule from cron...\n')
+  console.log('\n🗑️  Removing wake-up schedule...\n')
 
-  const success = await uninstallCronJob()
+  const status = await getCronStatus()
+  const systemdRemoved = await uninstallSystemdTimer()
+  const cronRemoved = isCrontabAvailable() ? await uninstallCronJob() : true
 
-  if (success) {
-    console.log('✅ Cron job removed successfully!')
+  if (systemdRemoved && cronRemoved) {
+    console.log(status.installed
+      ? `✅ ${status.backend === 'systemd' ? 'systemd timer' : 'Cron job'} removed successfully!`
+      : '✅ No wake-up schedule was installed.')
   } else {
-    console.log('⚠️  Could not remove cron job. It may not be installed.')
-    console.log('   Check your crontab: crontab -l')
+    if (!cronRemoved) {
+      console.log('⚠️  Could not remove cron job. It may not be installed.')
+      console.log('   Check your crontab: crontab -l')
+    }
+    if (!systemdRemoved) {
+      console.log('⚠️  Could not remove systemd timer.')
+      console.log(`   Check: systemctl --user status ${SYSTEMD_UNIT_NAME}.timer`)
+    }
   }
 
   console.log('')
@@ -391,8 +859,8 @@ async function uninstallSchedule(): Promise<void> {
 /**
  * Run a manual test trigger
  */
-async function runTestTrigger(): Promise<void> {
-  console.log('\n🧪 Test Trigger\n')
+async function runTestTrigger(dryRun: boolean): Promise<void> {
+  console.log(dryRun ? '\n🧪 Test Trigger (dry run)\n' : '\n🧪 Test Trigger\n')
 
   const accountManager = getAccountManager()
   const accounts = accountManager.getAccountEmails()
@@ -431,6 +899,11 @@ async function runTestTrigger(): Promise<void> {
     default: 'hi'
   }])
 
+  if (dryRun) {
+    await dryRunTestTrigger(accountEmail, modelId, prompt)
+    process.exit(0)
+  }
+
   console.log('\n⏳ Triggering...')
 
   try {
@@ -457,15 +930,65 @@ async function runTestTrigger(): Promise<void> {
   process.exit(0)
 }
 
+/**
+ * Map an --account alias to its email (records are stored by email)
+ */
+function resolveAccountOption(account?: string): string | undefined {
+  return account && (getAccountManager().resolveAccount(account) ?? account)
+}
+
+/**
+ * Build a history query from --since/--until/--account/--model/--failed
+ */
+function getHistoryQuery(options: WakeupOptions): TriggerHistoryQuery {
+  return {
+    since: parseTimeOption('since', options.since),
+    until: parseTimeOption('until', options.until),
+    account: resolveAccountOption(options.account),
+    model: options.model,
+    failed: options.failed
+  }
+}
+
+/**
+ * Show what a test trigger would send and the model's quota-reset state, without sending it
+ */
+async function dryRunTestTrigger(accountEmail: string, modelId: string, prompt: string): Promise<void> {
+  console.log('\n🔍 Dry run - no request will be sent\n')
+  console.log(`   Account: ${accountEmail}`)
+  console.log(`   Model: ${modelId}`)
+  console.log(`   Prompt: "${prompt}"`)
+
+  try {
+    const snapshot = await previewQuotaForAccount(accountEmail)
+    const model = snapshot.models.find(m => m.modelId === modelId)
+    if (!model) {
+      console.log(`   Quota: ❌ ${modelId} is not in the quota response for this account`)
+    } else {
+      const remaining = model.remainingPercentage !== undefined ? `${Math.round(model.remainingPercentage * 100)}% remaining` : 'unknown remaining'
+      console.log(`   Quota: ${remaining}${model.resetTime ? `, resets ${new Date(model.resetTime).toLocaleString()}` : ''}`)
+
+      const evaluation = evaluateModel(model, loadWakeupState(accountEmail))
+      console.log(`   Quota-reset mode: ${evaluation.trigger ? '✅ would trigger' : '⏭️  would skip'} (${evaluation.reason})`)
+    }
+  } catch (err) {
+    console.log(`   Quota: ❌ Failed to fetch: ${err instanceof Error ? err.message : err}`)
+  }
+
+  console.log('')
+}
+
 /**
  * Show trigger history
  */
 async function showHistory(options: WakeupOptions): Promise<void> {
   const limit = parseInt(options.limit || '10', 10)
-  const history = getRecentHistory(limit)
+  const query = getHistoryQuery(options)
+  const history = queryTriggerHistory({ ...query, limit })
 
   if (history.length === 0) {
-    console.log('\n📜 No trigger history yet.\n')
+    const filtered = Object.values(query).some(value => value !== undefined)
+    console.log(filtered ? '\n📜 No matching trigger records.\n' : '\n📜 No trigger history yet.\n')
     return
   }
 
@@ -487,7 +1010,7 @@ async function showHistory(options: WakeupOptions): Promise<void> {
 
     table.push([
       time,
-      record.triggerSource,
+      record.attempt && record.attempt > 1 ? `${record.triggerSource} (retry ${record.attempt - 1})` : record.triggerSource,
       record.models[0] || '-',
       record.accountEmail.split('@')[0],
       `${record.durationMs}ms`,
@@ -499,6 +1022,113 @@ async function showHistory(options: WakeupOptions): Promise<void> {
   console.log('')
 }
 
+/**
+ * Export trigger history, including archives, as CSV or NDJSON
+ */
+function exportHistory(options: WakeupOptions): void {
+  const format = parseHistoryExportFormat(options.format ?? 'csv')
+  if (!format) {
+    logError(`Invalid format "${options.format}". Use csv or ndjson`)
+    process.exit(1)
+  }
+
+  // Oldest first, the natural order for a log
+  const records = queryTriggerHistory(getHistoryQuery(options)).reverse()
+  const content = formatTriggerRecords(records, format)
+
+  if (options.output) {
+    writeFileSync(options.output, content)
+    console.log(`✅ Exported ${records.length} trigger record${records.length === 1 ? '' : 's'} to ${options.output}`)
+  } else {
+    process.stdout.write(content)
+  }
+}
+
+/**
+ * Parse a --since/--until value (date or duration ago)
+ */
+function parseTimeOption(name: string, value: string | undefined): Date | undefined {
+  if (!value) return undefined
+
+  const date = parseTimeArg(value)
+  if (!date) {
+    logError(`Invalid --${name} value: '${value}'. Use a date (2026-01-15) or a duration (7d, 12h).`)
+    process.exit(1)
+  }
+  return date
+}
+
+function formatMs(ms: number | null): string {
+  return ms === null ? '-' : `${ms}ms`
+}
+
+function printStatsTable(title: string, rows: TriggerStats[]): void {
+  const table = new Table({
+    head: [title, 'Triggers', 'Success', 'Median', 'p95', 'Tokens', 'Fail streak', 'Top error'],
+    style: { head: ['cyan'] }
+  })
+
+  for (const row of rows) {
+    const topError = row.topErrors[0]
+    table.push([
+      title === 'Account' ? row.key.split('@')[0] : row.key,
+      row.total,
+      `${Math.round(row.successRate * 100)}%`,
+      formatMs(row.medianDurationMs),
+      formatMs(row.p95DurationMs),
+      row.tokensUsed,
+      row.failureStreak > 0 ? `❌ ${row.failureStreak}` : '0',
+      topError ? `${topError.error.substring(0, 30)} (${topError.count})` : '-'
+    ])
+  }
+
+  console.log(table.toString())
+}
+
+/**
+ * Show trigger history analytics
+ */
+function showStats(options: WakeupOptions): void {
+  const since = parseTimeOption('since', options.since ?? '7d')
+  const until = parseTimeOption('until', options.until)
+  const report = computeTriggerStats(queryTriggerHistory({ since, until, account: resolveAccountOption(options.account) }))
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2))
+    return
+  }
+
+  const window = `since ${since?.toLocaleString()}${until ? ` until ${until.toLocaleString()}` : ''}`
+
+  if (report.overall.total === 0) {
+    console.log(`\n📈 No triggers recorded ${window}.\n`)
+    return
+  }
+
+  const { overall } = report
+  console.log(`\n📈 Trigger Stats (${window})\n`)
+  console.log(`   Triggers: ${overall.total} (${overall.success} succeeded, ${overall.failure} failed)`)
+  console.log(`   Success rate: ${Math.round(overall.successRate * 100)}%`)
+  console.log(`   Duration: median ${formatMs(overall.medianDurationMs)}, p95 ${formatMs(overall.p95DurationMs)}`)
+  console.log(`   Tokens used: ${overall.tokensUsed}`)
+  if (overall.failureStreak > 0) {
+    console.log(`   ⚠️  Last ${overall.failureStreak} trigger${overall.failureStreak === 1 ? '' : 's'} failed`)
+  }
+
+  if (overall.topErrors.length > 0) {
+    console.log('\n   Most common errors:')
+    for (const { error, count } of overall.topErrors) {
+      console.log(`   • ${error} (${count})`)
+    }
+  }
+
+  console.log('')
+  printStatsTable('Account', report.byAccount)
+  printStatsTable('Model', report.byModel)
+  printStatsTable('Source', report.bySource)
+  console.log('')
+}
+
 /**
  * Show current wake-up status
  */
@@ -529,20 +1159,51 @@ async function showStatus(): Promise<void> {
   // Accounts
   console.log(`   Accounts: ${getAccountResolutionStatus(config.selectedAccounts)}`)
 
+  // Per-account overrides
+  const overrides = Object.entries(config.accountOverrides ?? {})
+  if (overrides.length > 0) {
+    console.log('   Overrides:')
+    for (const [email, override] of overrides) {
+      const accountConfig = getAccountConfig(config, email)
+      const details: string[] = []
+      if (override.selectedModels) details.push(`models ${accountConfig.selectedModels.join(', ')}`)
+      if (override.customPrompt !== undefined) details.push('custom prompt')
+      if (override.maxOutputTokens !== undefined) details.push(`max tokens ${accountConfig.maxOutputTokens}`)
+      if (hasScheduleOverride(override) && !config.wakeOnReset) details.push(getScheduleDescription(accountConfig))
+      console.log(`     • ${email}: ${details.join('; ') || 'no changes'}`)
+    }
+  }
+
+  // Retries
+  const retryPolicy = resolveRetryPolicy(config.retryPolicy)
+  console.log(retryPolicy.maxRetries > 0
+    ? `   Retries: up to ${retryPolicy.maxRetries} (from ${retryPolicy.delaySeconds}s, doubling, within ${retryPolicy.giveUpAfterMinutes}m)`
+    : '   Retries: Off')
+
   // Cron status (for schedule mode)
   if (!config.wakeOnReset && config.enabled) {
     const cronStatus = await getCronStatus()
     if (cronStatus.installed) {
-      console.log(`   Cron: ✅ Installed (${cronStatus.cronExpression})`)
+      const backendLabel = cronStatus.backend === 'systemd' ? 'systemd' : 'cron'
+      console.log(`   Schedule: ✅ Installed via ${backendLabel} (${cronStatus.cronExpressions?.join('; ') ?? cronStatus.cronExpression})`)
       if (cronStatus.nextRun) {
         console.log(`   Next run: ${cronStatus.nextRun}`)
       }
+      const previousRun = getPreviousRunTime((cronStatus.cronExpressions ?? []).filter(isValidCronExpression))
+      if (previousRun) {
+        console.log(`   Last scheduled: ${formatRunTime(previousRun)}`)
+      }
     } else {
-      console.log('   Cron: ❌ Not installed')
+      console.log('   Schedule: ❌ Not installed')
       console.log('         Run: antigravity-usage wakeup install')
     }
   }
 
+  const schedulerPid = getSchedulerPid()
+  if (schedulerPid !== null) {
+    console.log(`   Scheduler: ✅ Running (pid ${schedulerPid})`)
+  }
+
   // Last trigger
   const lastTrigger = getLastTrigger()
   if (lastTrigger) {
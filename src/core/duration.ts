@@ -0,0 +1,64 @@
+/**
+ * Duration and time-range parsing utilities
+ */
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Parse a duration string into milliseconds
+ * Supports combined units: s, m, h, d, w
+ * @example parseDuration('90m') => 5400000
+ * @example parseDuration('1d12h') => 129600000
+ * @returns Milliseconds, or null if the string is not a valid duration
+ */
+export function parseDuration(value: string): number | null {
+  const input = value.trim().toLowerCase()
+  if (!/^(\d+(\.\d+)?[smhdw])+$/.test(input)) {
+    return null
+  }
+
+  let total = 0
+  for (const match of input.matchAll(/(\d+(?:\.\d+)?)([smhdw])/g)) {
+    total += parseFloat(match[1]) * UNIT_MS[match[2]]
+  }
+  return total
+}
+
+/**
+ * Parse a point-in-time argument
+ * Accepts either an absolute date (ISO 8601 or anything Date understands)
+ * or a relative duration meaning "that long ago" (e.g. '7d', '12h')
+ * @returns Date, or null if the value cannot be parsed
+ */
+export function parseTimeArg(value: string, now: number = Date.now()): Date | null {
+  const durationMs = parseDuration(value)
+  if (durationMs !== null) {
+    return new Date(now - durationMs)
+  }
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    return null
+  }
+  return date
+}
+
+/**
+ * Format milliseconds as a compact duration (e.g. "2h 5m")
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / (60 * 1000)))
+  const days = Math.floor(totalMinutes / (24 * 60))
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
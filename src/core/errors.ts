@@ -108,3 +108,23 @@ export class NoAuthMethodAvailableError extends Error {
   }
 }
 
+export class TokenEncryptionError extends Error {
+  constructor(message = 'Failed to decrypt stored tokens. Check ANTIGRAVITY_TOKEN_PASSPHRASE or ANTIGRAVITY_TOKEN_KEY_FILE.') {
+    super(message)
+    this.name = 'TokenEncryptionError'
+  }
+}
+
+export class CredentialStoreError extends Error {
+  constructor(message = 'Credential store operation failed. Check credentialStore in config.json.') {
+    super(message)
+    this.name = 'CredentialStoreError'
+  }
+}
+
+export class AccountBundleError extends Error {
+  constructor(message = 'Invalid account bundle.') {
+    super(message)
+    this.name = 'AccountBundleError'
+  }
+}
@@ -466,7 +466,7 @@ export class CloudCodeClient {
 
           // Non-retryable error (4xx except 429)
           debug('cloudcode', `Non-retryable error: ${response.status}`)
-          throw new Error(`API request failed: ${response.status} - ${text}`)
+          throw new APIError(`API request failed: ${response.status} - ${text}`, response.status)
 
         } catch (err) {
           // Network or other error
@@ -3,6 +3,7 @@
  */
 
 import { debug } from '../core/logger.js'
+import { getModelGroup } from '../quota/groups.js'
 import type { QuotaSnapshot, ModelQuotaInfo, PromptCreditsInfo } from '../quota/types.js'
 import type { LoadCodeAssistResponse, FetchAvailableModelsResponse, ModelInfo } from './cloudcode.js'
 
@@ -35,7 +36,8 @@ function parseModelInfo(modelId: string, model: ModelInfo): ModelQuotaInfo {
     isExhausted: quotaInfo?.isExhausted ?? (quotaInfo?.remainingFraction === 0),
     resetTime: quotaInfo?.resetTime,
     timeUntilResetMs: parseResetTime(quotaInfo?.resetTime),
-    isAutocompleteOnly: modelId.includes('gemini-2.5') || (model.displayName || '').includes('Gemini 2.5')
+    isAutocompleteOnly: modelId.includes('gemini-2.5') || (model.displayName || '').includes('Gemini 2.5'),
+    groupId: getModelGroup(modelId)?.id
   }
 }
 
@@ -19,6 +19,7 @@ import {
   deleteAccount,
   accountExists
 } from '../accounts/storage.js'
+import { serializeTokens, parseTokens } from '../accounts/encryption.js'
 import type { StoredTokens } from '../quota/types.js'
 
 /**
@@ -39,7 +40,7 @@ export function saveTokens(tokens: StoredTokens): void {
       mkdirSync(dir, { recursive: true })
     }
     
-    writeFileSync(path, JSON.stringify(tokens, null, 2), { mode: 0o600 })
+    writeFileSync(path, serializeTokens(tokens), { mode: 0o600 })
     return
   }
   
@@ -81,7 +82,7 @@ export function loadTokens(): StoredTokens | null {
   
   try {
     const content = readFileSync(legacyPath, 'utf-8')
-    const tokens = JSON.parse(content) as StoredTokens
+    const tokens = parseTokens(content)
     debug('storage', 'Tokens loaded successfully from legacy path')
     return tokens
   } catch (err) {
@@ -90,6 +91,23 @@ export function loadTokens(): StoredTokens | null {
   }
 }
 
+/**
+ * Rewrite the legacy tokens file encrypted or in plaintext
+ * @returns false if there is no legacy tokens file
+ * @throws TokenEncryptionError if the file can't be decrypted
+ */
+export function rewriteLegacyTokens(encrypt: boolean): boolean {
+  const path = getTokensPath()
+  if (!existsSync(path)) {
+    return false
+  }
+
+  const tokens = parseTokens(readFileSync(path, 'utf-8'))
+  writeFileSync(path, serializeTokens(tokens, encrypt), { mode: 0o600 })
+  debug('storage', `Rewrote legacy tokens (${encrypt ? 'encrypted' : 'plaintext'})`)
+  return true
+}
+
 /**
  * Delete stored tokens
  * Removes active account in multi-account structure
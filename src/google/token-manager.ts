@@ -14,13 +14,22 @@ import {
   loadAccountTokens,
   saveAccountTokens,
   accountExists,
-  updateLastUsed
+  updateLastUsed,
+  markRefreshFailure,
+  clearRefreshFailure
 } from '../accounts/index.js'
 import type { StoredTokens } from '../quota/types.js'
 
 // Refresh token 5 minutes before expiry
 const EXPIRY_BUFFER_MS = 5 * 60 * 1000
 
+/**
+ * Options for a token manager
+ */
+export interface TokenManagerOptions {
+  readOnly?: boolean                 // Keep refreshed tokens in memory only; never write tokens or metadata
+}
+
 /**
  * Token manager class for handling authentication
  * Can work with active account or a specific account email
@@ -28,8 +37,10 @@ const EXPIRY_BUFFER_MS = 5 * 60 * 1000
 export class TokenManager {
   private tokens: StoredTokens | null = null
   private accountEmail: string | null = null
+  private readOnly: boolean
   
-  constructor(email?: string) {
+  constructor(email?: string, options: TokenManagerOptions = {}) {
+    this.readOnly = options.readOnly ?? false
     if (email) {
       // Specific account requested
       this.accountEmail = email
@@ -94,6 +105,7 @@ export class TokenManager {
     if (!this.tokens) return
     
     this.tokens.projectId = projectId
+    if (this.readOnly) return
     
     // Save to disk
     if (this.accountEmail) {
@@ -161,9 +173,12 @@ export class TokenManager {
         }
         
         // Save to disk
-        if (this.accountEmail) {
+        if (this.readOnly) {
+          debug('token-manager', 'Read-only: keeping refreshed token in memory')
+        } else if (this.accountEmail) {
           saveAccountTokens(this.accountEmail, this.tokens)
           updateLastUsed(this.accountEmail)
+          clearRefreshFailure(this.accountEmail)
         } else {
           saveTokens(this.tokens)
         }
@@ -184,6 +199,9 @@ export class TokenManager {
         
         if (isPermanentError) {
           debug('token-manager', `Token refresh failed permanently: ${lastError.message}`)
+          if (this.accountEmail && !this.readOnly) {
+            markRefreshFailure(this.accountEmail, lastError.message)
+          }
           throw new TokenRefreshError(
             `Refresh token invalid or expired. Please login again.`,
             { cause: lastError, isRetryable: false }
@@ -243,8 +261,8 @@ export function getTokenManager(): TokenManager {
 /**
  * Get token manager for a specific account
  */
-export function getTokenManagerForAccount(email: string): TokenManager {
-  return new TokenManager(email)
+export function getTokenManagerForAccount(email: string, options: TokenManagerOptions = {}): TokenManager {
+  return new TokenManager(email, options)
 }
 
 /**
@@ -0,0 +1,83 @@
+/**
+ * Proactive token refresh
+ * Refreshes access tokens that are close to expiring and detects revoked refresh tokens,
+ * instead of waiting for the next API call to find out.
+ */
+
+import { getTokenManagerForAccount } from './token-manager.js'
+import { loadAccountTokens, loadAccountMetadata } from '../accounts/index.js'
+import { processAccountFailureAlerts } from '../alerts/index.js'
+import { TokenRefreshError } from '../core/errors.js'
+import { debug } from '../core/logger.js'
+
+// Wake-up runs refresh tokens expiring within this window
+export const WAKEUP_TOKEN_REFRESH_WINDOW_MS = 30 * 60 * 1000
+
+/**
+ * Outcome of checking one account's tokens
+ * - refreshed: the access token was close to expiry and was refreshed
+ * - valid: the access token is good for longer than the window
+ * - revoked: the refresh token was rejected (now, or by an earlier refresh)
+ * - failed: tokens are unreadable or the refresh failed for a transient reason
+ */
+export interface TokenRefreshResult {
+  email: string
+  status: 'refreshed' | 'valid' | 'revoked' | 'failed'
+  expiresAt?: number                 // Access token expiry after the check (ms since epoch)
+  error?: string
+  failedAt?: string                  // When the refresh token was rejected (revoked only)
+}
+
+/**
+ * Refresh the tokens of accounts whose access token expires within a window
+ * Accounts are processed sequentially. Accounts already marked revoked are not retried;
+ * logging in again clears the mark.
+ */
+export async function refreshExpiringTokens(
+  emails: string[],
+  withinMs: number,
+  now: number = Date.now()
+): Promise<TokenRefreshResult[]> {
+  const results: TokenRefreshResult[] = []
+
+  for (const email of emails) {
+    const tokens = loadAccountTokens(email)
+    if (!tokens) {
+      results.push({ email, status: 'failed', error: 'Tokens could not be read' })
+      continue
+    }
+
+    const failure = loadAccountMetadata(email)?.refreshFailure
+    if (failure) {
+      results.push({ email, status: 'revoked', expiresAt: tokens.expiresAt, error: failure.reason, failedAt: failure.at })
+      continue
+    }
+
+    if (tokens.expiresAt - now > withinMs) {
+      results.push({ email, status: 'valid', expiresAt: tokens.expiresAt })
+      continue
+    }
+
+    const tokenManager = getTokenManagerForAccount(email)
+    try {
+      debug('token-refresh', `Refreshing ${email} (expires ${new Date(tokens.expiresAt).toISOString()})`)
+      await tokenManager.refreshToken()
+      results.push({ email, status: 'refreshed', expiresAt: tokenManager.getExpiresAt()?.getTime() })
+    } catch (err) {
+      const message = err instanceof TokenRefreshError ? err.getDetailedMessage() : err instanceof Error ? err.message : String(err)
+      if (err instanceof TokenRefreshError && !err.isRetryable) {
+        // TokenManager has marked the account; let account alert rules know too
+        results.push({ email, status: 'revoked', expiresAt: tokens.expiresAt, error: message, failedAt: loadAccountMetadata(email)?.refreshFailure?.at })
+        try {
+          await processAccountFailureAlerts(email, message)
+        } catch (alertErr) {
+          debug('token-refresh', `Failed to evaluate alerts for ${email}`, alertErr)
+        }
+      } else {
+        results.push({ email, status: 'failed', expiresAt: tokens.expiresAt, error: message })
+      }
+    }
+  }
+
+  return results
+}
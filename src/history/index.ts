@@ -0,0 +1,14 @@
+/**
+ * Quota history module - barrel export
+ */
+
+// Types
+export * from './types.js'
+
+// Storage
+export {
+  getHistoryDir,
+  snapshotToHistoryEntry,
+  appendQuotaHistory,
+  queryQuotaHistory
+} from './storage.js'
@@ -0,0 +1,177 @@
+/**
+ * Quota history storage
+ * Append-only NDJSON store, sharded into one file per month (UTC)
+ */
+
+import { join } from 'node:path'
+import { existsSync, mkdirSync, appendFileSync, readFileSync, readdirSync } from 'node:fs'
+import { getConfigDir } from '../core/env.js'
+import { debug } from '../core/logger.js'
+import type { QuotaSnapshot } from '../quota/types.js'
+import type { QuotaHistoryEntry, HistoryQuery } from './types.js'
+
+// Storage paths
+const HISTORY_DIR_NAME = 'history'
+const SHARD_PATTERN = /^quota-(\d{4}-\d{2})\.ndjson$/
+
+/**
+ * Get history storage directory path
+ */
+export function getHistoryDir(): string {
+  return join(getConfigDir(), HISTORY_DIR_NAME)
+}
+
+/**
+ * Get the shard key (YYYY-MM, UTC) for a timestamp
+ */
+function getShardKey(date: Date): string {
+  return date.toISOString().slice(0, 7)
+}
+
+/**
+ * Get the shard file name for a shard key
+ */
+function getShardFileName(key: string): string {
+  return `quota-${key}.ndjson`
+}
+
+/**
+ * Convert a quota snapshot into a compact history entry
+ */
+export function snapshotToHistoryEntry(email: string, snapshot: QuotaSnapshot): QuotaHistoryEntry {
+  const entry: QuotaHistoryEntry = {
+    timestamp: snapshot.timestamp,
+    email,
+    method: snapshot.method,
+    planType: snapshot.planType,
+    models: snapshot.models.map(m => ({
+      modelId: m.modelId,
+      label: m.label,
+      remainingPercentage: m.remainingPercentage,
+      isExhausted: m.isExhausted,
+      resetTime: m.resetTime
+    }))
+  }
+
+  if (snapshot.promptCredits) {
+    entry.promptCredits = {
+      available: snapshot.promptCredits.available,
+      monthly: snapshot.promptCredits.monthly
+    }
+  }
+
+  return entry
+}
+
+/**
+ * Append a quota snapshot to the history store
+ */
+export function appendQuotaHistory(email: string, snapshot: QuotaSnapshot): void {
+  const dir = getHistoryDir()
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+    debug('history-storage', `Created history directory: ${dir}`)
+  }
+
+  const entry = snapshotToHistoryEntry(email, snapshot)
+  const timestamp = new Date(entry.timestamp)
+  const key = getShardKey(isNaN(timestamp.getTime()) ? new Date() : timestamp)
+  const path = join(dir, getShardFileName(key))
+
+  appendFileSync(path, JSON.stringify(entry) + '\n', 'utf-8')
+  debug('history-storage', `Appended snapshot for ${email} to ${getShardFileName(key)}`)
+}
+
+/**
+ * List shard keys (YYYY-MM) present on disk, oldest first
+ */
+function listShardKeys(): string[] {
+  const dir = getHistoryDir()
+  if (!existsSync(dir)) {
+    return []
+  }
+
+  try {
+    return readdirSync(dir)
+      .map(name => SHARD_PATTERN.exec(name)?.[1])
+      .filter((key): key is string => key !== undefined)
+      .sort()
+  } catch (err) {
+    debug('history-storage', 'Failed to list history shards', err)
+    return []
+  }
+}
+
+/**
+ * Read all entries from one shard, skipping corrupt lines
+ */
+function readShard(key: string): QuotaHistoryEntry[] {
+  const path = join(getHistoryDir(), getShardFileName(key))
+  const entries: QuotaHistoryEntry[] = []
+
+  try {
+    const content = readFileSync(path, 'utf-8')
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line) as QuotaHistoryEntry)
+      } catch {
+        debug('history-storage', `Skipping corrupt line in ${getShardFileName(key)}`)
+      }
+    }
+  } catch (err) {
+    debug('history-storage', `Failed to read ${getShardFileName(key)}`, err)
+  }
+
+  return entries
+}
+
+/**
+ * Check whether a model ID matches a model filter (exact or substring)
+ */
+function matchesModel(modelId: string, filter: string): boolean {
+  return modelId === filter || modelId.toLowerCase().includes(filter.toLowerCase())
+}
+
+/**
+ * Query the history store
+ * Returns matching entries sorted oldest first. When a model filter is
+ * given, each entry only contains the matching model readings and entries
+ * without any match are dropped.
+ */
+export function queryQuotaHistory(query: HistoryQuery = {}): QuotaHistoryEntry[] {
+  const sinceKey = query.since ? getShardKey(query.since) : undefined
+  const untilKey = query.until ? getShardKey(query.until) : undefined
+
+  const keys = listShardKeys().filter(key =>
+    (!sinceKey || key >= sinceKey) && (!untilKey || key <= untilKey)
+  )
+
+  const results: QuotaHistoryEntry[] = []
+
+  for (const key of keys) {
+    for (const entry of readShard(key)) {
+      if (query.email && entry.email !== query.email) continue
+
+      const time = new Date(entry.timestamp).getTime()
+      if (query.since && time < query.since.getTime()) continue
+      if (query.until && time > query.until.getTime()) continue
+
+      if (query.modelId) {
+        const models = entry.models.filter(m => matchesModel(m.modelId, query.modelId!))
+        if (models.length === 0) continue
+        results.push({ ...entry, models })
+      } else {
+        results.push(entry)
+      }
+    }
+  }
+
+  results.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  if (query.limit !== undefined && results.length > query.limit) {
+    return results.slice(results.length - query.limit)
+  }
+
+  return results
+}
@@ -0,0 +1,41 @@
+/**
+ * Quota history types
+ * Time-series records of quota snapshots per account
+ */
+
+/**
+ * A single model reading within a history entry
+ */
+export interface HistoryModelReading {
+  modelId: string
+  label: string
+  remainingPercentage?: number
+  isExhausted: boolean
+  resetTime?: string
+}
+
+/**
+ * One recorded quota snapshot (one line in the history store)
+ */
+export interface QuotaHistoryEntry {
+  timestamp: string                  // ISO timestamp of the snapshot
+  email: string                      // Account the snapshot belongs to
+  method: 'google' | 'local'
+  planType?: string
+  promptCredits?: {
+    available: number
+    monthly: number
+  }
+  models: HistoryModelReading[]
+}
+
+/**
+ * Filters for querying the history store
+ */
+export interface HistoryQuery {
+  email?: string
+  modelId?: string                   // Exact model ID or substring match
+  since?: Date
+  until?: Date
+  limit?: number                     // Keep only the most recent N entries
+}
@@ -13,6 +13,18 @@ import { statusCommand } from './commands/status.js'
 import { quotaCommand } from './commands/quota.js'
 import { doctorCommand } from './commands/doctor.js'
 import { accountsCommand } from './commands/accounts.js'
+import { historyCommand } from './commands/history.js'
+import { tuiCommand } from './commands/tui.js'
+import { serveCommand } from './commands/serve.js'
+import { daemonCommand } from './commands/daemon.js'
+import {
+  listAlertsCommand,
+  addAlertCommand,
+  removeAlertCommand,
+  addNotifierCommand,
+  removeNotifierCommand,
+  testAlertsCommand
+} from './commands/alerts.js'
 
 const program = new Command()
 
@@ -39,17 +51,17 @@ program
 
 // Logout command
 program
-  .command('logout [email]')
+  .command('logout [account]')
   .description('Remove stored credentials')
   .option('--all', 'Logout from all accounts')
-  .action((email, options) => logoutCommand(options, email))
+  .action((account, options) => logoutCommand(options, account))
 
 // Status command
 program
   .command('status')
   .description('Show current authentication status')
   .option('--all', 'Show status for all accounts')
-  .option('-a, --account <email>', 'Show status for specific account')
+  .option('-a, --account <email>', 'Show status for specific account (email or alias)')
   .action(statusCommand)
 
 // Quota command (default)
@@ -57,13 +69,31 @@ program
   .command('quota', { isDefault: true })
   .description('Fetch and display quota information')
   .option('--json', 'Output as JSON')
+  .option('-f, --format <format>', 'Output format: table (default), json, csv, markdown, yaml, ndjson')
   .option('-m, --method <method>', 'Method to use: auto (default), local, or google', 'auto')
   .option('--all', 'Show quota for all accounts')
-  .option('-a, --account <email>', 'Show quota for specific account')
+  .option('-a, --account <email>', 'Show quota for specific account (email or alias)')
+  .option('--tag <tag>', 'Show quota for all accounts with this tag')
   .option('--refresh', 'Force refresh (ignore cache)')
   .option('--all-models', 'Include autocomplete models (Gemini 2.5) in quota display')
+  .option('--no-group', 'Show every model on its own row instead of one row per quota group')
+  .option('-w, --watch [seconds]', 'Live-refresh dashboard, refetching every N seconds (default 60)')
+  .option('--auto-switch', 'Activate the account with the most remaining quota first (see `accounts best`)')
+  .option('--model <id>', 'Model to rank accounts by with --auto-switch')
   .action(quotaCommand)
 
+// History command
+program
+  .command('history')
+  .description('Query recorded quota history')
+  .option('-a, --account <email>', 'Only show snapshots for this account')
+  .option('--model <id>', 'Only show this model (exact ID or substring)')
+  .option('--since <time>', 'Start of range: date or duration ago (e.g. 7d, 12h)')
+  .option('--until <time>', 'End of range: date or duration ago')
+  .option('--limit <n>', 'Only show the most recent N snapshots')
+  .option('--json', 'Output as JSON')
+  .action(historyCommand)
+
 // Accounts command with subcommands
 const accountsCmd = program
   .command('accounts')
@@ -73,6 +103,7 @@ accountsCmd
   .command('list')
   .description('List all accounts')
   .option('--refresh', 'Show refresh tip')
+  .option('--tag <tag>', 'Only list accounts with this tag')
   .action((options) => accountsCommand('list', [], options))
 
 accountsCmd
@@ -82,7 +113,7 @@ accountsCmd
 
 accountsCmd
   .command('switch <email>')
-  .description('Switch to a different account')
+  .description('Switch to a different account (email or alias)')
   .action((email) => accountsCommand('switch', [email], {}))
 
 accountsCmd
@@ -100,8 +131,64 @@ accountsCmd
   .command('refresh [email]')
   .description('Refresh account tokens')
   .option('--all', 'Refresh all accounts')
+  .option('--expiring-within <duration>', 'Refresh tokens expiring within a duration (e.g. 30m) and report expiry; all accounts unless an email is given')
   .action((email, options) => accountsCommand('refresh', email ? [email] : [], options))
 
+accountsCmd
+  .command('best')
+  .description('Activate the account with the most remaining quota')
+  .option('--model <id>', 'Rank by this model (exact ID or substring; default: lowest model)')
+  .option('--refresh', 'Refetch quota for every account (ignore cache)')
+  .option('--json', 'Output ranking as JSON')
+  .action((options) => accountsCommand('best', [], options))
+
+accountsCmd
+  .command('encrypt')
+  .description('Encrypt stored tokens (needs ANTIGRAVITY_TOKEN_PASSPHRASE or ANTIGRAVITY_TOKEN_KEY_FILE)')
+  .action(() => accountsCommand('encrypt', [], {}))
+
+accountsCmd
+  .command('decrypt')
+  .description('Decrypt stored tokens back to plaintext')
+  .action(() => accountsCommand('decrypt', [], {}))
+
+accountsCmd
+  .command('export [email]')
+  .description('Export accounts (tokens, metadata, cache, wake-up state) to a bundle file')
+  .requiredOption('-o, --out <file>', 'Bundle file to write')
+  .option('--all', 'Export all accounts (default: the given or active account)')
+  .option('--encrypt', 'Encrypt the bundle with a passphrase (prompted, or ANTIGRAVITY_BUNDLE_PASSPHRASE)')
+  .action((email, options) => accountsCommand('export', email ? [email] : [], options))
+
+accountsCmd
+  .command('import <file>')
+  .description('Import accounts from a bundle file')
+  .option('--on-conflict <mode>', 'When an account already exists: skip or overwrite', 'skip')
+  .option('--dry-run', 'Only preview what would be imported')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .action((file, options) => accountsCommand('import', [file], options))
+
+accountsCmd
+  .command('alias <account> [alias]')
+  .description('Give an account a short alias, usable wherever an email is')
+  .option('--clear', 'Remove the alias')
+  .action((account, alias, options) => accountsCommand('alias', alias ? [account, alias] : [account], options))
+
+accountsCmd
+  .command('label <account> <labels...>')
+  .description('Set free-form labels as key=value (key= removes a label)')
+  .action((account, labels) => accountsCommand('label', [account, ...labels], {}))
+
+accountsCmd
+  .command('tag <account> <tags...>')
+  .description('Add tags to an account (select with --tag)')
+  .action((account, tags) => accountsCommand('tag', [account, ...tags], {}))
+
+accountsCmd
+  .command('untag <account> <tags...>')
+  .description('Remove tags from an account')
+  .action((account, tags) => accountsCommand('untag', [account, ...tags], {}))
+
 // Default action for accounts command (show list)
 accountsCmd.action(() => accountsCommand('list', [], {}))
 
@@ -111,46 +198,171 @@ program
   .description('Run diagnostics and show configuration')
   .action(doctorCommand)
 
+// TUI command
+program
+  .command('tui')
+  .description('Interactive dashboard for accounts, quotas and wake-up history')
+  .action(tuiCommand)
+
+// Serve command
+program
+  .command('serve')
+  .description('Run a long-lived HTTP exporter')
+  .option('--metrics', 'Expose Prometheus metrics at /metrics')
+  .option('-p, --port <port>', 'Port to listen on (default 9464)')
+  .option('--host <host>', 'Interface to bind (default 127.0.0.1)')
+  .option('--no-refresh', 'Only serve cached data, never fetch quota')
+  .action(serveCommand)
+
+// Daemon command
+program
+  .command('daemon')
+  .description('Run a local REST/JSON API for quota and wake-up triggers')
+  .option('-p, --port <port>', 'Port to listen on (default 9465)')
+  .option('--host <host>', 'Interface to bind (default 127.0.0.1)')
+  .action(daemonCommand)
+
+// Alerts command with subcommands
+const alertsCmd = program
+  .command('alerts')
+  .description('Threshold alerts for quota, credits and account health')
+
+alertsCmd
+  .command('list')
+  .description('List alert rules and notifiers')
+  .action(listAlertsCommand)
+
+alertsCmd
+  .command('add')
+  .description('Add an alert rule')
+  .option('--below <percent>', 'Fire when a model drops below this remaining percentage')
+  .option('--model <name>', 'Only models whose label or ID contains this text (with --below)')
+  .option('--credits-below <n>', 'Fire when prompt credits drop below this value')
+  .option('--account-invalid', 'Fire when an account token becomes invalid')
+  .option('-a, --account <email>', 'Only evaluate this account')
+  .action(addAlertCommand)
+
+alertsCmd
+  .command('remove <id>')
+  .description('Remove an alert rule')
+  .action(removeAlertCommand)
+
+alertsCmd
+  .command('notify <type> [target]')
+  .description('Add a notifier: desktop | webhook <url> | shell "<command>"')
+  .option('-H, --header <header...>', 'Extra webhook header ("Name: value")')
+  .action(addNotifierCommand)
+
+alertsCmd
+  .command('unnotify <n>')
+  .description('Remove a notifier by its position in `alerts list`')
+  .action(removeNotifierCommand)
+
+alertsCmd
+  .command('test')
+  .description('Send a test alert through every notifier')
+  .action(testAlertsCommand)
+
+// Default action for alerts command (list)
+alertsCmd.action(listAlertsCommand)
+
 // Wakeup command with subcommands
 import { wakeupCommand } from './commands/wakeup.js'
 
 const wakeupCmd = program
   .command('wakeup')
   .description('Auto wake-up and warm up AI models')
+  .enablePositionalOptions()
 
 wakeupCmd
   .command('config')
-  .description('Configure auto wake-up schedule')
-  .action(() => wakeupCommand('config', [], {}))
+  .description('Configure auto wake-up schedule (interactive unless flags or --from are given)')
+  .option('--mode <mode>', 'Schedule mode: interval, daily, weekly or custom')
+  .option('--interval <hours>', 'Trigger every N hours (1-23)')
+  .option('--daily-times <times>', 'Comma-separated HH:MM times for daily mode')
+  .option('--weekly <spec>', 'Weekly schedule, e.g. "mon,wed=09:00,17:30;fri=08:00"')
+  .option('--cron <expression>', 'Cron expression for custom mode')
+  .option('--models <ids>', 'Comma-separated model IDs to trigger')
+  .option('--accounts <emails>', 'Comma-separated accounts (empty = active account)')
+  .option('--prompt <text>', 'Custom wake-up prompt')
+  .option('--max-tokens <n>', 'Max output tokens (0 = no limit)')
+  .option('--reset-mode', 'Trigger when quota resets instead of on a schedule')
+  .option('--no-reset-mode', 'Trigger on the configured schedule')
+  .option('--max-retries <n>', 'Retries for failed models (0 = never retry, the default)')
+  .option('--retry-delay <seconds>', 'Delay before the first retry (doubles each retry)')
+  .option('--history-max-records <n>', 'Trigger records kept before rotating into archives')
+  .option('--history-max-age <days>', 'Archive history records and delete archives older than this (0 = keep forever)')
+  .option('--from <file>', 'Load configuration from a JSON or YAML file')
+  .option('--export [file]', 'Export configuration to a file or stdout')
+  .option('--format <format>', 'Export format: json or yaml')
+  .option('--install', 'Install the schedule to cron after saving')
+  .action((options) => wakeupCommand('config', [], options))
 
 wakeupCmd
   .command('trigger')
   .description('Execute one trigger cycle (called by cron)')
   .option('--scheduled', 'Mark as scheduled trigger')
+  .option('--dry-run', 'Show which accounts and models would be triggered, and why, without triggering')
   .action((options) => wakeupCommand('trigger', [], options))
 
+wakeupCmd
+  .command('run-scheduler')
+  .description('Run the wake-up schedule in the foreground (no crontab needed)')
+  .option('--catch-up <policy>', 'Missed runs: once (trigger once) or skip', 'once')
+  .action((options) => wakeupCommand('run-scheduler', [], options))
+
 wakeupCmd
   .command('install')
-  .description('Install wake-up schedule to system cron')
-  .action(() => wakeupCommand('install', [], {}))
+  .description('Install wake-up schedule to system cron or a systemd user timer')
+  .option('--backend <backend>', 'cron or systemd (default: cron, or systemd when crontab is missing)')
+  .action((options) => wakeupCommand('install', [], options))
 
 wakeupCmd
   .command('uninstall')
-  .description('Remove wake-up schedule from system cron')
+  .description('Remove wake-up schedule from system cron and systemd')
   .action(() => wakeupCommand('uninstall', [], {}))
 
 wakeupCmd
   .command('test')
   .description('Test trigger manually')
-  .action(() => wakeupCommand('test', [], {}))
+  .option('--dry-run', 'Check the account and model quota without sending the request')
+  .action((options) => wakeupCommand('test', [], options))
 
-wakeupCmd
+const wakeupHistoryCmd = wakeupCmd
   .command('history')
   .description('View trigger history')
   .option('--limit <n>', 'Number of records to show', '10')
+  .option('--since <time>', 'Only records after this: date or duration ago (e.g. 7d)')
+  .option('--until <time>', 'Only records before this: date or duration ago')
+  .option('--account <email>', 'Only records for this account')
+  .option('--model <id>', 'Only records for this model (substring match)')
+  .option('--failed', 'Only failed triggers')
   .option('--json', 'Output as JSON')
+  // Leave the filters after `export` to the export subcommand, which declares the same flags
+  .passThroughOptions()
   .action((options) => wakeupCommand('history', [], options))
 
+wakeupHistoryCmd
+  .command('export')
+  .description('Export trigger history, including archives')
+  .option('--format <format>', 'Export format: csv or ndjson', 'csv')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('--since <time>', 'Only records after this: date or duration ago (e.g. 30d)')
+  .option('--until <time>', 'Only records before this: date or duration ago')
+  .option('--account <email>', 'Only records for this account')
+  .option('--model <id>', 'Only records for this model (substring match)')
+  .option('--failed', 'Only failed triggers')
+  .action((options) => wakeupCommand('history-export', [], options))
+
+wakeupCmd
+  .command('stats')
+  .description('Show trigger success rates, durations and errors')
+  .option('--since <time>', 'Start of window: date or duration ago (e.g. 7d)', '7d')
+  .option('--until <time>', 'End of window: date or duration ago')
+  .option('--account <email>', 'Only include this account')
+  .option('--json', 'Output as JSON')
+  .action((options) => wakeupCommand('stats', [], options))
+
 wakeupCmd
   .command('status')
   .description('Show wake-up status and configuration')
@@ -4,6 +4,7 @@
 
 import type { QuotaSnapshot, ModelQuotaInfo, PromptCreditsInfo } from '../quota/types.js'
 import type { ConnectUserStatus } from './connect-client.js'
+import { getModelGroup } from '../quota/groups.js'
 import { debug } from '../core/logger.js'
 
 /**
@@ -75,6 +76,7 @@ function parseModelQuota(model: NonNullable<NonNullable<ConnectUserStatus['quota
     timeUntilResetMs: quota?.timeUntilResetMs,
     isAutocompleteOnly: model.modelId.includes('gemini-2.5') ||
       (model.label || '').includes('Gemini 2.5') ||
-      (model.displayName || '').includes('Gemini 2.5')
+      (model.displayName || '').includes('Gemini 2.5'),
+    groupId: getModelGroup(model.modelId)?.id
   }
 }
@@ -0,0 +1,109 @@
+/**
+ * Per-account quota fetching
+ * Shared by the quota command and long-running views (watch, TUI, servers)
+ */
+
+import { fetchQuota, fetchQuotaGoogle, type QuotaMethod } from './service.js'
+import { resetTokenManager, getTokenManagerForAccount } from '../google/token-manager.js'
+import { getAccountManager, saveCache } from '../accounts/index.js'
+import { appendQuotaHistory } from '../history/index.js'
+import { processSnapshotAlerts, processAccountFailureAlerts } from '../alerts/index.js'
+import { AuthenticationError, NotLoggedInError, TokenRefreshError } from '../core/errors.js'
+import { debug } from '../core/logger.js'
+import type { QuotaSnapshot } from './types.js'
+
+/**
+ * Persist a freshly fetched snapshot: overwrite the cache, append to history and evaluate alerts
+ */
+export async function persistSnapshot(email: string, snapshot: QuotaSnapshot): Promise<void> {
+  saveCache(email, snapshot)
+  await recordSnapshot(email, snapshot)
+}
+
+/**
+ * Append a snapshot to the quota history store and evaluate alert rules against it
+ */
+export async function recordSnapshot(email: string, snapshot: QuotaSnapshot): Promise<void> {
+  // History and alerts are best-effort; never fail a fetch because of them
+  try {
+    appendQuotaHistory(email, snapshot)
+  } catch (err) {
+    debug('quota-accounts', `Failed to record quota history for ${email}`, err)
+  }
+
+  try {
+    await processSnapshotAlerts(email, snapshot)
+  } catch (err) {
+    debug('quota-accounts', `Failed to evaluate alerts for ${email}`, err)
+  }
+}
+
+/**
+ * Evaluate account alert rules if a fetch failed because the account's tokens are unusable
+ */
+export async function recordFetchFailure(email: string, err: unknown): Promise<void> {
+  const isAuthFailure = err instanceof AuthenticationError ||
+    err instanceof NotLoggedInError ||
+    (err instanceof TokenRefreshError && !err.isRetryable)
+  if (!isAuthFailure) return
+
+  try {
+    const reason = err instanceof TokenRefreshError ? err.getDetailedMessage() : err.message
+    await processAccountFailureAlerts(email, reason)
+  } catch (alertErr) {
+    debug('quota-accounts', `Failed to evaluate alerts for ${email}`, alertErr)
+  }
+}
+
+/**
+ * Fetch quota for a specific account
+ */
+export async function fetchQuotaForAccount(email: string, method: QuotaMethod): Promise<QuotaSnapshot> {
+  const manager = getAccountManager()
+  const originalActiveEmail = manager.getActiveEmail()
+
+  // CRITICAL: Local method always returns IDE's logged-in account data
+  // We CANNOT use local method for non-IDE accounts in multi-account mode
+  // Force Google API method to ensure we get the correct account's data
+  let effectiveMethod = method
+
+  if (method === 'auto' || method === 'local') {
+    // Always use Google API for multi-account to avoid cache pollution
+    effectiveMethod = 'google'
+    debug('quota-accounts', `Forcing Google API for multi-account fetch (email: ${email})`)
+  }
+
+  // Temporarily switch to target account
+  let accountSwitched = false
+  if (email !== originalActiveEmail) {
+    debug('quota-accounts', `Switching to ${email} for fetch`)
+    manager.setActiveAccount(email)
+    // CRITICAL: Reset TokenManager singleton so it loads the new account's tokens
+    resetTokenManager()
+    accountSwitched = true
+  }
+
+  try {
+    const snapshot = await fetchQuota(effectiveMethod)
+    return snapshot
+  } catch (err) {
+    await recordFetchFailure(email, err)
+    throw err
+  } finally {
+    // Always restore original active account
+    if (accountSwitched && originalActiveEmail) {
+      debug('quota-accounts', `Restoring active account to ${originalActiveEmail}`)
+      manager.setActiveAccount(originalActiveEmail)
+      // Reset TokenManager again to pick up original account's tokens
+      resetTokenManager()
+    }
+  }
+}
+
+/**
+ * Fetch quota for an account without side effects, for dry runs
+ * The active account is left alone, refreshed tokens are not saved and no alerts fire.
+ */
+export async function previewQuotaForAccount(email: string): Promise<QuotaSnapshot> {
+  return fetchQuotaGoogle(getTokenManagerForAccount(email, { readOnly: true }))
+}
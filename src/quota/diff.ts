@@ -0,0 +1,64 @@
+/**
+ * Snapshot comparison helpers (used by watch mode)
+ */
+
+import type { QuotaSnapshot, ModelQuotaInfo } from './types.js'
+
+/**
+ * Compare two snapshots and return the change in remaining fraction per model
+ * Only models whose remainingPercentage changed are included.
+ * @returns Map of modelId to delta (negative = quota consumed)
+ */
+export function diffSnapshots(previous: QuotaSnapshot | undefined, current: QuotaSnapshot): Map<string, number> {
+  const changes = new Map<string, number>()
+  if (!previous) return changes
+
+  const previousById = new Map(previous.models.map(m => [m.modelId, m]))
+
+  for (const model of current.models) {
+    const before = previousById.get(model.modelId)?.remainingPercentage
+    const after = model.remainingPercentage
+    if (before === undefined || after === undefined) continue
+
+    const delta = after - before
+    if (Math.abs(delta) > 1e-9) {
+      changes.set(model.modelId, delta)
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Get the minimum remaining fraction across relevant models
+ */
+export function getMinRemaining(snapshot: QuotaSnapshot | undefined, allModels = false): number | undefined {
+  const models = (snapshot?.models || []).filter(m => allModels || !m.isAutocompleteOnly)
+  const percentages = models
+    .map(m => m.remainingPercentage)
+    .filter((p): p is number => p !== undefined)
+
+  return percentages.length > 0 ? Math.min(...percentages) : undefined
+}
+
+/**
+ * Return a copy of the snapshot with reset countdowns advanced by elapsedMs
+ */
+export function ageSnapshot(snapshot: QuotaSnapshot, elapsedMs: number): QuotaSnapshot {
+  const ageModel = (model: ModelQuotaInfo): ModelQuotaInfo => {
+    if (model.timeUntilResetMs === undefined) return model
+    const remaining = model.timeUntilResetMs - elapsedMs
+    return { ...model, timeUntilResetMs: remaining > 0 ? remaining : undefined }
+  }
+
+  return { ...snapshot, models: snapshot.models.map(ageModel) }
+}
+
+/**
+ * Format a remaining-fraction delta as percentage points (e.g. "▼5")
+ */
+export function formatDelta(delta: number): string {
+  const points = Math.round(Math.abs(delta) * 100)
+  const arrow = delta < 0 ? '▼' : '▲'
+  return points === 0 ? `${arrow}<1` : `${arrow}${points}`
+}
@@ -0,0 +1,183 @@
+/**
+ * Machine-readable quota output formats
+ * Flattens snapshots into rows with stable column names for CSV, Markdown and NDJSON
+ */
+
+import { stringify } from 'yaml'
+import type { QuotaSnapshot } from './types.js'
+import type { AllAccountsQuotaResult } from '../render/table.js'
+
+export type OutputFormat = 'table' | 'json' | 'csv' | 'markdown' | 'yaml' | 'ndjson'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv', 'markdown', 'yaml', 'ndjson']
+
+/**
+ * Stable column order for row-based formats
+ */
+export const QUOTA_COLUMNS = [
+  'account',
+  'status',
+  'source',
+  'timestamp',
+  'plan',
+  'model_id',
+  'model_label',
+  'remaining_percent',
+  'exhausted',
+  'reset_time',
+  'reset_in_seconds',
+  'prompt_credits_available',
+  'prompt_credits_monthly',
+  'error'
+] as const
+
+export type QuotaColumn = typeof QUOTA_COLUMNS[number]
+
+export type QuotaRow = Record<QuotaColumn, string | number | boolean | null>
+
+/**
+ * Parse a --format value
+ */
+export function parseOutputFormat(value: string): OutputFormat | null {
+  const normalized = value.toLowerCase() === 'md' ? 'markdown' : value.toLowerCase()
+  return OUTPUT_FORMATS.includes(normalized as OutputFormat) ? normalized as OutputFormat : null
+}
+
+function emptyRow(): QuotaRow {
+  return Object.fromEntries(QUOTA_COLUMNS.map(column => [column, null])) as QuotaRow
+}
+
+/**
+ * One row per model in a snapshot
+ */
+export function snapshotToRows(
+  snapshot: QuotaSnapshot,
+  options: { allModels?: boolean; account?: string; status?: string; source?: string } = {}
+): QuotaRow[] {
+  const models = options.allModels
+    ? snapshot.models
+    : snapshot.models.filter(m => !m.isAutocompleteOnly)
+
+  const base: QuotaRow = {
+    ...emptyRow(),
+    account: options.account ?? snapshot.email ?? null,
+    status: options.status ?? 'success',
+    source: options.source ?? snapshot.method,
+    timestamp: snapshot.timestamp,
+    plan: snapshot.planType ?? null,
+    prompt_credits_available: snapshot.promptCredits?.available ?? null,
+    prompt_credits_monthly: snapshot.promptCredits?.monthly ?? null
+  }
+
+  if (models.length === 0) {
+    return [base]
+  }
+
+  return models.map(model => ({
+    ...base,
+    model_id: model.modelId,
+    model_label: model.label,
+    remaining_percent: model.remainingPercentage !== undefined
+      ? Math.round(model.remainingPercentage * 1000) / 10
+      : null,
+    exhausted: model.isExhausted,
+    reset_time: model.resetTime ?? null,
+    reset_in_seconds: model.timeUntilResetMs !== undefined
+      ? Math.round(model.timeUntilResetMs / 1000)
+      : null
+  }))
+}
+
+/**
+ * Rows for every account (error accounts get a single row with the error)
+ */
+export function allAccountsToRows(results: AllAccountsQuotaResult[], options: { allModels?: boolean } = {}): QuotaRow[] {
+  return results.flatMap(result => {
+    if (!result.snapshot) {
+      return [{ ...emptyRow(), account: result.email, status: result.status, error: result.error ?? null }]
+    }
+    return snapshotToRows(result.snapshot, {
+      allModels: options.allModels,
+      account: result.email,
+      status: result.status,
+      source: result.status === 'cached' ? 'cache' : result.snapshot.method
+    })
+  })
+}
+
+function cellToString(value: QuotaRow[QuotaColumn]): string {
+  return value === null ? '' : String(value)
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function rowsToCsv(rows: QuotaRow[]): string {
+  const escape = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+  const lines = [QUOTA_COLUMNS.join(',')]
+  for (const row of rows) {
+    lines.push(QUOTA_COLUMNS.map(column => escape(cellToString(row[column]))).join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * GitHub-flavored Markdown table
+ */
+export function rowsToMarkdown(rows: QuotaRow[]): string {
+  const escape = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+
+  const lines = [
+    `| ${QUOTA_COLUMNS.join(' | ')} |`,
+    `| ${QUOTA_COLUMNS.map(() => '---').join(' | ')} |`
+  ]
+  for (const row of rows) {
+    lines.push(`| ${QUOTA_COLUMNS.map(column => escape(cellToString(row[column]))).join(' | ')} |`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Newline-delimited JSON, one row object per line
+ */
+export function rowsToNdjson(rows: QuotaRow[]): string {
+  return rows.map(row => JSON.stringify(row)).join('\n') + '\n'
+}
+
+/**
+ * Render a single-account snapshot in a non-table format
+ */
+export function formatSnapshot(snapshot: QuotaSnapshot, format: Exclude<OutputFormat, 'table'>, allModels = false): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(snapshot, null, 2) + '\n'
+    case 'yaml':
+      return stringify(snapshot)
+    case 'csv':
+      return rowsToCsv(snapshotToRows(snapshot, { allModels }))
+    case 'markdown':
+      return rowsToMarkdown(snapshotToRows(snapshot, { allModels }))
+    case 'ndjson':
+      return rowsToNdjson(snapshotToRows(snapshot, { allModels }))
+  }
+}
+
+/**
+ * Render all-accounts results in a non-table format
+ */
+export function formatAllAccounts(results: AllAccountsQuotaResult[], format: Exclude<OutputFormat, 'table'>, allModels = false): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(results, null, 2) + '\n'
+    case 'yaml':
+      return stringify(results)
+    case 'csv':
+      return rowsToCsv(allAccountsToRows(results, { allModels }))
+    case 'markdown':
+      return rowsToMarkdown(allAccountsToRows(results, { allModels }))
+    case 'ndjson':
+      return rowsToNdjson(allAccountsToRows(results, { allModels }))
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Burn-rate forecasting
+ * Estimates per-model consumption from quota history and projects exhaustion
+ */
+
+import { debug } from '../core/logger.js'
+import { queryQuotaHistory, type QuotaHistoryEntry } from '../history/index.js'
+import type { QuotaSnapshot, ModelQuotaInfo, ModelForecast } from './types.js'
+
+// Only look back this far for readings (covers the longest known reset cycle)
+const LOOKBACK_MS = 8 * 24 * 60 * 60 * 1000
+
+// Readings must span at least this long to produce a rate
+const MIN_SPAN_MS = 5 * 60 * 1000
+
+/**
+ * A single remaining-quota reading for one model
+ */
+export interface QuotaReading {
+  timestamp: string
+  remainingPercentage: number
+  resetTime?: string
+}
+
+/**
+ * Compute a forecast for one model from its readings
+ *
+ * Only readings from the current reset cycle (same resetTime) are used, and
+ * only since the last time quota went back up, so a mid-cycle top-up does
+ * not produce a negative rate.
+ *
+ * @param model Current model quota info
+ * @param readings Historical readings for this model (any order)
+ * @param now Reference time (snapshot time)
+ */
+export function computeModelForecast(
+  model: ModelQuotaInfo,
+  readings: QuotaReading[],
+  now: number = Date.now()
+): ModelForecast {
+  if (model.isExhausted || model.remainingPercentage === 0) {
+    return { status: 'exhausted', willExhaustBeforeReset: true, sampleCount: readings.length }
+  }
+
+  // Keep readings from the current cycle, up to now
+  const cycle = readings
+    .filter(r => !model.resetTime || !r.resetTime || r.resetTime === model.resetTime)
+    .filter(r => new Date(r.timestamp).getTime() <= now)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  // Start from the last increase (quota top-up or reset not reflected in resetTime)
+  let start = 0
+  for (let i = 1; i < cycle.length; i++) {
+    if (cycle[i].remainingPercentage > cycle[i - 1].remainingPercentage) {
+      start = i
+    }
+  }
+  const window = cycle.slice(start)
+
+  if (window.length < 2) {
+    return { status: 'insufficient_data', willExhaustBeforeReset: false, sampleCount: window.length }
+  }
+
+  const first = window[0]
+  const last = window[window.length - 1]
+  const spanMs = new Date(last.timestamp).getTime() - new Date(first.timestamp).getTime()
+
+  if (spanMs < MIN_SPAN_MS) {
+    return { status: 'insufficient_data', willExhaustBeforeReset: false, sampleCount: window.length }
+  }
+
+  const consumed = first.remainingPercentage - last.remainingPercentage
+  const burnRatePerHour = consumed / (spanMs / (60 * 60 * 1000))
+
+  if (burnRatePerHour <= 0) {
+    return { status: 'stable', burnRatePerHour: 0, willExhaustBeforeReset: false, sampleCount: window.length }
+  }
+
+  // Project from the latest reading
+  const remaining = model.remainingPercentage ?? last.remainingPercentage
+  const hoursLeft = remaining / burnRatePerHour
+  const exhaustsAtMs = new Date(last.timestamp).getTime() + hoursLeft * 60 * 60 * 1000
+  const timeUntilExhaustionMs = Math.max(0, exhaustsAtMs - now)
+
+  const resetAtMs = model.resetTime ? new Date(model.resetTime).getTime() : undefined
+  const willExhaustBeforeReset = resetAtMs !== undefined && !isNaN(resetAtMs) && exhaustsAtMs < resetAtMs
+
+  return {
+    status: willExhaustBeforeReset ? 'at_risk' : 'safe',
+    burnRatePerHour,
+    exhaustsAt: new Date(exhaustsAtMs).toISOString(),
+    timeUntilExhaustionMs,
+    willExhaustBeforeReset,
+    sampleCount: window.length
+  }
+}
+
+/**
+ * Collect readings per model ID from history entries
+ */
+export function collectReadings(entries: QuotaHistoryEntry[]): Map<string, QuotaReading[]> {
+  const byModel = new Map<string, QuotaReading[]>()
+
+  for (const entry of entries) {
+    for (const model of entry.models) {
+      if (model.remainingPercentage === undefined) continue
+
+      const readings = byModel.get(model.modelId) || []
+      readings.push({
+        timestamp: entry.timestamp,
+        remainingPercentage: model.remainingPercentage,
+        resetTime: model.resetTime
+      })
+      byModel.set(model.modelId, readings)
+    }
+  }
+
+  return byModel
+}
+
+/**
+ * Attach forecasts to every model in a snapshot using the account's history
+ * The snapshot itself is included as the latest reading (deduplicated by timestamp).
+ */
+export function attachForecasts(email: string, snapshot: QuotaSnapshot): QuotaSnapshot {
+  const now = new Date(snapshot.timestamp).getTime() || Date.now()
+
+  let entries: QuotaHistoryEntry[] = []
+  try {
+    entries = queryQuotaHistory({ email, since: new Date(now - LOOKBACK_MS) })
+  } catch (err) {
+    debug('forecast', `Failed to load history for ${email}`, err)
+  }
+
+  const readingsByModel = collectReadings(entries)
+
+  const models = snapshot.models.map(model => {
+    const readings = (readingsByModel.get(model.modelId) || [])
+      .filter(r => r.timestamp !== snapshot.timestamp)
+
+    if (model.remainingPercentage !== undefined) {
+      readings.push({
+        timestamp: snapshot.timestamp,
+        remainingPercentage: model.remainingPercentage,
+        resetTime: model.resetTime
+      })
+    }
+
+    return { ...model, forecast: computeModelForecast(model, readings, now) }
+  })
+
+  return { ...snapshot, models }
+}
+
+/**
+ * Pick the most urgent forecast among models (for one-row-per-account views)
+ * Priority: at_risk (soonest first) > exhausted > safe > stable > insufficient_data
+ */
+export function getMostUrgentForecast(models: ModelQuotaInfo[]): ModelForecast | undefined {
+  const priority: Record<ModelForecast['status'], number> = {
+    at_risk: 0,
+    exhausted: 1,
+    safe: 2,
+    stable: 3,
+    insufficient_data: 4
+  }
+
+  let best: ModelForecast | undefined
+  for (const model of models) {
+    const forecast = model.forecast
+    if (!forecast) continue
+
+    if (!best || priority[forecast.status] < priority[best.status]) {
+      best = forecast
+    } else if (
+      forecast.status === best.status &&
+      forecast.timeUntilExhaustionMs !== undefined &&
+      (best.timeUntilExhaustionMs === undefined || forecast.timeUntilExhaustionMs < best.timeUntilExhaustionMs)
+    ) {
+      best = forecast
+    }
+  }
+
+  return best
+}
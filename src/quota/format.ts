@@ -3,13 +3,18 @@
  */
 
 import Table from 'cli-table3'
-import type { QuotaSnapshot, ModelQuotaInfo } from './types.js'
+import { formatDuration } from '../core/duration.js'
+import { formatDelta } from './diff.js'
+import { groupModels } from './groups.js'
+import type { QuotaSnapshot, ModelQuotaInfo, ModelForecast } from './types.js'
 
 /**
  * Options for quota formatting
  */
 export interface FormatOptions {
   allModels?: boolean
+  changes?: Map<string, number>      // modelId -> remaining delta since last refresh (watch mode)
+  grouped?: boolean                  // Collapse models sharing a quota pool into one row
 }
 
 /**
@@ -30,7 +35,7 @@ function formatTimeUntilReset(ms?: number): string {
 /**
  * Format remaining percentage for display
  */
-function formatRemaining(model: ModelQuotaInfo): string {
+function formatRemaining(model: Pick<ModelQuotaInfo, 'isExhausted' | 'remainingPercentage'>): string {
   if (model.isExhausted) {
     return '❌ EXHAUSTED'
   }
@@ -45,6 +50,28 @@ function formatRemaining(model: ModelQuotaInfo): string {
   return `🔴 ${pct}%`
 }
 
+/**
+ * Format a burn-rate forecast for display
+ */
+export function formatForecast(forecast?: ModelForecast): string {
+  if (!forecast) return '-'
+
+  switch (forecast.status) {
+    case 'exhausted':
+      return '❌ Exhausted'
+    case 'insufficient_data':
+      return '… Not enough data'
+    case 'stable':
+      return '✅ Stable'
+    case 'safe': {
+      const rate = Math.round((forecast.burnRatePerHour ?? 0) * 100)
+      return `✅ Lasts to reset (-${rate}%/h)`
+    }
+    case 'at_risk':
+      return `⚠️ Empty in ${formatDuration(forecast.timeUntilExhaustionMs ?? 0)}`
+  }
+}
+
 /**
  * Print quota as a formatted table
  */
@@ -72,20 +99,45 @@ export function printQuotaTable(snapshot: QuotaSnapshot, options: FormatOptions
     : snapshot.models.filter(m => !m.isAutocompleteOnly)
 
   if (visibleModels.length > 0) {
+    const showForecast = visibleModels.some(m => m.forecast)
+    const head = ['Model', 'Remaining', 'Resets In']
+    if (showForecast) {
+      head.push('Forecast')
+    }
+
     const table = new Table({
-      head: ['Model', 'Remaining', 'Resets In'],
+      head,
       style: {
         head: ['cyan'],
         border: ['gray']
       }
     })
 
-    for (const model of visibleModels) {
-      table.push([
-        model.label,
-        formatRemaining(model),
-        formatTimeUntilReset(model.timeUntilResetMs)
-      ])
+    const rows = options.grouped
+      ? groupModels(visibleModels).map(group => ({
+        ...group,
+        label: group.models.length > 1
+          ? `${group.label}\n  ${group.models.map(m => m.label).join(', ')}`
+          : group.label,
+        changeKey: group.models[0].modelId
+      }))
+      : visibleModels.map(model => ({ ...model, changeKey: model.modelId }))
+
+    for (const row of rows) {
+      const change = options.changes?.get(row.changeKey)
+      const remaining = change !== undefined
+        ? `${formatRemaining(row)} ${formatDelta(change)}`
+        : formatRemaining(row)
+
+      const cells = [
+        row.label,
+        remaining,
+        formatTimeUntilReset(row.timeUntilResetMs)
+      ]
+      if (showForecast) {
+        cells.push(formatForecast(row.forecast))
+      }
+      table.push(cells)
     }
 
     console.log(table.toString())
@@ -0,0 +1,123 @@
+/**
+ * Model quota groups
+ * Models in the same family share one quota pool (same remaining fraction and reset time)
+ */
+
+import type { ModelQuotaInfo, ModelForecast } from './types.js'
+
+/**
+ * A known family of models that share quota
+ */
+export interface ModelGroupDefinition {
+  id: string
+  label: string
+  representative: string             // Model to trigger to wake up the whole group
+  pattern: RegExp                    // Matches member model IDs
+}
+
+/**
+ * Known quota groups, checked in order
+ */
+export const MODEL_GROUPS: ModelGroupDefinition[] = [
+  { id: 'claude', label: 'Claude family', representative: 'claude-sonnet-4-6', pattern: /^claude-/ },
+  { id: 'gemini-flash', label: 'Gemini flash group', representative: 'gemini-3-flash', pattern: /^gemini-(?!2\.5).*flash/ },
+  { id: 'gemini-pro', label: 'Gemini pro group', representative: 'gemini-3.1-pro-low', pattern: /^gemini-(?!2\.5).*pro/ }
+]
+
+/**
+ * Rows shown when models are collapsed by quota pool
+ */
+export interface ModelQuotaGroup {
+  id: string                         // Group ID, or the model ID for ungrouped models
+  label: string
+  models: ModelQuotaInfo[]
+  remainingPercentage?: number
+  isExhausted: boolean
+  resetTime?: string
+  timeUntilResetMs?: number
+  isAutocompleteOnly?: boolean
+  forecast?: ModelForecast
+}
+
+/**
+ * Find the registry group a model belongs to
+ */
+export function getModelGroup(modelId: string): ModelGroupDefinition | undefined {
+  return MODEL_GROUPS.find(group => group.pattern.test(modelId))
+}
+
+/**
+ * Representative model IDs, one per group
+ */
+export function getRepresentativeModels(): string[] {
+  return MODEL_GROUPS.map(group => group.representative)
+}
+
+function poolKey(model: ModelQuotaInfo): string {
+  return `${model.remainingPercentage ?? 'n/a'}|${model.resetTime ?? 'n/a'}`
+}
+
+function toGroup(id: string, label: string, models: ModelQuotaInfo[]): ModelQuotaGroup {
+  const [first] = models
+  // Members share a pool, so the forecast with the least time left speaks for all of them
+  const forecast = models
+    .map(m => m.forecast)
+    .filter((f): f is ModelForecast => f !== undefined)
+    .sort((a, b) => (a.timeUntilExhaustionMs ?? Infinity) - (b.timeUntilExhaustionMs ?? Infinity))[0]
+
+  return {
+    id,
+    label,
+    models,
+    remainingPercentage: first.remainingPercentage,
+    isExhausted: models.some(m => m.isExhausted),
+    resetTime: first.resetTime,
+    timeUntilResetMs: first.timeUntilResetMs,
+    isAutocompleteOnly: models.every(m => m.isAutocompleteOnly),
+    forecast
+  }
+}
+
+/**
+ * Collapse models into quota pools
+ *
+ * Models are grouped by their registry family, then split again if members
+ * turn out to report different remaining fractions or reset times. Models
+ * outside the registry are kept as their own row.
+ */
+export function groupModels(models: ModelQuotaInfo[]): ModelQuotaGroup[] {
+  const buckets = new Map<string, { label: string; models: ModelQuotaInfo[] }>()
+
+  for (const model of models) {
+    // Older cached snapshots predate groupId, so fall back to the registry
+    const group = model.groupId
+      ? MODEL_GROUPS.find(g => g.id === model.groupId)
+      : getModelGroup(model.modelId)
+    const key = group ? `${group.id}|${poolKey(model)}` : `model|${model.modelId}`
+    const bucket = buckets.get(key)
+    if (bucket) {
+      bucket.models.push(model)
+    } else {
+      buckets.set(key, { label: group?.label || model.label, models: [model] })
+    }
+  }
+
+  const groups: ModelQuotaGroup[] = []
+  const pools = new Map<string, number>()
+
+  for (const [key, bucket] of buckets) {
+    if (key.startsWith('model|') || bucket.models.length === 1) {
+      const [model] = bucket.models
+      groups.push(toGroup(model.modelId, model.label, bucket.models))
+      continue
+    }
+
+    // A family split into several pools gets numbered IDs
+    const groupId = key.split('|')[0]
+    const index = (pools.get(groupId) ?? 0) + 1
+    pools.set(groupId, index)
+    groups.push(toGroup(index === 1 ? groupId : `${groupId}-${index}`, bucket.label, bucket.models))
+  }
+
+  return groups
+}
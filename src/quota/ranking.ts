@@ -0,0 +1,165 @@
+/**
+ * Quota-aware account ranking
+ * Picks the account with the most remaining quota for a model
+ */
+
+import { getAccountManager, loadCacheWithMeta } from '../accounts/index.js'
+import { fetchQuotaForAccount, persistSnapshot } from './accounts.js'
+import { getMinRemaining } from './diff.js'
+import { resetTokenManager } from '../google/token-manager.js'
+import { debug } from '../core/logger.js'
+import type { QuotaSnapshot } from './types.js'
+
+/**
+ * One account's position in the ranking
+ */
+export interface AccountRanking {
+  email: string
+  isActive: boolean
+  remaining: number | null           // 0-1, null when unknown
+  modelLabel?: string                // Model the remaining value was taken from
+  resetTime?: string
+  source: 'cache' | 'fetched' | 'stale' | 'error'
+  error?: string
+}
+
+/**
+ * Snapshot lookup result for one account
+ */
+export interface RankingInput {
+  email: string
+  snapshot: QuotaSnapshot | null
+  source: AccountRanking['source']
+  error?: string
+}
+
+/**
+ * Remaining fraction for the requested model in a snapshot
+ *
+ * Exact model ID match wins; otherwise label/ID substrings are matched and the
+ * lowest remaining among them is used. Without a model, the lowest remaining
+ * across all non-autocomplete models is used.
+ */
+export function getModelRemaining(
+  snapshot: QuotaSnapshot,
+  model?: string
+): { remaining: number; label?: string; resetTime?: string } | null {
+  if (!model) {
+    const remaining = getMinRemaining(snapshot)
+    return remaining === undefined ? null : { remaining }
+  }
+
+  const needle = model.toLowerCase()
+  const exact = snapshot.models.filter(m => m.modelId === model)
+  const matches = exact.length > 0
+    ? exact
+    : snapshot.models.filter(m => m.modelId.toLowerCase().includes(needle) || m.label.toLowerCase().includes(needle))
+
+  let best: { remaining: number; label?: string; resetTime?: string } | null = null
+  for (const m of matches) {
+    const remaining = m.remainingPercentage ?? (m.isExhausted ? 0 : undefined)
+    if (remaining === undefined) continue
+    if (!best || remaining < best.remaining) {
+      best = { remaining, label: m.label, resetTime: m.resetTime }
+    }
+  }
+  return best
+}
+
+/**
+ * Rank accounts by remaining quota, best first (unknown quota last)
+ */
+export function rankAccounts(inputs: RankingInput[], activeEmail: string | null, model?: string): AccountRanking[] {
+  const rankings = inputs.map((input): AccountRanking => {
+    const found = input.snapshot ? getModelRemaining(input.snapshot, model) : null
+    return {
+      email: input.email,
+      isActive: input.email === activeEmail,
+      remaining: found ? found.remaining : null,
+      modelLabel: found?.label,
+      resetTime: found?.resetTime,
+      source: input.source,
+      error: input.error
+    }
+  })
+
+  return rankings.sort((a, b) => {
+    if (a.remaining === null && b.remaining === null) return 0
+    if (a.remaining === null) return 1
+    if (b.remaining === null) return -1
+    if (b.remaining !== a.remaining) return b.remaining - a.remaining
+    // Prefer staying on the active account when tied
+    return Number(b.isActive) - Number(a.isActive)
+  })
+}
+
+/**
+ * Load a snapshot for ranking: fresh cache first, refetch otherwise,
+ * falling back to a stale cache if the fetch fails
+ */
+async function loadRankingInput(email: string, refresh: boolean): Promise<RankingInput> {
+  const cached = loadCacheWithMeta(email)
+  const isFresh = cached?.data && Date.now() - new Date(cached.cachedAt).getTime() < cached.ttl * 1000
+
+  if (cached?.data && isFresh && !refresh) {
+    return { email, snapshot: cached.data, source: 'cache' }
+  }
+
+  try {
+    const snapshot = await fetchQuotaForAccount(email, 'google')
+    await persistSnapshot(email, snapshot)
+    return { email, snapshot, source: 'fetched' }
+  } catch (err) {
+    debug('ranking', `Failed to fetch quota for ${email}`, err)
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    if (cached?.data) {
+      return { email, snapshot: cached.data, source: 'stale', error: message }
+    }
+    return { email, snapshot: null, source: 'error', error: message }
+  }
+}
+
+/**
+ * Rank all accounts for a model
+ */
+export async function rankAllAccounts(model?: string, refresh = false): Promise<AccountRanking[]> {
+  const manager = getAccountManager()
+  const inputs: RankingInput[] = []
+
+  // Sequential: fetching temporarily switches the active account
+  for (const email of manager.getAccountEmails()) {
+    inputs.push(await loadRankingInput(email, refresh))
+  }
+
+  return rankAccounts(inputs, manager.getActiveEmail(), model)
+}
+
+/**
+ * Activate the best-ranked account with known quota
+ * Returns the ranking and the chosen account (null if none had data)
+ */
+export async function switchToBestAccount(
+  model?: string,
+  refresh = false
+): Promise<{ rankings: AccountRanking[]; best: AccountRanking | null; switched: boolean }> {
+  const rankings = await rankAllAccounts(model, refresh)
+  const best = rankings.find(r => r.remaining !== null) || null
+
+  if (!best) {
+    return { rankings, best: null, switched: false }
+  }
+
+  const manager = getAccountManager()
+  const switched = best.email !== manager.getActiveEmail()
+  if (switched) {
+    debug('ranking', `Activating best account ${best.email}`)
+    manager.setActiveAccount(best.email)
+    // Token manager may still hold the previous account's tokens
+    resetTokenManager()
+    for (const ranking of rankings) {
+      ranking.isActive = ranking.email === best.email
+    }
+  }
+
+  return { rankings, best, switched }
+}
@@ -3,7 +3,7 @@
  */
 
 import { debug } from '../core/logger.js'
-import { getTokenManager } from '../google/token-manager.js'
+import { getTokenManager, type TokenManager } from '../google/token-manager.js'
 import { CloudCodeClient, type FetchAvailableModelsResponse } from '../google/cloudcode.js'
 import { parseQuotaSnapshot } from '../google/parser.js'
 import { extractProjectId } from '../google/oauth.js'
@@ -54,11 +54,11 @@ export async function fetchQuota(method: QuotaMethod = 'auto'): Promise<QuotaSna
 
 /**
  * Fetch quota from Google Cloud Code API
+ * @param tokenManager Token manager to use, defaults to the active account's
  */
-async function fetchQuotaGoogle(): Promise<QuotaSnapshot> {
+export async function fetchQuotaGoogle(tokenManager: TokenManager = getTokenManager()): Promise<QuotaSnapshot> {
   debug('service', 'Fetching quota from Google')
   
-  const tokenManager = getTokenManager()
   const email = tokenManager.getEmail()
   const client = new CloudCodeClient(tokenManager)
   
@@ -19,6 +19,30 @@ export interface ModelQuotaInfo {
   resetTime?: string
   timeUntilResetMs?: number
   isAutocompleteOnly?: boolean
+  groupId?: string                   // Shared quota pool family (see quota/groups.ts)
+  forecast?: ModelForecast
+}
+
+/**
+ * Forecast status for a model
+ * - insufficient_data: not enough readings in the current reset cycle
+ * - stable: no consumption observed
+ * - safe: consuming, but quota outlasts the reset
+ * - at_risk: projected to run out before the reset
+ * - exhausted: already out of quota
+ */
+export type ForecastStatus = 'insufficient_data' | 'stable' | 'safe' | 'at_risk' | 'exhausted'
+
+/**
+ * Burn-rate forecast computed from quota history
+ */
+export interface ModelForecast {
+  status: ForecastStatus
+  burnRatePerHour?: number           // Fraction of quota consumed per hour (0-1 scale)
+  exhaustsAt?: string                // Projected ISO time of exhaustion
+  timeUntilExhaustionMs?: number
+  willExhaustBeforeReset: boolean
+  sampleCount: number                // Readings used for the estimate
 }
 
 export interface PromptCreditsInfo {
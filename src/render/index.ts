@@ -5,5 +5,6 @@
 export { 
   renderAccountsTable, 
   renderAllQuotaTable,
+  renderAccountRankingTable,
   type AllAccountsQuotaResult 
 } from './table.js'
@@ -4,7 +4,11 @@
 
 import Table from 'cli-table3'
 import type { AccountSummary } from '../accounts/types.js'
+import { formatForecast } from '../quota/format.js'
+import { getMostUrgentForecast } from '../quota/forecast.js'
+import { formatDelta } from '../quota/diff.js'
 import type { QuotaSnapshot } from '../quota/types.js'
+import type { AccountRanking } from '../quota/ranking.js'
 
 /**
  * Format relative time (e.g., "2 hours ago")
@@ -35,6 +39,7 @@ function formatStatus(status: string): string {
     case 'valid': return '✅'
     case 'expired': return '⚠️'
     case 'invalid': return '❌'
+    case 'revoked': return '🚫'
     default: return '❓'
   }
 }
@@ -88,9 +93,16 @@ export function renderAccountsTable(accounts: AccountSummary[]): void {
   const table = new Table(tableOptions)
 
   for (const account of accounts) {
-    const nameDisplay = account.isActive
-      ? `${account.email} [*]`
-      : account.email
+    // Aliases are shorter than emails, so lead with them and put the email underneath
+    const name = account.alias ?? account.email
+    const lines = [account.isActive ? `${name} [*]` : name]
+    if (account.alias) {
+      lines.push(account.email)
+    }
+    if (account.tags?.length) {
+      lines.push(account.tags.map(tag => `#${tag}`).join(' '))
+    }
+    const nameDisplay = lines.join('\n')
 
     table.push([
       nameDisplay,
@@ -101,7 +113,18 @@ export function renderAccountsTable(accounts: AccountSummary[]): void {
   }
 
   console.log(table.toString())
-  console.log('\n[*] = active account\n')
+  console.log('\n[*] = active account')
+
+  // Revoked refresh tokens need a new login - say why and since when
+  const revoked = accounts.filter(account => account.status === 'revoked' && account.refreshFailure)
+  for (const account of revoked) {
+    const failure = account.refreshFailure!
+    console.log(`🚫 ${account.alias ?? account.email}: refresh token rejected ${formatRelativeTime(failure.at).toLowerCase()} (${failure.reason})`)
+  }
+  if (revoked.length > 0) {
+    console.log('   Run `antigravity-usage login` with these accounts to fix them.')
+  }
+  console.log()
 }
 
 /**
@@ -139,6 +162,7 @@ function formatQuotaRemainingBar(remainingPercentage: number | undefined): strin
  */
 export interface RenderOptions {
   allModels?: boolean
+  changes?: Map<string, number>      // email -> minimum remaining delta since last refresh (watch mode)
 }
 
 /**
@@ -183,6 +207,9 @@ export function renderAllQuotaTable(results: AllAccountsQuotaResult[], options:
 
   const totalWidth = process.stdout.columns || 80
 
+  // Forecast column only when at least one account has forecast data
+  const showForecast = results.some(r => r.snapshot?.models.some(m => m.forecast))
+
   // Calculate responsive widths
   // Standard: [30, 10, 15, 20] = ~75 content + 13 border = 88 chars
 
@@ -200,8 +227,14 @@ export function renderAllQuotaTable(results: AllAccountsQuotaResult[], options:
     colWidths = [30, 10, 15, 20]
   }
 
+  const head = ['Account', 'Source', 'Credits', 'Quota Remaining']
+  if (showForecast) {
+    head.push('Forecast')
+    colWidths = colWidths ? [...colWidths, 24] : undefined
+  }
+
   const tableOptions: any = {
-    head: ['Account', 'Source', 'Credits', 'Quota Remaining'],
+    head,
     style: {
       head: ['cyan'],
       border: ['gray']
@@ -222,12 +255,16 @@ export function renderAllQuotaTable(results: AllAccountsQuotaResult[], options:
       : result.email
 
     if (result.status === 'error') {
-      table.push([
+      const row = [
         nameDisplay,
         '-',
         '-',
         result.error || 'Error'
-      ])
+      ]
+      if (showForecast) {
+        row.push('-')
+      }
+      table.push(row)
       errors.push(`${result.email}: ${result.error}`)
     } else {
       const snapshot = result.snapshot
@@ -266,12 +303,21 @@ export function renderAllQuotaTable(results: AllAccountsQuotaResult[], options:
         }
       }
 
-      table.push([
+      const change = options.changes?.get(result.email)
+      if (change !== undefined) {
+        quotaRemaining = `${quotaRemaining} ${formatDelta(change)}`
+      }
+
+      const row = [
         nameDisplay,
         source,
         credits,
         quotaRemaining
-      ])
+      ]
+      if (showForecast) {
+        row.push(formatForecast(getMostUrgentForecast(relevantModels)))
+      }
+      table.push(row)
     }
   }
 
@@ -295,3 +341,35 @@ function formatCacheAge(seconds: number | undefined): string {
   if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
   return `${Math.floor(seconds / 3600)}h`
 }
+
+/**
+ * Render accounts ranked by remaining quota
+ */
+export function renderAccountRankingTable(rankings: AccountRanking[], model?: string): void {
+  console.log(`\n🏆 Accounts ranked by remaining quota${model ? ` for "${model}"` : ''}`)
+  console.log('═'.repeat(60))
+
+  const table = new Table({
+    head: ['#', 'Account', 'Remaining', 'Model', 'Source'],
+    style: {
+      head: ['cyan'],
+      border: ['gray']
+    }
+  })
+
+  rankings.forEach((ranking, index) => {
+    const nameDisplay = ranking.isActive ? `${ranking.email} [*]` : ranking.email
+    const source = ranking.error ? `${ranking.source} (${ranking.error.substring(0, 20)})` : ranking.source
+
+    table.push([
+      ranking.remaining === null ? '-' : String(index + 1),
+      nameDisplay,
+      formatQuotaRemainingBar(ranking.remaining === null ? undefined : ranking.remaining * 100),
+      ranking.modelLabel || (model ? '-' : 'All models'),
+      source
+    ])
+  })
+
+  console.log(table.toString())
+  console.log('\n[*] = active account\n')
+}
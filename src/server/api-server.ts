@@ -0,0 +1,325 @@
+/**
+ * Local REST/JSON API exposing quota snapshots and wake-up triggers
+ * Lets editor plugins and status bars poll quota without spawning the CLI
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import { timingSafeEqual } from 'node:crypto'
+import { getAccountManager, getCacheTTL, type AccountSummary } from '../accounts/index.js'
+import { fetchQuotaForAccount, persistSnapshot } from '../quota/accounts.js'
+import { executeTrigger } from '../wakeup/trigger-service.js'
+import { loadWakeupConfig } from '../wakeup/storage.js'
+import { loadOrCreateApiToken } from './api-token.js'
+import { debug } from '../core/logger.js'
+import type { QuotaSnapshot } from '../quota/types.js'
+import type { TriggerOptions, TriggerResult } from '../wakeup/types.js'
+
+const MAX_BODY_BYTES = 64 * 1024
+
+// Host names the API answers to; anything else may be a DNS rebinding attempt
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * External operations the API relies on (overridable for tests)
+ */
+export interface ApiServerDeps {
+  listAccounts: () => AccountSummary[]
+  getActiveEmail: () => string | null
+  fetchQuota: (email: string) => Promise<QuotaSnapshot>
+  trigger: (options: TriggerOptions) => Promise<TriggerResult>
+  defaultModels: () => string[]
+  cacheTtlMs: () => number
+  apiToken: () => string
+}
+
+/**
+ * Options for the API server
+ */
+export interface ApiServerOptions {
+  port: number
+  host: string
+  deps?: Partial<ApiServerDeps>
+}
+
+/**
+ * Entry in the per-account quota list returned by GET /quota
+ */
+export interface AccountQuotaResponse {
+  email: string
+  snapshot: QuotaSnapshot | null
+  error?: string
+}
+
+/**
+ * Error carrying an HTTP status code
+ */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+function createDefaultDeps(): ApiServerDeps {
+  return {
+    listAccounts: () => getAccountManager().getAccountSummaries(),
+    getActiveEmail: () => getAccountManager().getActiveEmail(),
+    fetchQuota: async (email) => {
+      const snapshot = await fetchQuotaForAccount(email, 'google')
+      await persistSnapshot(email, snapshot)
+      return snapshot
+    },
+    trigger: executeTrigger,
+    defaultModels: () => loadWakeupConfig()?.selectedModels || [],
+    cacheTtlMs: () => getCacheTTL() * 1000,
+    apiToken: loadOrCreateApiToken
+  }
+}
+
+/**
+ * In-memory quota cache honoring the configured TTL
+ * Fetches are serialized because they temporarily switch the active account
+ */
+export class QuotaMemoryCache {
+  private entries = new Map<string, { snapshot: QuotaSnapshot; fetchedAt: number }>()
+  private inFlight = new Map<string, Promise<QuotaSnapshot>>()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private fetcher: (email: string) => Promise<QuotaSnapshot>,
+    private ttlMs: () => number
+  ) {}
+
+  async get(email: string, forceRefresh = false): Promise<QuotaSnapshot> {
+    const entry = this.entries.get(email)
+    if (!forceRefresh && entry && Date.now() - entry.fetchedAt < this.ttlMs()) {
+      return entry.snapshot
+    }
+
+    const pending = this.inFlight.get(email)
+    if (pending) return pending
+
+    const request = this.queue
+      .catch(() => undefined)
+      .then(() => this.fetcher(email))
+      .then(snapshot => {
+        this.entries.set(email, { snapshot, fetchedAt: Date.now() })
+        return snapshot
+      })
+      .finally(() => this.inFlight.delete(email))
+
+    this.inFlight.set(email, request)
+    this.queue = request
+    return request
+  }
+
+  invalidate(email: string): void {
+    this.entries.delete(email)
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body, null, 2) + '\n')
+}
+
+/**
+ * Reject requests that could come from a web page in the user's browser:
+ * a Host other than loopback (or the bound interface) means DNS rebinding, an Origin header a cross-site request
+ */
+function checkRequestOrigin(req: IncomingMessage, bindHost?: string): void {
+  const allowed = [...LOOPBACK_HOSTS]
+  if (bindHost && bindHost !== '0.0.0.0' && bindHost !== '::') {
+    allowed.push(bindHost.includes(':') ? `[${bindHost}]` : bindHost)
+  }
+
+  let hostname: string | undefined
+  try {
+    hostname = req.headers.host ? new URL(`http://${req.headers.host}`).hostname : undefined
+  } catch {
+    hostname = undefined
+  }
+  if (!hostname || !allowed.includes(hostname.toLowerCase())) {
+    throw new HttpError(403, `Host not allowed: ${req.headers.host ?? '(none)'}`)
+  }
+  if (req.headers.origin !== undefined) {
+    throw new HttpError(403, 'Cross-origin requests are not allowed')
+  }
+}
+
+/**
+ * Require `Authorization: Bearer <token>` matching the API token
+ */
+function checkBearerToken(req: IncomingMessage, token: string): void {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)
+  const given = Buffer.from(match?.[1] ?? '')
+  const expected = Buffer.from(token)
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new HttpError(401, 'Missing or invalid API token')
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  // Browsers can send text/plain cross-site without a preflight, so only accept JSON
+  const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase()
+  if (contentType !== 'application/json') {
+    return Promise.reject(new HttpError(415, 'Content-Type must be application/json'))
+  }
+
+  return new Promise((resolve, reject) => {
+    let size = 0
+    const chunks: Buffer[] = []
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('error', reject)
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf-8').trim()
+      if (!raw) {
+        resolve({})
+        return
+      }
+      try {
+        const parsed = JSON.parse(raw)
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          reject(new HttpError(400, 'Request body must be a JSON object'))
+          return
+        }
+        resolve(parsed)
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'))
+      }
+    })
+  })
+}
+
+/**
+ * Create the API request handler
+ */
+export function createApiHandler(overrides: Partial<ApiServerDeps> = {}, bindHost?: string) {
+  const deps: ApiServerDeps = { ...createDefaultDeps(), ...overrides }
+  const cache = new QuotaMemoryCache(deps.fetchQuota, deps.cacheTtlMs)
+
+  const requireAccount = (email: string): void => {
+    if (!deps.listAccounts().some(account => account.email === email)) {
+      throw new HttpError(404, `Account not found: ${email}`)
+    }
+  }
+
+  const handleTrigger = async (req: IncomingMessage): Promise<TriggerResult & { account: string }> => {
+    // Triggering spends quota, so it needs the API token
+    checkBearerToken(req, deps.apiToken())
+    const body = await readJsonBody(req)
+
+    const account = typeof body.account === 'string' ? body.account : deps.getActiveEmail()
+    if (!account) {
+      throw new HttpError(400, 'No account specified and no active account')
+    }
+    requireAccount(account)
+
+    let models = deps.defaultModels()
+    if (body.models !== undefined) {
+      if (!Array.isArray(body.models) || !body.models.every(m => typeof m === 'string')) {
+        throw new HttpError(400, '"models" must be an array of model IDs')
+      }
+      models = body.models as string[]
+    }
+    if (models.length === 0) {
+      throw new HttpError(400, 'No models specified and none configured for wake-up')
+    }
+
+    const result = await deps.trigger({
+      models,
+      accountEmail: account,
+      triggerType: 'manual',
+      triggerSource: 'manual',
+      customPrompt: typeof body.prompt === 'string' ? body.prompt : undefined,
+      maxOutputTokens: typeof body.maxOutputTokens === 'number' ? body.maxOutputTokens : undefined
+    })
+
+    // Triggering consumes quota, so the cached snapshot is stale now
+    cache.invalidate(account)
+    return { account, ...result }
+  }
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const path = url.pathname.replace(/\/+$/, '') || '/'
+    const refresh = url.searchParams.has('refresh')
+    const method = req.method || 'GET'
+
+    debug('api-server', `${method} ${path}`)
+    checkRequestOrigin(req, bindHost)
+
+    if (method === 'GET' && path === '/accounts') {
+      sendJson(res, 200, deps.listAccounts())
+      return
+    }
+
+    if (method === 'GET' && path === '/quota') {
+      const results: AccountQuotaResponse[] = []
+      for (const { email } of deps.listAccounts()) {
+        try {
+          results.push({ email, snapshot: await cache.get(email, refresh) })
+        } catch (err) {
+          results.push({ email, snapshot: null, error: err instanceof Error ? err.message : String(err) })
+        }
+      }
+      sendJson(res, 200, results)
+      return
+    }
+
+    const quotaMatch = path.match(/^\/accounts\/([^/]+)\/quota$/)
+    if (method === 'GET' && quotaMatch) {
+      const email = decodeURIComponent(quotaMatch[1])
+      requireAccount(email)
+      try {
+        sendJson(res, 200, await cache.get(email, refresh))
+      } catch (err) {
+        throw new HttpError(502, err instanceof Error ? err.message : 'Failed to fetch quota')
+      }
+      return
+    }
+
+    if (method === 'POST' && path === '/wakeup/trigger') {
+      const result = await handleTrigger(req)
+      sendJson(res, result.success ? 200 : 502, result)
+      return
+    }
+
+    throw new HttpError(404, `Not found: ${method} ${path}`)
+  }
+
+  return (req: IncomingMessage, res: ServerResponse): void => {
+    route(req, res).catch(err => {
+      const status = err instanceof HttpError ? err.status : 500
+      debug('api-server', `Request failed (${status})`, err)
+      if (!res.headersSent) {
+        sendJson(res, status, { error: err instanceof Error ? err.message : 'Internal error' })
+      }
+    })
+  }
+}
+
+/**
+ * Start the API HTTP server
+ * Resolves once the server is listening
+ */
+export function startApiServer(options: ApiServerOptions): Promise<Server> {
+  const server = createServer(createApiHandler(options.deps, options.host))
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject)
+      resolve(server)
+    })
+  })
+}
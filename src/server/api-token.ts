@@ -0,0 +1,39 @@
+/**
+ * Bearer token for the local API
+ * Generated on first use and kept in the config dir, readable only by the user.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { randomBytes } from 'node:crypto'
+import { getConfigDir } from '../core/env.js'
+import { debug } from '../core/logger.js'
+
+const API_TOKEN_FILE_NAME = 'api-token'
+
+/**
+ * Get the path of the API token file
+ */
+export function getApiTokenPath(): string {
+  return join(getConfigDir(), API_TOKEN_FILE_NAME)
+}
+
+/**
+ * Load the API token, creating it if it doesn't exist yet
+ */
+export function loadOrCreateApiToken(): string {
+  const path = getApiTokenPath()
+
+  if (existsSync(path)) {
+    const token = readFileSync(path, 'utf-8').trim()
+    if (token) {
+      return token
+    }
+  }
+
+  const token = randomBytes(32).toString('hex')
+  mkdirSync(getConfigDir(), { recursive: true })
+  writeFileSync(path, token + '\n', { mode: 0o600 })
+  debug('api-token', `Created API token at ${path}`)
+  return token
+}
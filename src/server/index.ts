@@ -0,0 +1,30 @@
+/**
+ * Server module - barrel export
+ */
+
+// Metrics
+export {
+  renderPrometheusMetrics,
+  type MetricsInput
+} from './metrics.js'
+
+export {
+  startMetricsServer,
+  collectMetricsInput,
+  type MetricsServerOptions
+} from './metrics-server.js'
+
+// REST API
+export {
+  startApiServer,
+  createApiHandler,
+  QuotaMemoryCache,
+  type ApiServerOptions,
+  type ApiServerDeps,
+  type AccountQuotaResponse
+} from './api-server.js'
+
+export {
+  loadOrCreateApiToken,
+  getApiTokenPath
+} from './api-token.js'
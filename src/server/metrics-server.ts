@@ -0,0 +1,70 @@
+/**
+ * HTTP server exposing Prometheus metrics
+ */
+
+import { createServer, type Server } from 'node:http'
+import { getAccountManager, loadCache } from '../accounts/index.js'
+import { loadTriggerCounters } from '../wakeup/storage.js'
+import { debug } from '../core/logger.js'
+import { renderPrometheusMetrics, type MetricsInput } from './metrics.js'
+
+const METRICS_PATH = '/metrics'
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Options for the metrics server
+ */
+export interface MetricsServerOptions {
+  port: number
+  host: string
+  collect?: () => MetricsInput        // Override data source (defaults to on-disk cache)
+}
+
+/**
+ * Gather metrics input from cached snapshots and trigger counters
+ */
+export function collectMetricsInput(): MetricsInput {
+  const emails = getAccountManager().getAccountEmails()
+
+  return {
+    accounts: emails.map(email => ({ email, snapshot: loadCache(email) })),
+    counters: loadTriggerCounters()
+  }
+}
+
+/**
+ * Start the metrics HTTP server
+ * Resolves once the server is listening
+ */
+export function startMetricsServer(options: MetricsServerOptions): Promise<Server> {
+  const collect = options.collect || collectMetricsInput
+
+  const server = createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0]
+    debug('metrics-server', `${req.method} ${path}`)
+
+    if (req.method !== 'GET' || path !== METRICS_PATH) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' })
+      res.end(`Not found. Metrics are served at ${METRICS_PATH}\n`)
+      return
+    }
+
+    try {
+      const body = renderPrometheusMetrics(collect())
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPE })
+      res.end(body)
+    } catch (err) {
+      debug('metrics-server', 'Failed to render metrics', err)
+      res.writeHead(500, { 'Content-Type': 'text/plain' })
+      res.end('Failed to collect metrics\n')
+    }
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject)
+      resolve(server)
+    })
+  })
+}
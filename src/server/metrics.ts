@@ -0,0 +1,119 @@
+/**
+ * Prometheus metrics rendering
+ * Converts quota snapshots and trigger counters to the text exposition format
+ */
+
+import type { QuotaSnapshot } from '../quota/types.js'
+import type { TriggerCounters } from '../wakeup/types.js'
+
+/**
+ * Data needed to render one scrape
+ */
+export interface MetricsInput {
+  accounts: Array<{ email: string; snapshot: QuotaSnapshot | null }>
+  counters: TriggerCounters
+  now?: number
+}
+
+type Labels = Record<string, string>
+
+/**
+ * Escape a label value per the Prometheus text format
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+}
+
+/**
+ * Format one sample line
+ */
+function sample(name: string, labels: Labels, value: number): string {
+  const labelStr = Object.entries(labels)
+    .map(([key, val]) => `${key}="${escapeLabelValue(val)}"`)
+    .join(',')
+  return labelStr ? `${name}{${labelStr}} ${value}` : `${name} ${value}`
+}
+
+/**
+ * Collects samples grouped by metric so HELP/TYPE headers are emitted once
+ */
+class MetricsBuilder {
+  private families = new Map<string, { help: string; type: 'gauge' | 'counter'; samples: string[] }>()
+
+  define(name: string, type: 'gauge' | 'counter', help: string): void {
+    this.families.set(name, { help, type, samples: [] })
+  }
+
+  add(name: string, labels: Labels, value: number): void {
+    this.families.get(name)?.samples.push(sample(name, labels, value))
+  }
+
+  toString(): string {
+    const lines: string[] = []
+    for (const [name, family] of this.families) {
+      lines.push(`# HELP ${name} ${family.help}`)
+      lines.push(`# TYPE ${name} ${family.type}`)
+      lines.push(...family.samples)
+    }
+    return lines.join('\n') + '\n'
+  }
+}
+
+/**
+ * Render all metrics in Prometheus text format
+ */
+export function renderPrometheusMetrics(input: MetricsInput): string {
+  const now = input.now ?? Date.now()
+  const m = new MetricsBuilder()
+
+  m.define('antigravity_model_remaining_ratio', 'gauge', 'Remaining model quota as a fraction (0-1)')
+  m.define('antigravity_model_exhausted', 'gauge', 'Whether the model quota is exhausted (1) or not (0)')
+  m.define('antigravity_model_reset_seconds', 'gauge', 'Seconds until the model quota resets')
+  m.define('antigravity_prompt_credits_available', 'gauge', 'Prompt credits currently available')
+  m.define('antigravity_prompt_credits_monthly', 'gauge', 'Monthly prompt credit allowance')
+  m.define('antigravity_snapshot_timestamp_seconds', 'gauge', 'Unix time of the quota snapshot the metrics are based on')
+  m.define('antigravity_wakeup_triggers_total', 'counter', 'Wake-up trigger attempts by result')
+
+  for (const { email, snapshot } of input.accounts) {
+    if (!snapshot) continue
+
+    const snapshotTime = new Date(snapshot.timestamp).getTime()
+    if (!isNaN(snapshotTime)) {
+      m.add('antigravity_snapshot_timestamp_seconds', { account: email }, Math.floor(snapshotTime / 1000))
+    }
+
+    if (snapshot.promptCredits) {
+      m.add('antigravity_prompt_credits_available', { account: email }, snapshot.promptCredits.available)
+      m.add('antigravity_prompt_credits_monthly', { account: email }, snapshot.promptCredits.monthly)
+    }
+
+    for (const model of snapshot.models) {
+      const labels = { account: email, model: model.modelId, label: model.label }
+
+      if (model.remainingPercentage !== undefined) {
+        m.add('antigravity_model_remaining_ratio', labels, model.remainingPercentage)
+      }
+      m.add('antigravity_model_exhausted', labels, model.isExhausted ? 1 : 0)
+
+      // Recompute from resetTime so cached snapshots still count down
+      if (model.resetTime) {
+        const resetAt = new Date(model.resetTime).getTime()
+        if (!isNaN(resetAt)) {
+          m.add('antigravity_model_reset_seconds', labels, Math.max(0, Math.round((resetAt - now) / 1000)))
+        }
+      }
+    }
+  }
+
+  for (const [email, models] of Object.entries(input.counters)) {
+    for (const [modelId, count] of Object.entries(models)) {
+      m.add('antigravity_wakeup_triggers_total', { account: email, model: modelId, result: 'success' }, count.success)
+      m.add('antigravity_wakeup_triggers_total', { account: email, model: modelId, result: 'failure' }, count.failure)
+    }
+  }
+
+  return m.toString()
+}
@@ -0,0 +1,191 @@
+/**
+ * Interactive full-screen TUI
+ * Raw-mode terminal app with accounts, quota and trigger history panes
+ */
+
+import { emitKeypressEvents } from 'node:readline'
+import { getAccountManager, loadCache } from '../accounts/index.js'
+import { fetchQuotaForAccount, persistSnapshot } from '../quota/accounts.js'
+import { getRecentHistory, loadWakeupConfig } from '../wakeup/storage.js'
+import { testTrigger } from '../wakeup/trigger-service.js'
+import { debug } from '../core/logger.js'
+import { renderTuiFrame, type TuiState } from './render.js'
+
+// ANSI sequences for alternate screen handling
+const ENTER_ALT_SCREEN = '\x1b[?1049h\x1b[?25l'
+const LEAVE_ALT_SCREEN = '\x1b[?25h\x1b[?1049l'
+const CURSOR_HOME = '\x1b[H'
+const CLEAR_LINE_END = '\x1b[K'
+
+// Redraw every second so reset countdowns stay live
+const TICK_MS = 1000
+const TRIGGER_HISTORY_ROWS = 20
+const DEFAULT_TEST_MODEL = 'claude-sonnet-4-6'
+
+interface Keypress {
+  name?: string
+  ctrl?: boolean
+  sequence?: string
+}
+
+/**
+ * Load accounts, cached snapshots and trigger history from disk
+ */
+function loadState(previous?: TuiState): TuiState {
+  const manager = getAccountManager()
+  const accounts = manager.getAccountSummaries()
+
+  const snapshots: TuiState['snapshots'] = {}
+  for (const account of accounts) {
+    snapshots[account.email] = loadCache(account.email)
+  }
+
+  // Keep the selection on the same account across reloads
+  const previousEmail = previous?.accounts[previous.selectedIndex]?.email
+  let selectedIndex = previousEmail ? accounts.findIndex(a => a.email === previousEmail) : -1
+  if (selectedIndex < 0) {
+    selectedIndex = Math.max(0, accounts.findIndex(a => a.isActive))
+  }
+
+  return {
+    accounts,
+    selectedIndex,
+    snapshots,
+    triggers: getRecentHistory(TRIGGER_HISTORY_ROWS),
+    message: previous?.message
+  }
+}
+
+/**
+ * Run the TUI until the user quits
+ */
+export async function runTui(): Promise<void> {
+  const stdin = process.stdin
+  const stdout = process.stdout
+
+  if (!stdin.isTTY || !stdout.isTTY) {
+    throw new Error('The TUI requires an interactive terminal.')
+  }
+
+  let state = loadState()
+
+  const draw = (): void => {
+    const lines = renderTuiFrame(state, {
+      width: stdout.columns || 80,
+      height: stdout.rows || 24
+    })
+    stdout.write(CURSOR_HOME + lines.map(line => line + CLEAR_LINE_END).join('\n'))
+  }
+
+  const setMessage = (message: string, busy = false): void => {
+    state = { ...state, message, busy }
+    draw()
+  }
+
+  const selectedEmail = (): string | undefined => state.accounts[state.selectedIndex]?.email
+
+  // Actions ------------------------------------------------------------------
+
+  const switchAccount = (): void => {
+    const email = selectedEmail()
+    if (!email) return
+
+    const switched = getAccountManager().setActiveAccount(email)
+    state = loadState(state)
+    setMessage(switched ? `Switched to ${email}` : `Failed to switch to ${email}`)
+  }
+
+  const refreshAccount = async (): Promise<void> => {
+    const email = selectedEmail()
+    if (!email) return
+
+    setMessage(`Refreshing ${email}...`, true)
+    try {
+      const snapshot = await fetchQuotaForAccount(email, 'google')
+      await persistSnapshot(email, snapshot)
+      state = loadState(state)
+      setMessage(`Refreshed ${email}`)
+    } catch (err) {
+      debug('tui', `Refresh failed for ${email}`, err)
+      setMessage(`Refresh failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  const fireTestTrigger = async (): Promise<void> => {
+    const email = selectedEmail()
+    if (!email) return
+
+    const modelId = loadWakeupConfig()?.selectedModels[0] || DEFAULT_TEST_MODEL
+    setMessage(`Triggering ${modelId} for ${email}...`, true)
+    try {
+      const result = await testTrigger(modelId, email)
+      state = loadState(state)
+      setMessage(result.success
+        ? `Trigger ok: ${modelId} (${result.durationMs}ms)`
+        : `Trigger failed: ${result.error || 'unknown error'}`)
+    } catch (err) {
+      debug('tui', `Test trigger failed for ${email}`, err)
+      setMessage(`Trigger failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  // Lifecycle ----------------------------------------------------------------
+
+  emitKeypressEvents(stdin)
+  stdin.setRawMode(true)
+  stdin.resume()
+  stdout.write(ENTER_ALT_SCREEN)
+  draw()
+
+  const ticker = setInterval(draw, TICK_MS)
+  stdout.on('resize', draw)
+
+  await new Promise<void>(resolve => {
+    const quit = (): void => {
+      clearInterval(ticker)
+      stdout.off('resize', draw)
+      stdin.off('keypress', onKeypress)
+      stdin.setRawMode(false)
+      stdin.pause()
+      stdout.write(LEAVE_ALT_SCREEN)
+      resolve()
+    }
+
+    const onKeypress = (_: string, key: Keypress): void => {
+      if (!key) return
+
+      if ((key.ctrl && key.name === 'c') || key.name === 'q' || key.name === 'escape') {
+        quit()
+        return
+      }
+
+      // Ignore input while an action is running (except quit)
+      if (state.busy) return
+
+      switch (key.name) {
+        case 'up':
+        case 'k':
+          state = { ...state, selectedIndex: Math.max(0, state.selectedIndex - 1), message: undefined }
+          draw()
+          break
+        case 'down':
+        case 'j':
+          state = { ...state, selectedIndex: Math.min(state.accounts.length - 1, state.selectedIndex + 1), message: undefined }
+          draw()
+          break
+        case 'return':
+        case 's':
+          switchAccount()
+          break
+        case 'r':
+          void refreshAccount()
+          break
+        case 't':
+          void fireTestTrigger()
+          break
+      }
+    }
+
+    stdin.on('keypress', onKeypress)
+  })
+}
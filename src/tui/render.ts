@@ -0,0 +1,245 @@
+/**
+ * TUI frame rendering
+ * Pure functions that turn TUI state into a screen of text lines
+ */
+
+import type { AccountSummary } from '../accounts/types.js'
+import type { QuotaSnapshot } from '../quota/types.js'
+import type { TriggerRecord } from '../wakeup/types.js'
+
+/**
+ * Everything the TUI displays
+ */
+export interface TuiState {
+  accounts: AccountSummary[]
+  selectedIndex: number
+  snapshots: Record<string, QuotaSnapshot | null>   // Latest known snapshot per email
+  triggers: TriggerRecord[]                         // Most recent first
+  message?: string                                  // Status line feedback
+  busy?: boolean                                    // An action is in progress
+}
+
+/**
+ * Screen size in character cells
+ */
+export interface TuiSize {
+  width: number
+  height: number
+}
+
+// ANSI styling (zero-width, applied to already padded text)
+const INVERSE = '\x1b[7m'
+const BOLD = '\x1b[1m'
+const DIM = '\x1b[2m'
+const RESET = '\x1b[0m'
+
+// Layout constants
+const MIN_WIDTH = 60
+const MIN_HEIGHT = 16
+const ACCOUNTS_PANE_RATIO = 0.38
+const TRIGGERS_PANE_ROWS = 6
+
+const HELP_TEXT = '↑/↓ select · enter switch · r refresh · t test trigger · q quit'
+
+/**
+ * Pad or truncate text to an exact width
+ */
+export function fit(text: string, width: number): string {
+  if (width <= 0) return ''
+  if (text.length > width) {
+    return width > 1 ? text.slice(0, width - 1) + '…' : text.slice(0, width)
+  }
+  return text + ' '.repeat(width - text.length)
+}
+
+/**
+ * Top border of a pane with an inline title
+ */
+function paneTop(title: string, width: number): string {
+  const label = `─ ${title} `
+  const inner = label.length >= width - 2
+    ? fit(label, width - 2)
+    : label + '─'.repeat(width - 2 - label.length)
+  return '┌' + inner + '┐'
+}
+
+/**
+ * Bottom border of a pane
+ */
+function paneBottom(width: number): string {
+  return '└' + '─'.repeat(width - 2) + '┘'
+}
+
+/**
+ * Wrap body lines into a bordered pane of fixed size
+ * Lines may carry an ANSI style prefix that is applied after padding.
+ */
+function pane(title: string, lines: Array<string | { text: string; style: string }>, width: number, height: number): string[] {
+  const innerWidth = width - 2
+  const bodyRows = height - 2
+  const out = [paneTop(title, width)]
+
+  for (let i = 0; i < bodyRows; i++) {
+    const line = lines[i]
+    if (line === undefined) {
+      out.push('│' + ' '.repeat(innerWidth) + '│')
+    } else if (typeof line === 'string') {
+      out.push('│' + fit(line, innerWidth) + '│')
+    } else {
+      out.push('│' + line.style + fit(line.text, innerWidth) + RESET + '│')
+    }
+  }
+
+  out.push(paneBottom(width))
+  return out
+}
+
+/**
+ * Short account status label (ASCII only to keep columns aligned)
+ */
+function formatAccountStatus(status: AccountSummary['status']): string {
+  switch (status) {
+    case 'valid': return 'ok'
+    case 'expired': return 'expired'
+    case 'invalid': return 'invalid'
+    case 'revoked': return 'revoked'
+  }
+}
+
+/**
+ * Remaining fraction as a small bar + percentage
+ */
+function formatBar(remaining: number | undefined, isExhausted: boolean): string {
+  if (isExhausted) return '[----------] EXHAUSTED'
+  if (remaining === undefined) return '[          ] N/A'
+  const filled = Math.round(remaining * 10)
+  return `[${'#'.repeat(filled)}${'-'.repeat(10 - filled)}] ${Math.round(remaining * 100)}%`
+}
+
+/**
+ * Compact countdown (e.g. "3h 12m")
+ */
+function formatCountdown(ms: number | undefined): string {
+  if (ms === undefined || ms <= 0) return '-'
+  const hours = Math.floor(ms / (60 * 60 * 1000))
+  const minutes = Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000))
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+/**
+ * Build the account list pane body
+ */
+function accountLines(state: TuiState, innerWidth: number): Array<string | { text: string; style: string }> {
+  if (state.accounts.length === 0) {
+    return ['No accounts. Run: antigravity-usage login']
+  }
+
+  const statusWidth = 8
+  const emailWidth = Math.max(8, innerWidth - statusWidth - 4)
+
+  return state.accounts.map((account, index) => {
+    const marker = account.isActive ? '*' : ' '
+    const text = ` ${marker} ${fit(account.email, emailWidth)}${fit(formatAccountStatus(account.status), statusWidth)}`
+    return index === state.selectedIndex ? { text, style: INVERSE } : text
+  })
+}
+
+/**
+ * Build the quota pane body for the selected account
+ */
+function quotaLines(state: TuiState, innerWidth: number): string[] {
+  const account = state.accounts[state.selectedIndex]
+  if (!account) return []
+
+  const snapshot = state.snapshots[account.email]
+  if (!snapshot) {
+    return ['No quota data yet. Press r to refresh.']
+  }
+
+  const lines: string[] = []
+  const fetched = new Date(snapshot.timestamp).toLocaleString()
+  lines.push(`Fetched: ${fetched}${snapshot.planType ? ` · Plan: ${snapshot.planType}` : ''}`)
+
+  if (snapshot.promptCredits) {
+    lines.push(`Credits: ${snapshot.promptCredits.available} / ${snapshot.promptCredits.monthly}`)
+  }
+  lines.push('')
+
+  const elapsedMs = Date.now() - new Date(snapshot.timestamp).getTime()
+  const resetWidth = 9
+  const barWidth = 22
+  const labelWidth = Math.max(8, innerWidth - barWidth - resetWidth - 2)
+
+  lines.push(`${fit('Model', labelWidth)} ${fit('Remaining', barWidth)} ${fit('Resets', resetWidth)}`)
+
+  const models = snapshot.models.filter(m => !m.isAutocompleteOnly)
+  for (const model of models) {
+    const resetIn = model.timeUntilResetMs !== undefined ? model.timeUntilResetMs - elapsedMs : undefined
+    lines.push(
+      `${fit(model.label, labelWidth)} ${fit(formatBar(model.remainingPercentage, model.isExhausted), barWidth)} ${fit(formatCountdown(resetIn), resetWidth)}`
+    )
+  }
+
+  if (models.length === 0) {
+    lines.push('No model quota information available.')
+  }
+
+  return lines
+}
+
+/**
+ * Build the recent triggers pane body
+ */
+function triggerLines(state: TuiState, innerWidth: number, rows: number): string[] {
+  if (state.triggers.length === 0) {
+    return ['No wake-up triggers recorded yet.']
+  }
+
+  const timeWidth = 20
+  const resultWidth = 8
+  const accountWidth = Math.min(28, Math.floor((innerWidth - timeWidth - resultWidth) / 2))
+  const modelWidth = Math.max(8, innerWidth - timeWidth - resultWidth - accountWidth - 3)
+
+  return state.triggers.slice(0, rows).map(record => {
+    const time = new Date(record.timestamp).toLocaleString()
+    const result = record.success ? 'ok' : 'failed'
+    return `${fit(time, timeWidth)} ${fit(record.accountEmail, accountWidth)} ${fit(record.models.join(','), modelWidth)} ${fit(result, resultWidth)}`
+  })
+}
+
+/**
+ * Render a full TUI frame as an array of lines (exactly size.height lines)
+ */
+export function renderTuiFrame(state: TuiState, size: TuiSize): string[] {
+  const width = Math.max(MIN_WIDTH, size.width)
+  const height = Math.max(MIN_HEIGHT, size.height)
+
+  const leftWidth = Math.floor(width * ACCOUNTS_PANE_RATIO)
+  const rightWidth = width - leftWidth
+  const triggersHeight = TRIGGERS_PANE_ROWS + 2
+  const topHeight = height - triggersHeight - 2  // title + status lines
+
+  const selected = state.accounts[state.selectedIndex]
+  const title = `${BOLD}${fit(' Antigravity Usage', width - 9)}${RESET}${fit(new Date().toLocaleTimeString(), 9)}`
+
+  const left = pane('Accounts', accountLines(state, leftWidth - 2), leftWidth, topHeight)
+  const right = pane(
+    selected ? `Quota: ${selected.email}` : 'Quota',
+    quotaLines(state, rightWidth - 2),
+    rightWidth,
+    topHeight
+  )
+  const bottom = pane('Recent Triggers', triggerLines(state, width - 2, TRIGGERS_PANE_ROWS), width, triggersHeight)
+
+  const status = state.busy
+    ? `${DIM}${fit(` ${state.message || 'Working...'}`, width)}${RESET}`
+    : fit(` ${state.message ? `${state.message} · ` : ''}${HELP_TEXT}`, width)
+
+  const lines = [title]
+  for (let i = 0; i < topHeight; i++) {
+    lines.push(left[i] + right[i])
+  }
+  lines.push(...bottom, status)
+
+  return lines
+}
@@ -5,10 +5,35 @@
 
 import { debug } from '../core/logger.js'
 import { getAccountManager } from '../accounts/manager.js'
+import type { AccountOverride, WakeupConfig } from './types.js'
+
+/**
+ * An account to trigger with its effective config
+ */
+export interface ResolvedAccountConfig {
+  email: string
+  config: WakeupConfig
+}
+
+// Fields replaced together when an override sets its own schedule
+const SCHEDULE_FIELDS = ['intervalHours', 'dailyTimes', 'weeklySchedule', 'cronExpression'] as const
+
+/**
+ * Map account aliases in a selection to emails
+ * Entries that aren't a known alias are kept as they are.
+ */
+export function resolveSelectedEmails(selectedAccounts: string[]): string[] {
+  const accountManager = getAccountManager()
+  // Emails need no lookup (aliases never contain '@')
+  const emails = selectedAccounts.map(account =>
+    account.includes('@') ? account : accountManager.resolveAccount(account) ?? account
+  )
+  return Array.from(new Set(emails))
+}
 
 /**
  * Resolve which accounts to use for triggering
- * @param selectedAccounts Explicitly selected accounts from config (may be undefined)
+ * @param selectedAccounts Explicitly selected accounts (emails or aliases) from config (may be undefined)
  * @returns Array of valid account emails to use for triggering
  */
 export function resolveAccounts(selectedAccounts?: string[]): string[] {
@@ -19,15 +44,15 @@ export function resolveAccounts(selectedAccounts?: string[]): string[] {
     debug('account-resolver', `Explicit account selection: ${selectedAccounts.length} accounts`)
     
     // Filter to only valid accounts
-    const validAccounts = selectedAccounts.filter(email => {
+    const validAccounts = resolveSelectedEmails(selectedAccounts).filter(email => {
       if (!accountManager.hasAccount(email)) {
         debug('account-resolver', `Account ${email} not found, skipping`)
         return false
       }
       
       const status = accountManager.getAccountStatus(email)
-      if (status === 'invalid') {
-        debug('account-resolver', `Account ${email} is invalid, skipping`)
+      if (status === 'invalid' || status === 'revoked') {
+        debug('account-resolver', `Account ${email} is ${status}, skipping`)
         return false
       }
       
@@ -94,3 +119,54 @@ export function getAccountResolutionStatus(selectedAccounts?: string[]): string
   
   return `Using ${resolved.length} accounts: ${resolved.join(', ')}`
 }
+
+/**
+ * Check whether an override replaces the global schedule
+ */
+export function hasScheduleOverride(override?: AccountOverride): boolean {
+  return override?.scheduleMode !== undefined
+}
+
+/**
+ * Find an account's override, keyed by its email or one of its aliases
+ */
+export function getAccountOverride(config: WakeupConfig, email: string): AccountOverride | undefined {
+  const overrides = config.accountOverrides
+  if (!overrides) return undefined
+  if (overrides[email]) return overrides[email]
+
+  const accountManager = getAccountManager()
+  const key = Object.keys(overrides).find(key => !key.includes('@') && accountManager.resolveAccount(key) === email)
+  return key ? overrides[key] : undefined
+}
+
+/**
+ * Merge an account's override over the global config
+ * @returns The effective config for the account (without accountOverrides)
+ */
+export function getAccountConfig(config: WakeupConfig, email: string): WakeupConfig {
+  const override = getAccountOverride(config, email)
+  const { accountOverrides, ...global } = config
+  if (!override) {
+    return global
+  }
+
+  const merged: WakeupConfig = { ...global, ...override }
+  if (hasScheduleOverride(override)) {
+    // Don't mix the account's schedule with leftovers of the global one
+    for (const field of SCHEDULE_FIELDS) {
+      if (override[field] === undefined) delete merged[field]
+    }
+  }
+  return merged
+}
+
+/**
+ * Resolve accounts to trigger, each with its overrides applied
+ */
+export function resolveAccountConfigs(config: WakeupConfig): ResolvedAccountConfig[] {
+  return resolveAccounts(config.selectedAccounts).map(email => ({
+    email,
+    config: getAccountConfig(config, email)
+  }))
+}
@@ -0,0 +1,441 @@
+/**
+ * Declarative wake-up configuration
+ * Validates WakeupConfig documents (JSON/YAML) and applies command-line flags
+ */
+
+import { parse, stringify } from 'yaml'
+import { parseCronExpression } from './cron-parser.js'
+import { getDefaultConfig, DEFAULT_RETRY_POLICY, DEFAULT_HISTORY_RETENTION } from './types.js'
+import { getAccountConfig } from './account-resolver.js'
+import type { WakeupConfig, ScheduleMode, WeeklySchedule, RetryPolicy, HistoryRetention, AccountOverride } from './types.js'
+
+const SCHEDULE_MODES: ScheduleMode[] = ['interval', 'daily', 'weekly', 'custom']
+
+const CONFIG_FIELDS: Array<keyof WakeupConfig> = [
+  'enabled',
+  'selectedModels',
+  'selectedAccounts',
+  'customPrompt',
+  'maxOutputTokens',
+  'scheduleMode',
+  'intervalHours',
+  'dailyTimes',
+  'weeklySchedule',
+  'cronExpression',
+  'wakeOnReset',
+  'retryPolicy',
+  'historyRetention',
+  'accountOverrides'
+]
+
+const RETRY_POLICY_FIELDS: Array<keyof RetryPolicy> = ['maxRetries', 'delaySeconds', 'jitterSeconds', 'giveUpAfterMinutes']
+
+const ACCOUNT_OVERRIDE_FIELDS: Array<keyof AccountOverride> = [
+  'selectedModels',
+  'customPrompt',
+  'maxOutputTokens',
+  'scheduleMode',
+  'intervalHours',
+  'dailyTimes',
+  'weeklySchedule',
+  'cronExpression'
+]
+
+const HISTORY_RETENTION_FIELDS: Array<keyof HistoryRetention> = ['maxRecords', 'maxAgeDays']
+
+/**
+ * Flags accepted by `wakeup config` (raw commander values)
+ */
+export interface WakeupConfigFlags {
+  mode?: string
+  interval?: string
+  dailyTimes?: string
+  weekly?: string
+  cron?: string
+  models?: string
+  accounts?: string
+  prompt?: string
+  maxTokens?: string
+  resetMode?: boolean
+  maxRetries?: string
+  retryDelay?: string
+  historyMaxRecords?: string
+  historyMaxAge?: string
+}
+
+/**
+ * Result of validating a config document or flags
+ */
+export interface WakeupConfigValidation {
+  config: WakeupConfig
+  errors: string[]
+}
+
+export type WakeupConfigFormat = 'json' | 'yaml'
+
+/**
+ * Check a "HH:MM" time (00:00-23:59)
+ */
+export function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]?\d|2[0-3]):[0-5]\d$/.test(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '')
+}
+
+function validateTimes(field: string, times: unknown, errors: string[]): void {
+  if (!Array.isArray(times) || times.length === 0) {
+    errors.push(`${field}: expected a non-empty list of HH:MM times`)
+    return
+  }
+  times.forEach((time, index) => {
+    if (!isValidTime(time)) {
+      errors.push(`${field}[${index}]: "${time}" is not a valid HH:MM time (00:00-23:59)`)
+    }
+  })
+}
+
+/**
+ * Validate a wake-up config document
+ * Missing fields fall back to defaults; unknown fields and bad values are reported
+ */
+export function validateWakeupConfig(input: unknown): WakeupConfigValidation {
+  const errors: string[] = []
+  const defaults = getDefaultConfig()
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { config: defaults, errors: ['Config must be an object'] }
+  }
+
+  const doc = input as Record<string, unknown>
+  for (const key of Object.keys(doc)) {
+    if (!CONFIG_FIELDS.includes(key as keyof WakeupConfig)) {
+      errors.push(`${key}: unknown field`)
+    }
+  }
+
+  const config: WakeupConfig = { ...defaults, ...(doc as Partial<WakeupConfig>) }
+
+  // YAML documents spell "unset" as null
+  for (const key of ['selectedAccounts', 'customPrompt', 'cronExpression', 'accountOverrides'] as const) {
+    if (config[key] === null) config[key] = undefined
+  }
+
+  if (typeof config.enabled !== 'boolean') {
+    errors.push('enabled: expected true or false')
+  }
+  if (typeof config.wakeOnReset !== 'boolean') {
+    errors.push('wakeOnReset: expected true or false')
+  }
+
+  if (!isStringArray(config.selectedModels) || config.selectedModels.length === 0) {
+    errors.push('selectedModels: expected a non-empty list of model IDs')
+  }
+  if (config.selectedAccounts !== undefined && !isStringArray(config.selectedAccounts)) {
+    errors.push('selectedAccounts: expected a list of account emails')
+  }
+  if (config.customPrompt !== undefined && typeof config.customPrompt !== 'string') {
+    errors.push('customPrompt: expected a string')
+  }
+  if (!Number.isInteger(config.maxOutputTokens) || config.maxOutputTokens < 0) {
+    errors.push('maxOutputTokens: expected a whole number >= 0 (0 = no limit)')
+  }
+
+  if (!SCHEDULE_MODES.includes(config.scheduleMode)) {
+    errors.push(`scheduleMode: "${config.scheduleMode}" is not one of ${SCHEDULE_MODES.join(', ')}`)
+  }
+
+  // Only the active schedule's fields must be complete, but any value given must be valid
+  const mode = config.scheduleMode
+  const scheduled = !config.wakeOnReset
+
+  if (config.intervalHours !== undefined || (scheduled && mode === 'interval')) {
+    const hours = config.intervalHours
+    if (!Number.isInteger(hours) || (hours as number) < 1 || (hours as number) > 23) {
+      errors.push('intervalHours: expected a whole number of hours between 1 and 23')
+    }
+  }
+
+  if (config.dailyTimes !== undefined || (scheduled && mode === 'daily')) {
+    validateTimes('dailyTimes', config.dailyTimes, errors)
+  }
+
+  if ((scheduled && mode === 'weekly') || (config.weeklySchedule && Object.keys(config.weeklySchedule).length > 0)) {
+    const schedule = config.weeklySchedule
+    if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule) || Object.keys(schedule).length === 0) {
+      errors.push('weeklySchedule: expected a map of day (0=Sunday..6=Saturday) to HH:MM times')
+    } else {
+      for (const [day, times] of Object.entries(schedule as WeeklySchedule)) {
+        if (!/^[0-6]$/.test(day)) {
+          errors.push(`weeklySchedule.${day}: day must be 0 (Sunday) to 6 (Saturday)`)
+        }
+        validateTimes(`weeklySchedule.${day}`, times, errors)
+      }
+    }
+  }
+
+  if (config.cronExpression !== undefined) {
+    if (typeof config.cronExpression !== 'string') {
+      errors.push('cronExpression: expected a string')
+    } else {
+      try {
+        parseCronExpression(config.cronExpression)
+      } catch (err) {
+        errors.push(`cronExpression: "${config.cronExpression}" is invalid - ${err instanceof Error ? err.message : err}`)
+      }
+    }
+  } else if (scheduled && mode === 'custom') {
+    errors.push('cronExpression: required when scheduleMode is "custom"')
+  }
+
+  if (config.retryPolicy !== undefined) {
+    const policy = config.retryPolicy as unknown
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      errors.push('retryPolicy: expected an object')
+    } else {
+      const fields = policy as Record<string, unknown>
+      for (const key of Object.keys(fields)) {
+        if (!RETRY_POLICY_FIELDS.includes(key as keyof RetryPolicy)) {
+          errors.push(`retryPolicy.${key}: unknown field`)
+        } else if (typeof fields[key] !== 'number' || !Number.isFinite(fields[key]) || (fields[key] as number) < 0) {
+          errors.push(`retryPolicy.${key}: expected a number >= 0`)
+        }
+      }
+      if (fields.maxRetries !== undefined && !Number.isInteger(fields.maxRetries)) {
+        errors.push('retryPolicy.maxRetries: expected a whole number')
+      }
+    }
+  }
+
+  if (config.historyRetention !== undefined) {
+    const retention = config.historyRetention as unknown
+    if (!retention || typeof retention !== 'object' || Array.isArray(retention)) {
+      errors.push('historyRetention: expected an object')
+    } else {
+      const fields = retention as Record<string, unknown>
+      for (const key of Object.keys(fields)) {
+        if (!HISTORY_RETENTION_FIELDS.includes(key as keyof HistoryRetention)) {
+          errors.push(`historyRetention.${key}: unknown field`)
+        } else if (typeof fields[key] !== 'number' || !Number.isInteger(fields[key]) || (fields[key] as number) < 0) {
+          errors.push(`historyRetention.${key}: expected a whole number >= 0`)
+        }
+      }
+      if (fields.maxRecords === 0) {
+        errors.push('historyRetention.maxRecords: expected at least 1')
+      }
+    }
+  }
+
+  // A cron expression overrides every other schedule, so only keep it for custom mode
+  if (mode !== 'custom' && config.cronExpression) {
+    errors.push('cronExpression: only allowed when scheduleMode is "custom"')
+  }
+
+  if (config.accountOverrides !== undefined) {
+    errors.push(...validateAccountOverrides(config, errors))
+  }
+
+  return { config, errors }
+}
+
+/**
+ * Validate per-account overrides by validating each account's merged config
+ * @param globalErrors Errors of the global config, not repeated per account
+ */
+function validateAccountOverrides(config: WakeupConfig, globalErrors: string[]): string[] {
+  const overrides = config.accountOverrides as unknown
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return ['accountOverrides: expected a map of account email to settings']
+  }
+
+  const errors: string[] = []
+  for (const [email, override] of Object.entries(overrides as Record<string, unknown>)) {
+    const prefix = `accountOverrides.${email}`
+    if (!override || typeof override !== 'object' || Array.isArray(override)) {
+      errors.push(`${prefix}: expected an object`)
+      continue
+    }
+
+    const fields = override as Record<string, unknown>
+    const known: Record<string, unknown> = {}
+    for (const key of Object.keys(fields)) {
+      if (!ACCOUNT_OVERRIDE_FIELDS.includes(key as keyof AccountOverride)) {
+        errors.push(`${prefix}.${key}: unknown field`)
+      } else if (fields[key] !== null) {
+        known[key] = fields[key]
+      }
+    }
+
+    if (known.scheduleMode === undefined && ['intervalHours', 'dailyTimes', 'weeklySchedule', 'cronExpression'].some(key => key in known)) {
+      errors.push(`${prefix}: schedule fields require scheduleMode`)
+      continue
+    }
+
+    const accountConfig = getAccountConfig({ ...config, accountOverrides: { [email]: known as AccountOverride } }, email)
+    const merged = validateWakeupConfig(JSON.parse(JSON.stringify(accountConfig)))
+    for (const error of merged.errors) {
+      if (!globalErrors.includes(error)) {
+        errors.push(`${prefix}.${error}`)
+      }
+    }
+  }
+  return errors
+}
+
+const SCHEDULE_FLAG_KEYS: Array<keyof WakeupConfigFlags> = ['mode', 'interval', 'dailyTimes', 'weekly', 'cron']
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+/**
+ * Day number from "0"-"6", "mon" or "monday"
+ */
+function parseDay(value: string): number | undefined {
+  if (/^[0-6]$/.test(value)) return Number(value)
+  const name = value.toLowerCase()
+  const index = WEEKDAYS.findIndex(day => name.length >= 3 && day.startsWith(name))
+  return index >= 0 ? index : undefined
+}
+
+/**
+ * Parse a --weekly spec into a WeeklySchedule
+ * Format: "mon,wed=09:00,17:30;fri=08:00" (days as names or 0=Sunday..6=Saturday)
+ */
+export function parseWeeklySchedule(spec: string): { schedule: WeeklySchedule; errors: string[] } {
+  const schedule: WeeklySchedule = {}
+  const errors: string[] = []
+
+  for (const entry of spec.split(';').map(part => part.trim()).filter(Boolean)) {
+    const [daysPart, timesPart] = entry.split('=')
+    if (timesPart === undefined) {
+      errors.push(`--weekly: "${entry}" must look like DAYS=HH:MM[,HH:MM]`)
+      continue
+    }
+
+    const times = splitList(timesPart)
+    for (const dayName of splitList(daysPart)) {
+      const day = parseDay(dayName)
+      if (day === undefined) {
+        errors.push(`--weekly: "${dayName}" is not a day (sun-sat or 0-6)`)
+        continue
+      }
+      // Later entries add to a day instead of replacing it
+      schedule[day] = [...new Set([...(schedule[day] ?? []), ...times])]
+    }
+  }
+
+  return { schedule, errors }
+}
+
+/**
+ * Apply command-line flags on top of an existing config, then validate
+ */
+export function applyWakeupFlags(base: WakeupConfig, flags: WakeupConfigFlags): WakeupConfigValidation {
+  const errors: string[] = []
+  const config: WakeupConfig = { ...base, enabled: true }
+
+  if (flags.mode !== undefined) {
+    config.scheduleMode = flags.mode as ScheduleMode
+  }
+  if (flags.interval !== undefined) {
+    const hours = Number(flags.interval)
+    config.intervalHours = hours
+    if (flags.mode === undefined) config.scheduleMode = 'interval'
+  }
+  if (flags.dailyTimes !== undefined) {
+    config.dailyTimes = splitList(flags.dailyTimes)
+    if (flags.mode === undefined) config.scheduleMode = 'daily'
+  }
+  if (flags.weekly !== undefined) {
+    const weekly = parseWeeklySchedule(flags.weekly)
+    config.weeklySchedule = weekly.schedule
+    errors.push(...weekly.errors)
+    if (flags.mode === undefined) config.scheduleMode = 'weekly'
+  }
+  if (flags.cron !== undefined) {
+    config.cronExpression = flags.cron
+    if (flags.mode === undefined) config.scheduleMode = 'custom'
+    else if (flags.mode !== 'custom') errors.push('--cron can only be used with --mode custom')
+  }
+  if (config.scheduleMode !== 'custom') {
+    config.cronExpression = undefined
+  }
+
+  if (flags.resetMode !== undefined) {
+    config.wakeOnReset = flags.resetMode
+  } else if (SCHEDULE_FLAG_KEYS.some(key => flags[key] !== undefined)) {
+    // Choosing a schedule implies schedule-based triggering
+    config.wakeOnReset = false
+  }
+
+  if (flags.models !== undefined) {
+    config.selectedModels = splitList(flags.models)
+  }
+  if (flags.accounts !== undefined) {
+    const accounts = splitList(flags.accounts)
+    config.selectedAccounts = accounts.length > 0 ? accounts : undefined
+  }
+  if (flags.prompt !== undefined) {
+    config.customPrompt = flags.prompt || undefined
+  }
+  if (flags.maxTokens !== undefined) {
+    config.maxOutputTokens = Number(flags.maxTokens)
+  }
+
+  if (flags.maxRetries !== undefined || flags.retryDelay !== undefined) {
+    config.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy }
+    if (flags.maxRetries !== undefined) config.retryPolicy.maxRetries = Number(flags.maxRetries)
+    if (flags.retryDelay !== undefined) config.retryPolicy.delaySeconds = Number(flags.retryDelay)
+  }
+
+  if (flags.historyMaxRecords !== undefined || flags.historyMaxAge !== undefined) {
+    config.historyRetention = { ...DEFAULT_HISTORY_RETENTION, ...config.historyRetention }
+    if (flags.historyMaxRecords !== undefined) config.historyRetention.maxRecords = Number(flags.historyMaxRecords)
+    if (flags.historyMaxAge !== undefined) config.historyRetention.maxAgeDays = Number(flags.historyMaxAge)
+  }
+
+  const validation = validateWakeupConfig(config)
+  return { config: validation.config, errors: [...errors, ...validation.errors] }
+}
+
+const FLAG_KEYS: Array<keyof WakeupConfigFlags> = [
+  ...SCHEDULE_FLAG_KEYS, 'models', 'accounts', 'prompt', 'maxTokens', 'resetMode', 'maxRetries', 'retryDelay',
+  'historyMaxRecords', 'historyMaxAge'
+]
+
+/**
+ * Check whether any config flag was passed
+ */
+export function hasWakeupFlags(flags: WakeupConfigFlags): boolean {
+  return FLAG_KEYS.some(key => flags[key] !== undefined)
+}
+
+/**
+ * Detect document format from a file name
+ */
+export function getConfigFormat(filename: string): WakeupConfigFormat {
+  return /\.ya?ml$/i.test(filename) ? 'yaml' : 'json'
+}
+
+/**
+ * Parse a JSON or YAML config document
+ * YAML is a superset of JSON, so one parser handles both
+ */
+export function parseWakeupConfigDocument(content: string): unknown {
+  return parse(content)
+}
+
+/**
+ * Serialize a config for export
+ */
+export function serializeWakeupConfig(config: WakeupConfig, format: WakeupConfigFormat): string {
+  // Drop undefined fields so the document round-trips cleanly
+  const clean = JSON.parse(JSON.stringify(config)) as WakeupConfig
+  return format === 'yaml'
+    ? stringify(clean)
+    : JSON.stringify(clean, null, 2) + '\n'
+}
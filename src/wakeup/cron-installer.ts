@@ -6,6 +6,8 @@
 import { execSync, exec } from 'child_process'
 import { promisify } from 'util'
 import { debug } from '../core/logger.js'
+import { getNextRunEstimate } from './schedule-converter.js'
+import { getSystemdStatus } from './systemd-installer.js'
 import type { CronInstallResult, CronStatus } from './types.js'
 
 const execAsync = promisify(exec)
@@ -18,7 +20,7 @@ const CRON_COMMENT_MARKER = 'antigravity-usage-wakeup'
  * Returns directories where node and npm binaries are found
  * This makes cron jobs portable across different machines and Node.js installations
  */
-function getBinDirectories(): string[] {
+export function getBinDirectories(): string[] {
   const dirs = new Set<string>()
   
   try {
@@ -128,17 +130,33 @@ export function isCronSupported(): boolean {
   return process.platform === 'darwin' || process.platform === 'linux'
 }
 
+/**
+ * Check whether the crontab command exists (missing in many containers)
+ */
+export function isCrontabAvailable(): boolean {
+  if (!isCronSupported()) return false
+  try {
+    execSync('command -v crontab', { stdio: 'ignore' })
+    return true
+  } catch {
+    return false
+  }
+}
+
 /**
  * Install cron job for scheduled wake-up
- * @param cronExpression Cron expression (5 fields: minute hour day month weekday)
+ * @param cronExpression Cron expression (5 fields: minute hour day month weekday),
+ *   or several expressions for schedules that need more than one entry
  * @returns Installation result with success status or manual instructions
  */
-export async function installCronJob(cronExpression: string): Promise<CronInstallResult> {
+export async function installCronJob(cronExpression: string | string[]): Promise<CronInstallResult> {
+  const cronExpressions = Array.isArray(cronExpression) ? cronExpression : [cronExpression]
+
   if (!isCronSupported()) {
     return {
       success: false,
       error: `Cron is not supported on ${process.platform}. Windows Task Scheduler support coming soon.`,
-      manualInstructions: getWindowsInstructions(cronExpression)
+      manualInstructions: getWindowsInstructions(cronExpressions.join('; '))
     }
   }
   
@@ -160,22 +178,23 @@ export async function installCronJob(cronExpression: string): Promise<CronInstal
       filteredLines.unshift(`PATH=${pathValue}`)
     }
     
-    // Create new cron entry with simple, portable command
+    // Create new cron entries with simple, portable command
     // Using 'antigravity-usage' instead of absolute paths makes it work anywhere
-    const cronLine = `${cronExpression} antigravity-usage wakeup trigger --scheduled # ${CRON_COMMENT_MARKER}`
+    const cronLines = cronExpressions.map(toCronLine)
     
-    // Add new entry
-    filteredLines.push(cronLine)
+    // Add new entries
+    filteredLines.push(...cronLines)
     
     // Save crontab
     await saveCrontab(filteredLines)
     
-    debug('cron-installer', `Installed cron job: ${cronLine}`)
+    debug('cron-installer', `Installed cron jobs: ${cronLines.join(' | ')}`)
     debug('cron-installer', `Using PATH: ${pathValue}`)
     
     return {
       success: true,
-      cronExpression
+      cronExpression: cronExpressions[0],
+      cronExpressions
     }
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : String(err)
@@ -184,7 +203,7 @@ export async function installCronJob(cronExpression: string): Promise<CronInstal
     return {
       success: false,
       error: errorMessage,
-      manualInstructions: getManualInstructions(cronExpression)
+      manualInstructions: getManualInstructions(cronExpressions)
     }
   }
 }
@@ -240,7 +259,8 @@ export async function isCronJobInstalled(): Promise<boolean> {
 }
 
 /**
- * Get current cron job status
+ * Get current schedule installation status
+ * Reports the cron entry if present, otherwise the systemd timer
  */
 export async function getCronStatus(): Promise<CronStatus> {
   if (!isCronSupported()) {
@@ -249,30 +269,39 @@ export async function getCronStatus(): Promise<CronStatus> {
   
   try {
     const lines = await loadCrontab()
-    const cronLine = lines.find(line => line.includes(CRON_COMMENT_MARKER))
+    const cronLines = lines.filter(line => line.includes(CRON_COMMENT_MARKER))
     
-    if (!cronLine) {
-      return { installed: false }
+    if (cronLines.length === 0) {
+      return getSystemdStatus()
     }
     
-    // Extract cron expression from line
-    const parts = cronLine.trim().split(/\s+/)
-    const cronExpression = parts.slice(0, 5).join(' ')
+    // Extract cron expressions from lines
+    const cronExpressions = cronLines.map(line => line.trim().split(/\s+/).slice(0, 5).join(' '))
+    const cronExpression = cronExpressions[0]
     
     return {
       installed: true,
+      backend: 'cron',
       cronExpression,
-      nextRun: getNextRunDescription(cronExpression)
+      cronExpressions,
+      nextRun: getNextRunEstimate(cronExpressions)
     }
   } catch {
     return { installed: false }
   }
 }
 
+/**
+ * Build the crontab line for one expression
+ */
+function toCronLine(cronExpression: string): string {
+  return `${cronExpression} antigravity-usage wakeup trigger --scheduled # ${CRON_COMMENT_MARKER}`
+}
+
 /**
  * Generate manual instructions for cron setup
  */
-function getManualInstructions(cronExpression: string): string {
+function getManualInstructions(cronExpressions: string[]): string {
   const binDirs = getBinDirectories()
   const pathValue = binDirs.join(':')
   
@@ -283,7 +312,7 @@ Failed to automatically install cron job. Please add manually:
 
 2. Add these lines:
    PATH=${pathValue}
-   ${cronExpression} antigravity-usage wakeup trigger --scheduled # ${CRON_COMMENT_MARKER}
+${cronExpressions.map(expr => `   ${toCronLine(expr)}`).join('\n')}
 
 3. Save and exit the editor
 
@@ -311,39 +340,3 @@ To set up manually using Task Scheduler:
 Alternatively, use Windows Subsystem for Linux (WSL) with cron.
 `.trim()
 }
-
-/**
- * Get human-readable description of next run
- */
-function getNextRunDescription(cronExpression: string): string {
-  try {
-    const parts = cronExpression.split(/\s+/)
-    if (parts.length !== 5) return 'Unknown'
-    
-    const [minute, hour] = parts
-    
-    // Interval-based
-    if (hour.startsWith('*/')) {
-      const hours = parseInt(hour.substring(2), 10)
-      const now = new Date()
-      const currentHour = now.getHours()
-      const nextHour = Math.ceil((currentHour + 1) / hours) * hours
-      const isToday = nextHour < 24
-      return isToday ? `Today around ${nextHour}:00` : 'Tomorrow'
-    }
-    
-    // Specific time
-    const hourNum = parseInt(hour.split(',')[0], 10)
-    const minuteNum = parseInt(minute, 10)
-    const now = new Date()
-    const currentMinutes = now.getHours() * 60 + now.getMinutes()
-    const targetMinutes = hourNum * 60 + minuteNum
-    
-    if (targetMinutes > currentMinutes) {
-      return `Today at ${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`
-    }
-    return `Tomorrow at ${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`
-  } catch {
-    return 'Unknown'
-  }
-}
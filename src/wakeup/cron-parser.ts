@@ -0,0 +1,311 @@
+/**
+ * Cron expression parser for auto wake-up
+ * Parses 5-field cron expressions and computes exact fire times in local time
+ *
+ * Supported syntax: "*", lists (1,3,5), ranges (1-5), steps (STAR/15, 9-17/2),
+ * month and weekday names (JAN, MON) and the macros in CRON_MACROS.
+ */
+
+/**
+ * Parsed cron expression - allowed values per field
+ */
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Cron ORs day-of-month and day-of-week when both are restricted
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],  // minute
+  [0, 23],  // hour
+  [1, 31],  // day of month
+  [1, 12],  // month
+  [0, 7]    // day of week (0 and 7 = Sunday)
+]
+
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week']
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+/**
+ * Shorthand macros and their 5-field equivalents
+ */
+export const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+// Give up after this long without a match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_DAYS = 366 * 5
+const MINUTE_MS = 60 * 1000
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Replace month/weekday names with their numbers
+ */
+function resolveNames(field: string, names: string[] | undefined, offset: number): string {
+  return field.replace(/[a-z]+/gi, name => {
+    const index = names ? names.indexOf(name.toLowerCase()) : -1
+    if (index < 0) {
+      throw new Error(`Unknown name "${name}"`)
+    }
+    return String(index + offset)
+  })
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    if (!/^(\*|\d+(-\d+)?)(\/\d+)?$/.test(part)) {
+      throw new Error(`Invalid value "${part}"`)
+    }
+
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}"`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-')
+      start = Number(from)
+      end = Number(to)
+    } else {
+      start = Number(rangePart)
+      // "5/15" means from 5 to the end of the range
+      end = stepPart === undefined ? start : max
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Value "${part}" out of range ${min}-${max}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression or macro
+ * @throws Error describing the first invalid field
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const expanded = trimmed.startsWith('@') ? CRON_MACROS[trimmed.toLowerCase()] : trimmed
+  if (!expanded) {
+    throw new Error(`Unknown macro "${trimmed}"`)
+  }
+
+  const fields = expanded.split(/\s+/).filter(Boolean)
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    try {
+      const names = index === 3 ? MONTH_NAMES : index === 4 ? WEEKDAY_NAMES : undefined
+      const numeric = resolveNames(field, names, index === 3 ? 1 : 0)
+      return parseField(numeric, FIELD_RANGES[index][0], FIELD_RANGES[index][1])
+    } catch (err) {
+      throw new Error(`Invalid ${FIELD_NAMES[index]} field: ${err instanceof Error ? err.message : err}`)
+    }
+  })
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0)
+    daysOfWeek.delete(7)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Like cron, a field starting with "*" (including "*/2") counts as unrestricted
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*')
+  }
+}
+
+/**
+ * Check whether a cron expression parses
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false
+
+  const domMatch = schedule.daysOfMonth.has(date.getDate())
+  const dowMatch = schedule.daysOfWeek.has(date.getDay())
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+function wallClockMinutes(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+/**
+ * Whether the schedule fires at any local time in [from, to] (minutes since midnight)
+ * on the day of `date`. Used for wall-clock times skipped by a DST gap.
+ */
+function firesBetween(schedule: CronSchedule, date: Date, from: number, to: number): boolean {
+  if (from < 0 || to >= MINUTES_PER_DAY || !matchesDay(schedule, date)) return false
+  for (let minute = from; minute <= to; minute++) {
+    if (schedule.hours.has(Math.floor(minute / 60)) && schedule.minutes.has(minute % 60)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Next fire time strictly after `after`, or null if none within the search window
+ *
+ * Steps by absolute time so every step moves forward across DST changes. Jobs
+ * scheduled inside a spring-forward gap fire at the first minute after the gap;
+ * wall-clock times repeated by a fall-back change match on both occurrences.
+ */
+export function getNextRun(schedule: CronSchedule, after: Date): Date | null {
+  let date = new Date(after)
+  date.setSeconds(0, 0)
+  date = new Date(date.getTime() + MINUTE_MS)
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000
+
+  while (date.getTime() <= limit) {
+    if (!matchesDay(schedule, date)) {
+      // Start of the next day (later than 00:00 if midnight falls in a gap)
+      date = new Date(date)
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+      if (firesBetween(schedule, date, 0, wallClockMinutes(date) - 1)) return date
+      continue
+    }
+
+    const hourMatches = schedule.hours.has(date.getHours())
+    if (hourMatches && schedule.minutes.has(date.getMinutes())) {
+      return date
+    }
+
+    // Next minute, or the start of the next hour
+    const step = hourMatches ? 1 : 60 - date.getMinutes()
+    const expected = wallClockMinutes(date) + step
+    date = new Date(date.getTime() + step * MINUTE_MS)
+    if (firesBetween(schedule, date, expected, wallClockMinutes(date) - 1)) return date
+  }
+
+  return null
+}
+
+/**
+ * Most recent fire time strictly before `before`, or null if none within the search window
+ *
+ * Mirrors getNextRun: a job scheduled inside a spring-forward gap is reported at
+ * the first minute after the gap.
+ */
+export function getPreviousRun(schedule: CronSchedule, before: Date): Date | null {
+  let date = new Date(before)
+  date.setSeconds(0, 0)
+  if (date.getTime() >= before.getTime()) {
+    date = new Date(date.getTime() - MINUTE_MS)
+  }
+
+  const limit = before.getTime() - MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000
+
+  while (date.getTime() >= limit) {
+    if (!matchesDay(schedule, date)) {
+      // Last minute of the previous day
+      const dayStart = new Date(date)
+      dayStart.setHours(0, 0, 0, 0)
+      date = new Date(dayStart.getTime() - MINUTE_MS)
+      continue
+    }
+
+    const hourMatches = schedule.hours.has(date.getHours())
+    if (hourMatches && schedule.minutes.has(date.getMinutes())) {
+      return date
+    }
+
+    // Previous minute, or the last minute of the previous hour
+    const step = hourMatches ? 1 : date.getMinutes() + 1
+    const expected = wallClockMinutes(date) - step
+    const previous = new Date(date.getTime() - step * MINUTE_MS)
+    if (firesBetween(schedule, previous, wallClockMinutes(previous) + 1, expected)) {
+      // First minute after the gap
+      return new Date(previous.getTime() + MINUTE_MS)
+    }
+    date = previous
+  }
+
+  return null
+}
+
+/**
+ * Upcoming fire times across one or more cron expressions, merged and sorted
+ * @param expressions Cron expressions that together make up a schedule
+ * @param count Number of fire times to return
+ * @param from Start time (exclusive), defaults to now
+ */
+export function getNextRunTimes(expressions: string[], count: number, from: Date = new Date()): Date[] {
+  const schedules = expressions.map(parseCronExpression)
+  const runs: Date[] = []
+  let cursor = from
+
+  while (runs.length < count) {
+    const candidates = schedules
+      .map(schedule => getNextRun(schedule, cursor))
+      .filter((date): date is Date => date !== null)
+
+    if (candidates.length === 0) break
+
+    const next = candidates.reduce((earliest, date) => date < earliest ? date : earliest)
+    runs.push(next)
+    cursor = next
+  }
+
+  return runs
+}
+
+/**
+ * Most recent fire time across one or more cron expressions
+ * @param expressions Cron expressions that together make up a schedule
+ * @param before End time (exclusive), defaults to now
+ */
+export function getPreviousRunTime(expressions: string[], before: Date = new Date()): Date | null {
+  return expressions
+    .map(expression => getPreviousRun(parseCronExpression(expression), before))
+    .filter((date): date is Date => date !== null)
+    .reduce<Date | null>((latest, date) => !latest || date > latest ? date : latest, null)
+}
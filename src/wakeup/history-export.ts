@@ -0,0 +1,84 @@
+/**
+ * Trigger history export
+ * Renders trigger records as CSV or NDJSON
+ */
+
+import type { TriggerRecord } from './types.js'
+
+export type HistoryExportFormat = 'csv' | 'ndjson'
+
+export const HISTORY_EXPORT_FORMATS: HistoryExportFormat[] = ['csv', 'ndjson']
+
+/**
+ * CSV columns, in order
+ */
+export const HISTORY_EXPORT_COLUMNS = [
+  'timestamp',
+  'account',
+  'source',
+  'type',
+  'models',
+  'success',
+  'durationMs',
+  'promptTokens',
+  'completionTokens',
+  'totalTokens',
+  'error',
+  'runId',
+  'attempt'
+] as const
+
+type HistoryExportRow = Record<typeof HISTORY_EXPORT_COLUMNS[number], string | number | boolean | null>
+
+/**
+ * Parse an export format name (case-insensitive)
+ */
+export function parseHistoryExportFormat(value: string): HistoryExportFormat | null {
+  const format = value.toLowerCase() as HistoryExportFormat
+  return HISTORY_EXPORT_FORMATS.includes(format) ? format : null
+}
+
+function recordToRow(record: TriggerRecord): HistoryExportRow {
+  return {
+    timestamp: record.timestamp,
+    account: record.accountEmail,
+    source: record.triggerSource,
+    type: record.triggerType,
+    models: record.models.join(';'),
+    success: record.success,
+    durationMs: record.durationMs,
+    promptTokens: record.tokensUsed?.prompt ?? null,
+    completionTokens: record.tokensUsed?.completion ?? null,
+    totalTokens: record.tokensUsed?.total ?? null,
+    error: record.error ?? null,
+    runId: record.runId ?? null,
+    attempt: record.attempt ?? null
+  }
+}
+
+/**
+ * RFC 4180 CSV with a header row, one row per record
+ */
+function recordsToCsv(records: TriggerRecord[]): string {
+  const escape = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+  const lines = [HISTORY_EXPORT_COLUMNS.join(',')]
+  for (const row of records.map(recordToRow)) {
+    lines.push(HISTORY_EXPORT_COLUMNS.map(column => escape(row[column] === null ? '' : String(row[column]))).join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Render trigger records in an export format
+ * NDJSON keeps the full records (including prompt and response).
+ */
+export function formatTriggerRecords(records: TriggerRecord[], format: HistoryExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return recordsToCsv(records)
+    case 'ndjson':
+      return records.map(record => JSON.stringify(record) + '\n').join('')
+  }
+}
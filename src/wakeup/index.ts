@@ -14,46 +14,156 @@ export {
   saveTriggerHistory,
   addTriggerRecord,
   getRecentHistory,
+  queryTriggerHistory,
+  archiveTriggerRecords,
+  listHistoryArchives,
+  pruneHistoryArchives,
+  resolveHistoryRetention,
   getLastTrigger,
   clearTriggerHistory,
+  loadTriggerCounters,
   loadWakeupState,
-  saveWakeupState
+  saveWakeupState,
+  loadSchedulerState,
+  saveSchedulerState,
+  loadTriggerRunState,
+  saveTriggerRunState,
+  getSchedulerPid,
+  acquireSchedulerLock,
+  releaseSchedulerLock
 } from './storage.js'
 
 // Account Resolver
 export {
   resolveAccounts,
+  resolveAccountConfigs,
+  getAccountConfig,
+  getAccountOverride,
+  hasScheduleOverride,
   hasValidAccounts,
-  getAccountResolutionStatus
+  getAccountResolutionStatus,
+  type ResolvedAccountConfig
 } from './account-resolver.js'
 
 // Schedule Converter
 export {
   configToCronExpression,
+  configToCronExpressions,
+  getSchedulePreview,
+  getTriggerCronExpressions,
+  isScheduleDue,
+  hasScheduleFiredSince,
+  formatRunTime,
   validateCronExpression,
   getScheduleDescription,
   getNextRunEstimate
 } from './schedule-converter.js'
 
+// Cron Parser
+export {
+  parseCronExpression,
+  isValidCronExpression,
+  getNextRun,
+  getPreviousRun,
+  getNextRunTimes,
+  getPreviousRunTime,
+  CRON_MACROS,
+  type CronSchedule
+} from './cron-parser.js'
+
 // Cron Installer
 export {
   installCronJob,
   uninstallCronJob,
   isCronJobInstalled,
   getCronStatus,
-  isCronSupported
+  isCronSupported,
+  isCrontabAvailable
 } from './cron-installer.js'
 
+// systemd Installer
+export {
+  installSystemdTimer,
+  uninstallSystemdTimer,
+  getSystemdStatus,
+  isSystemdSupported,
+  cronToOnCalendar,
+  generateSystemdUnits,
+  SYSTEMD_UNIT_NAME
+} from './systemd-installer.js'
+
+// Built-in Scheduler
+export {
+  startScheduler,
+  planSchedulerRun,
+  CATCH_UP_POLICIES,
+  type SchedulerOptions,
+  type SchedulerHandle,
+  type SchedulerDecision
+} from './scheduler.js'
+
 // Trigger Service
 export {
   executeTrigger,
   testTrigger
 } from './trigger-service.js'
 
+// Retry Policy
+export {
+  executeTriggersWithRetry,
+  retryFailedTriggers,
+  resolveRetryPolicy,
+  getRetryDelayMs,
+  type TriggerAttempt,
+  type RetryDeps
+} from './retry.js'
+
+// History Export
+export {
+  formatTriggerRecords,
+  parseHistoryExportFormat,
+  HISTORY_EXPORT_FORMATS,
+  HISTORY_EXPORT_COLUMNS,
+  type HistoryExportFormat
+} from './history-export.js'
+
+// History Stats
+export {
+  computeTriggerStats,
+  aggregateTriggerRecords,
+  percentile,
+  type TriggerStats,
+  type TriggerStatsReport,
+  type TriggerStatsQuery
+} from './stats.js'
+
+// Trigger Planning
+export {
+  planScheduledTriggers,
+  type ScheduledPlanOptions
+} from './trigger-plan.js'
+
 // Reset Detector
 export {
   detectResetAndTrigger,
+  planResetTriggers,
+  evaluateModel,
+  evaluateSelectedModels,
   isModelUnused,
   findUnusedModels,
   hasUnusedModels
 } from './reset-detector.js'
+
+// Declarative config
+export {
+  validateWakeupConfig,
+  applyWakeupFlags,
+  hasWakeupFlags,
+  getConfigFormat,
+  parseWakeupConfigDocument,
+  parseWeeklySchedule,
+  serializeWakeupConfig,
+  type WakeupConfigFlags,
+  type WakeupConfigFormat,
+  type WakeupConfigValidation
+} from './config-file.js'
@@ -7,47 +7,56 @@
  * - Only triggers when model is "unused": 100% remaining AND resetTime has changed since last cached snapshot
  */
 
+import { randomUUID } from 'crypto'
 import { debug } from '../core/logger.js'
 import type { QuotaSnapshot, ModelQuotaInfo } from '../quota/types.js'
 import { fetchQuota } from '../quota/service.js'
 import { loadWakeupConfig, loadWakeupState, saveWakeupState } from './storage.js'
-import { resolveAccounts } from './account-resolver.js'
+import { resolveAccountConfigs } from './account-resolver.js'
 import { getAccountManager } from '../accounts/manager.js'
 import { executeTrigger } from './trigger-service.js'
-import type { DetectionResult, WakeupState } from './types.js'
+import { retryFailedTriggers, resolveRetryPolicy, type TriggerAttempt } from './retry.js'
+import { recordSnapshot, recordFetchFailure, previewQuotaForAccount } from '../quota/accounts.js'
+import type {
+  AccountTriggerPlan,
+  DetectionResult,
+  ModelEvaluation,
+  TriggerOptions,
+  TriggerPlan,
+  WakeupConfig,
+  WakeupState
+} from './types.js'
 
 // Smart trigger thresholds
 // Note: remainingPercentage is actually a fraction (0-1), not a percentage (0-100)
 const FULL_QUOTA_THRESHOLD = 0.99        // Consider "full" if >= 99%
 
 /**
- * Check if a model is "unused" and should be triggered based on previous cache data
+ * Decide whether a model is "unused" and explain why
  *
  * Unused = 100% quota remaining AND resetTime is different from the previous cached state
  */
-export function isModelUnused(model: ModelQuotaInfo, previousState: WakeupState | null): boolean {
+export function evaluateModel(model: ModelQuotaInfo, previousState: WakeupState | null): ModelEvaluation {
+  const result = (trigger: boolean, reason: string): ModelEvaluation => ({ modelId: model.modelId, trigger, reason })
+
   // Must have remaining percentage data
   if (model.remainingPercentage === undefined) {
-    debug('reset-detector', `${model.modelId}: No remaining percentage data`)
-    return false
+    return result(false, 'No remaining percentage data')
   }
 
   // Check if quota is full (100% or very close)
   if (model.remainingPercentage < FULL_QUOTA_THRESHOLD) {
-    debug('reset-detector', `${model.modelId}: Not full (${model.remainingPercentage})`)
-    return false
+    return result(false, `Not full (${Math.round(model.remainingPercentage * 100)}% remaining)`)
   }
 
   // Must have reset time data from API
   if (!model.resetTime) {
-    debug('reset-detector', `${model.modelId}: No reset time data from API`)
-    return false
+    return result(false, 'No reset time data from API')
   }
 
   // If no previous state exists, this is the first run - trigger
   if (!previousState) {
-    debug('reset-detector', `${model.modelId}: UNUSED - No previous state (first run)`)
-    return true
+    return result(true, 'No previous state (first run)')
   }
 
   // Find the same model in the previous state
@@ -55,20 +64,64 @@ export function isModelUnused(model: ModelQuotaInfo, previousState: WakeupState
 
   // If model wasn't in previous state, it's new - trigger
   if (!previousResetTime) {
-    debug('reset-detector', `${model.modelId}: UNUSED - Model not in previous state`)
-    return true
+    return result(true, 'Model not in previous state')
   }
 
   // Compare resetTime: if changed, the quota cycle has reset
   if (model.resetTime === previousResetTime) {
-    debug('reset-detector', `${model.modelId}: Reset time unchanged (${model.resetTime})`)
-    return false
+    return result(false, `Reset time unchanged (${model.resetTime})`)
   }
 
-  debug('reset-detector', `${model.modelId}: UNUSED - Reset time changed (old: ${previousResetTime}, new: ${model.resetTime})`)
-  return true
+  return result(true, `Reset time changed (old: ${previousResetTime}, new: ${model.resetTime})`)
+}
+
+/**
+ * Check if a model is "unused" and should be triggered based on previous cache data
+ */
+export function isModelUnused(model: ModelQuotaInfo, previousState: WakeupState | null): boolean {
+  const evaluation = evaluateModel(model, previousState)
+  debug('reset-detector', `${model.modelId}: ${evaluation.trigger ? 'UNUSED - ' : ''}${evaluation.reason}`)
+  return evaluation.trigger
 }
 
+/**
+ * Evaluate each selected model of one account against its saved state
+ * Selected models missing from the snapshot are reported as not triggered.
+ */
+export function evaluateSelectedModels(
+  snapshot: QuotaSnapshot,
+  selectedModels: string[],
+  previousState: WakeupState | null
+): ModelEvaluation[] {
+  return Array.from(new Set(selectedModels)).map(modelId => {
+    const model = snapshot.models.find(m => m.modelId === modelId)
+    return model
+      ? evaluateModel(model, previousState)
+      : { modelId, trigger: false, reason: 'Not in quota response' }
+  })
+}
+
+/**
+ * Work out what detectResetAndTrigger would do, without triggering or saving state
+ */
+export async function planResetTriggers(config: WakeupConfig): Promise<TriggerPlan> {
+  const accounts: AccountTriggerPlan[] = []
+
+  for (const { email, config: accountConfig } of resolveAccountConfigs(config)) {
+    try {
+      const snapshot = await previewQuotaForAccount(email)
+      accounts.push({
+        email,
+        models: evaluateSelectedModels(snapshot, accountConfig.selectedModels, loadWakeupState(email))
+      })
+    } catch (err) {
+      debug('reset-detector', `Dry run: failed to fetch quota for ${email}:`, err)
+      accounts.push({ email, models: [], error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  return { source: 'quota_reset', accounts }
+}
 
 /**
  * Detect unused models and trigger wake-up for all configured accounts.
@@ -88,8 +141,8 @@ export async function detectResetAndTrigger(): Promise<DetectionResult> {
     return { triggered: false, triggeredModels: [] }
   }
 
-  // Respect selectedAccounts from config
-  const accounts = resolveAccounts(config.selectedAccounts)
+  // Respect selectedAccounts and per-account overrides from config
+  const accounts = resolveAccountConfigs(config)
   if (accounts.length === 0) {
     debug('reset-detector', 'No valid accounts available')
     return { triggered: false, triggeredModels: [] }
@@ -101,11 +154,12 @@ export async function detectResetAndTrigger(): Promise<DetectionResult> {
   const originalActiveEmail = accountManager.getActiveEmail()
   let anyTriggered = false
   const allTriggeredModels = new Set<string>()
-  let successCount = 0
+  const attempts: TriggerAttempt[] = []
+  const startedAt = Date.now()
 
-  const selectedSet = new Set(config.selectedModels)
+  for (const { email: accountEmail, config: accountConfig } of accounts) {
+    const selectedSet = new Set(accountConfig.selectedModels)
 
-  for (const accountEmail of accounts) {
     try {
       debug('reset-detector', `\n--- Processing account: ${accountEmail} ---`)
 
@@ -119,6 +173,8 @@ export async function detectResetAndTrigger(): Promise<DetectionResult> {
       debug('reset-detector', `Fetching quota for ${accountEmail}...`)
       const snapshot = await fetchQuota('google')
 
+      await recordSnapshot(accountEmail, snapshot)
+
       const targetModels = snapshot.models.filter(m => selectedSet.has(m.modelId))
       debug('reset-detector', `${accountEmail}: Checking ${targetModels.length} selected models out of ${snapshot.models.length} total`)
 
@@ -153,22 +209,26 @@ export async function detectResetAndTrigger(): Promise<DetectionResult> {
       modelsToTrigger.forEach((m: string) => allTriggeredModels.add(m))
 
       // Trigger for this account
-      const result = await executeTrigger({
+      const options: TriggerOptions = {
         models: modelsToTrigger,
         accountEmail,
         triggerType: 'auto',
         triggerSource: 'quota_reset',
-        customPrompt: config.customPrompt,
-        maxOutputTokens: config.maxOutputTokens
-      })
+        customPrompt: accountConfig.customPrompt,
+        maxOutputTokens: accountConfig.maxOutputTokens,
+        runId: randomUUID(),
+        attempt: 1
+      }
+      const result = await executeTrigger(options)
+      attempts.push({ options, result })
 
       const modelSuccess = result.results.filter(r => r.success).length
       console.log(`   ✅ ${accountEmail}: ${modelSuccess}/${modelsToTrigger.length} succeeded`)
-      if (modelSuccess > 0) successCount++
 
     } catch (err) {
       console.log(`   ❌ ${accountEmail}: ${err instanceof Error ? err.message : err}`)
       debug('reset-detector', `Trigger failed for ${accountEmail}:`, err)
+      await recordFetchFailure(accountEmail, err)
     }
   }
 
@@ -178,6 +238,10 @@ export async function detectResetAndTrigger(): Promise<DetectionResult> {
     accountManager.setActiveAccount(originalActiveEmail)
   }
 
+  // Quota state is already saved, so failed models would otherwise wait for the next reset
+  const finalAttempts = await retryFailedTriggers(attempts, resolveRetryPolicy(config.retryPolicy), startedAt)
+  const successCount = finalAttempts.filter(({ result }) => result.results.some(r => r.success)).length
+
   if (anyTriggered) {
     console.log(`\n📊 Wake-up complete: ${successCount}/${accounts.length} accounts triggered successfully\n`)
   }
@@ -0,0 +1,147 @@
+/**
+ * Retry policy for wake-up triggers
+ * Re-queues only the failed models of each account, with exponential backoff
+ */
+
+import { randomUUID } from 'crypto'
+import { debug } from '../core/logger.js'
+import { executeTrigger } from './trigger-service.js'
+import { DEFAULT_RETRY_POLICY } from './types.js'
+import type {
+  RetryPolicy,
+  TriggerOptions,
+  TriggerResult,
+  ModelTriggerResult
+} from './types.js'
+
+/**
+ * One account's trigger with its latest per-model results
+ */
+export interface TriggerAttempt {
+  options: TriggerOptions
+  result: TriggerResult
+}
+
+/**
+ * Injectable dependencies (for tests)
+ */
+export interface RetryDeps {
+  execute?: (options: TriggerOptions) => Promise<TriggerResult>
+  sleep?: (ms: number) => Promise<void>
+  now?: () => number
+  random?: () => number
+  log?: (message: string) => void
+}
+
+/**
+ * Fill in missing retry policy fields from the defaults
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy }
+}
+
+/**
+ * Delay before a retry, with exponential backoff and jitter
+ * @param retry Retry number (1 = first retry)
+ */
+export function getRetryDelayMs(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+  const base = policy.delaySeconds * Math.pow(2, retry - 1)
+  return Math.round((base + random() * policy.jitterSeconds) * 1000)
+}
+
+function isRetryable(result: ModelTriggerResult): boolean {
+  return !result.success && result.retryable !== false
+}
+
+/**
+ * Replace results of retried models, keeping the rest
+ */
+function mergeResults(previous: TriggerResult, retried: TriggerResult): TriggerResult {
+  const byModel = new Map(previous.results.map(result => [result.modelId, result]))
+  for (const result of retried.results) {
+    byModel.set(result.modelId, result)
+  }
+  const results = Array.from(byModel.values())
+  return { success: results.every(r => r.success), results }
+}
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Retry the failed models of earlier attempts until they succeed or the policy gives up
+ * Each retry is recorded in history with the run ID and attempt number of its first attempt.
+ * @param attempts First attempts (options must carry the runId used for them)
+ * @param startedAt When the first attempts started (ms), for the give-up window
+ * @returns Attempts with each model's final result
+ */
+export async function retryFailedTriggers(
+  attempts: TriggerAttempt[],
+  policy: RetryPolicy,
+  startedAt: number,
+  deps: RetryDeps = {}
+): Promise<TriggerAttempt[]> {
+  const execute = deps.execute ?? executeTrigger
+  const sleep = deps.sleep ?? defaultSleep
+  const now = deps.now ?? Date.now
+  const random = deps.random ?? Math.random
+  const log = deps.log ?? ((message: string) => console.log(message))
+
+  let current = attempts
+  const deadline = startedAt + policy.giveUpAfterMinutes * 60 * 1000
+
+  for (let retry = 1; retry <= policy.maxRetries; retry++) {
+    const pending = current.filter(attempt => attempt.result.results.some(isRetryable))
+    if (pending.length === 0) break
+
+    const delayMs = getRetryDelayMs(policy, retry, random)
+    if (now() + delayMs > deadline) {
+      log(`   ⏹️  Giving up retries: next attempt would be past the ${policy.giveUpAfterMinutes}m window`)
+      break
+    }
+
+    const failedCount = pending.reduce((sum, attempt) => sum + attempt.result.results.filter(isRetryable).length, 0)
+    log(`   🔁 Retry ${retry}/${policy.maxRetries} in ${Math.round(delayMs / 1000)}s for ${failedCount} failed model(s)`)
+    await sleep(delayMs)
+
+    const retried = new Map<TriggerAttempt, TriggerResult>()
+    for (const attempt of pending) {
+      const models = attempt.result.results.filter(isRetryable).map(r => r.modelId)
+      debug('retry', `Retry ${retry} for ${attempt.options.accountEmail}: ${models.join(', ')}`)
+
+      const result = await execute({
+        ...attempt.options,
+        models,
+        attempt: (attempt.options.attempt ?? 1) + retry
+      })
+      retried.set(attempt, result)
+    }
+
+    current = current.map(attempt => {
+      const result = retried.get(attempt)
+      return result ? { options: attempt.options, result: mergeResults(attempt.result, result) } : attempt
+    })
+  }
+
+  return current
+}
+
+/**
+ * Execute triggers for several accounts, then retry failed models per the policy
+ * @param targets One trigger per account
+ */
+export async function executeTriggersWithRetry(
+  targets: TriggerOptions[],
+  policy: RetryPolicy,
+  deps: RetryDeps = {}
+): Promise<TriggerAttempt[]> {
+  const execute = deps.execute ?? executeTrigger
+  const startedAt = (deps.now ?? Date.now)()
+
+  const attempts: TriggerAttempt[] = []
+  for (const target of targets) {
+    const options = { ...target, runId: target.runId ?? randomUUID(), attempt: 1 }
+    attempts.push({ options, result: await execute(options) })
+  }
+
+  return retryFailedTriggers(attempts, policy, startedAt, deps)
+}
@@ -3,22 +3,27 @@
  * Converts schedule configuration to cron expressions
  */
 
+import { getNextRunTimes, getPreviousRunTime, isValidCronExpression } from './cron-parser.js'
+import { getAccountConfig, hasScheduleOverride, resolveSelectedEmails } from './account-resolver.js'
 import type { WakeupConfig, WeeklySchedule } from './types.js'
 
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
 /**
- * Convert wakeup config to cron expression
+ * Convert wakeup config to cron expressions
+ * Daily and weekly schedules whose times don't share a minute need one entry each
  * @param config Wake-up configuration
- * @returns Cron expression string (5 fields: minute hour day month weekday)
+ * @returns Cron expressions (5 fields: minute hour day month weekday)
  */
-export function configToCronExpression(config: WakeupConfig): string {
+export function configToCronExpressions(config: WakeupConfig): string[] {
   // If custom cron expression provided, use it directly
   if (config.cronExpression) {
-    return config.cronExpression
+    return [config.cronExpression]
   }
 
   switch (config.scheduleMode) {
     case 'interval':
-      return intervalToCron(config.intervalHours || 6)
+      return [intervalToCron(config.intervalHours || 6)]
 
     case 'daily':
       return dailyToCron(config.dailyTimes || ['09:00'])
@@ -28,13 +33,80 @@ export function configToCronExpression(config: WakeupConfig): string {
 
     case 'custom':
       // Should have cronExpression set, fallback to every 6 hours
-      return '0 */6 * * *'
+      return ['0 */6 * * *']
 
     default:
       throw new Error(`Unknown schedule mode: ${config.scheduleMode}`)
   }
 }
 
+/**
+ * Convert wakeup config to a single cron expression
+ * Returns the first entry of configToCronExpressions()
+ */
+export function configToCronExpression(config: WakeupConfig): string {
+  return configToCronExpressions(config)[0]
+}
+
+// How late a run may start and still count as its schedule's run
+const DUE_WINDOW_MS = 5 * 60 * 1000
+
+/**
+ * Cron expressions that drive triggering for a config
+ * Quota-reset mode checks hourly; schedule mode combines the global schedule
+ * with the schedules of accounts that override it.
+ */
+export function getTriggerCronExpressions(config: WakeupConfig): string[] {
+  if (config.wakeOnReset) {
+    return ['0 */1 * * *']
+  }
+
+  const overrides = config.accountOverrides ?? {}
+  const selected = config.selectedAccounts && resolveSelectedEmails(config.selectedAccounts)
+  // Override keys may be aliases
+  const scheduled = resolveSelectedEmails(Object.keys(overrides).filter(key => hasScheduleOverride(overrides[key])))
+    .filter(email => !selected || selected.includes(email))
+
+  // The global schedule is only needed if some account still follows it
+  const usesGlobal = !selected || selected.some(email => !scheduled.includes(email))
+
+  const expressions = [
+    ...(usesGlobal ? configToCronExpressions(config) : []),
+    ...scheduled.flatMap(email => configToCronExpressions(getAccountConfig(config, email)))
+  ]
+  return Array.from(new Set(expressions))
+}
+
+/**
+ * Check whether a schedule fired within the last few minutes
+ * Used to pick the accounts a scheduled run is for when accounts have their own schedules.
+ */
+export function isScheduleDue(expressions: string[], now: Date = new Date(), windowMs = DUE_WINDOW_MS): boolean {
+  // The fire time itself counts, even when the run starts within the same second
+  const previous = getPreviousRunTime(expressions, new Date(now.getTime() + 1))
+  return previous !== null && now.getTime() - previous.getTime() <= windowMs
+}
+
+/**
+ * Check whether a schedule fired in (since, now]
+ * Used instead of the fixed window when the previous run time is known, so catch-up runs
+ * still cover every account whose schedule fired while nothing was running.
+ */
+export function hasScheduleFiredSince(expressions: string[], since: Date, now: Date = new Date()): boolean {
+  const [next] = getNextRunTimes(expressions, 1, since)
+  return next !== undefined && next.getTime() <= now.getTime()
+}
+
+/**
+ * Preview the next fire times of a schedule
+ * @param config Wake-up configuration
+ * @param count Number of fire times to return
+ * @param from Start time (exclusive), defaults to now
+ */
+export function getSchedulePreview(config: WakeupConfig, count = 5, from: Date = new Date()): Date[] {
+  return getNextRunTimes(getTriggerCronExpressions(config), count, from)
+}
+
 /**
  * Interval mode: every N hours
  * Example: every 6 hours produces cron "0 STAR/6 * * *" (STAR = asterisk)
@@ -46,62 +118,62 @@ function intervalToCron(hours: number): string {
   return `0 */${hours} * * *`
 }
 
+/**
+ * Group times by minute into "minute hour,hour" pairs
+ * Example: ["09:00", "18:00", "12:30"] produces ["0 9,18", "30 12"]
+ */
+function timesToCronFields(times: string[]): string[] {
+  const hoursByMinute = new Map<number, Set<number>>()
+
+  for (const [hour, minute] of times.map(parseTime)) {
+    const hours = hoursByMinute.get(minute) ?? new Set<number>()
+    hours.add(hour)
+    hoursByMinute.set(minute, hours)
+  }
+
+  return Array.from(hoursByMinute, ([minute, hours]) =>
+    `${minute} ${Array.from(hours).sort((a, b) => a - b).join(',')}`
+  )
+}
+
 /**
  * Daily mode: at specific times each day
- * For multiple times, creates comma-separated hours
+ * Times sharing a minute collapse into comma-separated hours
  * Example: ["09:00", "18:00"] produces cron "0 9,18 * * *"
  */
-function dailyToCron(times: string[]): string {
+function dailyToCron(times: string[]): string[] {
   if (times.length === 0) {
     throw new Error('Daily mode requires at least one time')
   }
 
-  // Parse all times
-  const parsedTimes = times.map(parseTime)
-
-  // Group by minute (most common case: all same minute, usually :00)
-  // For simplicity, use the first time's minute and all hours
-  const [firstHour, firstMinute] = parsedTimes[0]
-  const hours = parsedTimes.map(([h]) => h)
-
-  // If all times have the same minute, use comma-separated hours
-  const allSameMinute = parsedTimes.every(([, m]) => m === firstMinute)
-
-  if (allSameMinute) {
-    return `${firstMinute} ${hours.join(',')} * * *`
-  }
-
-  // Different minutes - just use the first time
-  // (Multiple cron entries would require multiple install calls)
-  return `${firstMinute} ${firstHour} * * *`
+  return timesToCronFields(times).map(fields => `${fields} * * *`)
 }
 
 /**
  * Weekly mode: specific days at specific times
- * Example: day 1 at 09:00 and day 5 at 17:00 produces cron "0 9 * * 1"
- * Note: For multiple days with same time, uses comma-separated days
+ * Days with identical times share an entry
+ * Example: Mon/Wed at 09:00 and Fri at 17:30 produces "0 9 * * 1,3" and "30 17 * * 5"
  */
-function weeklyToCron(schedule: WeeklySchedule): string {
-  const days = Object.keys(schedule).map(Number).sort()
+function weeklyToCron(schedule: WeeklySchedule): string[] {
+  const days = Object.keys(schedule).map(Number).sort((a, b) => a - b)
 
   if (days.length === 0) {
     throw new Error('Weekly mode requires at least one day')
   }
 
-  // Use first day's first time
-  const firstDay = days[0]
-  const firstDayTimes = schedule[firstDay]
-
-  if (!firstDayTimes || firstDayTimes.length === 0) {
-    throw new Error(`No times specified for day ${firstDay}`)
+  // Collect the days each "minute hour" pair fires on
+  const daysByTime = new Map<string, number[]>()
+  for (const day of days) {
+    const times = schedule[day]
+    if (!times || times.length === 0) {
+      throw new Error(`No times specified for day ${day}`)
+    }
+    for (const fields of timesToCronFields(times)) {
+      daysByTime.set(fields, [...(daysByTime.get(fields) ?? []), day])
+    }
   }
 
-  const [hour, minute] = parseTime(firstDayTimes[0])
-
-  // Create day list
-  const daysStr = days.join(',')
-
-  return `${minute} ${hour} * * ${daysStr}`
+  return Array.from(daysByTime, ([fields, fieldDays]) => `${fields} * * ${fieldDays.join(',')}`)
 }
 
 /**
@@ -124,20 +196,13 @@ function parseTime(timeStr: string): [number, number] {
 }
 
 /**
- * Validate a cron expression (basic validation)
+ * Validate a cron expression
+ * Accepts 5-field expressions with names and "@daily"-style macros (see cron-parser.ts)
  * @param expr Cron expression to validate
  * @returns true if valid, false otherwise
  */
 export function validateCronExpression(expr: string): boolean {
-  // Basic validation: 5 fields (minute hour day month weekday)
-  const parts = expr.trim().split(/\s+/)
-  if (parts.length !== 5) {
-    return false
-  }
-
-  // Each field should match basic cron syntax
-  const fieldPattern = /^(\*|[\d,\-\/\*]+)$/
-  return parts.every(part => fieldPattern.test(part))
+  return isValidCronExpression(expr)
 }
 
 /**
@@ -165,9 +230,12 @@ export function getScheduleDescription(config: WakeupConfig): string {
       return `Daily at ${times.join(', ')}`
 
     case 'weekly':
-      const days = Object.keys(config.weeklySchedule || {}).map(Number)
-      const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-      const dayList = days.map(d => dayNames[d]).join(', ')
+      const schedule = config.weeklySchedule || {}
+      const dayList = Object.keys(schedule)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .map(d => `${DAY_NAMES[d]} ${schedule[d].join(', ')}`)
+        .join('; ')
       return `Weekly on ${dayList}`
 
     case 'custom':
@@ -178,40 +246,34 @@ export function getScheduleDescription(config: WakeupConfig): string {
   }
 }
 
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
 /**
- * Calculate next run time from cron expression (simplified)
- * Returns a human-readable estimate
+ * Format a fire time relative to now
+ * Examples: "Today at 09:00", "Tomorrow at 17:30", "Fri, Jan 9 at 08:00"
  */
-export function getNextRunEstimate(cronExpression: string): string {
-  try {
-    const parts = cronExpression.trim().split(/\s+/)
-    if (parts.length !== 5) {
-      return 'Invalid cron'
-    }
+export function formatRunTime(date: Date, now: Date = new Date()): string {
+  const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+  const days = Math.round((startOfDay(date) - startOfDay(now)) / (24 * 60 * 60 * 1000))
 
-    const [minute, hour, day, month, weekday] = parts
-
-    // Simple cases
-    if (hour.startsWith('*/')) {
-      const interval = parseInt(hour.substring(2), 10)
-      return `Every ${interval} hour${interval > 1 ? 's' : ''}`
-    }
+  if (days === 0) return `Today at ${time}`
+  if (days === 1) return `Tomorrow at ${time}`
 
-    if (day === '*' && month === '*' && weekday === '*') {
-      // Daily - show specific time
-      const displayHour = hour.includes(',') ? hour.split(',')[0] : hour
-      return `Daily at ${displayHour.padStart(2, '0')}:${minute.padStart(2, '0')}`
-    }
-
-    if (weekday !== '*') {
-      const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-      const dayNums = weekday.split(',').map(Number)
-      const dayList = dayNums.map(d => dayNames[d] || d).join(', ')
-      return `${dayList} at ${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`
-    }
+  const year = date.getFullYear() !== now.getFullYear() ? ` ${date.getFullYear()}` : ''
+  return `${DAY_NAMES[date.getDay()]}, ${MONTH_NAMES[date.getMonth()]} ${date.getDate()}${year} at ${time}`
+}
 
-    return cronExpression
-  } catch {
-    return cronExpression
+/**
+ * Calculate the exact next run time of one or more cron expressions
+ * Returns a human-readable time, "Never" if it can't fire, or "Invalid cron"
+ */
+export function getNextRunEstimate(cronExpression: string | string[], now: Date = new Date()): string {
+  const expressions = Array.isArray(cronExpression) ? cronExpression : [cronExpression]
+  if (expressions.length === 0 || !expressions.every(isValidCronExpression)) {
+    return 'Invalid cron'
   }
+
+  const [next] = getNextRunTimes(expressions, 1, now)
+  return next ? formatRunTime(next, now) : 'Never'
 }
@@ -0,0 +1,174 @@
+/**
+ * Built-in wake-up scheduler
+ * Evaluates the wake-up schedule in-process, for machines without crontab
+ */
+
+import { debug } from '../core/logger.js'
+import { getNextRunTimes } from './cron-parser.js'
+import { getTriggerCronExpressions } from './schedule-converter.js'
+import {
+  loadWakeupConfig,
+  loadSchedulerState,
+  saveSchedulerState
+} from './storage.js'
+import type { CatchUpPolicy, WakeupConfig } from './types.js'
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'once']
+
+// Runs reached later than this count as missed (machine asleep, scheduler stopped)
+const ON_TIME_GRACE_MS = 2 * 60 * 1000
+
+// Wake up at least this often to pick up config changes and clock jumps
+const MAX_SLEEP_MS = 60 * 1000
+
+// Stop listing missed runs after this many; one trigger covers them all anyway
+const MAX_DUE_RUNS = 1000
+
+/**
+ * What to do for one scheduler check
+ */
+export interface SchedulerDecision {
+  run: boolean
+  due: Date[]                        // Fire times in (since, now]
+  missed: number                     // Due runs reached later than the grace period
+}
+
+/**
+ * Options for the built-in scheduler
+ */
+export interface SchedulerOptions {
+  catchUp: CatchUpPolicy
+  runTrigger: (since: Date) => Promise<void>    // Called with the start of the window being handled
+  // Injectable for tests
+  loadConfig?: () => WakeupConfig | null
+  now?: () => Date
+  log?: (message: string) => void
+}
+
+/**
+ * Handle for a running scheduler
+ */
+export interface SchedulerHandle {
+  stop: () => Promise<void>
+}
+
+/**
+ * Decide whether a check should trigger
+ * @param expressions Cron expressions of the schedule
+ * @param since Time of the previous check (exclusive)
+ * @param now Current time (inclusive)
+ * @param catchUp Policy for runs missed by more than the grace period
+ */
+export function planSchedulerRun(
+  expressions: string[],
+  since: Date,
+  now: Date,
+  catchUp: CatchUpPolicy
+): SchedulerDecision {
+  const due: Date[] = []
+  let cursor = since
+
+  while (due.length < MAX_DUE_RUNS) {
+    const [next] = getNextRunTimes(expressions, 1, cursor)
+    if (!next || next > now) break
+    due.push(next)
+    cursor = next
+  }
+
+  const missed = due.filter(date => now.getTime() - date.getTime() > ON_TIME_GRACE_MS).length
+  const onTime = due.length - missed
+
+  return {
+    run: onTime > 0 || (missed > 0 && catchUp === 'once'),
+    due,
+    missed
+  }
+}
+
+/**
+ * Start the scheduler loop
+ * The config is reloaded on every check, so `wakeup config` changes apply without a restart.
+ */
+export function startScheduler(options: SchedulerOptions): SchedulerHandle {
+  const loadConfig = options.loadConfig ?? loadWakeupConfig
+  const now = options.now ?? (() => new Date())
+  const log = options.log ?? ((message: string) => console.log(`[${now().toISOString()}] ${message}`))
+
+  // Catch-up looks back to the last check of a previous run
+  const state = loadSchedulerState()
+  let lastCheck = options.catchUp === 'once' && state ? new Date(state.lastCheckedAt) : now()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let checking: Promise<void> | null = null
+  let stopped = false
+
+  const getExpressions = (): string[] | null => {
+    const config = loadConfig()
+    if (!config || !config.enabled) return null
+    try {
+      return getTriggerCronExpressions(config)
+    } catch (err) {
+      log(`⚠️  Invalid schedule: ${err instanceof Error ? err.message : err}`)
+      return null
+    }
+  }
+
+  const scheduleNext = (expressions: string[] | null): void => {
+    if (stopped) return
+    let delay = MAX_SLEEP_MS
+    if (expressions) {
+      const [next] = getNextRunTimes(expressions, 1, now())
+      if (next) {
+        delay = Math.min(Math.max(next.getTime() - now().getTime(), 0), MAX_SLEEP_MS)
+      }
+    }
+    timer = setTimeout(() => { checking = check() }, delay)
+  }
+
+  const check = async (): Promise<void> => {
+    timer = null
+    const checkedAt = now()
+    const expressions = getExpressions()
+
+    if (expressions) {
+      const decision = planSchedulerRun(expressions, lastCheck, checkedAt, options.catchUp)
+      debug('scheduler', `Due: ${decision.due.length}, missed: ${decision.missed}, run: ${decision.run}`)
+
+      if (decision.missed > 0) {
+        log(decision.run
+          ? `Catching up on ${decision.missed} missed run${decision.missed === 1 ? '' : 's'}`
+          : `Skipping ${decision.missed} missed run${decision.missed === 1 ? '' : 's'}`)
+      }
+
+      if (decision.run) {
+        // Without catch-up, only runs reached on time count as due
+        const since = options.catchUp === 'once'
+          ? lastCheck
+          : new Date(Math.max(lastCheck.getTime(), checkedAt.getTime() - ON_TIME_GRACE_MS))
+        try {
+          await options.runTrigger(since)
+        } catch (err) {
+          log(`❌ Trigger failed: ${err instanceof Error ? err.message : err}`)
+        }
+      }
+
+      if (decision.due.length > 0) {
+        saveSchedulerState({ lastCheckedAt: checkedAt.toISOString() })
+      }
+    }
+
+    lastCheck = checkedAt
+    scheduleNext(expressions)
+  }
+
+  checking = check()
+
+  return {
+    stop: async () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+      // Let an in-flight trigger finish so its history is recorded
+      await checking
+      saveSchedulerState({ lastCheckedAt: lastCheck.toISOString() })
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Wake-up history analytics
+ * Aggregates trigger records by account, model and trigger source
+ */
+
+import type { TriggerRecord } from './types.js'
+
+// Error strings listed per group
+const TOP_ERROR_COUNT = 3
+
+/**
+ * Aggregated statistics for one group of trigger records
+ */
+export interface TriggerStats {
+  key: string                        // Account email, model ID, trigger source, or "all"
+  total: number
+  success: number
+  failure: number
+  successRate: number                // 0-1 (0 when there are no records)
+  medianDurationMs: number | null
+  p95DurationMs: number | null
+  tokensUsed: number
+  failureStreak: number              // Consecutive failures up to the most recent record
+  lastTriggerAt?: string
+  topErrors: Array<{ error: string; count: number }>
+}
+
+/**
+ * Stats for a time window, overall and per dimension
+ */
+export interface TriggerStatsReport {
+  since?: string
+  until?: string
+  overall: TriggerStats
+  byAccount: TriggerStats[]
+  byModel: TriggerStats[]
+  bySource: TriggerStats[]
+}
+
+/**
+ * Filters for a stats report
+ */
+export interface TriggerStatsQuery {
+  since?: Date
+  until?: Date
+  account?: string
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]
+}
+
+/**
+ * Aggregate one group of records
+ * @param records Records in any order
+ */
+export function aggregateTriggerRecords(key: string, records: TriggerRecord[]): TriggerStats {
+  const newestFirst = [...records].sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  const success = records.filter(r => r.success).length
+  const durations = records.map(r => r.durationMs).sort((a, b) => a - b)
+
+  const errorCounts = new Map<string, number>()
+  for (const record of records) {
+    if (!record.success && record.error) {
+      errorCounts.set(record.error, (errorCounts.get(record.error) ?? 0) + 1)
+    }
+  }
+
+  const firstSuccess = newestFirst.findIndex(r => r.success)
+
+  return {
+    key,
+    total: records.length,
+    success,
+    failure: records.length - success,
+    successRate: records.length > 0 ? success / records.length : 0,
+    medianDurationMs: percentile(durations, 50),
+    p95DurationMs: percentile(durations, 95),
+    tokensUsed: records.reduce((sum, r) => sum + (r.tokensUsed?.total ?? 0), 0),
+    failureStreak: firstSuccess === -1 ? records.length : firstSuccess,
+    lastTriggerAt: newestFirst[0]?.timestamp,
+    topErrors: Array.from(errorCounts, ([error, count]) => ({ error, count }))
+      .sort((a, b) => b.count - a.count || a.error.localeCompare(b.error))
+      .slice(0, TOP_ERROR_COUNT)
+  }
+}
+
+function groupBy(records: TriggerRecord[], keysOf: (record: TriggerRecord) => string[]): TriggerStats[] {
+  const groups = new Map<string, TriggerRecord[]>()
+  for (const record of records) {
+    for (const key of keysOf(record)) {
+      const group = groups.get(key)
+      if (group) {
+        group.push(record)
+      } else {
+        groups.set(key, [record])
+      }
+    }
+  }
+  return Array.from(groups, ([key, group]) => aggregateTriggerRecords(key, group))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key))
+}
+
+/**
+ * Build a stats report from trigger history
+ */
+export function computeTriggerStats(history: TriggerRecord[], query: TriggerStatsQuery = {}): TriggerStatsReport {
+  const records = history.filter(record => {
+    const time = new Date(record.timestamp).getTime()
+    if (query.since && time < query.since.getTime()) return false
+    if (query.until && time > query.until.getTime()) return false
+    if (query.account && record.accountEmail !== query.account) return false
+    return true
+  })
+
+  return {
+    since: query.since?.toISOString(),
+    until: query.until?.toISOString(),
+    overall: aggregateTriggerRecords('all', records),
+    byAccount: groupBy(records, r => [r.accountEmail]),
+    byModel: groupBy(records, r => r.models),
+    bySource: groupBy(records, r => [r.triggerSource])
+  }
+}
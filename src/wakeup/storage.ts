@@ -4,24 +4,45 @@
  */
 
 import { join } from 'path'
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs'
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  unlinkSync,
+  renameSync,
+  linkSync,
+  appendFileSync,
+  readdirSync,
+  rmSync
+} from 'fs'
 import { debug } from '../core/logger.js'
 import { getConfigDir, getAccountDir } from '../core/env.js'
 import { ensureAccountDir } from '../accounts/storage.js'
 import type {
   WakeupConfig,
+  HistoryRetention,
   TriggerRecord,
-  WakeupState
+  TriggerHistoryQuery,
+  TriggerCounters,
+  WakeupState,
+  SchedulerState,
+  TriggerRunState,
+  SchedulerLockResult
 } from './types.js'
-import { getDefaultConfig } from './types.js'
+import { getDefaultConfig, DEFAULT_HISTORY_RETENTION } from './types.js'
+import { getRepresentativeModels } from '../quota/groups.js'
 
 // Storage paths
 const WAKEUP_DIR_NAME = 'wakeup'
 const CONFIG_FILE_NAME = 'config.json'
 const HISTORY_FILE_NAME = 'history.json'
-
-// History ring buffer size
-const MAX_HISTORY_ENTRIES = 100
+const COUNTERS_FILE_NAME = 'counters.json'
+const SCHEDULER_STATE_FILE_NAME = 'scheduler-state.json'
+const TRIGGER_RUN_STATE_FILE_NAME = 'trigger-state.json'
+const SCHEDULER_LOCK_FILE_NAME = 'scheduler.lock'
+const HISTORY_ARCHIVE_DIR_NAME = 'history'
+const ARCHIVE_PATTERN = /^history-(\d{4}-\d{2})\.ndjson$/
 
 /**
  * Get wakeup storage directory path
@@ -64,7 +85,9 @@ function writeJsonFile<T>(filename: string, data: T): void {
   ensureWakeupDir()
   const filepath = join(getWakeupDir(), filename)
   try {
-    writeFileSync(filepath, JSON.stringify(data, null, 2), 'utf-8')
+    // Write then rename, so an interrupted write never leaves a truncated file
+    writeFileSync(`${filepath}.tmp`, JSON.stringify(data, null, 2), 'utf-8')
+    renameSync(`${filepath}.tmp`, filepath)
     debug('wakeup-storage', `Wrote ${filename}`)
   } catch (err) {
     debug('wakeup-storage', `Error writing ${filename}:`, err)
@@ -103,10 +126,10 @@ export function saveWakeupConfig(config: WakeupConfig): void {
 export function getOrCreateConfig(): WakeupConfig {
   const existing = loadWakeupConfig()
   if (existing) {
-    // Auto-migrate to new default models if selectedModels is empty
-    // This ensures both Claude and Gemini families (both quota groups) are triggered
+    // Auto-migrate to the default models if selectedModels is empty
+    // (one representative per quota group, same as getDefaultConfig)
     if (!existing.selectedModels || existing.selectedModels.length === 0) {
-      existing.selectedModels = ['claude-sonnet-4-6', 'gemini-3-flash', 'gemini-3.1-pro-low']
+      existing.selectedModels = getRepresentativeModels()
       saveWakeupConfig(existing)
       debug('wakeup-storage', 'Migrated config to new default models')
     }
@@ -136,21 +159,46 @@ export function saveTriggerHistory(history: TriggerRecord[]): void {
 }
 
 /**
- * Add a trigger record to history (maintains ring buffer)
+ * Fill in missing history retention fields from the defaults
+ */
+export function resolveHistoryRetention(retention?: Partial<HistoryRetention>): HistoryRetention {
+  return { ...DEFAULT_HISTORY_RETENTION, ...retention }
+}
+
+/**
+ * Oldest timestamp kept under a retention age, or null when records are kept forever
+ */
+function getRetentionCutoff(maxAgeDays: number, now: Date = new Date()): Date | null {
+  return maxAgeDays > 0 ? new Date(now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000) : null
+}
+
+/**
+ * Add a trigger record to history
+ * Records beyond the retention limit or older than the retention age rotate from
+ * history.json into the monthly archives, and expired archives are deleted.
  */
 export function addTriggerRecord(record: TriggerRecord): void {
   const history = loadTriggerHistory()
+  const retention = resolveHistoryRetention(loadWakeupConfig()?.historyRetention)
+  const cutoff = getRetentionCutoff(retention.maxAgeDays)
 
   // Add new record at the beginning
   history.unshift(record)
 
-  // Trim to max entries
-  if (history.length > MAX_HISTORY_ENTRIES) {
-    history.splice(MAX_HISTORY_ENTRIES)
+  const isRotated = (entry: TriggerRecord, index: number): boolean =>
+    index >= retention.maxRecords || (cutoff !== null && new Date(entry.timestamp).getTime() < cutoff.getTime())
+  const rotated = history.filter(isRotated)
+  const kept = history.filter((entry, index) => !isRotated(entry, index))
+
+  saveTriggerHistory(kept)
+  debug('wakeup-storage', `Added trigger record (total: ${kept.length})`)
+
+  if (rotated.length > 0) {
+    archiveTriggerRecords(rotated)
   }
+  pruneHistoryArchives(retention.maxAgeDays)
 
-  saveTriggerHistory(history)
-  debug('wakeup-storage', `Added trigger record (total: ${history.length})`)
+  incrementTriggerCounters(record)
 }
 
 /**
@@ -175,9 +223,201 @@ export function getLastTrigger(): TriggerRecord | null {
  */
 export function clearTriggerHistory(): void {
   saveTriggerHistory([])
+  rmSync(getHistoryArchiveDir(), { recursive: true, force: true })
   debug('wakeup-storage', 'Cleared trigger history')
 }
 
+// ============================================================================
+// History Archive Operations
+// ============================================================================
+
+/**
+ * Get history archive directory path
+ */
+function getHistoryArchiveDir(): string {
+  return join(getWakeupDir(), HISTORY_ARCHIVE_DIR_NAME)
+}
+
+/**
+ * Get the archive key (YYYY-MM, UTC) for a timestamp
+ */
+function getArchiveKey(date: Date): string {
+  return (isNaN(date.getTime()) ? new Date() : date).toISOString().slice(0, 7)
+}
+
+function getArchiveFileName(key: string): string {
+  return `history-${key}.ndjson`
+}
+
+/**
+ * Append records to their monthly archive files (NDJSON, oldest first)
+ * @param records Records in any order
+ */
+export function archiveTriggerRecords(records: TriggerRecord[]): void {
+  const dir = getHistoryArchiveDir()
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+    debug('wakeup-storage', `Created history archive directory: ${dir}`)
+  }
+
+  const byKey = new Map<string, string[]>()
+  const chronological = [...records].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (const record of chronological) {
+    const key = getArchiveKey(new Date(record.timestamp))
+    const lines = byKey.get(key)
+    if (lines) {
+      lines.push(JSON.stringify(record))
+    } else {
+      byKey.set(key, [JSON.stringify(record)])
+    }
+  }
+
+  for (const [key, lines] of byKey) {
+    appendFileSync(join(dir, getArchiveFileName(key)), lines.join('\n') + '\n', 'utf-8')
+    debug('wakeup-storage', `Archived ${lines.length} trigger record(s) to ${getArchiveFileName(key)}`)
+  }
+}
+
+/**
+ * List archive keys (YYYY-MM) present on disk, oldest first
+ */
+export function listHistoryArchives(): string[] {
+  const dir = getHistoryArchiveDir()
+  if (!existsSync(dir)) {
+    return []
+  }
+
+  try {
+    return readdirSync(dir)
+      .map(name => ARCHIVE_PATTERN.exec(name)?.[1])
+      .filter((key): key is string => key !== undefined)
+      .sort()
+  } catch (err) {
+    debug('wakeup-storage', 'Failed to list history archives', err)
+    return []
+  }
+}
+
+/**
+ * Read all records from one archive, skipping corrupt lines
+ */
+function readHistoryArchive(key: string): TriggerRecord[] {
+  const records: TriggerRecord[] = []
+
+  try {
+    const content = readFileSync(join(getHistoryArchiveDir(), getArchiveFileName(key)), 'utf-8')
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        records.push(JSON.parse(line) as TriggerRecord)
+      } catch {
+        debug('wakeup-storage', `Skipping corrupt line in ${getArchiveFileName(key)}`)
+      }
+    }
+  } catch (err) {
+    debug('wakeup-storage', `Failed to read ${getArchiveFileName(key)}`, err)
+  }
+
+  return records
+}
+
+/**
+ * Delete archives whose whole month is older than maxAgeDays
+ * @returns Removed archive keys
+ */
+export function pruneHistoryArchives(maxAgeDays: number, now: Date = new Date()): string[] {
+  const cutoff = getRetentionCutoff(maxAgeDays, now)
+  if (!cutoff) return []
+
+  const cutoffKey = getArchiveKey(cutoff)
+  const expired = listHistoryArchives().filter(key => key < cutoffKey)
+
+  for (const key of expired) {
+    try {
+      unlinkSync(join(getHistoryArchiveDir(), getArchiveFileName(key)))
+      debug('wakeup-storage', `Deleted expired archive ${getArchiveFileName(key)}`)
+    } catch (err) {
+      debug('wakeup-storage', `Failed to delete ${getArchiveFileName(key)}`, err)
+    }
+  }
+
+  return expired
+}
+
+/**
+ * Check whether a record matches a query's filters
+ */
+function matchesTriggerQuery(record: TriggerRecord, query: TriggerHistoryQuery): boolean {
+  const time = new Date(record.timestamp).getTime()
+  if (query.since && time < query.since.getTime()) return false
+  if (query.until && time > query.until.getTime()) return false
+  if (query.account && record.accountEmail !== query.account) return false
+  if (query.failed && record.success) return false
+  if (query.model) {
+    const filter = query.model.toLowerCase()
+    if (!record.models.some(modelId => modelId === query.model || modelId.toLowerCase().includes(filter))) return false
+  }
+  return true
+}
+
+/**
+ * Query trigger history across history.json and the archives
+ * Returns matching records newest first. Archives are read newest first and
+ * only until the limit is reached or they fall before `since`.
+ */
+export function queryTriggerHistory(query: TriggerHistoryQuery = {}): TriggerRecord[] {
+  const sinceKey = query.since ? getArchiveKey(query.since) : undefined
+  const untilKey = query.until ? getArchiveKey(query.until) : undefined
+  const archiveKeys = listHistoryArchives()
+    .filter(key => (!sinceKey || key >= sinceKey) && (!untilKey || key <= untilKey))
+    .reverse()
+
+  const newestFirst = (records: TriggerRecord[]): TriggerRecord[] =>
+    records.filter(record => matchesTriggerQuery(record, query))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+  // Rotated records are always older than those still in history.json
+  const results = newestFirst(loadTriggerHistory())
+  for (const key of archiveKeys) {
+    if (query.limit !== undefined && results.length >= query.limit) break
+    results.push(...newestFirst(readHistoryArchive(key)))
+  }
+
+  return query.limit !== undefined ? results.slice(0, query.limit) : results
+}
+
+// ============================================================================
+// Counter Operations
+// ============================================================================
+
+/**
+ * Load cumulative trigger counters
+ */
+export function loadTriggerCounters(): TriggerCounters {
+  return readJsonFile<TriggerCounters>(COUNTERS_FILE_NAME, {})
+}
+
+/**
+ * Count a trigger record's outcome for each of its models
+ */
+function incrementTriggerCounters(record: TriggerRecord): void {
+  const counters = loadTriggerCounters()
+  const accountCounters = counters[record.accountEmail] || {}
+
+  for (const modelId of record.models) {
+    const count = accountCounters[modelId] || { success: 0, failure: 0 }
+    if (record.success) {
+      count.success++
+    } else {
+      count.failure++
+    }
+    accountCounters[modelId] = count
+  }
+
+  counters[record.accountEmail] = accountCounters
+  writeJsonFile(COUNTERS_FILE_NAME, counters)
+}
+
 // ============================================================================
 // Wakeup State Operations
 // ============================================================================
@@ -214,3 +454,120 @@ export function saveWakeupState(email: string, state: WakeupState): void {
   writeFileSync(path, JSON.stringify(state, null, 2))
   debug('wakeup-storage', `Saved wakeup state for ${email}`)
 }
+
+// ============================================================================
+// Scheduler Operations
+// ============================================================================
+
+/**
+ * Load the built-in scheduler state
+ */
+export function loadSchedulerState(): SchedulerState | null {
+  return readJsonFile<SchedulerState | null>(SCHEDULER_STATE_FILE_NAME, null)
+}
+
+/**
+ * Save the built-in scheduler state
+ */
+export function saveSchedulerState(state: SchedulerState): void {
+  writeJsonFile(SCHEDULER_STATE_FILE_NAME, state)
+}
+
+/**
+ * Load the state of scheduled trigger runs
+ */
+export function loadTriggerRunState(): TriggerRunState | null {
+  return readJsonFile<TriggerRunState | null>(TRIGGER_RUN_STATE_FILE_NAME, null)
+}
+
+/**
+ * Save the state of scheduled trigger runs
+ */
+export function saveTriggerRunState(state: TriggerRunState): void {
+  writeJsonFile(TRIGGER_RUN_STATE_FILE_NAME, state)
+}
+
+/**
+ * Check whether a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (err) {
+    // EPERM means it exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Read the PID of a running scheduler, or null if none holds the lock
+ */
+export function getSchedulerPid(): number | null {
+  const path = join(getWakeupDir(), SCHEDULER_LOCK_FILE_NAME)
+  try {
+    const pid = parseInt(readFileSync(path, 'utf-8'), 10)
+    return !isNaN(pid) && isProcessAlive(pid) ? pid : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Take the scheduler lock so only one instance runs
+ * The PID is written to a temp file first and hard-linked into place, so the lock
+ * never exists without its PID. A lock left behind by a dead process is taken over.
+ */
+export function acquireSchedulerLock(pid: number = process.pid): SchedulerLockResult {
+  ensureWakeupDir()
+  const path = join(getWakeupDir(), SCHEDULER_LOCK_FILE_NAME)
+  const tempPath = `${path}.${pid}.tmp`
+  writeFileSync(tempPath, String(pid))
+
+  try {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        linkSync(tempPath, path)
+        debug('wakeup-storage', `Acquired scheduler lock (pid ${pid})`)
+        return { acquired: true, pid }
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+      }
+
+      const holder = getSchedulerPid()
+      if (holder !== null) {
+        return { acquired: false, pid: holder }
+      }
+
+      debug('wakeup-storage', 'Removing stale scheduler lock')
+      try {
+        unlinkSync(path)
+      } catch {
+        // Another instance may have removed it first
+      }
+    }
+  } finally {
+    try {
+      unlinkSync(tempPath)
+    } catch {
+      // Already gone
+    }
+  }
+
+  return { acquired: false }
+}
+
+/**
+ * Release the scheduler lock if this process holds it
+ */
+export function releaseSchedulerLock(pid: number = process.pid): void {
+  const path = join(getWakeupDir(), SCHEDULER_LOCK_FILE_NAME)
+  try {
+    if (readFileSync(path, 'utf-8').trim() === String(pid)) {
+      unlinkSync(path)
+      debug('wakeup-storage', 'Released scheduler lock')
+    }
+  } catch (err) {
+    debug('wakeup-storage', 'Error releasing scheduler lock:', err)
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * systemd installer for auto wake-up
+ * Manages a systemd --user .service + .timer pair on Linux (alternative to cron)
+ */
+
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import { debug } from '../core/logger.js'
+import { parseCronExpression } from './cron-parser.js'
+import { getNextRunEstimate } from './schedule-converter.js'
+import { getBinDirectories } from './cron-installer.js'
+import type { CronInstallResult, CronStatus } from './types.js'
+
+const execAsync = promisify(exec)
+
+// Unit name shared by the .service and .timer files
+export const SYSTEMD_UNIT_NAME = 'antigravity-usage-wakeup'
+
+// Timer comment prefix recording the source cron expressions, so status can read them back
+const CRON_COMMENT_PREFIX = '# cron: '
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Options for systemd operations (injectable for tests)
+ */
+export interface SystemdOptions {
+  unitDir?: string                               // Defaults to ~/.config/systemd/user
+  runCommand?: (command: string) => Promise<void>
+}
+
+/**
+ * Default systemd user unit directory
+ */
+export function getSystemdUserDir(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'systemd', 'user')
+}
+
+/**
+ * Check whether systemd is the init system (Linux only)
+ */
+export function isSystemdSupported(): boolean {
+  return process.platform === 'linux' && existsSync('/run/systemd/system')
+}
+
+async function defaultRunCommand(command: string): Promise<void> {
+  await execAsync(command)
+}
+
+function resolveOptions(options: SystemdOptions): Required<SystemdOptions> {
+  return {
+    unitDir: options.unitDir ?? getSystemdUserDir(),
+    runCommand: options.runCommand ?? defaultRunCommand
+  }
+}
+
+function unitPaths(unitDir: string): { service: string; timer: string } {
+  return {
+    service: join(unitDir, `${SYSTEMD_UNIT_NAME}.service`),
+    timer: join(unitDir, `${SYSTEMD_UNIT_NAME}.timer`)
+  }
+}
+
+/**
+ * Render a set of values for OnCalendar, or "*" when every value is allowed
+ */
+function formatValues(values: Set<number>, size: number, pad = true): string {
+  if (values.size >= size) return '*'
+  return Array.from(values)
+    .sort((a, b) => a - b)
+    .map(value => pad ? String(value).padStart(2, '0') : String(value))
+    .join(',')
+}
+
+/**
+ * Convert a cron expression to systemd OnCalendar= values
+ *
+ * Cron fires when either day-of-month or day-of-week matches if both are
+ * restricted, while systemd requires both, so that case becomes two entries.
+ * Example: "30 9 * * 1-5" produces ["Mon,Tue,Wed,Thu,Fri *-*-* 09:30:00"]
+ */
+export function cronToOnCalendar(cronExpression: string): string[] {
+  const schedule = parseCronExpression(cronExpression)
+
+  const minutes = formatValues(schedule.minutes, 60)
+  const hours = formatValues(schedule.hours, 24)
+  const months = formatValues(schedule.months, 12)
+  const days = formatValues(schedule.daysOfMonth, 31)
+  const weekdays = schedule.daysOfWeek.size >= 7
+    ? ''
+    : Array.from(schedule.daysOfWeek).sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day]).join(',') + ' '
+
+  const time = `${hours}:${minutes}:00`
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return [`${weekdays}*-${months}-* ${time}`, `*-${months}-${days} ${time}`]
+  }
+  return [`${weekdays}*-${months}-${days} ${time}`]
+}
+
+/**
+ * Generate the .service and .timer unit files
+ * @param cronExpressions Schedule as cron expressions
+ * @param pathValue PATH for the service, so the antigravity-usage binary is found
+ */
+export function generateSystemdUnits(cronExpressions: string[], pathValue: string): { service: string; timer: string } {
+  const service = `[Unit]
+Description=antigravity-usage wake-up trigger
+
+[Service]
+Type=oneshot
+Environment=PATH=${pathValue}
+ExecStart=/usr/bin/env antigravity-usage wakeup trigger --scheduled
+`
+
+  const timer = `[Unit]
+Description=antigravity-usage wake-up schedule
+
+${cronExpressions.map(expr => `${CRON_COMMENT_PREFIX}${expr}`).join('\n')}
+[Timer]
+${cronExpressions.flatMap(cronToOnCalendar).map(calendar => `OnCalendar=${calendar}`).join('\n')}
+Persistent=true
+
+[Install]
+WantedBy=timers.target
+`
+
+  return { service, timer }
+}
+
+/**
+ * Install and start the systemd user timer
+ * @param cronExpressions Schedule as cron expressions
+ */
+export async function installSystemdTimer(
+  cronExpressions: string[],
+  options: SystemdOptions = {}
+): Promise<CronInstallResult> {
+  const { unitDir, runCommand } = resolveOptions(options)
+  const paths = unitPaths(unitDir)
+
+  try {
+    const units = generateSystemdUnits(cronExpressions, getBinDirectories().join(':'))
+
+    mkdirSync(unitDir, { recursive: true })
+    writeFileSync(paths.service, units.service)
+    writeFileSync(paths.timer, units.timer)
+    debug('systemd-installer', `Wrote ${paths.service} and ${paths.timer}`)
+
+    await runCommand('systemctl --user daemon-reload')
+    await runCommand(`systemctl --user enable --now ${SYSTEMD_UNIT_NAME}.timer`)
+
+    return {
+      success: true,
+      cronExpression: cronExpressions[0],
+      cronExpressions
+    }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err)
+    debug('systemd-installer', `Failed to install timer: ${errorMessage}`)
+
+    return {
+      success: false,
+      error: errorMessage,
+      manualInstructions: getManualInstructions(unitDir)
+    }
+  }
+}
+
+/**
+ * Stop the timer and remove the unit files
+ * @returns true if successful (including when nothing was installed)
+ */
+export async function uninstallSystemdTimer(options: SystemdOptions = {}): Promise<boolean> {
+  const { unitDir, runCommand } = resolveOptions(options)
+  const paths = unitPaths(unitDir)
+
+  if (!existsSync(paths.timer) && !existsSync(paths.service)) {
+    debug('systemd-installer', 'No timer found to uninstall')
+    return true
+  }
+
+  try {
+    await runCommand(`systemctl --user disable --now ${SYSTEMD_UNIT_NAME}.timer`)
+  } catch (err) {
+    // Units may exist on disk without ever having been enabled
+    debug('systemd-installer', 'Could not disable timer:', err)
+  }
+
+  try {
+    for (const path of [paths.timer, paths.service]) {
+      if (existsSync(path)) unlinkSync(path)
+    }
+    await runCommand('systemctl --user daemon-reload')
+    debug('systemd-installer', 'Uninstalled timer successfully')
+    return true
+  } catch (err) {
+    debug('systemd-installer', 'Failed to uninstall timer:', err)
+    return false
+  }
+}
+
+/**
+ * Get current systemd timer status from the installed unit files
+ */
+export function getSystemdStatus(options: SystemdOptions = {}): CronStatus {
+  const { unitDir } = resolveOptions(options)
+  const { timer } = unitPaths(unitDir)
+
+  try {
+    if (!existsSync(timer)) {
+      return { installed: false }
+    }
+
+    const cronExpressions = readFileSync(timer, 'utf-8')
+      .split('\n')
+      .filter(line => line.startsWith(CRON_COMMENT_PREFIX))
+      .map(line => line.slice(CRON_COMMENT_PREFIX.length).trim())
+
+    return {
+      installed: true,
+      backend: 'systemd',
+      cronExpression: cronExpressions[0],
+      cronExpressions,
+      nextRun: cronExpressions.length > 0 ? getNextRunEstimate(cronExpressions) : undefined
+    }
+  } catch {
+    return { installed: false }
+  }
+}
+
+/**
+ * Generate manual instructions for systemd setup
+ */
+function getManualInstructions(unitDir: string): string {
+  return `
+Failed to automatically enable the systemd timer. Units were written to:
+   ${unitDir}
+
+To enable manually, run:
+   systemctl --user daemon-reload
+   systemctl --user enable --now ${SYSTEMD_UNIT_NAME}.timer
+
+To verify, run: systemctl --user list-timers ${SYSTEMD_UNIT_NAME}.timer
+`.trim()
+}
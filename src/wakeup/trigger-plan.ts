@@ -0,0 +1,48 @@
+/**
+ * Trigger planning for schedule mode
+ * Decides which accounts and models a trigger run is for
+ */
+
+import { resolveAccountConfigs, hasScheduleOverride, getAccountOverride } from './account-resolver.js'
+import { configToCronExpressions, isScheduleDue, hasScheduleFiredSince } from './schedule-converter.js'
+import type { TriggerPlan, WakeupConfig } from './types.js'
+
+/**
+ * Options for planning a schedule-mode run
+ */
+export interface ScheduledPlanOptions {
+  scheduled: boolean                 // Run started by the schedule (vs. manually)
+  now?: Date
+  since?: Date                       // Previous scheduled run; schedules that fired after it are due
+}
+
+/**
+ * Work out which accounts and models a schedule-mode trigger run covers
+ * With per-account schedules, a scheduled run only covers the accounts whose schedule is due:
+ * fired since the previous run, or within the last few minutes when that isn't known.
+ */
+export function planScheduledTriggers(config: WakeupConfig, options: ScheduledPlanOptions): TriggerPlan {
+  const now = options.now ?? new Date()
+  const checkDue = options.scheduled && Object.values(config.accountOverrides ?? {}).some(hasScheduleOverride)
+
+  const isDue = (expressions: string[]): boolean => options.since
+    ? hasScheduleFiredSince(expressions, options.since, now)
+    : isScheduleDue(expressions, now)
+
+  const accounts = resolveAccountConfigs(config).map(({ email, config: accountConfig }) => {
+    if (checkDue && !isDue(configToCronExpressions(accountConfig))) {
+      return { email, models: [], skipped: 'Schedule not due' }
+    }
+    if (accountConfig.selectedModels.length === 0) {
+      return { email, models: [], skipped: 'No models selected' }
+    }
+
+    const reason = getAccountOverride(config, email)?.selectedModels ? 'Selected for this account' : 'Selected'
+    return {
+      email,
+      models: accountConfig.selectedModels.map(modelId => ({ modelId, trigger: true, reason }))
+    }
+  })
+
+  return { source: options.scheduled ? 'scheduled' : 'manual', accounts }
+}
@@ -4,6 +4,7 @@
  */
 
 import { debug } from '../core/logger.js'
+import { APIError, TokenRefreshError } from '../core/errors.js'
 import { getTokenManagerForAccount } from '../google/token-manager.js'
 import { CloudCodeClient } from '../google/cloudcode.js'
 import { addTriggerRecord } from './storage.js'
@@ -54,7 +55,8 @@ export async function executeTrigger(options: TriggerOptions): Promise<TriggerRe
       modelId,
       success: false,
       durationMs: 0,
-      error: `Failed to get credentials for ${accountEmail}`
+      error: `Failed to get credentials for ${accountEmail}`,
+      retryable: false
     }))
 
     recordResults(results, options)
@@ -81,7 +83,9 @@ export async function executeTrigger(options: TriggerOptions): Promise<TriggerRe
       modelId,
       success: false,
       durationMs: 0,
-      error: errorMessage
+      error: errorMessage,
+      // Network blips and 5xx during refresh are worth retrying; a rejected refresh token is not
+      retryable: !(err instanceof TokenRefreshError) || err.isRetryable
     }))
 
     recordResults(results, options)
@@ -138,6 +142,10 @@ export async function executeTrigger(options: TriggerOptions): Promise<TriggerRe
   return { success: allSuccess, results }
 }
 
+function isPermanentStatus(status?: number): boolean {
+  return status !== undefined && status >= 400 && status < 500 && status !== 429
+}
+
 /**
  * Trigger a single model
  */
@@ -185,7 +193,9 @@ async function triggerSingleModel(
       modelId,
       success: false,
       durationMs,
-      error: errorMessage
+      error: errorMessage,
+      // The client already retried 429 and 5xx; other 4xx (bad model ID, 403) won't change on retry
+      retryable: !(err instanceof APIError && isPermanentStatus(err.statusCode))
     }
   }
 }
@@ -194,7 +204,7 @@ async function triggerSingleModel(
  * Record trigger results in history
  */
 function recordResults(results: ModelTriggerResult[], options: TriggerOptions): void {
-  const { triggerType, triggerSource, accountEmail, customPrompt } = options
+  const { triggerType, triggerSource, accountEmail, customPrompt, runId, attempt } = options
   const prompt = customPrompt || DEFAULT_PROMPT
 
   // Create a record for each model result
@@ -210,7 +220,9 @@ function recordResults(results: ModelTriggerResult[], options: TriggerOptions):
       prompt,
       response: result.response,
       error: result.error,
-      tokensUsed: result.tokensUsed
+      tokensUsed: result.tokensUsed,
+      runId,
+      attempt
     }
 
     addTriggerRecord(record)
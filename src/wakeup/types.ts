@@ -3,6 +3,8 @@
  * Types for schedule configuration, trigger history, and reset state
  */
 
+import { getRepresentativeModels } from '../quota/groups.js'
+
 // ============================================================================
 // Schedule Configuration
 // ============================================================================
@@ -27,6 +29,71 @@ export interface WakeupConfig {
 
   // Quota-reset mode
   wakeOnReset: boolean               // Enable quota-reset-based triggering
+
+  // Retries for failed scheduled/quota-reset triggers (missing = DEFAULT_RETRY_POLICY)
+  retryPolicy?: RetryPolicy
+
+  // Trigger history retention (missing = DEFAULT_HISTORY_RETENTION)
+  historyRetention?: HistoryRetention
+
+  // Per-account settings merged over the global ones, keyed by account email
+  accountOverrides?: Record<string, AccountOverride>
+}
+
+/**
+ * Per-account override of the global wake-up settings
+ * Setting scheduleMode replaces the whole global schedule for that account.
+ */
+export interface AccountOverride {
+  selectedModels?: string[]
+  customPrompt?: string
+  maxOutputTokens?: number
+  scheduleMode?: ScheduleMode
+  intervalHours?: number
+  dailyTimes?: string[]
+  weeklySchedule?: WeeklySchedule
+  cronExpression?: string
+}
+
+/**
+ * Retry policy for failed triggers
+ * Retry N waits delaySeconds * 2^(N-1) plus up to jitterSeconds
+ */
+export interface RetryPolicy {
+  maxRetries: number                 // 0 = never retry
+  delaySeconds: number               // Delay before the first retry
+  jitterSeconds: number              // Random extra delay, spreads out retries
+  giveUpAfterMinutes: number         // No retry starts later than this after the first attempt
+}
+
+/**
+ * Default retry policy
+ * Retries are opt-in: a run started by cron or systemd shouldn't keep sleeping after a failure.
+ * The other fields apply once maxRetries is raised.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 0,
+  delaySeconds: 60,
+  jitterSeconds: 15,
+  giveUpAfterMinutes: 15
+}
+
+/**
+ * Trigger history retention
+ * The newest maxRecords stay in history.json; older records, and records older than
+ * maxAgeDays, rotate into monthly archive files.
+ */
+export interface HistoryRetention {
+  maxRecords: number                 // Records kept in the live history file
+  maxAgeDays: number                 // Older records are archived and older archives deleted (0 = keep forever)
+}
+
+/**
+ * Default history retention
+ */
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxRecords: 100,
+  maxAgeDays: 90
 }
 
 /**
@@ -45,7 +112,7 @@ export type ScheduleMode = 'interval' | 'daily' | 'weekly' | 'custom'
 /**
  * Default configuration
  *
- * Default models trigger both Claude and Gemini families:
+ * Default models trigger one representative per quota group (see quota/groups.ts):
  * - claude-sonnet-4-6: Wakes up Claude family
  * - gemini-3-flash: Wakes up Gemini flash quota group
  * - gemini-3.1-pro-low: Wakes up Gemini pro quota group
@@ -53,7 +120,7 @@ export type ScheduleMode = 'interval' | 'daily' | 'weekly' | 'custom'
 export function getDefaultConfig(): WakeupConfig {
   return {
     enabled: false,
-    selectedModels: ['claude-sonnet-4-6', 'gemini-3-flash', 'gemini-3.1-pro-low'],
+    selectedModels: getRepresentativeModels(),
     selectedAccounts: undefined,
     customPrompt: undefined,
     maxOutputTokens: 1,               // Minimal tokens to save quota
@@ -62,7 +129,9 @@ export function getDefaultConfig(): WakeupConfig {
     dailyTimes: ['09:00'],
     weeklySchedule: {},
     cronExpression: undefined,
-    wakeOnReset: false
+    wakeOnReset: false,
+    retryPolicy: { ...DEFAULT_RETRY_POLICY },
+    historyRetention: { ...DEFAULT_HISTORY_RETENTION }
   }
 }
 
@@ -104,9 +173,36 @@ export interface TriggerRecord {
   response?: string                  // AI response (truncated to 500 chars)
   error?: string                     // Error message if failed
   tokensUsed?: TokenUsage
+  runId?: string                     // Shared by all attempts of one run
+  attempt?: number                   // 1 = first attempt, 2+ = retries
 }
 
-// ============================================================================
+/**
+ * Filters for querying trigger history (live file and archives)
+ */
+export interface TriggerHistoryQuery {
+  since?: Date
+  until?: Date
+  account?: string
+  model?: string                     // Exact model ID or substring match
+  failed?: boolean                   // Only failed triggers
+  limit?: number                     // Keep only the most recent N records
+}
+
+/**
+ * Cumulative trigger outcome counts for one account/model pair
+ */
+export interface TriggerCount {
+  success: number
+  failure: number
+}
+
+/**
+ * Monotonic trigger counters (not trimmed like the history ring buffer)
+ * Maps account email -> model ID -> counts
+ */
+export type TriggerCounters = Record<string, Record<string, TriggerCount>>
+
 // ============================================================================
 // Trigger Service Types
 // ============================================================================
@@ -121,6 +217,8 @@ export interface TriggerOptions {
   triggerSource: TriggerSource
   customPrompt?: string
   maxOutputTokens?: number           // 0 = no limit
+  runId?: string                     // Links retry attempts in history
+  attempt?: number                   // 1 = first attempt, 2+ = retries
 }
 
 /**
@@ -133,6 +231,7 @@ export interface ModelTriggerResult {
   response?: string
   error?: string
   tokensUsed?: TokenUsage
+  retryable?: boolean                // false when retrying can't help (e.g. bad credentials)
 }
 
 /**
@@ -163,19 +262,61 @@ export type WakeupState = Record<string, string>
 export interface CronInstallResult {
   success: boolean
   cronExpression?: string
+  cronExpressions?: string[]         // All installed entries (multi-entry schedules)
   manualInstructions?: string        // Fallback instructions if auto-install fails
   error?: string
 }
 
+/**
+ * System scheduler used to run `wakeup trigger`
+ */
+export type InstallBackend = 'cron' | 'systemd'
+
 /**
  * Status of cron installation
  */
 export interface CronStatus {
   installed: boolean
+  backend?: InstallBackend           // Which scheduler holds the installed entry
   cronExpression?: string
+  cronExpressions?: string[]         // All installed entries (multi-entry schedules)
   nextRun?: string                   // Human-readable next run time
 }
 
+// ============================================================================
+// Scheduler Types
+// ============================================================================
+
+/**
+ * What the built-in scheduler does with runs missed while it wasn't running
+ * (stopped, or the machine was asleep)
+ * - skip: drop them and wait for the next run
+ * - once: trigger once to catch up, however many were missed
+ */
+export type CatchUpPolicy = 'skip' | 'once'
+
+/**
+ * Persisted built-in scheduler state
+ */
+export interface SchedulerState {
+  lastCheckedAt: string              // ISO timestamp up to which runs were handled
+}
+
+/**
+ * Persisted state of `wakeup trigger --scheduled` runs (cron, systemd)
+ */
+export interface TriggerRunState {
+  lastScheduledRunAt: string         // ISO timestamp of the previous scheduled run
+}
+
+/**
+ * Result from acquiring the scheduler lock
+ */
+export interface SchedulerLockResult {
+  acquired: boolean
+  pid?: number                       // PID of the instance holding the lock
+}
+
 // ============================================================================
 // Reset Detection Types
 // ============================================================================
@@ -187,3 +328,30 @@ export interface DetectionResult {
   triggered: boolean
   triggeredModels: string[]
 }
+
+/**
+ * Whether one model would be triggered, and why
+ */
+export interface ModelEvaluation {
+  modelId: string
+  trigger: boolean
+  reason: string
+}
+
+/**
+ * What a trigger run would do for one account
+ */
+export interface AccountTriggerPlan {
+  email: string
+  models: ModelEvaluation[]
+  skipped?: string                   // Why the whole account is skipped
+  error?: string                     // Quota fetch failure (quota-reset mode)
+}
+
+/**
+ * What a trigger run would do, without triggering anything (dry run)
+ */
+export interface TriggerPlan {
+  source: TriggerSource
+  accounts: AccountTriggerPlan[]
+}
@@ -0,0 +1,197 @@
+/**
+ * Tests for account export/import bundles
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+
+const testDir = join(tmpdir(), 'antigravity-usage-bundle-test-' + Date.now())
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => testDir,
+  getAccountsDir: () => join(testDir, 'accounts'),
+  getAccountDir: (email: string) => join(testDir, 'accounts', email),
+  getGlobalConfigPath: () => join(testDir, 'config.json'),
+  getTokensPath: () => join(testDir, 'tokens.json')
+}))
+
+import {
+  createAccountBundle,
+  serializeAccountBundle,
+  parseAccountBundle,
+  isEncryptedAccountBundle,
+  planAccountImport,
+  applyAccountImport
+} from '../../src/accounts/bundle.js'
+import {
+  saveAccountTokens,
+  loadAccountTokens,
+  saveAccountMetadata,
+  loadAccountMetadata,
+  saveAccountCache,
+  loadAccountCache,
+  deleteAccount
+} from '../../src/accounts/storage.js'
+import { loadWakeupState, saveWakeupState } from '../../src/wakeup/storage.js'
+import { AccountBundleError, TokenEncryptionError } from '../../src/core/errors.js'
+import { AccountManager } from '../../src/accounts/manager.js'
+import type { StoredTokens } from '../../src/quota/types.js'
+
+function tokensFor(email: string): StoredTokens {
+  return {
+    accessToken: `access-${email}`,
+    refreshToken: `refresh-${email}`,
+    expiresAt: 1700000000000,
+    email
+  }
+}
+
+function addAccount(email: string): void {
+  saveAccountTokens(email, tokensFor(email))
+  saveAccountMetadata(email, { email, addedAt: '2026-01-01T00:00:00.000Z', lastUsed: '2026-01-02T00:00:00.000Z' })
+}
+
+describe('accounts/bundle', () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('createAccountBundle', () => {
+    it('should collect tokens, metadata, cache and wake-up state', () => {
+      addAccount('a@example.com')
+      saveAccountCache('a@example.com', { cachedAt: '2026-01-02T00:00:00.000Z', ttl: 300, data: null })
+      saveWakeupState('a@example.com', { 'claude-sonnet-4-6': '2026-01-03T00:00:00Z' })
+
+      const { bundle, skipped } = createAccountBundle(['a@example.com', 'missing@example.com'], new Date('2026-01-05T00:00:00Z'))
+
+      expect(skipped).toEqual(['missing@example.com'])
+      expect(bundle.exportedAt).toBe('2026-01-05T00:00:00.000Z')
+      expect(bundle.accounts).toEqual([{
+        email: 'a@example.com',
+        tokens: tokensFor('a@example.com'),
+        metadata: { email: 'a@example.com', addedAt: '2026-01-01T00:00:00.000Z', lastUsed: '2026-01-02T00:00:00.000Z' },
+        cache: { cachedAt: '2026-01-02T00:00:00.000Z', ttl: 300, data: null },
+        wakeupState: { 'claude-sonnet-4-6': '2026-01-03T00:00:00Z' }
+      }])
+    })
+  })
+
+  describe('serializeAccountBundle / parseAccountBundle', () => {
+    it('should round-trip a plaintext bundle', () => {
+      addAccount('a@example.com')
+      const { bundle } = createAccountBundle(['a@example.com'])
+      const content = serializeAccountBundle(bundle)
+
+      expect(isEncryptedAccountBundle(content)).toBe(false)
+      expect(parseAccountBundle(content)).toEqual(bundle)
+    })
+
+    it('should encrypt with a passphrase', () => {
+      addAccount('a@example.com')
+      const { bundle } = createAccountBundle(['a@example.com'])
+      const content = serializeAccountBundle(bundle, 'pw')
+
+      expect(isEncryptedAccountBundle(content)).toBe(true)
+      expect(content).not.toContain('refresh-a@example.com')
+      expect(parseAccountBundle(content, 'pw')).toEqual(bundle)
+      expect(() => parseAccountBundle(content)).toThrow(AccountBundleError)
+      expect(() => parseAccountBundle(content, 'wrong')).toThrow(TokenEncryptionError)
+    })
+
+    it('should reject files that are not bundles', () => {
+      expect(() => parseAccountBundle('not json')).toThrow(AccountBundleError)
+      expect(() => parseAccountBundle('{"accounts": []}')).toThrow(/Not an account bundle/)
+      expect(() => parseAccountBundle('{"format": "antigravity-usage-accounts", "version": 99, "accounts": []}'))
+        .toThrow(/Unsupported bundle version/)
+    })
+
+    it('should reject emails that escape the accounts directory', () => {
+      const content = JSON.stringify({
+        format: 'antigravity-usage-accounts',
+        version: 1,
+        exportedAt: '2026-01-01T00:00:00.000Z',
+        accounts: [{ email: '../evil', tokens: tokensFor('x') }]
+      })
+      expect(() => parseAccountBundle(content)).toThrow(/bad account email/)
+    })
+  })
+
+  describe('planAccountImport / applyAccountImport', () => {
+    it('should add new accounts and skip existing ones by default', () => {
+      addAccount('a@example.com')
+      addAccount('b@example.com')
+      const { bundle } = createAccountBundle(['a@example.com', 'b@example.com'])
+      deleteAccount('b@example.com')
+
+      const plan = planAccountImport(bundle)
+      expect(plan.map(entry => [entry.email, entry.action])).toEqual([
+        ['a@example.com', 'skip'],
+        ['b@example.com', 'add']
+      ])
+
+      expect(applyAccountImport(bundle, plan)).toEqual(['b@example.com'])
+      expect(loadAccountTokens('b@example.com')).toEqual(tokensFor('b@example.com'))
+      expect(loadAccountMetadata('b@example.com')?.addedAt).toBe('2026-01-01T00:00:00.000Z')
+    })
+
+    it('should overwrite existing accounts when asked', () => {
+      addAccount('a@example.com')
+      saveWakeupState('a@example.com', { model: 'old' })
+      const { bundle } = createAccountBundle(['a@example.com'])
+      bundle.accounts[0].tokens.accessToken = 'new-access'
+      bundle.accounts[0].wakeupState = { model: 'new' }
+      saveAccountCache('a@example.com', { cachedAt: '2026-01-02T00:00:00.000Z', ttl: 300, data: null })
+
+      const plan = planAccountImport(bundle, 'overwrite')
+      expect(plan[0]).toMatchObject({ exists: true, action: 'overwrite', hasCache: false, hasWakeupState: true })
+
+      applyAccountImport(bundle, plan)
+      expect(loadAccountTokens('a@example.com')?.accessToken).toBe('new-access')
+      expect(loadWakeupState('a@example.com')).toEqual({ model: 'new' })
+      expect(loadAccountCache('a@example.com')).toBeNull()
+    })
+
+    it('should drop imported aliases already used by another account', () => {
+      addAccount('a@example.com')
+      addAccount('b@example.com')
+      saveAccountMetadata('a@example.com', { ...loadAccountMetadata('a@example.com')!, alias: 'work' })
+      saveAccountMetadata('b@example.com', { ...loadAccountMetadata('b@example.com')!, alias: 'home' })
+      const { bundle } = createAccountBundle(['a@example.com', 'b@example.com'])
+      deleteAccount('a@example.com')
+      deleteAccount('b@example.com')
+      addAccount('c@example.com')
+      saveAccountMetadata('c@example.com', { ...loadAccountMetadata('c@example.com')!, alias: 'Work' })
+
+      const plan = planAccountImport(bundle)
+      expect(plan.map(entry => [entry.email, entry.aliasConflict])).toEqual([
+        ['a@example.com', 'c@example.com'],
+        ['b@example.com', undefined]
+      ])
+
+      applyAccountImport(bundle, plan)
+      expect(loadAccountMetadata('a@example.com')?.alias).toBeUndefined()
+      expect(loadAccountMetadata('b@example.com')?.alias).toBe('home')
+      expect(new AccountManager().resolveAccount('work')).toBe('c@example.com')
+    })
+
+    it('should create metadata when the bundle has none', () => {
+      const bundle = parseAccountBundle(JSON.stringify({
+        format: 'antigravity-usage-accounts',
+        version: 1,
+        exportedAt: '2026-01-01T00:00:00.000Z',
+        accounts: [{ email: 'c@example.com', tokens: tokensFor('c@example.com'), metadata: null, cache: null, wakeupState: null }]
+      }))
+
+      applyAccountImport(bundle, planAccountImport(bundle))
+      expect(loadAccountMetadata('c@example.com')?.email).toBe('c@example.com')
+    })
+  })
+})
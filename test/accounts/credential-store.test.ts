@@ -0,0 +1,203 @@
+/**
+ * Tests for credential stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+
+const testDir = join(tmpdir(), 'antigravity-usage-credential-store-test-' + Date.now())
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => testDir,
+  getAccountsDir: () => join(testDir, 'accounts'),
+  getAccountDir: (email: string) => join(testDir, 'accounts', email),
+  getGlobalConfigPath: () => join(testDir, 'config.json'),
+  getTokensPath: () => join(testDir, 'tokens.json')
+}))
+
+import {
+  FileCredentialStore,
+  CommandCredentialStore,
+  createCredentialStore,
+  getCredentialStore
+} from '../../src/accounts/credential-store.js'
+import {
+  saveAccountTokens,
+  loadAccountTokens,
+  saveAccountMetadata,
+  accountExists,
+  listAccountEmails,
+  deleteAccount
+} from '../../src/accounts/storage.js'
+import { CredentialStoreError, TokenEncryptionError } from '../../src/core/errors.js'
+import type { StoredTokens } from '../../src/quota/types.js'
+
+const helperPath = join(testDir, 'helper.mjs')
+const vaultPath = join(testDir, 'vault.json')
+const helperLog = join(testDir, 'helper.log')
+
+// Stub password manager: keeps tokens in vault.json and logs every request
+const HELPER_SCRIPT = `
+import { readFileSync, writeFileSync, existsSync, appendFileSync } from 'node:fs'
+const [vaultPath, logPath, action] = process.argv.slice(2)
+const input = readFileSync(0, 'utf-8')
+appendFileSync(logPath, action + '\\n' + input)
+const fields = Object.fromEntries(input.split('\\n').filter(Boolean).map(line => {
+  const i = line.indexOf('=')
+  return [line.slice(0, i), line.slice(i + 1)]
+}))
+if (fields.account === 'broken@example.com') {
+  process.stderr.write('vault is locked\\n')
+  process.exit(2)
+}
+const vault = existsSync(vaultPath) ? JSON.parse(readFileSync(vaultPath, 'utf-8')) : {}
+if (action === 'get' && vault[fields.account]) {
+  process.stdout.write('tokens=' + vault[fields.account] + '\\n')
+} else if (action === 'store') {
+  vault[fields.account] = fields.tokens
+} else if (action === 'erase') {
+  delete vault[fields.account]
+}
+writeFileSync(vaultPath, JSON.stringify(vault))
+`
+
+const helperCommand = `node "${helperPath}" "${vaultPath}" "${helperLog}"`
+
+const tokens: StoredTokens = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  expiresAt: 1700000000000,
+  email: 'user@example.com'
+}
+
+function readVault(): Record<string, string> {
+  return existsSync(vaultPath) ? JSON.parse(readFileSync(vaultPath, 'utf-8')) : {}
+}
+
+function writeConfig(credentialStore: unknown): void {
+  writeFileSync(join(testDir, 'config.json'), JSON.stringify({ credentialStore }))
+}
+
+describe('accounts/credential-store', () => {
+  beforeEach(() => {
+    mkdirSync(join(testDir, 'accounts'), { recursive: true })
+    writeFileSync(helperPath, HELPER_SCRIPT)
+    vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', '')
+    vi.stubEnv('ANTIGRAVITY_TOKEN_KEY_FILE', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('createCredentialStore', () => {
+    it('should default to the file store', () => {
+      expect(createCredentialStore(undefined).type).toBe('file')
+      expect(getCredentialStore().type).toBe('file')
+    })
+
+    it('should create the configured store', () => {
+      expect(createCredentialStore({ type: 'encrypted' }).type).toBe('encrypted')
+      expect(createCredentialStore({ type: 'command', command: 'true' })).toBeInstanceOf(CommandCredentialStore)
+    })
+
+    it('should reject invalid config', () => {
+      expect(() => createCredentialStore({ type: 'command' })).toThrow(CredentialStoreError)
+      expect(() => createCredentialStore({ type: 'vault' as never })).toThrow(/Unknown credentialStore.type/)
+    })
+
+    it('should read the selection from config.json', () => {
+      writeConfig({ type: 'command', command: helperCommand })
+      expect(getCredentialStore().type).toBe('command')
+    })
+  })
+
+  describe('FileCredentialStore', () => {
+    it('should store tokens in the account directory', () => {
+      mkdirSync(join(testDir, 'accounts', 'user@example.com'))
+      const store = new FileCredentialStore()
+
+      expect(store.has('user@example.com')).toBe(false)
+      store.store('user@example.com', tokens)
+      expect(store.has('user@example.com')).toBe(true)
+      expect(store.get('user@example.com')).toEqual(tokens)
+
+      store.erase('user@example.com')
+      expect(store.get('user@example.com')).toBeNull()
+    })
+
+    it('should require a secret when always encrypting', () => {
+      mkdirSync(join(testDir, 'accounts', 'user@example.com'))
+      const store = new FileCredentialStore(true)
+      expect(() => store.store('user@example.com', tokens)).toThrow(TokenEncryptionError)
+
+      vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', 'pw')
+      store.store('user@example.com', tokens)
+      expect(readFileSync(join(testDir, 'accounts', 'user@example.com', 'tokens.json'), 'utf-8')).not.toContain('refresh-token')
+      expect(store.get('user@example.com')).toEqual(tokens)
+    })
+  })
+
+  describe('CommandCredentialStore', () => {
+    it('should speak the get/store/erase protocol', () => {
+      const store = new CommandCredentialStore(helperCommand)
+
+      expect(store.get('user@example.com')).toBeNull()
+      store.store('user@example.com', tokens)
+      expect(JSON.parse(readVault()['user@example.com'])).toEqual(tokens)
+      expect(store.get('user@example.com')).toEqual(tokens)
+
+      store.erase('user@example.com')
+      expect(readVault()['user@example.com']).toBeUndefined()
+
+      const log = readFileSync(helperLog, 'utf-8')
+      expect(log).toContain('get\nservice=antigravity-usage\naccount=user@example.com\n\n')
+      expect(log).toContain(`store\nservice=antigravity-usage\naccount=user@example.com\ntokens=${JSON.stringify(tokens)}\n\n`)
+      expect(log).toContain('erase\nservice=antigravity-usage\naccount=user@example.com\n\n')
+    })
+
+    it('should surface helper failures with stderr', () => {
+      const store = new CommandCredentialStore(helperCommand)
+      expect(() => store.get('broken@example.com')).toThrow(/get' failed: vault is locked/)
+    })
+
+    it('should reject invalid tokens output', () => {
+      const store = new CommandCredentialStore('echo tokens=not-json; true')
+      expect(() => store.get('user@example.com')).toThrow(CredentialStoreError)
+    })
+  })
+
+  describe('account storage with a command store', () => {
+    beforeEach(() => {
+      writeConfig({ type: 'command', command: helperCommand })
+    })
+
+    it('should keep tokens out of the account directory', () => {
+      saveAccountTokens('user@example.com', tokens)
+      saveAccountMetadata('user@example.com', { email: 'user@example.com', addedAt: '', lastUsed: '' })
+
+      expect(existsSync(join(testDir, 'accounts', 'user@example.com', 'tokens.json'))).toBe(false)
+      expect(accountExists('user@example.com')).toBe(true)
+      expect(listAccountEmails()).toEqual(['user@example.com'])
+      expect(loadAccountTokens('user@example.com')).toEqual(tokens)
+    })
+
+    it('should erase tokens when deleting an account', () => {
+      saveAccountTokens('user@example.com', tokens)
+      saveAccountMetadata('user@example.com', { email: 'user@example.com', addedAt: '', lastUsed: '' })
+
+      expect(deleteAccount('user@example.com')).toBe(true)
+      expect(readVault()['user@example.com']).toBeUndefined()
+    })
+
+    it('should return null when the helper fails', () => {
+      mkdirSync(join(testDir, 'accounts', 'broken@example.com'))
+      expect(loadAccountTokens('broken@example.com')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Tests for encrypted token storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  getTokenEncryptionSecret,
+  isTokenEncryptionEnabled,
+  isEncryptedTokenFile,
+  encryptTokens,
+  decryptTokens,
+  serializeTokens,
+  parseTokens,
+  TOKEN_PASSPHRASE_ENV,
+  TOKEN_KEY_FILE_ENV
+} from '../../src/accounts/encryption.js'
+import { TokenEncryptionError } from '../../src/core/errors.js'
+import type { StoredTokens } from '../../src/quota/types.js'
+
+const testDir = join(tmpdir(), 'antigravity-usage-encryption-test-' + Date.now())
+
+const tokens: StoredTokens = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  expiresAt: 1700000000000,
+  email: 'test@example.com'
+}
+
+const passphrase = { source: 'passphrase' as const, secret: Buffer.from('correct horse') }
+
+describe('accounts/encryption', () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true })
+    vi.stubEnv(TOKEN_PASSPHRASE_ENV, '')
+    vi.stubEnv(TOKEN_KEY_FILE_ENV, '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('getTokenEncryptionSecret', () => {
+    it('should return null when nothing is configured', () => {
+      expect(getTokenEncryptionSecret({})).toBeNull()
+      expect(isTokenEncryptionEnabled({})).toBe(false)
+    })
+
+    it('should use the passphrase', () => {
+      const secret = getTokenEncryptionSecret({ [TOKEN_PASSPHRASE_ENV]: 'pw' })
+      expect(secret?.source).toBe('passphrase')
+      expect(secret?.secret.toString()).toBe('pw')
+    })
+
+    it('should prefer the key file and trim trailing whitespace', () => {
+      const keyFile = join(testDir, 'key')
+      writeFileSync(keyFile, 'file-secret\n')
+
+      const secret = getTokenEncryptionSecret({ [TOKEN_PASSPHRASE_ENV]: 'pw', [TOKEN_KEY_FILE_ENV]: keyFile })
+      expect(secret?.source).toBe('keyfile')
+      expect(secret?.secret.toString()).toBe('file-secret')
+    })
+
+    it('should throw for a missing or empty key file', () => {
+      const keyFile = join(testDir, 'empty')
+      writeFileSync(keyFile, '\n')
+
+      expect(() => getTokenEncryptionSecret({ [TOKEN_KEY_FILE_ENV]: keyFile })).toThrow(TokenEncryptionError)
+      expect(() => getTokenEncryptionSecret({ [TOKEN_KEY_FILE_ENV]: join(testDir, 'missing') })).toThrow(TokenEncryptionError)
+    })
+  })
+
+  describe('encryptTokens / decryptTokens', () => {
+    it('should round-trip tokens', () => {
+      const file = encryptTokens(tokens, passphrase)
+
+      expect(isEncryptedTokenFile(file)).toBe(true)
+      expect(file.keySource).toBe('passphrase')
+      expect(JSON.stringify(file)).not.toContain('refresh-token')
+      expect(decryptTokens(file, passphrase)).toEqual(tokens)
+    })
+
+    it('should use a fresh salt and IV every time', () => {
+      const a = encryptTokens(tokens, passphrase)
+      const b = encryptTokens(tokens, passphrase)
+      expect(a.salt).not.toBe(b.salt)
+      expect(a.iv).not.toBe(b.iv)
+    })
+
+    it('should reject the wrong secret', () => {
+      const file = encryptTokens(tokens, passphrase)
+      expect(() => decryptTokens(file, { source: 'passphrase', secret: Buffer.from('wrong') }))
+        .toThrow(TokenEncryptionError)
+    })
+
+    it('should reject tampered data', () => {
+      const file = encryptTokens(tokens, passphrase)
+      const data = Buffer.from(file.data, 'base64')
+      data[0] ^= 0xff
+      expect(() => decryptTokens({ ...file, data: data.toString('base64') }, passphrase))
+        .toThrow(TokenEncryptionError)
+    })
+  })
+
+  describe('serializeTokens / parseTokens', () => {
+    it('should write plaintext JSON when encryption is off', () => {
+      const content = serializeTokens(tokens)
+      expect(JSON.parse(content)).toEqual(tokens)
+      expect(parseTokens(content)).toEqual(tokens)
+    })
+
+    it('should encrypt when a passphrase is set', () => {
+      vi.stubEnv(TOKEN_PASSPHRASE_ENV, 'pw')
+      const content = serializeTokens(tokens)
+
+      expect(isEncryptedTokenFile(JSON.parse(content))).toBe(true)
+      expect(parseTokens(content)).toEqual(tokens)
+    })
+
+    it('should honor the encrypt override', () => {
+      expect(() => serializeTokens(tokens, true)).toThrow(TokenEncryptionError)
+
+      vi.stubEnv(TOKEN_PASSPHRASE_ENV, 'pw')
+      expect(JSON.parse(serializeTokens(tokens, false))).toEqual(tokens)
+    })
+
+    it('should still read plaintext files when encryption is on', () => {
+      const content = serializeTokens(tokens)
+      vi.stubEnv(TOKEN_PASSPHRASE_ENV, 'pw')
+      expect(parseTokens(content)).toEqual(tokens)
+    })
+
+    it('should throw when the file is encrypted and no secret is set', () => {
+      vi.stubEnv(TOKEN_PASSPHRASE_ENV, 'pw')
+      const content = serializeTokens(tokens)
+      vi.stubEnv(TOKEN_PASSPHRASE_ENV, '')
+
+      expect(() => parseTokens(content)).toThrow(/ANTIGRAVITY_TOKEN_PASSPHRASE/)
+    })
+  })
+})
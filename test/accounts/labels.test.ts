@@ -0,0 +1,60 @@
+/**
+ * Tests for account alias, label and tag helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import { validateAlias, validateTag, parseLabelArg, hasTag } from '../../src/accounts/labels.js'
+
+describe('accounts/labels', () => {
+  describe('validateAlias', () => {
+    it('should accept short names', () => {
+      expect(validateAlias('work')).toBeNull()
+      expect(validateAlias('team-a_2.b')).toBeNull()
+    })
+
+    it('should reject emails, spaces and long names', () => {
+      expect(validateAlias('me@example.com')).toMatch(/Invalid alias/)
+      expect(validateAlias('my work')).toMatch(/Invalid alias/)
+      expect(validateAlias('-work')).toMatch(/Invalid alias/)
+      expect(validateAlias('a'.repeat(33))).toMatch(/Invalid alias/)
+    })
+  })
+
+  describe('validateTag', () => {
+    it('should accept tags with separators', () => {
+      expect(validateTag('team-a')).toBeNull()
+      expect(validateTag('env:prod')).toBeNull()
+    })
+
+    it('should reject tags with spaces or commas', () => {
+      expect(validateTag('team a')).toMatch(/Invalid tag/)
+      expect(validateTag('a,b')).toMatch(/Invalid tag/)
+    })
+  })
+
+  describe('parseLabelArg', () => {
+    it('should parse key=value', () => {
+      expect(parseLabelArg('team=Platform Team')).toEqual({ key: 'team', value: 'Platform Team' })
+      expect(parseLabelArg('url=https://x.test/?a=b')).toEqual({ key: 'url', value: 'https://x.test/?a=b' })
+    })
+
+    it('should treat an empty value as removal', () => {
+      expect(parseLabelArg('team=')).toEqual({ key: 'team', value: null })
+    })
+
+    it('should reject missing or invalid keys', () => {
+      expect(parseLabelArg('team')).toHaveProperty('error')
+      expect(parseLabelArg('=x')).toHaveProperty('error')
+      expect(parseLabelArg('my team=x')).toHaveProperty('error')
+    })
+  })
+
+  describe('hasTag', () => {
+    it('should match tags case-insensitively', () => {
+      const metadata = { email: 'a@example.com', addedAt: '', lastUsed: '', tags: ['Team-A'] }
+      expect(hasTag(metadata, 'team-a')).toBe(true)
+      expect(hasTag(metadata, 'team-b')).toBe(false)
+      expect(hasTag(null, 'team-a')).toBe(false)
+    })
+  })
+})
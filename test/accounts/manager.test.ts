@@ -20,6 +20,7 @@ vi.mock('../../src/core/env.js', () => ({
 
 // Import after mocking
 import { AccountManager, getAccountManager } from '../../src/accounts/manager.js'
+import { markRefreshFailure } from '../../src/accounts/storage.js'
 import type { StoredTokens } from '../../src/quota/types.js'
 
 const createTestTokens = (email: string): StoredTokens => ({
@@ -178,6 +179,30 @@ describe('accounts/manager', () => {
       const manager = getAccountManager()
       expect(manager.getAccountStatus('nonexistent@example.com')).toBe('invalid')
     })
+
+    it('should return revoked when the refresh token was rejected', () => {
+      const manager = getAccountManager()
+      manager.addAccount(createTestTokens('test@example.com'), 'test@example.com')
+      markRefreshFailure('test@example.com', 'invalid_grant', new Date('2026-01-02T00:00:00Z'))
+
+      expect(manager.getAccountStatus('test@example.com')).toBe('revoked')
+      expect(manager.getAccountSummaries()[0]).toMatchObject({
+        status: 'revoked',
+        refreshFailure: { reason: 'invalid_grant', at: '2026-01-02T00:00:00.000Z' }
+      })
+    })
+
+    it('should clear the refresh failure but keep the alias when logging in again', () => {
+      const manager = getAccountManager()
+      manager.addAccount(createTestTokens('test@example.com'), 'test@example.com')
+      manager.updateMetadata('test@example.com', { alias: 'work' })
+      markRefreshFailure('test@example.com', 'invalid_grant')
+
+      manager.addAccount(createTestTokens('test@example.com'), 'test@example.com')
+
+      expect(manager.getAccountStatus('test@example.com')).toBe('valid')
+      expect(manager.getAccountInfo('test@example.com')?.metadata).toMatchObject({ alias: 'work' })
+    })
   })
 
   describe('getAccountSummaries', () => {
@@ -201,4 +226,56 @@ describe('accounts/manager', () => {
       expect(user2?.isActive).toBe(false)
     })
   })
+
+  describe('aliases, labels and tags', () => {
+    it('should store alias, labels and tags in the metadata', () => {
+      const manager = getAccountManager()
+      manager.addAccount(createTestTokens('user1@example.com'), 'user1@example.com')
+
+      expect(manager.updateMetadata('user1@example.com', { alias: 'work', labels: { team: 'a' }, tags: ['team-a'] })).toBe(true)
+      const metadata = manager.getAccountInfo('user1@example.com')?.metadata
+      expect(metadata).toMatchObject({ email: 'user1@example.com', alias: 'work', labels: { team: 'a' }, tags: ['team-a'] })
+
+      const summary = manager.getAccountSummaries()[0]
+      expect(summary.alias).toBe('work')
+      expect(summary.tags).toEqual(['team-a'])
+    })
+
+    it('should remove keys set to undefined', () => {
+      const manager = getAccountManager()
+      manager.addAccount(createTestTokens('user1@example.com'), 'user1@example.com')
+      manager.updateMetadata('user1@example.com', { alias: 'work' })
+
+      manager.updateMetadata('user1@example.com', { alias: undefined })
+      expect(manager.getAccountInfo('user1@example.com')?.metadata).not.toHaveProperty('alias')
+    })
+
+    it('should not update missing accounts', () => {
+      expect(getAccountManager().updateMetadata('nobody@example.com', { alias: 'x' })).toBe(false)
+    })
+
+    it('should resolve aliases case-insensitively and pass emails through', () => {
+      const manager = getAccountManager()
+      manager.addAccount(createTestTokens('user1@example.com'), 'user1@example.com')
+      manager.updateMetadata('user1@example.com', { alias: 'Work' })
+
+      expect(manager.resolveAccount('work')).toBe('user1@example.com')
+      expect(manager.resolveAccount('user1@example.com')).toBe('user1@example.com')
+      expect(manager.resolveAccount('other@example.com')).toBe('other@example.com')
+      expect(manager.resolveAccount('personal')).toBeNull()
+    })
+
+    it('should select accounts by tag', () => {
+      const manager = getAccountManager()
+      manager.addAccount(createTestTokens('user1@example.com'), 'user1@example.com')
+      manager.addAccount(createTestTokens('user2@example.com'), 'user2@example.com')
+      manager.addAccount(createTestTokens('user3@example.com'), 'user3@example.com')
+      manager.updateMetadata('user1@example.com', { tags: ['team-a'] })
+      manager.updateMetadata('user3@example.com', { tags: ['Team-A', 'ops'] })
+
+      expect(manager.getAccountsByTag('team-a').sort()).toEqual(['user1@example.com', 'user3@example.com'])
+      expect(manager.getAccountsByTag('ops')).toEqual(['user3@example.com'])
+      expect(manager.getAccountsByTag('none')).toEqual([])
+    })
+  })
 })
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { existsSync, rmSync, mkdirSync, readdirSync } from 'node:fs'
+import { existsSync, rmSync, mkdirSync, readdirSync, readFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 
@@ -26,6 +26,7 @@ import {
   listAccountEmails,
   saveAccountTokens,
   loadAccountTokens,
+  isAccountTokensEncrypted,
   saveAccountMetadata,
   loadAccountMetadata,
   deleteAccount
@@ -124,6 +125,49 @@ describe('accounts/storage', () => {
     it('should return null for non-existent account', () => {
       expect(loadAccountTokens('nonexistent@example.com')).toBeNull()
     })
+
+    describe('with token encryption', () => {
+      const tokens: StoredTokens = {
+        accessToken: 'secret-access-token',
+        refreshToken: 'secret-refresh-token',
+        expiresAt: Date.now() + 3600000,
+        email: 'enc@example.com'
+      }
+
+      afterEach(() => {
+        vi.unstubAllEnvs()
+      })
+
+      it('should encrypt tokens when a passphrase is set', () => {
+        vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', 'hunter2')
+        saveAccountTokens('enc@example.com', tokens)
+
+        const raw = readFileSync(join(testDir, 'accounts', 'enc@example.com', 'tokens.json'), 'utf-8')
+        expect(raw).not.toContain('secret-refresh-token')
+        expect(isAccountTokensEncrypted('enc@example.com')).toBe(true)
+        expect(loadAccountTokens('enc@example.com')).toEqual(tokens)
+      })
+
+      it('should return null when the passphrase is missing or wrong', () => {
+        vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', 'hunter2')
+        saveAccountTokens('enc@example.com', tokens)
+
+        vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', 'wrong')
+        expect(loadAccountTokens('enc@example.com')).toBeNull()
+
+        vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', '')
+        expect(loadAccountTokens('enc@example.com')).toBeNull()
+      })
+
+      it('should write plaintext when encrypt is false', () => {
+        vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', 'hunter2')
+        saveAccountTokens('enc@example.com', tokens, false)
+
+        expect(isAccountTokensEncrypted('enc@example.com')).toBe(false)
+        vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', '')
+        expect(loadAccountTokens('enc@example.com')).toEqual(tokens)
+      })
+    })
   })
 
   describe('saveAccountMetadata / loadAccountMetadata', () => {
@@ -0,0 +1,145 @@
+/**
+ * Tests for alert rule evaluation and de-duplication
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  matchesModel,
+  evaluateSnapshotRules,
+  evaluateAccountRules,
+  selectAlertsToFire
+} from '../../src/alerts/rules.js'
+import { buildAlertEnv } from '../../src/alerts/notifiers.js'
+import type { AlertRule, AlertState } from '../../src/alerts/types.js'
+import type { QuotaSnapshot } from '../../src/quota/types.js'
+
+const email = 'work@example.com'
+const now = new Date('2026-01-15T12:00:00Z')
+
+function createSnapshot(claude: number, resetTime = '2026-01-15T17:00:00Z', credits = 800): QuotaSnapshot {
+  return {
+    timestamp: now.toISOString(),
+    method: 'google',
+    promptCredits: { available: credits, monthly: 1000, usedPercentage: 0, remainingPercentage: 1 },
+    models: [
+      { label: 'Claude Sonnet 4.6', modelId: 'claude-sonnet-4-6', remainingPercentage: claude, isExhausted: claude === 0, resetTime },
+      { label: 'Gemini 3 Flash', modelId: 'gemini-3-flash', remainingPercentage: 0.9, isExhausted: false, resetTime }
+    ]
+  }
+}
+
+describe('matchesModel', () => {
+  it('should match label or model ID case-insensitively', () => {
+    expect(matchesModel('claude', 'Claude Sonnet 4.6', 'x')).toBe(true)
+    expect(matchesModel('FLASH', 'x', 'gemini-3-flash')).toBe(true)
+    expect(matchesModel('gpt', 'Claude Sonnet 4.6', 'claude-sonnet-4-6')).toBe(false)
+  })
+
+  it('should match any model without a pattern', () => {
+    expect(matchesModel(undefined, 'Anything', 'any')).toBe(true)
+  })
+})
+
+describe('evaluateSnapshotRules', () => {
+  const rules: AlertRule[] = [
+    { id: '1', type: 'model_below', model: 'claude', threshold: 20 },
+    { id: '2', type: 'credits_below', threshold: 500 }
+  ]
+
+  it('should mark models below the threshold as active', () => {
+    const candidates = evaluateSnapshotRules(rules, email, createSnapshot(0.15), now)
+    const claude = candidates.find(c => c.key === '1|work@example.com|claude-sonnet-4-6')
+
+    expect(claude?.active).toBe(true)
+    expect(claude?.cycle).toBe('2026-01-15T17:00:00Z')
+    expect(claude?.event.value).toBe(15)
+    expect(candidates.some(c => c.event.modelId === 'gemini-3-flash')).toBe(false)
+  })
+
+  it('should evaluate prompt credits', () => {
+    const candidates = evaluateSnapshotRules(rules, email, createSnapshot(0.5, undefined, 300), now)
+    const credits = candidates.find(c => c.event.ruleId === '2')
+
+    expect(credits?.active).toBe(true)
+    expect(credits?.cycle).toBeNull()
+    expect(credits?.event.value).toBe(300)
+  })
+
+  it('should skip rules scoped to another account', () => {
+    const scoped: AlertRule[] = [{ id: '1', type: 'model_below', threshold: 50, account: 'other@example.com' }]
+    expect(evaluateSnapshotRules(scoped, email, createSnapshot(0.1), now)).toEqual([])
+  })
+})
+
+describe('evaluateAccountRules', () => {
+  it('should be active only when the account is invalid', () => {
+    const rules: AlertRule[] = [{ id: '3', type: 'account_invalid' }]
+
+    expect(evaluateAccountRules(rules, email, false, 'invalid_grant', now)[0].active).toBe(true)
+    expect(evaluateAccountRules(rules, email, true, undefined, now)[0].active).toBe(false)
+    expect(evaluateAccountRules(rules, email, false, 'invalid_grant', now)[0].event.message).toContain('invalid_grant')
+  })
+})
+
+describe('selectAlertsToFire', () => {
+  const rules: AlertRule[] = [{ id: '1', type: 'model_below', model: 'claude', threshold: 20 }]
+
+  it('should fire a crossing once per reset cycle', () => {
+    const first = selectAlertsToFire(evaluateSnapshotRules(rules, email, createSnapshot(0.15), now), {})
+    expect(first.events).toHaveLength(1)
+
+    // Still below, same cycle: no repeat
+    const second = selectAlertsToFire(evaluateSnapshotRules(rules, email, createSnapshot(0.1), now), first.state)
+    expect(second.events).toHaveLength(0)
+
+    // Bounced above and back below within the same cycle: still no repeat
+    const above = selectAlertsToFire(evaluateSnapshotRules(rules, email, createSnapshot(0.3), now), second.state)
+    const again = selectAlertsToFire(evaluateSnapshotRules(rules, email, createSnapshot(0.1), now), above.state)
+    expect(again.events).toHaveLength(0)
+  })
+
+  it('should fire again in the next reset cycle', () => {
+    const first = selectAlertsToFire(evaluateSnapshotRules(rules, email, createSnapshot(0.15), now), {})
+    const nextCycle = selectAlertsToFire(
+      evaluateSnapshotRules(rules, email, createSnapshot(0.1, '2026-01-15T22:00:00Z'), now),
+      first.state
+    )
+    expect(nextCycle.events).toHaveLength(1)
+  })
+
+  it('should re-arm untracked rules once the condition clears', () => {
+    const accountRules: AlertRule[] = [{ id: '3', type: 'account_invalid' }]
+    let state: AlertState = {}
+
+    const fire = () => {
+      const result = selectAlertsToFire(evaluateAccountRules(accountRules, email, false, undefined, now), state)
+      state = result.state
+      return result.events
+    }
+
+    expect(fire()).toHaveLength(1)
+    expect(fire()).toHaveLength(0)
+
+    state = selectAlertsToFire(evaluateAccountRules(accountRules, email, true, undefined, now), state).state
+    expect(state).toEqual({})
+    expect(fire()).toHaveLength(1)
+  })
+})
+
+describe('buildAlertEnv', () => {
+  it('should expose the alert to shell hooks', () => {
+    const [candidate] = evaluateSnapshotRules(
+      [{ id: '1', type: 'model_below', model: 'claude', threshold: 20 }],
+      email,
+      createSnapshot(0.15),
+      now
+    )
+    const env = buildAlertEnv(candidate.event)
+
+    expect(env.ANTIGRAVITY_ALERT_RULE).toBe('1')
+    expect(env.ANTIGRAVITY_ALERT_ACCOUNT).toBe(email)
+    expect(env.ANTIGRAVITY_ALERT_MODEL).toBe('claude-sonnet-4-6')
+    expect(env.ANTIGRAVITY_ALERT_VALUE).toBe('15')
+    expect(JSON.parse(env.ANTIGRAVITY_ALERT_JSON).ruleId).toBe('1')
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Tests for duration parsing utilities
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseDuration, parseTimeArg, formatDuration } from '../../src/core/duration.js'
+
+describe('parseDuration', () => {
+  it('should parse single units', () => {
+    expect(parseDuration('30s')).toBe(30 * 1000)
+    expect(parseDuration('90m')).toBe(90 * 60 * 1000)
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000)
+    expect(parseDuration('7d')).toBe(7 * 24 * 60 * 60 * 1000)
+    expect(parseDuration('1w')).toBe(7 * 24 * 60 * 60 * 1000)
+  })
+
+  it('should parse combined units', () => {
+    expect(parseDuration('1d12h')).toBe(36 * 60 * 60 * 1000)
+    expect(parseDuration('1h30m')).toBe(90 * 60 * 1000)
+  })
+
+  it('should return null for invalid input', () => {
+    expect(parseDuration('')).toBeNull()
+    expect(parseDuration('abc')).toBeNull()
+    expect(parseDuration('12')).toBeNull()
+    expect(parseDuration('2026-01-15')).toBeNull()
+  })
+})
+
+describe('parseTimeArg', () => {
+  const now = Date.parse('2026-01-15T12:00:00Z')
+
+  it('should treat durations as time ago', () => {
+    expect(parseTimeArg('1d', now)?.toISOString()).toBe('2026-01-14T12:00:00.000Z')
+  })
+
+  it('should parse absolute dates', () => {
+    expect(parseTimeArg('2026-01-10T00:00:00Z', now)?.toISOString()).toBe('2026-01-10T00:00:00.000Z')
+  })
+
+  it('should return null for garbage', () => {
+    expect(parseTimeArg('not a date', now)).toBeNull()
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format minutes, hours and days', () => {
+    expect(formatDuration(5 * 60 * 1000)).toBe('5m')
+    expect(formatDuration(125 * 60 * 1000)).toBe('2h 5m')
+    expect(formatDuration(26 * 60 * 60 * 1000)).toBe('1d 2h')
+  })
+
+  it('should clamp negative values to zero', () => {
+    expect(formatDuration(-1000)).toBe('0m')
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Tests for proactive token refresh
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+
+const testDir = join(tmpdir(), 'antigravity-usage-token-refresh-test-' + Date.now())
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => testDir,
+  getAccountsDir: () => join(testDir, 'accounts'),
+  getAccountDir: (email: string) => join(testDir, 'accounts', email),
+  getGlobalConfigPath: () => join(testDir, 'config.json'),
+  getTokensPath: () => join(testDir, 'tokens.json')
+}))
+
+vi.mock('../../src/google/oauth.js', () => ({
+  refreshAccessToken: vi.fn()
+}))
+
+import { refreshExpiringTokens } from '../../src/google/token-refresh.js'
+import { refreshAccessToken } from '../../src/google/oauth.js'
+import { getTokenManagerForAccount } from '../../src/google/token-manager.js'
+import {
+  saveAccountTokens,
+  loadAccountTokens,
+  saveAccountMetadata,
+  loadAccountMetadata,
+  markRefreshFailure
+} from '../../src/accounts/storage.js'
+import { AccountManager } from '../../src/accounts/manager.js'
+
+const NOW = Date.now()
+const HOUR = 60 * 60 * 1000
+
+function addAccount(email: string, expiresAt: number): void {
+  saveAccountTokens(email, { accessToken: `access-${email}`, refreshToken: `refresh-${email}`, expiresAt, email })
+  saveAccountMetadata(email, { email, addedAt: '2026-01-01T00:00:00.000Z', lastUsed: '2026-01-01T00:00:00.000Z' })
+}
+
+describe('google/token-refresh', () => {
+  beforeEach(() => {
+    mkdirSync(join(testDir, 'accounts'), { recursive: true })
+    vi.stubEnv('ANTIGRAVITY_TOKEN_PASSPHRASE', '')
+    vi.stubEnv('ANTIGRAVITY_TOKEN_KEY_FILE', '')
+    vi.mocked(refreshAccessToken).mockReset()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should leave tokens that expire after the window alone', async () => {
+    addAccount('a@example.com', NOW + 2 * HOUR)
+
+    const results = await refreshExpiringTokens(['a@example.com'], HOUR, NOW)
+
+    expect(results).toEqual([{ email: 'a@example.com', status: 'valid', expiresAt: NOW + 2 * HOUR }])
+    expect(refreshAccessToken).not.toHaveBeenCalled()
+  })
+
+  it('should refresh tokens that expire within the window', async () => {
+    addAccount('a@example.com', NOW + 10 * 60 * 1000)
+    vi.mocked(refreshAccessToken).mockResolvedValue({ access_token: 'new-access', expires_in: 3600, token_type: 'Bearer' } as never)
+
+    const results = await refreshExpiringTokens(['a@example.com'], HOUR, NOW)
+
+    expect(results[0].status).toBe('refreshed')
+    expect(results[0].expiresAt).toBeGreaterThan(NOW + 50 * 60 * 1000)
+    expect(refreshAccessToken).toHaveBeenCalledWith('refresh-a@example.com')
+    expect(loadAccountTokens('a@example.com')?.accessToken).toBe('new-access')
+  })
+
+  it('should mark accounts whose refresh token is rejected', async () => {
+    addAccount('a@example.com', NOW - HOUR)
+    vi.mocked(refreshAccessToken).mockRejectedValue(new Error('Token refresh failed: 400 invalid_grant'))
+
+    const results = await refreshExpiringTokens(['a@example.com'], HOUR, NOW)
+
+    expect(results[0]).toMatchObject({ email: 'a@example.com', status: 'revoked' })
+    expect(results[0].error).toContain('invalid_grant')
+    expect(loadAccountMetadata('a@example.com')?.refreshFailure?.reason).toContain('invalid_grant')
+    expect(results[0].failedAt).toBe(loadAccountMetadata('a@example.com')?.refreshFailure?.at)
+    expect(new AccountManager().getAccountStatus('a@example.com')).toBe('revoked')
+  })
+
+  it('should not retry accounts that are already marked revoked', async () => {
+    addAccount('a@example.com', NOW - HOUR)
+    markRefreshFailure('a@example.com', 'invalid_grant', new Date('2026-01-02T00:00:00Z'))
+
+    const results = await refreshExpiringTokens(['a@example.com'], HOUR, NOW)
+
+    expect(results[0]).toMatchObject({ status: 'revoked', error: 'invalid_grant', failedAt: '2026-01-02T00:00:00.000Z' })
+    expect(refreshAccessToken).not.toHaveBeenCalled()
+  })
+
+  it('should clear the mark after a successful refresh', async () => {
+    addAccount('a@example.com', NOW)
+    markRefreshFailure('a@example.com', 'invalid_grant')
+    vi.mocked(refreshAccessToken).mockResolvedValue({ access_token: 'new-access', expires_in: 3600, token_type: 'Bearer' } as never)
+
+    await getTokenManagerForAccount('a@example.com').refreshToken()
+
+    expect(loadAccountMetadata('a@example.com')?.refreshFailure).toBeUndefined()
+    expect(new AccountManager().getAccountStatus('a@example.com')).toBe('valid')
+  })
+
+  it('should report accounts whose tokens cannot be read', async () => {
+    mkdirSync(join(testDir, 'accounts', 'broken@example.com'))
+    writeFileSync(join(testDir, 'accounts', 'broken@example.com', 'tokens.json'), 'not json')
+
+    const results = await refreshExpiringTokens(['broken@example.com'], HOUR, NOW)
+
+    expect(results).toEqual([{ email: 'broken@example.com', status: 'failed', error: 'Tokens could not be read' }])
+  })
+})
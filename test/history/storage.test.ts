@@ -0,0 +1,127 @@
+/**
+ * Tests for quota history storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, rmSync, readdirSync, appendFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+
+const testDir = join(tmpdir(), 'antigravity-history-test-' + Date.now())
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => testDir
+}))
+
+import { appendQuotaHistory, queryQuotaHistory, getHistoryDir } from '../../src/history/storage.js'
+import type { QuotaSnapshot } from '../../src/quota/types.js'
+
+function createSnapshot(timestamp: string, claude: number, gemini: number): QuotaSnapshot {
+  return {
+    timestamp,
+    method: 'google',
+    promptCredits: {
+      available: 400,
+      monthly: 500,
+      usedPercentage: 0.2,
+      remainingPercentage: 0.8
+    },
+    models: [
+      {
+        label: 'Claude Sonnet 4.6',
+        modelId: 'claude-sonnet-4-6',
+        remainingPercentage: claude,
+        isExhausted: claude === 0,
+        resetTime: '2026-01-20T00:00:00Z',
+        timeUntilResetMs: 1000
+      },
+      {
+        label: 'Gemini 3 Flash',
+        modelId: 'gemini-3-flash',
+        remainingPercentage: gemini,
+        isExhausted: false
+      }
+    ]
+  }
+}
+
+describe('history/storage', () => {
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should return empty array when no history exists', () => {
+    expect(queryQuotaHistory()).toEqual([])
+  })
+
+  it('should append snapshots and read them back oldest first', () => {
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-15T12:00:00Z', 0.5, 0.9))
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-15T10:00:00Z', 0.8, 1))
+
+    const entries = queryQuotaHistory()
+    expect(entries.length).toBe(2)
+    expect(entries[0].timestamp).toBe('2026-01-15T10:00:00Z')
+    expect(entries[0].email).toBe('a@example.com')
+    expect(entries[0].promptCredits).toEqual({ available: 400, monthly: 500 })
+    expect(entries[0].models[0]).toEqual({
+      modelId: 'claude-sonnet-4-6',
+      label: 'Claude Sonnet 4.6',
+      remainingPercentage: 0.8,
+      isExhausted: false,
+      resetTime: '2026-01-20T00:00:00Z'
+    })
+  })
+
+  it('should shard entries by month', () => {
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-31T12:00:00Z', 0.5, 0.9))
+    appendQuotaHistory('a@example.com', createSnapshot('2026-02-01T12:00:00Z', 0.5, 0.9))
+
+    const files = readdirSync(getHistoryDir()).sort()
+    expect(files).toEqual(['quota-2026-01.ndjson', 'quota-2026-02.ndjson'])
+  })
+
+  it('should filter by account, model and time range', () => {
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-10T00:00:00Z', 1, 1))
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-12T00:00:00Z', 0.7, 1))
+    appendQuotaHistory('b@example.com', createSnapshot('2026-01-12T00:00:00Z', 0.3, 1))
+    appendQuotaHistory('a@example.com', createSnapshot('2026-02-05T00:00:00Z', 0.2, 1))
+
+    const byAccount = queryQuotaHistory({ email: 'b@example.com' })
+    expect(byAccount.length).toBe(1)
+    expect(byAccount[0].models[0].remainingPercentage).toBe(0.3)
+
+    const byModel = queryQuotaHistory({ email: 'a@example.com', modelId: 'claude' })
+    expect(byModel.length).toBe(3)
+    expect(byModel.every(e => e.models.length === 1)).toBe(true)
+
+    const byRange = queryQuotaHistory({
+      since: new Date('2026-01-11T00:00:00Z'),
+      until: new Date('2026-01-31T00:00:00Z')
+    })
+    expect(byRange.length).toBe(2)
+  })
+
+  it('should keep only the most recent entries when limited', () => {
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-10T00:00:00Z', 1, 1))
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-11T00:00:00Z', 0.9, 1))
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-12T00:00:00Z', 0.8, 1))
+
+    const entries = queryQuotaHistory({ limit: 2 })
+    expect(entries.map(e => e.timestamp)).toEqual(['2026-01-11T00:00:00Z', '2026-01-12T00:00:00Z'])
+  })
+
+  it('should skip corrupt lines', () => {
+    appendQuotaHistory('a@example.com', createSnapshot('2026-01-10T00:00:00Z', 1, 1))
+    appendFileSync(join(getHistoryDir(), 'quota-2026-01.ndjson'), '{not json\n')
+
+    expect(queryQuotaHistory().length).toBe(1)
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Tests for snapshot comparison helpers
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffSnapshots, getMinRemaining, ageSnapshot, formatDelta } from '../../src/quota/diff.js'
+import type { QuotaSnapshot, ModelQuotaInfo } from '../../src/quota/types.js'
+
+function createSnapshot(models: Partial<ModelQuotaInfo>[]): QuotaSnapshot {
+  return {
+    timestamp: '2026-01-15T12:00:00.000Z',
+    method: 'google',
+    models: models.map((m, i) => ({
+      label: `Model ${i}`,
+      modelId: `model-${i}`,
+      isExhausted: false,
+      ...m
+    }))
+  }
+}
+
+describe('diffSnapshots', () => {
+  it('should return no changes without a previous snapshot', () => {
+    const current = createSnapshot([{ remainingPercentage: 0.5 }])
+    expect(diffSnapshots(undefined, current).size).toBe(0)
+  })
+
+  it('should report only models whose remaining changed', () => {
+    const previous = createSnapshot([{ remainingPercentage: 0.8 }, { remainingPercentage: 1 }])
+    const current = createSnapshot([{ remainingPercentage: 0.75 }, { remainingPercentage: 1 }])
+
+    const changes = diffSnapshots(previous, current)
+    expect(changes.size).toBe(1)
+    expect(changes.get('model-0')).toBeCloseTo(-0.05)
+  })
+
+  it('should ignore models missing from either snapshot', () => {
+    const previous = createSnapshot([{ remainingPercentage: 0.8 }])
+    const current = createSnapshot([{ remainingPercentage: 0.8 }, { remainingPercentage: 0.2 }])
+    expect(diffSnapshots(previous, current).size).toBe(0)
+  })
+})
+
+describe('getMinRemaining', () => {
+  it('should skip autocomplete models unless requested', () => {
+    const snapshot = createSnapshot([
+      { remainingPercentage: 0.6 },
+      { remainingPercentage: 0.1, isAutocompleteOnly: true }
+    ])
+    expect(getMinRemaining(snapshot)).toBe(0.6)
+    expect(getMinRemaining(snapshot, true)).toBe(0.1)
+  })
+
+  it('should return undefined when no data', () => {
+    expect(getMinRemaining(undefined)).toBeUndefined()
+    expect(getMinRemaining(createSnapshot([{}]))).toBeUndefined()
+  })
+})
+
+describe('ageSnapshot', () => {
+  it('should count down reset timers', () => {
+    const snapshot = createSnapshot([{ timeUntilResetMs: 60000 }, { timeUntilResetMs: 1000 }, {}])
+    const aged = ageSnapshot(snapshot, 5000)
+
+    expect(aged.models[0].timeUntilResetMs).toBe(55000)
+    expect(aged.models[1].timeUntilResetMs).toBeUndefined()
+    expect(aged.models[2].timeUntilResetMs).toBeUndefined()
+    expect(snapshot.models[0].timeUntilResetMs).toBe(60000)
+  })
+})
+
+describe('formatDelta', () => {
+  it('should format direction and percentage points', () => {
+    expect(formatDelta(-0.05)).toBe('▼5')
+    expect(formatDelta(0.1)).toBe('▲10')
+    expect(formatDelta(-0.001)).toBe('▼<1')
+  })
+})
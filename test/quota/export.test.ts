@@ -0,0 +1,120 @@
+/**
+ * Tests for machine-readable quota output formats
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseOutputFormat,
+  snapshotToRows,
+  allAccountsToRows,
+  rowsToCsv,
+  rowsToMarkdown,
+  rowsToNdjson,
+  formatSnapshot,
+  QUOTA_COLUMNS
+} from '../../src/quota/export.js'
+import type { QuotaSnapshot } from '../../src/quota/types.js'
+import type { AllAccountsQuotaResult } from '../../src/render/table.js'
+
+const snapshot: QuotaSnapshot = {
+  timestamp: '2026-01-15T12:00:00.000Z',
+  method: 'google',
+  email: 'work@example.com',
+  planType: 'Pro',
+  promptCredits: { available: 450, monthly: 500, usedPercentage: 0.1, remainingPercentage: 0.9 },
+  models: [
+    {
+      label: 'Claude "Sonnet", 4.6',
+      modelId: 'claude-sonnet-4-6',
+      remainingPercentage: 0.756,
+      isExhausted: false,
+      resetTime: '2026-01-15T17:00:00Z',
+      timeUntilResetMs: 3600500
+    },
+    { label: 'Gemini 2.5 Flash', modelId: 'gemini-2.5-flash', remainingPercentage: 1, isExhausted: false, isAutocompleteOnly: true }
+  ]
+}
+
+describe('parseOutputFormat', () => {
+  it('should accept known formats case-insensitively', () => {
+    expect(parseOutputFormat('CSV')).toBe('csv')
+    expect(parseOutputFormat('md')).toBe('markdown')
+    expect(parseOutputFormat('xml')).toBeNull()
+  })
+})
+
+describe('snapshotToRows', () => {
+  it('should flatten models into rows with stable columns', () => {
+    const rows = snapshotToRows(snapshot)
+
+    expect(rows).toHaveLength(1)
+    expect(Object.keys(rows[0])).toEqual([...QUOTA_COLUMNS])
+    expect(rows[0]).toMatchObject({
+      account: 'work@example.com',
+      status: 'success',
+      source: 'google',
+      plan: 'Pro',
+      model_id: 'claude-sonnet-4-6',
+      remaining_percent: 75.6,
+      exhausted: false,
+      reset_in_seconds: 3601,
+      prompt_credits_available: 450,
+      error: null
+    })
+  })
+
+  it('should include autocomplete models when requested', () => {
+    expect(snapshotToRows(snapshot, { allModels: true })).toHaveLength(2)
+  })
+})
+
+describe('allAccountsToRows', () => {
+  it('should emit one error row for failed accounts', () => {
+    const results: AllAccountsQuotaResult[] = [
+      { email: 'work@example.com', isActive: true, status: 'cached', snapshot, cacheAge: 30 },
+      { email: 'home@example.com', isActive: false, status: 'error', error: 'token expired' }
+    ]
+
+    const rows = allAccountsToRows(results)
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ account: 'work@example.com', status: 'cached', source: 'cache' })
+    expect(rows[1]).toMatchObject({ account: 'home@example.com', status: 'error', model_id: null, error: 'token expired' })
+  })
+})
+
+describe('row formats', () => {
+  const rows = snapshotToRows(snapshot)
+
+  it('should quote CSV fields containing commas and quotes', () => {
+    const csv = rowsToCsv(rows)
+    const [header, line] = csv.trim().split('\n')
+
+    expect(header).toBe(QUOTA_COLUMNS.join(','))
+    expect(line).toContain('"Claude ""Sonnet"", 4.6"')
+    expect(line.endsWith(',')).toBe(true)
+  })
+
+  it('should render a Markdown table', () => {
+    const lines = rowsToMarkdown(rows).trim().split('\n')
+
+    expect(lines[0]).toBe(`| ${QUOTA_COLUMNS.join(' | ')} |`)
+    expect(lines[1]).toMatch(/^\| --- \|/)
+    expect(lines[2]).toContain('| claude-sonnet-4-6 |')
+  })
+
+  it('should render one JSON object per line', () => {
+    const lines = rowsToNdjson(snapshotToRows(snapshot, { allModels: true })).trim().split('\n')
+
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[1]).model_id).toBe('gemini-2.5-flash')
+  })
+})
+
+describe('yaml format', () => {
+  it('should render snapshots', () => {
+    const yaml = formatSnapshot(snapshot, 'yaml')
+    expect(yaml).toContain('email: work@example.com')
+    expect(yaml).toContain('models:\n  - label: Claude "Sonnet", 4.6\n    modelId: claude-sonnet-4-6')
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Tests for burn-rate forecasting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeModelForecast, collectReadings, getMostUrgentForecast } from '../../src/quota/forecast.js'
+import type { ModelQuotaInfo } from '../../src/quota/types.js'
+import type { QuotaHistoryEntry } from '../../src/history/types.js'
+
+const HOUR = 60 * 60 * 1000
+const now = Date.parse('2026-01-15T12:00:00Z')
+
+function createModel(overrides: Partial<ModelQuotaInfo> = {}): ModelQuotaInfo {
+  return {
+    label: 'Claude Sonnet 4.6',
+    modelId: 'claude-sonnet-4-6',
+    remainingPercentage: 0.5,
+    isExhausted: false,
+    resetTime: new Date(now + 10 * HOUR).toISOString(),
+    ...overrides
+  }
+}
+
+function reading(hoursAgo: number, remaining: number, resetTime?: string) {
+  return {
+    timestamp: new Date(now - hoursAgo * HOUR).toISOString(),
+    remainingPercentage: remaining,
+    resetTime
+  }
+}
+
+describe('computeModelForecast', () => {
+  it('should report exhausted models', () => {
+    const forecast = computeModelForecast(createModel({ isExhausted: true, remainingPercentage: 0 }), [], now)
+    expect(forecast.status).toBe('exhausted')
+    expect(forecast.willExhaustBeforeReset).toBe(true)
+  })
+
+  it('should need at least two readings', () => {
+    const forecast = computeModelForecast(createModel(), [reading(0, 0.5)], now)
+    expect(forecast.status).toBe('insufficient_data')
+  })
+
+  it('should report stable when nothing is consumed', () => {
+    const forecast = computeModelForecast(createModel(), [reading(2, 0.5), reading(0, 0.5)], now)
+    expect(forecast.status).toBe('stable')
+    expect(forecast.burnRatePerHour).toBe(0)
+  })
+
+  it('should flag models that run out before reset', () => {
+    // 10% per hour, 50% left => empty in 5h, reset in 10h
+    const forecast = computeModelForecast(createModel(), [reading(3, 0.8), reading(0, 0.5)], now)
+    expect(forecast.status).toBe('at_risk')
+    expect(forecast.burnRatePerHour).toBeCloseTo(0.1)
+    expect(forecast.timeUntilExhaustionMs).toBeCloseTo(5 * HOUR, -3)
+    expect(forecast.willExhaustBeforeReset).toBe(true)
+  })
+
+  it('should report safe when quota outlasts the reset', () => {
+    // 2% per hour, 50% left => empty in 25h, reset in 10h
+    const forecast = computeModelForecast(createModel(), [reading(5, 0.6), reading(0, 0.5)], now)
+    expect(forecast.status).toBe('safe')
+    expect(forecast.willExhaustBeforeReset).toBe(false)
+  })
+
+  it('should ignore readings from a previous reset cycle', () => {
+    const model = createModel()
+    const forecast = computeModelForecast(model, [
+      reading(30, 1, '2026-01-14T00:00:00Z'),
+      reading(20, 0.1, '2026-01-14T00:00:00Z'),
+      reading(0, 0.5, model.resetTime)
+    ], now)
+    expect(forecast.status).toBe('insufficient_data')
+  })
+
+  it('should start from the last quota increase', () => {
+    const forecast = computeModelForecast(createModel(), [
+      reading(6, 0.3),
+      reading(4, 0.9),
+      reading(0, 0.5)
+    ], now)
+    expect(forecast.sampleCount).toBe(2)
+    expect(forecast.burnRatePerHour).toBeCloseTo(0.1)
+  })
+})
+
+describe('collectReadings', () => {
+  it('should group readings by model and skip missing percentages', () => {
+    const entries: QuotaHistoryEntry[] = [
+      {
+        timestamp: '2026-01-15T10:00:00Z',
+        email: 'a@example.com',
+        method: 'google',
+        models: [
+          { modelId: 'a', label: 'A', remainingPercentage: 0.9, isExhausted: false },
+          { modelId: 'b', label: 'B', isExhausted: false }
+        ]
+      },
+      {
+        timestamp: '2026-01-15T11:00:00Z',
+        email: 'a@example.com',
+        method: 'google',
+        models: [{ modelId: 'a', label: 'A', remainingPercentage: 0.8, isExhausted: false }]
+      }
+    ]
+
+    const readings = collectReadings(entries)
+    expect(readings.get('a')?.length).toBe(2)
+    expect(readings.has('b')).toBe(false)
+  })
+})
+
+describe('getMostUrgentForecast', () => {
+  it('should prefer the soonest at-risk forecast', () => {
+    const models = [
+      createModel({ forecast: { status: 'safe', willExhaustBeforeReset: false, sampleCount: 2 } }),
+      createModel({ forecast: { status: 'at_risk', timeUntilExhaustionMs: 5 * HOUR, willExhaustBeforeReset: true, sampleCount: 2 } }),
+      createModel({ forecast: { status: 'at_risk', timeUntilExhaustionMs: 2 * HOUR, willExhaustBeforeReset: true, sampleCount: 2 } })
+    ]
+
+    expect(getMostUrgentForecast(models)?.timeUntilExhaustionMs).toBe(2 * HOUR)
+  })
+
+  it('should return undefined when no model has a forecast', () => {
+    expect(getMostUrgentForecast([createModel()])).toBeUndefined()
+  })
+})
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { printQuotaTable, printQuotaJson } from '../../src/quota/format.js'
+import { printQuotaTable, printQuotaJson, formatForecast } from '../../src/quota/format.js'
 import type { QuotaSnapshot } from '../../src/quota/types.js'
 
 describe('printQuotaJson', () => {
@@ -144,4 +144,63 @@ describe('printQuotaTable', () => {
     const allOutput = consoleSpy.mock.calls.map(c => c[0]).join('\n')
     expect(allOutput).toContain('Autocomplete Model')
   })
+
+  it('should collapse models sharing a quota pool when grouped', () => {
+    const resetTime = '2026-01-14T17:00:00.000Z'
+    const snapshot: QuotaSnapshot = {
+      timestamp: '2026-01-14T12:00:00.000Z',
+      method: 'google',
+      models: [
+        { label: 'Claude Opus 4.6', modelId: 'claude-opus-4-6', remainingPercentage: 0.6, isExhausted: false, resetTime },
+        { label: 'Claude Sonnet 4.6', modelId: 'claude-sonnet-4-6', remainingPercentage: 0.6, isExhausted: false, resetTime },
+        { label: 'Gemini 3 Flash', modelId: 'gemini-3-flash', remainingPercentage: 0.9, isExhausted: false, resetTime }
+      ]
+    }
+
+    printQuotaTable(snapshot, { grouped: true })
+
+    const allOutput = consoleSpy.mock.calls.map(c => c[0]).join('\n')
+    expect(allOutput).toContain('Claude family')
+    expect(allOutput).toContain('Claude Opus 4.6, Claude Sonnet 4.6')
+    expect(allOutput.match(/60%/g)).toHaveLength(1)
+    expect(allOutput).toContain('Gemini 3 Flash')
+  })
+})
+
+describe('formatForecast', () => {
+  it('should format each forecast status', () => {
+    expect(formatForecast(undefined)).toBe('-')
+    expect(formatForecast({ status: 'stable', willExhaustBeforeReset: false, sampleCount: 2 })).toContain('Stable')
+    expect(formatForecast({ status: 'exhausted', willExhaustBeforeReset: true, sampleCount: 0 })).toContain('Exhausted')
+    expect(formatForecast({
+      status: 'at_risk',
+      timeUntilExhaustionMs: 2 * 60 * 60 * 1000,
+      willExhaustBeforeReset: true,
+      sampleCount: 3
+    })).toContain('2h 0m')
+  })
+
+  it('should add a forecast column when models have forecasts', () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => { })
+    const snapshot: QuotaSnapshot = {
+      timestamp: '2026-01-14T12:00:00.000Z',
+      method: 'google',
+      models: [
+        {
+          label: 'Test Model',
+          modelId: 'test-model',
+          remainingPercentage: 0.5,
+          isExhausted: false,
+          forecast: { status: 'at_risk', timeUntilExhaustionMs: 3600000, willExhaustBeforeReset: true, sampleCount: 2 }
+        }
+      ]
+    }
+
+    printQuotaTable(snapshot)
+
+    const allOutput = consoleSpy.mock.calls.map(c => c[0]).join('\n')
+    consoleSpy.mockRestore()
+    expect(allOutput).toContain('Forecast')
+    expect(allOutput).toContain('Empty in 1h 0m')
+  })
 })
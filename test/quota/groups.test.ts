@@ -0,0 +1,77 @@
+/**
+ * Tests for model quota groups
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getModelGroup, getRepresentativeModels, groupModels } from '../../src/quota/groups.js'
+import type { ModelQuotaInfo } from '../../src/quota/types.js'
+
+const resetTime = '2026-01-15T17:00:00Z'
+
+function model(modelId: string, remainingPercentage: number, reset = resetTime): ModelQuotaInfo {
+  return { label: modelId, modelId, remainingPercentage, isExhausted: remainingPercentage === 0, resetTime: reset }
+}
+
+describe('getModelGroup', () => {
+  it('should map models to their quota family', () => {
+    expect(getModelGroup('claude-opus-4-6')?.id).toBe('claude')
+    expect(getModelGroup('gemini-3-flash')?.id).toBe('gemini-flash')
+    expect(getModelGroup('gemini-3.1-pro-high')?.id).toBe('gemini-pro')
+  })
+
+  it('should leave autocomplete and unknown models ungrouped', () => {
+    expect(getModelGroup('gemini-2.5-flash')).toBeUndefined()
+    expect(getModelGroup('gpt-oss-120b')).toBeUndefined()
+  })
+})
+
+describe('getRepresentativeModels', () => {
+  it('should return one model per group', () => {
+    expect(getRepresentativeModels()).toEqual(['claude-sonnet-4-6', 'gemini-3-flash', 'gemini-3.1-pro-low'])
+  })
+})
+
+describe('groupModels', () => {
+  it('should collapse family members sharing a pool', () => {
+    const groups = groupModels([
+      model('claude-opus-4-6', 0.4),
+      model('claude-sonnet-4-6', 0.4),
+      model('gemini-3-flash', 0.8)
+    ])
+
+    expect(groups).toHaveLength(2)
+    expect(groups[0].id).toBe('claude')
+    expect(groups[0].label).toBe('Claude family')
+    expect(groups[0].models.map(m => m.modelId)).toEqual(['claude-opus-4-6', 'claude-sonnet-4-6'])
+    expect(groups[0].remainingPercentage).toBe(0.4)
+    expect(groups[1].id).toBe('gemini-3-flash')
+  })
+
+  it('should split a family whose members report different pools', () => {
+    const groups = groupModels([
+      model('gemini-3.1-pro-low', 0.5),
+      model('gemini-3.1-pro-high', 0.5),
+      model('gemini-3-pro', 0.5, '2026-01-16T00:00:00Z'),
+      model('gemini-3-pro-preview', 0.5, '2026-01-16T00:00:00Z')
+    ])
+
+    expect(groups.map(g => g.id)).toEqual(['gemini-pro', 'gemini-pro-2'])
+  })
+
+  it('should keep unknown models as their own rows', () => {
+    const groups = groupModels([model('gpt-oss-120b', 0.5), model('other-model', 0.5)])
+    expect(groups.map(g => g.id)).toEqual(['gpt-oss-120b', 'other-model'])
+  })
+
+  it('should use the most urgent forecast in the group', () => {
+    const groups = groupModels([
+      { ...model('claude-opus-4-6', 0.4), forecast: { status: 'safe', willExhaustBeforeReset: false, sampleCount: 3 } },
+      {
+        ...model('claude-sonnet-4-6', 0.4),
+        forecast: { status: 'at_risk', timeUntilExhaustionMs: 1000, willExhaustBeforeReset: true, sampleCount: 3 }
+      }
+    ])
+
+    expect(groups[0].forecast?.status).toBe('at_risk')
+  })
+})
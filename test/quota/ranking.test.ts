@@ -0,0 +1,77 @@
+/**
+ * Tests for quota-aware account ranking
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getModelRemaining, rankAccounts, type RankingInput } from '../../src/quota/ranking.js'
+import type { QuotaSnapshot } from '../../src/quota/types.js'
+
+function createSnapshot(claude: number | undefined, gemini: number, claudeExhausted = false): QuotaSnapshot {
+  return {
+    timestamp: '2026-01-15T12:00:00Z',
+    method: 'google',
+    models: [
+      { label: 'Claude Sonnet 4.6', modelId: 'claude-sonnet-4-6', remainingPercentage: claude, isExhausted: claudeExhausted },
+      { label: 'Claude Opus 4.6', modelId: 'claude-opus-4-6', remainingPercentage: 0.9, isExhausted: false },
+      { label: 'Gemini 3 Flash', modelId: 'gemini-3-flash', remainingPercentage: gemini, isExhausted: false }
+    ]
+  }
+}
+
+describe('getModelRemaining', () => {
+  it('should use the exact model ID when it matches', () => {
+    expect(getModelRemaining(createSnapshot(0.4, 0.8), 'claude-sonnet-4-6')).toEqual({
+      remaining: 0.4,
+      label: 'Claude Sonnet 4.6',
+      resetTime: undefined
+    })
+  })
+
+  it('should use the lowest of substring matches', () => {
+    expect(getModelRemaining(createSnapshot(0.4, 0.8), 'claude')?.remaining).toBe(0.4)
+  })
+
+  it('should treat exhausted models without a percentage as 0', () => {
+    expect(getModelRemaining(createSnapshot(undefined, 0.8, true), 'sonnet')?.remaining).toBe(0)
+  })
+
+  it('should use the lowest model without a filter', () => {
+    expect(getModelRemaining(createSnapshot(0.4, 0.2))?.remaining).toBe(0.2)
+  })
+
+  it('should return null when no model matches', () => {
+    expect(getModelRemaining(createSnapshot(0.4, 0.8), 'gpt')).toBeNull()
+  })
+})
+
+describe('rankAccounts', () => {
+  const inputs: RankingInput[] = [
+    { email: 'a@example.com', snapshot: createSnapshot(0.2, 0.9), source: 'cache' },
+    { email: 'b@example.com', snapshot: null, source: 'error', error: 'offline' },
+    { email: 'c@example.com', snapshot: createSnapshot(0.7, 0.1), source: 'fetched' }
+  ]
+
+  it('should rank by remaining quota for the model, unknown last', () => {
+    const rankings = rankAccounts(inputs, 'a@example.com', 'claude-sonnet-4-6')
+
+    expect(rankings.map(r => r.email)).toEqual(['c@example.com', 'a@example.com', 'b@example.com'])
+    expect(rankings[2].remaining).toBeNull()
+    expect(rankings[2].error).toBe('offline')
+  })
+
+  it('should rank by a different model independently', () => {
+    const rankings = rankAccounts(inputs, null, 'gemini')
+    expect(rankings[0].email).toBe('a@example.com')
+  })
+
+  it('should prefer the active account on ties', () => {
+    const tied: RankingInput[] = [
+      { email: 'a@example.com', snapshot: createSnapshot(0.5, 0.9), source: 'cache' },
+      { email: 'b@example.com', snapshot: createSnapshot(0.5, 0.9), source: 'cache' }
+    ]
+
+    const rankings = rankAccounts(tied, 'b@example.com', 'sonnet')
+    expect(rankings[0].email).toBe('b@example.com')
+    expect(rankings[0].isActive).toBe(true)
+  })
+})
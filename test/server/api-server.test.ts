@@ -0,0 +1,238 @@
+/**
+ * Tests for the local REST/JSON API server
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { request, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { startApiServer, QuotaMemoryCache, type ApiServerDeps } from '../../src/server/api-server.js'
+import type { QuotaSnapshot } from '../../src/quota/types.js'
+import type { AccountSummary } from '../../src/accounts/types.js'
+
+function createSnapshot(email: string): QuotaSnapshot {
+  return {
+    timestamp: new Date().toISOString(),
+    method: 'google',
+    email,
+    models: [{ label: 'Claude Sonnet', modelId: 'claude-sonnet', remainingPercentage: 0.5, isExhausted: false }]
+  }
+}
+
+const accounts: AccountSummary[] = [
+  { email: 'work@example.com', isActive: true, status: 'valid', lastUsed: null },
+  { email: 'home@example.com', isActive: false, status: 'valid', lastUsed: null }
+]
+
+function createDeps(overrides: Partial<ApiServerDeps> = {}): ApiServerDeps {
+  return {
+    listAccounts: () => accounts,
+    getActiveEmail: () => 'work@example.com',
+    fetchQuota: vi.fn(async (email: string) => createSnapshot(email)),
+    trigger: vi.fn(async (options) => ({
+      success: true,
+      results: options.models.map(modelId => ({ modelId, success: true, durationMs: 10 }))
+    })),
+    defaultModels: () => ['claude-sonnet'],
+    cacheTtlMs: () => 60_000,
+    apiToken: () => 'test-token',
+    ...overrides
+  }
+}
+
+const triggerHeaders = { 'Content-Type': 'application/json', Authorization: 'Bearer test-token' }
+
+// Raw request, so Host and Origin can be set freely
+function rawRequest(url: string, method: string, headers: Record<string, string>, body = ''): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method, headers }, res => {
+      res.resume()
+      resolve(res.statusCode ?? 0)
+    })
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+describe('QuotaMemoryCache', () => {
+  it('should reuse snapshots within the TTL', async () => {
+    const fetcher = vi.fn(async (email: string) => createSnapshot(email))
+    const cache = new QuotaMemoryCache(fetcher, () => 60_000)
+
+    await cache.get('work@example.com')
+    await cache.get('work@example.com')
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refetch when forced or invalidated', async () => {
+    const fetcher = vi.fn(async (email: string) => createSnapshot(email))
+    const cache = new QuotaMemoryCache(fetcher, () => 60_000)
+
+    await cache.get('work@example.com')
+    await cache.get('work@example.com', true)
+    cache.invalidate('work@example.com')
+    await cache.get('work@example.com')
+
+    expect(fetcher).toHaveBeenCalledTimes(3)
+  })
+
+  it('should share concurrent requests for the same account', async () => {
+    const fetcher = vi.fn(async (email: string) => createSnapshot(email))
+    const cache = new QuotaMemoryCache(fetcher, () => 60_000)
+
+    await Promise.all([cache.get('work@example.com'), cache.get('work@example.com')])
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('startApiServer', () => {
+  let server: Server | undefined
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve))
+    server = undefined
+  })
+
+  async function start(deps: ApiServerDeps): Promise<string> {
+    server = await startApiServer({ port: 0, host: '127.0.0.1', deps })
+    const { port } = server.address() as AddressInfo
+    return `http://127.0.0.1:${port}`
+  }
+
+  it('should list accounts', async () => {
+    const base = await start(createDeps())
+
+    const response = await fetch(`${base}/accounts`)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(accounts)
+  })
+
+  it('should return quota for a single account', async () => {
+    const base = await start(createDeps())
+
+    const response = await fetch(`${base}/accounts/${encodeURIComponent('home@example.com')}/quota`)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.email).toBe('home@example.com')
+  })
+
+  it('should return 404 for unknown accounts', async () => {
+    const base = await start(createDeps())
+
+    const response = await fetch(`${base}/accounts/nobody@example.com/quota`)
+    expect(response.status).toBe(404)
+    expect((await response.json()).error).toContain('nobody@example.com')
+  })
+
+  it('should return quota for all accounts and report per-account errors', async () => {
+    const deps = createDeps({
+      fetchQuota: async (email) => {
+        if (email === 'home@example.com') throw new Error('token expired')
+        return createSnapshot(email)
+      }
+    })
+    const base = await start(deps)
+
+    const body = await (await fetch(`${base}/quota`)).json()
+
+    expect(body).toHaveLength(2)
+    expect(body[0].snapshot.email).toBe('work@example.com')
+    expect(body[1]).toEqual({ email: 'home@example.com', snapshot: null, error: 'token expired' })
+  })
+
+  it('should trigger configured models for the active account by default', async () => {
+    const deps = createDeps()
+    const base = await start(deps)
+
+    const response = await fetch(`${base}/wakeup/trigger`, { method: 'POST', headers: triggerHeaders })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.account).toBe('work@example.com')
+    expect(deps.trigger).toHaveBeenCalledWith(expect.objectContaining({
+      models: ['claude-sonnet'],
+      accountEmail: 'work@example.com',
+      triggerType: 'manual',
+      triggerSource: 'manual'
+    }))
+  })
+
+  it('should accept account and models in the request body', async () => {
+    const deps = createDeps()
+    const base = await start(deps)
+
+    await fetch(`${base}/wakeup/trigger`, {
+      method: 'POST',
+      headers: triggerHeaders,
+      body: JSON.stringify({ account: 'home@example.com', models: ['gemini-3-flash'], prompt: 'ping' })
+    })
+
+    expect(deps.trigger).toHaveBeenCalledWith(expect.objectContaining({
+      models: ['gemini-3-flash'],
+      accountEmail: 'home@example.com',
+      customPrompt: 'ping'
+    }))
+  })
+
+  it('should reject invalid trigger bodies', async () => {
+    const base = await start(createDeps())
+
+    const invalidJson = await fetch(`${base}/wakeup/trigger`, { method: 'POST', headers: triggerHeaders, body: '{oops' })
+    expect(invalidJson.status).toBe(400)
+
+    const invalidModels = await fetch(`${base}/wakeup/trigger`, {
+      method: 'POST',
+      headers: triggerHeaders,
+      body: JSON.stringify({ models: 'claude' })
+    })
+    expect(invalidModels.status).toBe(400)
+  })
+
+  it('should reject triggers without a valid API token', async () => {
+    const deps = createDeps()
+    const base = await start(deps)
+
+    const missing = await fetch(`${base}/wakeup/trigger`, { method: 'POST', headers: { 'Content-Type': 'application/json' } })
+    expect(missing.status).toBe(401)
+
+    const wrong = await fetch(`${base}/wakeup/trigger`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer nope' }
+    })
+    expect(wrong.status).toBe(401)
+    expect(deps.trigger).not.toHaveBeenCalled()
+  })
+
+  it('should reject trigger bodies that are not application/json', async () => {
+    const deps = createDeps()
+    const base = await start(deps)
+
+    const response = await fetch(`${base}/wakeup/trigger`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain', Authorization: 'Bearer test-token' },
+      body: JSON.stringify({ models: ['claude-sonnet'] })
+    })
+    expect(response.status).toBe(415)
+    expect(deps.trigger).not.toHaveBeenCalled()
+  })
+
+  it('should reject cross-origin requests and foreign Host headers', async () => {
+    const deps = createDeps()
+    const base = await start(deps)
+
+    expect(await rawRequest(`${base}/wakeup/trigger`, 'POST', { ...triggerHeaders, Origin: 'https://evil.example' }, '{}')).toBe(403)
+    expect(await rawRequest(`${base}/wakeup/trigger`, 'POST', { ...triggerHeaders, Host: 'evil.example:9465' }, '{}')).toBe(403)
+    expect(await rawRequest(`${base}/quota`, 'GET', { Host: 'evil.example' })).toBe(403)
+    expect(await rawRequest(`${base}/accounts`, 'GET', { Host: 'localhost:9465' })).toBe(200)
+    expect(deps.trigger).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for unknown routes', async () => {
+    const base = await start(createDeps())
+
+    const response = await fetch(`${base}/nope`)
+    expect(response.status).toBe(404)
+  })
+})
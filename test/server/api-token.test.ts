@@ -0,0 +1,42 @@
+/**
+ * Tests for the local API token
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+
+const testDir = join(tmpdir(), 'antigravity-usage-api-token-test-' + Date.now())
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => testDir
+}))
+
+import { loadOrCreateApiToken, getApiTokenPath } from '../../src/server/api-token.js'
+
+describe('server/api-token', () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should create a private token file on first use and reuse it', () => {
+    const token = loadOrCreateApiToken()
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/)
+    expect(readFileSync(getApiTokenPath(), 'utf-8').trim()).toBe(token)
+    expect(statSync(getApiTokenPath()).mode & 0o777).toBe(0o600)
+    expect(loadOrCreateApiToken()).toBe(token)
+  })
+
+  it('should use a token written by the user', () => {
+    writeFileSync(getApiTokenPath(), 'my-token\n')
+    expect(loadOrCreateApiToken()).toBe('my-token')
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Tests for Prometheus metrics rendering and server
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { renderPrometheusMetrics, type MetricsInput } from '../../src/server/metrics.js'
+import { startMetricsServer } from '../../src/server/metrics-server.js'
+
+const now = Date.parse('2026-01-15T12:00:00Z')
+
+function createInput(): MetricsInput {
+  return {
+    now,
+    accounts: [
+      {
+        email: 'work@example.com',
+        snapshot: {
+          timestamp: '2026-01-15T11:59:00Z',
+          method: 'google',
+          promptCredits: { available: 450, monthly: 500, usedPercentage: 0.1, remainingPercentage: 0.9 },
+          models: [
+            {
+              label: 'Claude "Sonnet"',
+              modelId: 'claude-sonnet-4-6',
+              remainingPercentage: 0.75,
+              isExhausted: false,
+              resetTime: '2026-01-15T13:00:00Z'
+            },
+            {
+              label: 'Gemini 3 Flash',
+              modelId: 'gemini-3-flash',
+              isExhausted: true
+            }
+          ]
+        }
+      },
+      { email: 'empty@example.com', snapshot: null }
+    ],
+    counters: {
+      'work@example.com': {
+        'claude-sonnet-4-6': { success: 3, failure: 1 }
+      }
+    }
+  }
+}
+
+describe('renderPrometheusMetrics', () => {
+  it('should emit HELP and TYPE once per metric', () => {
+    const output = renderPrometheusMetrics(createInput())
+    expect(output.match(/# TYPE antigravity_model_remaining_ratio gauge/g)?.length).toBe(1)
+    expect(output).toContain('# TYPE antigravity_wakeup_triggers_total counter')
+  })
+
+  it('should render quota gauges with labels', () => {
+    const output = renderPrometheusMetrics(createInput())
+
+    expect(output).toContain('antigravity_model_remaining_ratio{account="work@example.com",model="claude-sonnet-4-6",label="Claude \\"Sonnet\\""} 0.75')
+    expect(output).toContain('antigravity_model_exhausted{account="work@example.com",model="gemini-3-flash",label="Gemini 3 Flash"} 1')
+    expect(output).toContain('antigravity_model_reset_seconds{account="work@example.com",model="claude-sonnet-4-6",label="Claude \\"Sonnet\\""} 3600')
+    expect(output).toContain('antigravity_prompt_credits_available{account="work@example.com"} 450')
+    expect(output).toContain('antigravity_prompt_credits_monthly{account="work@example.com"} 500')
+  })
+
+  it('should skip accounts without snapshots', () => {
+    expect(renderPrometheusMetrics(createInput())).not.toContain('empty@example.com')
+  })
+
+  it('should render trigger counters by result', () => {
+    const output = renderPrometheusMetrics(createInput())
+    expect(output).toContain('antigravity_wakeup_triggers_total{account="work@example.com",model="claude-sonnet-4-6",result="success"} 3')
+    expect(output).toContain('antigravity_wakeup_triggers_total{account="work@example.com",model="claude-sonnet-4-6",result="failure"} 1')
+  })
+})
+
+describe('startMetricsServer', () => {
+  let server: Server | undefined
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve))
+    server = undefined
+  })
+
+  it('should serve metrics on /metrics', async () => {
+    server = await startMetricsServer({ port: 0, host: '127.0.0.1', collect: createInput })
+    const { port } = server.address() as AddressInfo
+
+    const response = await fetch(`http://127.0.0.1:${port}/metrics`)
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toContain('text/plain')
+    expect(await response.text()).toContain('antigravity_model_remaining_ratio')
+  })
+
+  it('should return 404 for other paths', async () => {
+    server = await startMetricsServer({ port: 0, host: '127.0.0.1', collect: createInput })
+    const { port } = server.address() as AddressInfo
+
+    const response = await fetch(`http://127.0.0.1:${port}/other`)
+    expect(response.status).toBe(404)
+  })
+})
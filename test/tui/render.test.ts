@@ -0,0 +1,106 @@
+/**
+ * Tests for TUI frame rendering
+ */
+
+import { describe, it, expect } from 'vitest'
+import { renderTuiFrame, fit, type TuiState } from '../../src/tui/render.js'
+
+// Strip ANSI styling for length/content checks
+function strip(line: string): string {
+  return line.replace(/\x1b\[[0-9;]*m/g, '')
+}
+
+function createState(overrides: Partial<TuiState> = {}): TuiState {
+  return {
+    accounts: [
+      { email: 'work@example.com', isActive: true, status: 'valid', lastUsed: null },
+      { email: 'personal@example.com', isActive: false, status: 'expired', lastUsed: null }
+    ],
+    selectedIndex: 0,
+    snapshots: {
+      'work@example.com': {
+        timestamp: new Date().toISOString(),
+        method: 'google',
+        promptCredits: { available: 400, monthly: 500, usedPercentage: 0.2, remainingPercentage: 0.8 },
+        models: [
+          { label: 'Claude Sonnet 4.6', modelId: 'claude-sonnet-4-6', remainingPercentage: 0.8, isExhausted: false, timeUntilResetMs: 3 * 60 * 60 * 1000 + 60000 },
+          { label: 'Gemini 2.5 Flash', modelId: 'gemini-2.5-flash', remainingPercentage: 1, isExhausted: false, isAutocompleteOnly: true }
+        ]
+      },
+      'personal@example.com': null
+    },
+    triggers: [
+      {
+        timestamp: '2026-01-15T10:00:00Z',
+        success: false,
+        triggerType: 'auto',
+        triggerSource: 'scheduled',
+        models: ['gemini-3-flash'],
+        accountEmail: 'work@example.com',
+        durationMs: 100,
+        prompt: 'hi',
+        error: 'boom'
+      }
+    ],
+    ...overrides
+  }
+}
+
+describe('fit', () => {
+  it('should pad short text', () => {
+    expect(fit('abc', 5)).toBe('abc  ')
+  })
+
+  it('should truncate long text with an ellipsis', () => {
+    expect(fit('abcdefgh', 5)).toBe('abcd…')
+  })
+})
+
+describe('renderTuiFrame', () => {
+  it('should fill exactly the requested size', () => {
+    const lines = renderTuiFrame(createState(), { width: 100, height: 30 })
+    expect(lines.length).toBe(30)
+    for (const line of lines) {
+      expect(strip(line).length).toBe(100)
+    }
+  })
+
+  it('should enforce a minimum size', () => {
+    const lines = renderTuiFrame(createState(), { width: 20, height: 5 })
+    expect(lines.length).toBe(16)
+    expect(strip(lines[1]).length).toBe(60)
+  })
+
+  it('should show accounts, selected quota and triggers', () => {
+    const output = renderTuiFrame(createState(), { width: 100, height: 30 }).map(strip).join('\n')
+
+    expect(output).toContain('* work@example.com')
+    expect(output).toContain('personal@example.com')
+    expect(output).toContain('Quota: work@example.com')
+    expect(output).toContain('Claude Sonnet 4.6')
+    expect(output).toContain('80%')
+    expect(output).toContain('Credits: 400 / 500')
+    expect(output).not.toContain('Gemini 2.5 Flash')
+    expect(output).toContain('gemini-3-flash')
+    expect(output).toContain('failed')
+  })
+
+  it('should highlight the selected account', () => {
+    const lines = renderTuiFrame(createState({ selectedIndex: 1 }), { width: 100, height: 30 })
+    const selected = lines.find(l => l.includes('personal@example.com') && l.includes('\x1b[7m'))
+    expect(selected).toBeDefined()
+    expect(lines.join('\n')).toContain('No quota data yet')
+  })
+
+  it('should show the status message', () => {
+    const output = renderTuiFrame(createState({ message: 'Switched to work@example.com' }), { width: 100, height: 30 })
+    expect(strip(output[output.length - 1])).toContain('Switched to work@example.com')
+  })
+
+  it('should handle no accounts', () => {
+    const output = renderTuiFrame(createState({ accounts: [], snapshots: {}, triggers: [] }), { width: 80, height: 20 })
+      .map(strip).join('\n')
+    expect(output).toContain('No accounts')
+    expect(output).toContain('No wake-up triggers recorded yet.')
+  })
+})
@@ -5,13 +5,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import {
   resolveAccounts,
+  resolveAccountConfigs,
+  getAccountConfig,
   hasValidAccounts,
   getAccountResolutionStatus
 } from '../../src/wakeup/account-resolver.js'
+import { getDefaultConfig, type WakeupConfig } from '../../src/wakeup/types.js'
 
 // Mock the account manager
 vi.mock('../../src/accounts/manager.js', () => {
-  const mockAccounts = new Map<string, { status: string }>()
+  const mockAccounts = new Map<string, { status: string; alias?: string }>()
   let activeEmail: string | null = null
   
   return {
@@ -20,10 +23,13 @@ vi.mock('../../src/accounts/manager.js', () => {
       getAccountStatus: (email: string) => mockAccounts.get(email)?.status || 'invalid',
       getActiveEmail: () => activeEmail,
       getAccountEmails: () => Array.from(mockAccounts.keys()),
+      resolveAccount: (account: string) => account.includes('@')
+        ? account
+        : Array.from(mockAccounts.entries()).find(([, a]) => a.alias === account)?.[0] ?? null,
       
       // Test helpers
       _setActiveEmail: (email: string | null) => { activeEmail = email },
-      _addAccount: (email: string, status: string) => { mockAccounts.set(email, { status }) },
+      _addAccount: (email: string, status: string, alias?: string) => { mockAccounts.set(email, { status, alias }) },
       _clear: () => { mockAccounts.clear(); activeEmail = null }
     })
   }
@@ -34,7 +40,7 @@ import { getAccountManager } from '../../src/accounts/manager.js'
 describe('Account Resolver', () => {
   let mockManager: ReturnType<typeof getAccountManager> & {
     _setActiveEmail: (email: string | null) => void
-    _addAccount: (email: string, status: string) => void
+    _addAccount: (email: string, status: string, alias?: string) => void
     _clear: () => void
   }
   
@@ -79,6 +85,14 @@ describe('Account Resolver', () => {
         
         expect(result).toEqual(['exists@example.com'])
       })
+      
+      it('should accept aliases in the selection', () => {
+        mockManager._addAccount('work@example.com', 'valid', 'work')
+        mockManager._addAccount('home@example.com', 'valid', 'home')
+        
+        const result = resolveAccounts(['work', 'home@example.com', 'unknown', 'home'])
+        expect(result).toEqual(['work@example.com', 'home@example.com'])
+      })
     })
     
     describe('with fallback (undefined selection)', () => {
@@ -175,4 +189,63 @@ describe('Account Resolver', () => {
       expect(status).toContain('invalid')
     })
   })
+
+  describe('account overrides', () => {
+    const config: WakeupConfig = {
+      ...getDefaultConfig(),
+      selectedModels: ['claude-sonnet-4-6', 'gemini-3-flash'],
+      customPrompt: 'hello',
+      scheduleMode: 'custom',
+      cronExpression: '0 */4 * * *',
+      accountOverrides: {
+        'free@example.com': { selectedModels: ['gemini-3-flash'] },
+        'tokyo@example.com': { scheduleMode: 'daily', dailyTimes: ['00:00'], customPrompt: 'おはよう' }
+      }
+    }
+
+    it('should return the global config for accounts without overrides', () => {
+      const result = getAccountConfig(config, 'other@example.com')
+
+      expect(result.selectedModels).toEqual(['claude-sonnet-4-6', 'gemini-3-flash'])
+      expect(result.accountOverrides).toBeUndefined()
+    })
+
+    it('should merge overrides over the global config', () => {
+      const result = getAccountConfig(config, 'free@example.com')
+
+      expect(result.selectedModels).toEqual(['gemini-3-flash'])
+      expect(result.customPrompt).toBe('hello')
+      expect(result.cronExpression).toBe('0 */4 * * *')
+    })
+
+    it('should replace the whole schedule when the override sets one', () => {
+      const result = getAccountConfig(config, 'tokyo@example.com')
+
+      expect(result.scheduleMode).toBe('daily')
+      expect(result.dailyTimes).toEqual(['00:00'])
+      expect(result.cronExpression).toBeUndefined()
+      expect(result.customPrompt).toBe('おはよう')
+      expect(result.selectedModels).toEqual(['claude-sonnet-4-6', 'gemini-3-flash'])
+    })
+
+    it('should resolve accounts with their effective config', () => {
+      mockManager._addAccount('free@example.com', 'valid')
+      mockManager._addAccount('paid@example.com', 'valid')
+
+      const result = resolveAccountConfigs({ ...config, selectedAccounts: ['free@example.com', 'paid@example.com'] })
+
+      expect(result.map(({ email, config }) => [email, config.selectedModels])).toEqual([
+        ['free@example.com', ['gemini-3-flash']],
+        ['paid@example.com', ['claude-sonnet-4-6', 'gemini-3-flash']]
+      ])
+    })
+
+    it('should find overrides keyed by an alias', () => {
+      mockManager._addAccount('me.work@example.com', 'valid', 'work')
+
+      const result = getAccountConfig({ ...config, accountOverrides: { work: { selectedModels: ['gemini-3-flash'] } } }, 'me.work@example.com')
+
+      expect(result.selectedModels).toEqual(['gemini-3-flash'])
+    })
+  })
 })
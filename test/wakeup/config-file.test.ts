@@ -0,0 +1,205 @@
+/**
+ * Tests for declarative wake-up configuration
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  validateWakeupConfig,
+  applyWakeupFlags,
+  hasWakeupFlags,
+  getConfigFormat,
+  parseWakeupConfigDocument,
+  parseWeeklySchedule,
+  serializeWakeupConfig
+} from '../../src/wakeup/config-file.js'
+import { getDefaultConfig, type WakeupConfig } from '../../src/wakeup/types.js'
+
+describe('validateWakeupConfig', () => {
+  it('should fill missing fields from defaults', () => {
+    const { config, errors } = validateWakeupConfig({ enabled: true })
+
+    expect(errors).toEqual([])
+    expect(config.selectedModels).toEqual(getDefaultConfig().selectedModels)
+    expect(config.scheduleMode).toBe(getDefaultConfig().scheduleMode)
+  })
+
+  it('should report unknown fields and bad daily times', () => {
+    const { errors } = validateWakeupConfig({
+      scheduleMode: 'daily',
+      wakeOnReset: false,
+      dailyTimes: ['09:00', '24:15'],
+      model: 'claude'
+    })
+
+    expect(errors).toEqual([
+      'model: unknown field',
+      'dailyTimes[1]: "24:15" is not a valid HH:MM time (00:00-23:59)'
+    ])
+  })
+
+  it('should require a cron expression for custom mode only', () => {
+    expect(validateWakeupConfig({ scheduleMode: 'custom', wakeOnReset: false }).errors)
+      .toEqual(['cronExpression: required when scheduleMode is "custom"'])
+    expect(validateWakeupConfig({ scheduleMode: 'interval', cronExpression: '0 * * * *' }).errors)
+      .toEqual(['cronExpression: only allowed when scheduleMode is "custom"'])
+  })
+
+  it('should validate weekly schedules', () => {
+    const { errors } = validateWakeupConfig({
+      scheduleMode: 'weekly',
+      wakeOnReset: false,
+      weeklySchedule: { 1: ['09:00'], 7: ['10:00'] }
+    })
+
+    expect(errors).toEqual(['weeklySchedule.7: day must be 0 (Sunday) to 6 (Saturday)'])
+  })
+
+  it('should validate the retry policy', () => {
+    const { errors } = validateWakeupConfig({ retryPolicy: { maxRetries: 1.5, delaySeconds: -1, backoff: 2 } })
+
+    expect(errors).toEqual([
+      'retryPolicy.delaySeconds: expected a number >= 0',
+      'retryPolicy.backoff: unknown field',
+      'retryPolicy.maxRetries: expected a whole number'
+    ])
+  })
+
+  it('should validate history retention', () => {
+    const { errors } = validateWakeupConfig({ historyRetention: { maxRecords: 0, maxAgeDays: 1.5, keep: true } })
+
+    expect(errors).toEqual([
+      'historyRetention.maxAgeDays: expected a whole number >= 0',
+      'historyRetention.keep: unknown field',
+      'historyRetention.maxRecords: expected at least 1'
+    ])
+  })
+
+  it('should validate account overrides against the merged config', () => {
+    const { errors } = validateWakeupConfig({
+      scheduleMode: 'interval',
+      intervalHours: 6,
+      accountOverrides: {
+        'a@example.com': { selectedModels: [], plan: 'free' },
+        'b@example.com': { scheduleMode: 'daily', dailyTimes: ['25:00'] },
+        'c@example.com': { dailyTimes: ['09:00'] },
+        'd@example.com': { scheduleMode: 'custom', cronExpression: '0 0 * * *', customPrompt: null }
+      }
+    })
+
+    expect(errors).toEqual([
+      'accountOverrides.a@example.com.plan: unknown field',
+      'accountOverrides.a@example.com.selectedModels: expected a non-empty list of model IDs',
+      'accountOverrides.b@example.com.dailyTimes[0]: "25:00" is not a valid HH:MM time (00:00-23:59)',
+      'accountOverrides.c@example.com: schedule fields require scheduleMode'
+    ])
+  })
+
+  it('should reject non-object documents', () => {
+    expect(validateWakeupConfig(['a']).errors).toEqual(['Config must be an object'])
+  })
+})
+
+describe('applyWakeupFlags', () => {
+  const base: WakeupConfig = { ...getDefaultConfig(), cronExpression: '0 * * * *', scheduleMode: 'custom' }
+
+  it('should infer the schedule mode and switch off reset mode', () => {
+    const { config, errors } = applyWakeupFlags(base, { dailyTimes: '09:00, 17:30', models: 'claude-sonnet-4-6' })
+
+    expect(errors).toEqual([])
+    expect(config).toMatchObject({
+      enabled: true,
+      scheduleMode: 'daily',
+      dailyTimes: ['09:00', '17:30'],
+      selectedModels: ['claude-sonnet-4-6'],
+      wakeOnReset: false
+    })
+    expect(config.cronExpression).toBeUndefined()
+  })
+
+  it('should keep the schedule when only toggling reset mode', () => {
+    const { config } = applyWakeupFlags(base, { resetMode: true, accounts: 'a@example.com,b@example.com' })
+
+    expect(config.scheduleMode).toBe('custom')
+    expect(config.wakeOnReset).toBe(true)
+    expect(config.selectedAccounts).toEqual(['a@example.com', 'b@example.com'])
+  })
+
+  it('should report invalid flag values', () => {
+    expect(applyWakeupFlags(base, { interval: '30' }).errors)
+      .toEqual(['intervalHours: expected a whole number of hours between 1 and 23'])
+    expect(applyWakeupFlags(base, { mode: 'daily', cron: '0 9 * * *' }).errors)
+      .toContain('--cron can only be used with --mode custom')
+  })
+
+  it('should build a weekly schedule', () => {
+    const { config, errors } = applyWakeupFlags(base, { weekly: 'mon,wed=09:00,17:30;fri=08:00' })
+
+    expect(errors).toEqual([])
+    expect(config.scheduleMode).toBe('weekly')
+    expect(config.weeklySchedule).toEqual({ 1: ['09:00', '17:30'], 3: ['09:00', '17:30'], 5: ['08:00'] })
+  })
+
+  it('should set retry options on top of the default policy', () => {
+    const { config, errors } = applyWakeupFlags({ ...base, retryPolicy: undefined }, { maxRetries: '0' })
+
+    expect(errors).toEqual([])
+    expect(config.retryPolicy).toEqual({ maxRetries: 0, delaySeconds: 60, jitterSeconds: 15, giveUpAfterMinutes: 15 })
+  })
+
+  it('should set history retention on top of the defaults', () => {
+    const { config, errors } = applyWakeupFlags({ ...base, historyRetention: undefined }, { historyMaxAge: '30' })
+
+    expect(errors).toEqual([])
+    expect(config.historyRetention).toEqual({ maxRecords: 100, maxAgeDays: 30 })
+  })
+
+  it('should detect whether any flag was passed', () => {
+    expect(hasWakeupFlags({})).toBe(false)
+    expect(hasWakeupFlags({ resetMode: false })).toBe(true)
+  })
+})
+
+describe('parseWeeklySchedule', () => {
+  it('should accept day names, numbers and repeated days', () => {
+    expect(parseWeeklySchedule('Sunday=10:00; 0=18:00; tue=07:00').schedule)
+      .toEqual({ 0: ['10:00', '18:00'], 2: ['07:00'] })
+  })
+
+  it('should report unknown days and missing times', () => {
+    expect(parseWeeklySchedule('month=09:00;fri').errors).toEqual([
+      '--weekly: "month" is not a day (sun-sat or 0-6)',
+      '--weekly: "fri" must look like DAYS=HH:MM[,HH:MM]'
+    ])
+  })
+})
+
+describe('config documents', () => {
+  const config: WakeupConfig = {
+    ...getDefaultConfig(),
+    enabled: true,
+    scheduleMode: 'weekly',
+    weeklySchedule: { 1: ['09:00'], 5: ['08:30', '17:00'] },
+    wakeOnReset: false,
+    customPrompt: 'hi'
+  }
+
+  it('should pick the format from the file extension', () => {
+    expect(getConfigFormat('wakeup.YML')).toBe('yaml')
+    expect(getConfigFormat('wakeup.json')).toBe('json')
+  })
+
+  it.each(['json', 'yaml'] as const)('should round-trip %s', (format) => {
+    const content = serializeWakeupConfig(config, format)
+    const { config: parsed, errors } = validateWakeupConfig(parseWakeupConfigDocument(content))
+
+    expect(errors).toEqual([])
+    expect(parsed).toEqual(config)
+  })
+
+  it('should treat YAML nulls as unset', () => {
+    const { config: parsed, errors } = validateWakeupConfig(parseWakeupConfigDocument('customPrompt: null\n'))
+
+    expect(errors).toEqual([])
+    expect(parsed.customPrompt).toBeUndefined()
+  })
+})
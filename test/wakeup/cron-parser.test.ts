@@ -0,0 +1,153 @@
+/**
+ * Tests for cron expression evaluation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  parseCronExpression,
+  isValidCronExpression,
+  getNextRun,
+  getPreviousRun,
+  getNextRunTimes,
+  getPreviousRunTime
+} from '../../src/wakeup/cron-parser.js'
+
+describe('Cron Parser', () => {
+  describe('parseCronExpression', () => {
+    it('should expand lists, ranges and steps', () => {
+      const schedule = parseCronExpression('*/20 9-11 * * 1,3-5')
+
+      expect([...schedule.minutes]).toEqual([0, 20, 40])
+      expect([...schedule.hours]).toEqual([9, 10, 11])
+      expect([...schedule.daysOfWeek]).toEqual([1, 3, 4, 5])
+    })
+
+    it('should treat weekday 7 as Sunday', () => {
+      expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0])
+    })
+
+    it('should resolve month and weekday names case-insensitively', () => {
+      const schedule = parseCronExpression('0 9 * jan,Jun-AUG MON-wed')
+
+      expect([...schedule.months]).toEqual([1, 6, 7, 8])
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3])
+    })
+
+    it('should expand macros', () => {
+      const schedule = parseCronExpression('@weekly')
+
+      expect([...schedule.minutes]).toEqual([0])
+      expect([...schedule.hours]).toEqual([0])
+      expect([...schedule.daysOfWeek]).toEqual([0])
+    })
+
+    it('should name the invalid field in errors', () => {
+      expect(() => parseCronExpression('0 25 * * *')).toThrow('Invalid hour field: Value "25" out of range 0-23')
+      expect(() => parseCronExpression('0 9 * FOO *')).toThrow('Invalid month field: Unknown name "FOO"')
+      expect(() => parseCronExpression('@reboot')).toThrow('Unknown macro "@reboot"')
+      expect(isValidCronExpression('0 9 * * MON')).toBe(true)
+    })
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('0 9 * *')).toThrow()
+      expect(() => parseCronExpression('60 9 * * *')).toThrow()
+      expect(() => parseCronExpression('0 9 * * */0')).toThrow()
+    })
+  })
+
+  describe('getNextRun', () => {
+    it('should return the next matching minute after the given time', () => {
+      const next = getNextRun(parseCronExpression('30 9 * * *'), new Date(2026, 0, 5, 9, 30))
+
+      expect(next).toEqual(new Date(2026, 0, 6, 9, 30))
+    })
+
+    it('should match either day field when both are restricted', () => {
+      // 2026-01-01 is a Thursday; next Monday is the 5th, before the 15th
+      const next = getNextRun(parseCronExpression('0 0 15 * 1'), new Date(2026, 0, 1))
+
+      expect(next).toEqual(new Date(2026, 0, 5))
+    })
+
+    it('should treat stepped day fields as unrestricted', () => {
+      // "*/2" days AND Monday: 2026-01-05 is a Monday on an odd day
+      const next = getNextRun(parseCronExpression('0 0 */2 * 1'), new Date(2026, 0, 1))
+
+      expect(next).toEqual(new Date(2026, 0, 5))
+    })
+
+    it('should return null for dates that never occur', () => {
+      expect(getNextRun(parseCronExpression('0 0 31 2 *'), new Date(2026, 0, 1))).toBeNull()
+    })
+  })
+
+  describe('getPreviousRun', () => {
+    it('should return the last matching minute before the given time', () => {
+      const schedule = parseCronExpression('30 9 * * MON')
+
+      expect(getPreviousRun(schedule, new Date(2026, 0, 5, 9, 30))).toEqual(new Date(2025, 11, 29, 9, 30))
+      expect(getPreviousRun(schedule, new Date(2026, 0, 5, 9, 30, 1))).toEqual(new Date(2026, 0, 5, 9, 30))
+    })
+
+    it('should cross month boundaries', () => {
+      expect(getPreviousRun(parseCronExpression('@monthly'), new Date(2026, 2, 15))).toEqual(new Date(2026, 2, 1))
+      expect(getPreviousRun(parseCronExpression('0 12 31 * *'), new Date(2026, 3, 15))).toEqual(new Date(2026, 2, 31, 12, 0))
+    })
+  })
+
+  describe('getPreviousRunTime', () => {
+    it('should use the latest of several expressions', () => {
+      expect(getPreviousRunTime(['0 9 * * *', '30 12 * * *'], new Date(2026, 0, 5, 10, 0)))
+        .toEqual(new Date(2026, 0, 5, 9, 0))
+    })
+  })
+
+  describe('getNextRunTimes', () => {
+    it('should merge several expressions in order', () => {
+      const runs = getNextRunTimes(['0 9 * * *', '30 12 * * *'], 3, new Date(2026, 0, 5, 10, 0))
+
+      expect(runs).toEqual([
+        new Date(2026, 0, 5, 12, 30),
+        new Date(2026, 0, 6, 9, 0),
+        new Date(2026, 0, 6, 12, 30)
+      ])
+    })
+  })
+
+  describe('daylight saving time', () => {
+    // America/New_York skips 02:00-02:59 on 2026-03-08 and repeats 01:00-01:59 on 2026-11-01
+    beforeEach(() => {
+      vi.stubEnv('TZ', 'America/New_York')
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should step back across a spring-forward gap', () => {
+      const schedule = parseCronExpression('0 9 * * *')
+
+      expect(getPreviousRun(schedule, new Date('2026-03-08T12:00:00Z'))).toEqual(new Date('2026-03-07T14:00:00Z'))
+      expect(getPreviousRun(parseCronExpression('0 1 * * *'), new Date('2026-03-08T08:00:00Z')))
+        .toEqual(new Date('2026-03-08T06:00:00Z'))
+    })
+
+    it('should run jobs inside the gap at the first minute after it', () => {
+      const schedule = parseCronExpression('30 2 * * *')
+      const afterGap = new Date('2026-03-08T07:00:00Z') // 03:00 EDT
+
+      expect(getNextRun(schedule, new Date('2026-03-08T05:00:00Z'))).toEqual(afterGap)
+      expect(getNextRun(schedule, afterGap)).toEqual(new Date('2026-03-09T06:30:00Z'))
+      expect(getPreviousRun(schedule, new Date('2026-03-08T12:00:00Z'))).toEqual(afterGap)
+      expect(getPreviousRun(schedule, afterGap)).toEqual(new Date('2026-03-07T07:30:00Z'))
+    })
+
+    it('should match repeated fall-back times on both occurrences', () => {
+      const runs = getNextRunTimes(['30 1 * * *'], 2, new Date('2026-11-01T04:00:00Z'))
+
+      expect(runs).toEqual([new Date('2026-11-01T05:30:00Z'), new Date('2026-11-01T06:30:00Z')])
+      expect(getPreviousRun(parseCronExpression('30 1 * * *'), new Date('2026-11-01T07:00:00Z')))
+        .toEqual(new Date('2026-11-01T06:30:00Z'))
+    })
+  })
+})
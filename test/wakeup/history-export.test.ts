@@ -0,0 +1,121 @@
+/**
+ * Tests for trigger history export
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { spawnSync } from 'node:child_process'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { tmpdir } from 'node:os'
+import {
+  formatTriggerRecords,
+  parseHistoryExportFormat,
+  HISTORY_EXPORT_COLUMNS
+} from '../../src/wakeup/history-export.js'
+import type { TriggerRecord } from '../../src/wakeup/types.js'
+
+const records: TriggerRecord[] = [
+  {
+    timestamp: '2026-02-01T10:00:00.000Z',
+    success: true,
+    triggerType: 'auto',
+    triggerSource: 'scheduled',
+    models: ['claude-sonnet-4-6', 'gemini-3-flash'],
+    accountEmail: 'a@example.com',
+    durationMs: 812,
+    prompt: 'hi',
+    tokensUsed: { prompt: 3, completion: 1, total: 4 },
+    runId: 'run-1',
+    attempt: 1
+  },
+  {
+    timestamp: '2026-02-01T10:01:00.000Z',
+    success: false,
+    triggerType: 'manual',
+    triggerSource: 'manual',
+    models: ['gemini-3-flash'],
+    accountEmail: 'b@example.com',
+    durationMs: 30000,
+    prompt: 'hi',
+    error: 'Request failed: "quota", retry later'
+  }
+]
+
+describe('History Export', () => {
+  it('should parse export formats', () => {
+    expect(parseHistoryExportFormat('CSV')).toBe('csv')
+    expect(parseHistoryExportFormat('ndjson')).toBe('ndjson')
+    expect(parseHistoryExportFormat('yaml')).toBeNull()
+  })
+
+  it('should render CSV with a header and escaped cells', () => {
+    const lines = formatTriggerRecords(records, 'csv').trimEnd().split('\n')
+
+    expect(lines[0]).toBe(HISTORY_EXPORT_COLUMNS.join(','))
+    expect(lines[1]).toBe('2026-02-01T10:00:00.000Z,a@example.com,scheduled,auto,claude-sonnet-4-6;gemini-3-flash,true,812,3,1,4,,run-1,1')
+    expect(lines[2]).toBe('2026-02-01T10:01:00.000Z,b@example.com,manual,manual,gemini-3-flash,false,30000,,,,"Request failed: ""quota"", retry later",,')
+  })
+
+  it('should render full records as NDJSON', () => {
+    const lines = formatTriggerRecords(records, 'ndjson').trimEnd().split('\n')
+
+    expect(lines.map(line => JSON.parse(line))).toEqual(records)
+  })
+
+  it('should render only a header for no records', () => {
+    expect(formatTriggerRecords([], 'csv')).toBe(HISTORY_EXPORT_COLUMNS.join(',') + '\n')
+    expect(formatTriggerRecords([], 'ndjson')).toBe('')
+  })
+})
+
+describe('wakeup history export (CLI)', () => {
+  const root = fileURLToPath(new URL('../..', import.meta.url))
+  const configHome = join(tmpdir(), 'antigravity-usage-history-export-cli-' + Date.now())
+  const day = 24 * 60 * 60 * 1000
+
+  function record(daysAgo: number, accountEmail: string, success: boolean): TriggerRecord {
+    return {
+      timestamp: new Date(Date.now() - daysAgo * day).toISOString(),
+      success,
+      triggerType: 'auto',
+      triggerSource: 'scheduled',
+      models: ['gemini-3-flash'],
+      accountEmail,
+      durationMs: 100,
+      prompt: 'hi'
+    }
+  }
+
+  // Runs the real entry point, so options are parsed exactly as on the command line
+  function exportHistory(...args: string[]): TriggerRecord[] {
+    const result = spawnSync(join(root, 'node_modules', '.bin', 'tsx'), [join(root, 'src', 'index.ts'), 'wakeup', 'history', 'export', '--format', 'ndjson', ...args], {
+      env: { ...process.env, XDG_CONFIG_HOME: configHome },
+      encoding: 'utf-8',
+      timeout: 60000
+    })
+    expect(result.status, result.stderr).toBe(0)
+    return result.stdout.trim().split('\n').filter(Boolean).map(line => JSON.parse(line))
+  }
+
+  beforeAll(() => {
+    const wakeupDir = join(configHome, 'antigravity-usage', 'wakeup')
+    mkdirSync(wakeupDir, { recursive: true })
+    writeFileSync(join(wakeupDir, 'history.json'), JSON.stringify([
+      record(1, 'a@x.com', true),
+      record(2, 'b@x.com', false),
+      record(48, 'a@x.com', true)
+    ]))
+  })
+
+  afterAll(() => {
+    rmSync(configHome, { recursive: true, force: true })
+  })
+
+  it('should apply --since, --account and --failed given after export', () => {
+    expect(exportHistory()).toHaveLength(3)
+    expect(exportHistory('--since', '10d')).toHaveLength(2)
+    expect(exportHistory('--account', 'b@x.com').map(r => r.accountEmail)).toEqual(['b@x.com'])
+    expect(exportHistory('--failed').map(r => r.success)).toEqual([false])
+  }, 120000)
+})
@@ -3,9 +3,42 @@
  */
 
 import { describe, it, expect, vi } from 'vitest'
+import { existsSync, mkdirSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
 import type { ModelQuotaInfo, QuotaSnapshot } from '../../src/quota/types.js'
-import type { WakeupState } from '../../src/wakeup/types.js'
-import { isModelUnused, findUnusedModels, hasUnusedModels } from '../../src/wakeup/reset-detector.js'
+import { getDefaultConfig, type WakeupState } from '../../src/wakeup/types.js'
+
+const testDir = join(tmpdir(), 'antigravity-usage-reset-detector-test-' + Date.now())
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => testDir,
+  getAccountsDir: () => join(testDir, 'accounts'),
+  getAccountDir: (email: string) => join(testDir, 'accounts', email),
+  getGlobalConfigPath: () => join(testDir, 'config.json'),
+  getTokensPath: () => join(testDir, 'tokens.json')
+}))
+
+vi.mock('../../src/google/oauth.js', () => ({
+  refreshAccessToken: vi.fn(async () => { throw new Error('Token refresh failed: 400 invalid_grant') }),
+  extractProjectId: () => undefined
+}))
+
+vi.mock('../../src/alerts/index.js', () => ({
+  processAccountFailureAlerts: vi.fn(async () => []),
+  processSnapshotAlerts: vi.fn(async () => [])
+}))
+
+import {
+  isModelUnused,
+  evaluateModel,
+  evaluateSelectedModels,
+  findUnusedModels,
+  hasUnusedModels,
+  planResetTriggers
+} from '../../src/wakeup/reset-detector.js'
+import { processAccountFailureAlerts } from '../../src/alerts/index.js'
+import { saveAccountTokens, loadAccountTokens, saveAccountMetadata, loadAccountMetadata } from '../../src/accounts/storage.js'
 
 // Helper to create model info with specified values
 function createModelInfo(overrides: Partial<ModelQuotaInfo> = {}): ModelQuotaInfo {
@@ -145,6 +178,47 @@ describe('Smart Reset Detector', () => {
     })
   })
 
+  describe('evaluateModel', () => {
+    it('should explain why a model is triggered', () => {
+      const model = createModelInfo({ resetTime: '2026-02-24T20:00:00Z' })
+
+      expect(evaluateModel(model, null)).toEqual({ modelId: 'test-model', trigger: true, reason: 'No previous state (first run)' })
+      expect(evaluateModel(model, { 'test-model': '2026-02-23T20:00:00Z' })).toEqual({
+        modelId: 'test-model',
+        trigger: true,
+        reason: 'Reset time changed (old: 2026-02-23T20:00:00Z, new: 2026-02-24T20:00:00Z)'
+      })
+    })
+
+    it('should explain why a model is skipped', () => {
+      const model = createModelInfo()
+
+      expect(evaluateModel(createModelInfo({ remainingPercentage: 0.42 }), null).reason).toBe('Not full (42% remaining)')
+      expect(evaluateModel(model, createWakeupState([model]))).toEqual({
+        modelId: 'test-model',
+        trigger: false,
+        reason: 'Reset time unchanged (2026-02-23T20:00:00Z)'
+      })
+    })
+  })
+
+  describe('evaluateSelectedModels', () => {
+    it('should evaluate each selected model once and report missing ones', () => {
+      const snapshot = createSnapshot([
+        createModelInfo({ modelId: 'model-a' }),
+        createModelInfo({ modelId: 'model-b', remainingPercentage: 0.5 })
+      ])
+
+      const evaluations = evaluateSelectedModels(snapshot, ['model-a', 'model-b', 'model-a', 'model-c'], null)
+
+      expect(evaluations.map(e => [e.modelId, e.trigger, e.reason])).toEqual([
+        ['model-a', true, 'No previous state (first run)'],
+        ['model-b', false, 'Not full (50% remaining)'],
+        ['model-c', false, 'Not in quota response']
+      ])
+    })
+  })
+
   describe('findUnusedModels', () => {
     it('should return empty array when no models are unused (either used or same resetTime)', () => {
       const previousState = createWakeupState([
@@ -241,4 +315,33 @@ describe('Smart Reset Detector', () => {
       expect(hasUnusedModels(snapshot, null)).toBe(true)
     })
   })
+
+  describe('planResetTriggers', () => {
+    it('should not write anything or fire alerts when a dry-run fetch fails', async () => {
+      mkdirSync(join(testDir, 'accounts'), { recursive: true })
+      const tokens = { accessToken: 'old', refreshToken: 'revoked', expiresAt: Date.now() - 60_000, email: 'me@example.com' }
+      saveAccountTokens('me@example.com', tokens)
+      saveAccountMetadata('me@example.com', { email: 'me@example.com', addedAt: '', lastUsed: '' })
+
+      try {
+        const plan = await planResetTriggers({
+          ...getDefaultConfig(),
+          enabled: true,
+          wakeOnReset: true,
+          selectedModels: ['gemini-3-flash'],
+          selectedAccounts: ['me@example.com']
+        })
+
+        expect(plan.accounts).toHaveLength(1)
+        expect(plan.accounts[0].error).toBeDefined()
+        expect(processAccountFailureAlerts).not.toHaveBeenCalled()
+        expect(loadAccountMetadata('me@example.com')).toEqual({ email: 'me@example.com', addedAt: '', lastUsed: '' })
+        expect(loadAccountTokens('me@example.com')).toEqual(tokens)
+      } finally {
+        if (existsSync(testDir)) {
+          rmSync(testDir, { recursive: true, force: true })
+        }
+      }
+    })
+  })
 })
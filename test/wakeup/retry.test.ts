@@ -0,0 +1,106 @@
+/**
+ * Tests for trigger retry policy
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  executeTriggersWithRetry,
+  getRetryDelayMs,
+  resolveRetryPolicy
+} from '../../src/wakeup/retry.js'
+import type { RetryPolicy, TriggerOptions, TriggerResult } from '../../src/wakeup/types.js'
+
+const policy: RetryPolicy = { maxRetries: 2, delaySeconds: 10, jitterSeconds: 4, giveUpAfterMinutes: 5 }
+
+function target(accountEmail: string, models: string[]): TriggerOptions {
+  return { models, accountEmail, triggerType: 'auto', triggerSource: 'scheduled' }
+}
+
+/**
+ * Fake executeTrigger: each call pops the next set of failing models
+ */
+function fakeExecute(failures: Record<string, string[][]>) {
+  return vi.fn(async (options: TriggerOptions): Promise<TriggerResult> => {
+    const failing = failures[options.accountEmail]?.shift() ?? []
+    const results = options.models.map(modelId => ({
+      modelId,
+      success: !failing.includes(modelId),
+      durationMs: 1,
+      error: failing.includes(modelId) ? 'capacity exhausted' : undefined
+    }))
+    return { success: results.every(r => r.success), results }
+  })
+}
+
+function deps(execute: ReturnType<typeof fakeExecute>, now = () => 0) {
+  return { execute, sleep: vi.fn().mockResolvedValue(undefined), now, random: () => 0.5, log: () => {} }
+}
+
+describe('Retry Policy', () => {
+  it('should fill missing fields from the defaults', () => {
+    expect(resolveRetryPolicy({ maxRetries: 5 })).toMatchObject({ maxRetries: 5, delaySeconds: 60 })
+    expect(resolveRetryPolicy(undefined).maxRetries).toBe(0)
+  })
+
+  it('should back off exponentially with jitter', () => {
+    expect(getRetryDelayMs(policy, 1, () => 0)).toBe(10_000)
+    expect(getRetryDelayMs(policy, 2, () => 0)).toBe(20_000)
+    expect(getRetryDelayMs(policy, 3, () => 0.5)).toBe(42_000)
+  })
+
+  it('should retry only failed models with linked attempts', async () => {
+    const execute = fakeExecute({
+      'a@example.com': [['claude'], []],
+      'b@example.com': [[]]
+    })
+    const d = deps(execute)
+
+    const attempts = await executeTriggersWithRetry(
+      [target('a@example.com', ['claude', 'gemini']), target('b@example.com', ['claude'])],
+      policy,
+      d
+    )
+
+    expect(execute).toHaveBeenCalledTimes(3)
+    const retry = execute.mock.calls[2][0]
+    expect(retry).toMatchObject({ accountEmail: 'a@example.com', models: ['claude'], attempt: 2 })
+    expect(retry.runId).toBe(execute.mock.calls[0][0].runId)
+    expect(retry.runId).not.toBe(execute.mock.calls[1][0].runId)
+    expect(d.sleep).toHaveBeenCalledWith(12_000)
+    expect(attempts.every(attempt => attempt.result.success)).toBe(true)
+    expect(attempts[0].result.results.map(r => r.modelId)).toEqual(['claude', 'gemini'])
+  })
+
+  it('should stop after maxRetries', async () => {
+    const execute = fakeExecute({ 'a@example.com': [['claude'], ['claude'], ['claude'], ['claude']] })
+
+    const [attempt] = await executeTriggersWithRetry([target('a@example.com', ['claude'])], policy, deps(execute))
+
+    expect(execute).toHaveBeenCalledTimes(3)
+    expect(execute.mock.calls.map(([options]) => options.attempt)).toEqual([1, 2, 3])
+    expect(attempt.result.success).toBe(false)
+  })
+
+  it('should give up when the next retry would miss the window', async () => {
+    const execute = fakeExecute({ 'a@example.com': [['claude'], ['claude']] })
+    let time = 0
+    const d = deps(execute, () => time)
+    d.sleep.mockImplementation(async (ms: number) => { time += ms + 270_000 })
+
+    await executeTriggersWithRetry([target('a@example.com', ['claude'])], policy, d)
+
+    // First retry at 12s plus 4.5m of slow requests; the second would start past 5m
+    expect(execute).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry failures marked as not retryable', async () => {
+    const execute = vi.fn(async (options: TriggerOptions): Promise<TriggerResult> => ({
+      success: false,
+      results: options.models.map(modelId => ({ modelId, success: false, durationMs: 0, error: 'bad token', retryable: false }))
+    }))
+
+    await executeTriggersWithRetry([target('a@example.com', ['claude'])], policy, deps(execute as never))
+
+    expect(execute).toHaveBeenCalledTimes(1)
+  })
+})
@@ -5,6 +5,10 @@
 import { describe, it, expect } from 'vitest'
 import {
   configToCronExpression,
+  configToCronExpressions,
+  getSchedulePreview,
+  getTriggerCronExpressions,
+  isScheduleDue,
   validateCronExpression,
   getScheduleDescription,
   getNextRunEstimate
@@ -140,6 +144,92 @@ describe('Schedule Converter', () => {
     })
   })
 
+  describe('configToCronExpressions', () => {
+    it('should split daily times with different minutes into separate entries', () => {
+      const config: WakeupConfig = {
+        ...getDefaultConfig(),
+        scheduleMode: 'daily',
+        dailyTimes: ['18:00', '09:00', '12:30']
+      }
+
+      expect(configToCronExpressions(config)).toEqual(['0 9,18 * * *', '30 12 * * *'])
+    })
+
+    it('should share weekly entries between days with identical times', () => {
+      const config: WakeupConfig = {
+        ...getDefaultConfig(),
+        scheduleMode: 'weekly',
+        weeklySchedule: { 5: ['08:00'], 1: ['09:00', '17:30'], 3: ['09:00', '17:30'] }
+      }
+
+      expect(configToCronExpressions(config)).toEqual([
+        '0 9 * * 1,3',
+        '30 17 * * 1,3',
+        '0 8 * * 5'
+      ])
+    })
+  })
+
+  describe('getTriggerCronExpressions', () => {
+    const base: WakeupConfig = {
+      ...getDefaultConfig(),
+      scheduleMode: 'daily',
+      dailyTimes: ['09:00'],
+      accountOverrides: {
+        'tokyo@example.com': { scheduleMode: 'daily', dailyTimes: ['00:00'] },
+        'free@example.com': { selectedModels: ['gemini-3-flash'] }
+      }
+    }
+
+    it('should check hourly in quota-reset mode', () => {
+      expect(getTriggerCronExpressions({ ...base, wakeOnReset: true })).toEqual(['0 */1 * * *'])
+    })
+
+    it('should combine the global schedule with account schedules', () => {
+      expect(getTriggerCronExpressions(base)).toEqual(['0 9 * * *', '0 0 * * *'])
+    })
+
+    it('should drop the global schedule when every selected account has its own', () => {
+      expect(getTriggerCronExpressions({ ...base, selectedAccounts: ['tokyo@example.com'] })).toEqual(['0 0 * * *'])
+      expect(getTriggerCronExpressions({ ...base, selectedAccounts: ['free@example.com'] })).toEqual(['0 9 * * *'])
+    })
+  })
+
+  describe('isScheduleDue', () => {
+    it('should be due shortly after a fire time', () => {
+      expect(isScheduleDue(['0 9 * * *'], new Date(2026, 0, 5, 9, 0, 0))).toBe(true)
+      expect(isScheduleDue(['0 9 * * *'], new Date(2026, 0, 5, 9, 0, 30))).toBe(true)
+      expect(isScheduleDue(['0 9 * * *', '0 0 * * *'], new Date(2026, 0, 5, 0, 4))).toBe(true)
+    })
+
+    it('should not be due long after or before a fire time', () => {
+      expect(isScheduleDue(['0 9 * * *'], new Date(2026, 0, 5, 9, 10))).toBe(false)
+      expect(isScheduleDue(['0 9 * * *'], new Date(2026, 0, 5, 8, 59))).toBe(false)
+    })
+  })
+
+  describe('getSchedulePreview', () => {
+    it('should list the next fire times across all entries', () => {
+      const config: WakeupConfig = {
+        ...getDefaultConfig(),
+        enabled: true,
+        scheduleMode: 'weekly',
+        weeklySchedule: { 1: ['09:00', '17:30'], 5: ['08:00'] }
+      }
+      // Sunday 2026-01-04 12:00 local time
+      const from = new Date(2026, 0, 4, 12, 0)
+
+      const runs = getSchedulePreview(config, 4, from)
+
+      expect(runs.map(run => [run.getDate(), run.getHours(), run.getMinutes()])).toEqual([
+        [5, 9, 0],
+        [5, 17, 30],
+        [9, 8, 0],
+        [12, 9, 0]
+      ])
+    })
+  })
+
   describe('validateCronExpression', () => {
     it('should validate correct cron expressions', () => {
       expect(validateCronExpression('0 */6 * * *')).toBe(true)
@@ -148,7 +238,15 @@ describe('Schedule Converter', () => {
       expect(validateCronExpression('*/15 * * * *')).toBe(true)
     })
 
+    it('should accept names and macros', () => {
+      expect(validateCronExpression('0 9 * JAN-MAR MON-FRI')).toBe(true)
+      expect(validateCronExpression('@daily')).toBe(true)
+    })
+
     it('should reject invalid cron expressions', () => {
+      expect(validateCronExpression('61 * * * *')).toBe(false) // Minute out of range
+      expect(validateCronExpression('0 9 * * 1--3')).toBe(false)
+      expect(validateCronExpression('@reboot')).toBe(false)
       expect(validateCronExpression('0 */6 * *')).toBe(false) // Only 4 fields
       expect(validateCronExpression('0 */6 * * * *')).toBe(false) // 6 fields
       expect(validateCronExpression('')).toBe(false)
@@ -207,25 +305,44 @@ describe('Schedule Converter', () => {
 
       expect(getScheduleDescription(config)).toBe('Daily at 09:00, 18:00')
     })
+
+    it('should describe weekly mode with times per day', () => {
+      const config: WakeupConfig = {
+        ...getDefaultConfig(),
+        enabled: true,
+        scheduleMode: 'weekly',
+        weeklySchedule: { 5: ['08:00'], 1: ['09:00', '17:30'] }
+      }
+
+      expect(getScheduleDescription(config)).toBe('Weekly on Mon 09:00, 17:30; Fri 08:00')
+    })
   })
 
   describe('getNextRunEstimate', () => {
-    it('should describe interval-based schedules', () => {
-      expect(getNextRunEstimate('0 */6 * * *')).toBe('Every 6 hours')
-      expect(getNextRunEstimate('0 */1 * * *')).toBe('Every 1 hour')
+    // Monday 2026-01-05 10:15 local time
+    const now = new Date(2026, 0, 5, 10, 15)
+
+    it('should give the exact next run of interval schedules', () => {
+      expect(getNextRunEstimate('0 */6 * * *', now)).toBe('Today at 12:00')
+      expect(getNextRunEstimate('0 */1 * * *', now)).toBe('Today at 11:00')
+    })
+
+    it('should roll daily schedules over to tomorrow', () => {
+      expect(getNextRunEstimate('0 9 * * *', now)).toBe('Tomorrow at 09:00')
     })
 
-    it('should describe daily schedules', () => {
-      expect(getNextRunEstimate('0 9 * * *')).toContain('Daily at')
+    it('should name the day for weekly schedules', () => {
+      expect(getNextRunEstimate('0 9 * * 3,5', now)).toBe('Wed, Jan 7 at 09:00')
     })
 
-    it('should describe weekly schedules', () => {
-      const estimate = getNextRunEstimate('0 9 * * 1,3,5')
-      expect(estimate).toContain('Mon')
+    it('should use the earliest of several expressions', () => {
+      expect(getNextRunEstimate(['0 9 * * *', '30 17 * * *'], now)).toBe('Today at 17:30')
     })
 
-    it('should return expression for invalid cron', () => {
+    it('should report invalid and impossible expressions', () => {
       expect(getNextRunEstimate('invalid')).toBe('Invalid cron')
+      expect(getNextRunEstimate('0 9 * * 8')).toBe('Invalid cron')
+      expect(getNextRunEstimate('0 0 30 2 *', now)).toBe('Never')
     })
   })
 })
@@ -0,0 +1,145 @@
+/**
+ * Tests for the built-in wake-up scheduler
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+
+vi.mock('../../src/core/env.js', () => ({
+  getConfigDir: () => '/tmp/antigravity-usage-scheduler-test'
+}))
+
+import { planSchedulerRun, startScheduler } from '../../src/wakeup/scheduler.js'
+import {
+  acquireSchedulerLock,
+  releaseSchedulerLock,
+  getSchedulerPid,
+  loadSchedulerState,
+  saveSchedulerState
+} from '../../src/wakeup/storage.js'
+import { getDefaultConfig, type WakeupConfig } from '../../src/wakeup/types.js'
+
+const testDir = '/tmp/antigravity-usage-scheduler-test'
+
+const config: WakeupConfig = {
+  ...getDefaultConfig(),
+  enabled: true,
+  scheduleMode: 'daily',
+  dailyTimes: ['09:00', '18:00']
+}
+
+describe('Wake-up Scheduler', () => {
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('planSchedulerRun', () => {
+    const expressions = ['0 9,18 * * *']
+
+    it('should run a fire time reached on time', () => {
+      const decision = planSchedulerRun(expressions, new Date(2026, 0, 5, 8, 59), new Date(2026, 0, 5, 9, 0, 5), 'skip')
+
+      expect(decision).toEqual({ run: true, due: [new Date(2026, 0, 5, 9, 0)], missed: 0 })
+    })
+
+    it('should do nothing when no fire time passed', () => {
+      const decision = planSchedulerRun(expressions, new Date(2026, 0, 5, 9, 1), new Date(2026, 0, 5, 9, 2), 'once')
+
+      expect(decision.run).toBe(false)
+      expect(decision.due).toEqual([])
+    })
+
+    it('should apply the catch-up policy to missed runs', () => {
+      const since = new Date(2026, 0, 5, 8, 0)
+      const now = new Date(2026, 0, 6, 8, 0)
+
+      expect(planSchedulerRun(expressions, since, now, 'once')).toMatchObject({ run: true, missed: 2 })
+      expect(planSchedulerRun(expressions, since, now, 'skip')).toMatchObject({ run: false, missed: 2 })
+    })
+  })
+
+  describe('startScheduler', () => {
+    it('should trigger at the next fire time and save its progress on stop', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2026, 0, 5, 8, 59, 30))
+      const runTrigger = vi.fn().mockResolvedValue(undefined)
+
+      const scheduler = startScheduler({ catchUp: 'skip', runTrigger, loadConfig: () => config, log: () => {} })
+      await vi.advanceTimersByTimeAsync(20_000)
+      expect(runTrigger).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(15_000)
+      expect(runTrigger).toHaveBeenCalledTimes(1)
+
+      await scheduler.stop()
+      expect(loadSchedulerState()?.lastCheckedAt).toBe(new Date(2026, 0, 5, 9, 0).toISOString())
+    })
+
+    it('should catch up once on runs missed while stopped', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2026, 0, 6, 8, 0))
+      saveSchedulerState({ lastCheckedAt: new Date(2026, 0, 4, 12, 0).toISOString() })
+      const runTrigger = vi.fn().mockResolvedValue(undefined)
+      const log = vi.fn()
+
+      const scheduler = startScheduler({ catchUp: 'once', runTrigger, loadConfig: () => config, log })
+      await vi.advanceTimersByTimeAsync(0)
+      await scheduler.stop()
+
+      expect(runTrigger).toHaveBeenCalledTimes(1)
+      expect(runTrigger).toHaveBeenCalledWith(new Date(2026, 0, 4, 12, 0))
+      expect(log).toHaveBeenCalledWith('Catching up on 3 missed runs')
+    })
+
+    it('should not trigger when wake-up is disabled', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2026, 0, 5, 8, 59, 30))
+      const runTrigger = vi.fn().mockResolvedValue(undefined)
+
+      const scheduler = startScheduler({
+        catchUp: 'once',
+        runTrigger,
+        loadConfig: () => ({ ...config, enabled: false }),
+        log: () => {}
+      })
+      await vi.advanceTimersByTimeAsync(5 * 60_000)
+      await scheduler.stop()
+
+      expect(runTrigger).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('scheduler lock', () => {
+    it('should allow only one holder', () => {
+      expect(acquireSchedulerLock()).toEqual({ acquired: true, pid: process.pid })
+      expect(acquireSchedulerLock(process.pid + 1)).toEqual({ acquired: false, pid: process.pid })
+      expect(getSchedulerPid()).toBe(process.pid)
+
+      releaseSchedulerLock()
+      expect(getSchedulerPid()).toBeNull()
+    })
+
+    it('should take over a lock left by a dead process', () => {
+      fs.mkdirSync(`${testDir}/wakeup`, { recursive: true })
+      // PIDs are capped well below this on Linux and macOS
+      fs.writeFileSync(`${testDir}/wakeup/scheduler.lock`, '999999999')
+
+      expect(acquireSchedulerLock()).toEqual({ acquired: true, pid: process.pid })
+      releaseSchedulerLock()
+    })
+
+    it('should write the PID before the lock appears and clean up its temp file', () => {
+      expect(acquireSchedulerLock()).toEqual({ acquired: true, pid: process.pid })
+      expect(acquireSchedulerLock(process.pid + 1).acquired).toBe(false)
+
+      expect(fs.readFileSync(`${testDir}/wakeup/scheduler.lock`, 'utf-8')).toBe(String(process.pid))
+      expect(fs.readdirSync(`${testDir}/wakeup`).filter(name => name.endsWith('.tmp'))).toEqual([])
+      releaseSchedulerLock()
+    })
+  })
+})
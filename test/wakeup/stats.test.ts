@@ -0,0 +1,98 @@
+/**
+ * Tests for wake-up history analytics
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeTriggerStats, percentile } from '../../src/wakeup/stats.js'
+import type { TriggerRecord } from '../../src/wakeup/types.js'
+
+function record(overrides: Partial<TriggerRecord>): TriggerRecord {
+  return {
+    timestamp: '2026-01-10T09:00:00.000Z',
+    success: true,
+    triggerType: 'auto',
+    triggerSource: 'scheduled',
+    models: ['claude-sonnet-4-5'],
+    accountEmail: 'a@example.com',
+    durationMs: 1000,
+    prompt: 'hi',
+    ...overrides
+  }
+}
+
+// Newest first, like trigger history
+const history: TriggerRecord[] = [
+  record({ timestamp: '2026-01-10T12:00:00.000Z', success: false, error: 'timeout', durationMs: 5000 }),
+  record({ timestamp: '2026-01-10T11:00:00.000Z', success: false, error: 'timeout', durationMs: 4000 }),
+  record({ timestamp: '2026-01-10T10:00:00.000Z', success: false, error: 'quota exceeded', accountEmail: 'b@example.com' }),
+  record({ timestamp: '2026-01-10T09:00:00.000Z', durationMs: 800, tokensUsed: { prompt: 5, completion: 10, total: 15 } }),
+  record({ timestamp: '2026-01-09T09:00:00.000Z', models: ['gemini-3-pro'], triggerSource: 'manual', durationMs: 1200, tokensUsed: { prompt: 5, completion: 5, total: 10 } }),
+  record({ timestamp: '2026-01-01T09:00:00.000Z', success: false, error: 'old failure' })
+]
+
+describe('Trigger Stats', () => {
+  it('should compute nearest-rank percentiles', () => {
+    expect(percentile([], 50)).toBeNull()
+    expect(percentile([10], 95)).toBe(10)
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2)
+    expect(percentile(Array.from({ length: 20 }, (_, i) => i + 1), 95)).toBe(19)
+  })
+
+  it('should aggregate overall stats within the window', () => {
+    const report = computeTriggerStats(history, { since: new Date('2026-01-05T00:00:00.000Z') })
+    const { overall } = report
+
+    expect(overall.total).toBe(5)
+    expect(overall.success).toBe(2)
+    expect(overall.failure).toBe(3)
+    expect(overall.successRate).toBeCloseTo(0.4)
+    expect(overall.medianDurationMs).toBe(1200)
+    expect(overall.p95DurationMs).toBe(5000)
+    expect(overall.tokensUsed).toBe(25)
+    expect(overall.failureStreak).toBe(3)
+    expect(overall.lastTriggerAt).toBe('2026-01-10T12:00:00.000Z')
+    expect(overall.topErrors).toEqual([
+      { error: 'timeout', count: 2 },
+      { error: 'quota exceeded', count: 1 }
+    ])
+  })
+
+  it('should apply the until bound and account filter', () => {
+    const report = computeTriggerStats(history, {
+      until: new Date('2026-01-10T10:30:00.000Z'),
+      account: 'a@example.com'
+    })
+
+    expect(report.overall.total).toBe(3)
+    expect(report.overall.failureStreak).toBe(0)
+    expect(report.until).toBe('2026-01-10T10:30:00.000Z')
+  })
+
+  it('should break down by account, model and source', () => {
+    const report = computeTriggerStats(history, { since: new Date('2026-01-05T00:00:00.000Z') })
+
+    expect(report.byAccount.map(s => [s.key, s.total, s.failureStreak])).toEqual([
+      ['a@example.com', 4, 2],
+      ['b@example.com', 1, 1]
+    ])
+    expect(report.byModel.map(s => [s.key, s.total])).toEqual([
+      ['claude-sonnet-4-5', 4],
+      ['gemini-3-pro', 1]
+    ])
+    expect(report.bySource.find(s => s.key === 'manual')).toMatchObject({ total: 1, successRate: 1, failureStreak: 0 })
+  })
+
+  it('should report empty stats when nothing matches', () => {
+    const report = computeTriggerStats(history, { since: new Date('2027-01-01T00:00:00.000Z') })
+
+    expect(report.overall).toMatchObject({
+      total: 0,
+      successRate: 0,
+      medianDurationMs: null,
+      p95DurationMs: null,
+      failureStreak: 0,
+      topErrors: []
+    })
+    expect(report.byAccount).toEqual([])
+  })
+})
@@ -13,7 +13,11 @@ import {
   addTriggerRecord,
   getRecentHistory,
   getLastTrigger,
-  clearTriggerHistory
+  clearTriggerHistory,
+  loadTriggerCounters,
+  queryTriggerHistory,
+  listHistoryArchives,
+  pruneHistoryArchives
 } from '../../src/wakeup/storage.js'
 import { getDefaultConfig, type TriggerRecord, type WakeupConfig } from '../../src/wakeup/types.js'
 
@@ -73,6 +77,13 @@ describe('Wakeup Storage', () => {
       const loaded = loadWakeupConfig()
       expect(loaded).not.toBeNull()
     })
+
+    it('should migrate configs without models to the default models', () => {
+      saveWakeupConfig({ ...getDefaultConfig(), selectedModels: [] })
+
+      expect(getOrCreateConfig().selectedModels).toEqual(getDefaultConfig().selectedModels)
+      expect(loadWakeupConfig()!.selectedModels).toEqual(getDefaultConfig().selectedModels)
+    })
   })
 
   describe('History Operations', () => {
@@ -124,8 +135,12 @@ describe('Wakeup Storage', () => {
         prompt: 'hi'
       }
 
+      // Keep both records inside the default retention age
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-01-03T00:00:00Z'))
       addTriggerRecord(record1)
       addTriggerRecord(record2)
+      vi.useRealTimers()
 
       const history = loadTriggerHistory()
       expect(history.length).toBe(2)
@@ -189,4 +204,156 @@ describe('Wakeup Storage', () => {
       expect(loadTriggerHistory().length).toBe(0)
     })
   })
+
+  describe('History Retention', () => {
+    function record(timestamp: string, overrides: Partial<TriggerRecord> = {}): TriggerRecord {
+      return {
+        timestamp,
+        success: true,
+        triggerType: 'auto',
+        triggerSource: 'scheduled',
+        models: ['model-a'],
+        accountEmail: 'test@example.com',
+        durationMs: 100,
+        prompt: 'hi',
+        ...overrides
+      }
+    }
+
+    beforeEach(() => {
+      saveWakeupConfig({ ...getDefaultConfig(), historyRetention: { maxRecords: 2, maxAgeDays: 0 } })
+    })
+
+    it('should rotate records beyond maxRecords into monthly archives', () => {
+      addTriggerRecord(record('2026-01-30T10:00:00.000Z'))
+      addTriggerRecord(record('2026-02-01T10:00:00.000Z'))
+      addTriggerRecord(record('2026-02-02T10:00:00.000Z'))
+      addTriggerRecord(record('2026-02-03T10:00:00.000Z'))
+
+      expect(loadTriggerHistory().map(r => r.timestamp)).toEqual([
+        '2026-02-03T10:00:00.000Z',
+        '2026-02-02T10:00:00.000Z'
+      ])
+      expect(listHistoryArchives()).toEqual(['2026-01', '2026-02'])
+
+      const archive = fs.readFileSync(path.join(testDir, 'history', 'history-2026-02.ndjson'), 'utf-8')
+      expect(archive.trim().split('\n').map(line => JSON.parse(line).timestamp)).toEqual(['2026-02-01T10:00:00.000Z'])
+    })
+
+    it('should query the live file and archives, newest first', () => {
+      addTriggerRecord(record('2026-01-30T10:00:00.000Z', { success: false, error: 'boom' }))
+      addTriggerRecord(record('2026-02-01T10:00:00.000Z', { models: ['model-b'] }))
+      addTriggerRecord(record('2026-02-02T10:00:00.000Z', { accountEmail: 'other@example.com' }))
+      addTriggerRecord(record('2026-02-03T10:00:00.000Z'))
+
+      expect(queryTriggerHistory().map(r => r.timestamp)).toEqual([
+        '2026-02-03T10:00:00.000Z',
+        '2026-02-02T10:00:00.000Z',
+        '2026-02-01T10:00:00.000Z',
+        '2026-01-30T10:00:00.000Z'
+      ])
+      expect(queryTriggerHistory({ limit: 3 }).length).toBe(3)
+      expect(queryTriggerHistory({ failed: true }).map(r => r.error)).toEqual(['boom'])
+      expect(queryTriggerHistory({ model: 'B' }).map(r => r.timestamp)).toEqual(['2026-02-01T10:00:00.000Z'])
+      expect(queryTriggerHistory({ account: 'other@example.com' }).length).toBe(1)
+      expect(queryTriggerHistory({
+        since: new Date('2026-02-01T00:00:00.000Z'),
+        until: new Date('2026-02-02T12:00:00.000Z')
+      }).map(r => r.timestamp)).toEqual(['2026-02-02T10:00:00.000Z', '2026-02-01T10:00:00.000Z'])
+    })
+
+    it('should delete archives older than maxAgeDays', () => {
+      saveWakeupConfig({ ...getDefaultConfig(), historyRetention: { maxRecords: 1, maxAgeDays: 0 } })
+      addTriggerRecord(record('2025-11-15T10:00:00.000Z'))
+      addTriggerRecord(record('2026-01-15T10:00:00.000Z'))
+      addTriggerRecord(record('2026-03-01T10:00:00.000Z'))
+
+      expect(listHistoryArchives()).toEqual(['2025-11', '2026-01'])
+      expect(pruneHistoryArchives(0)).toEqual([])
+
+      const removed = pruneHistoryArchives(30, new Date('2026-03-01T12:00:00.000Z'))
+      expect(removed).toEqual(['2025-11'])
+      expect(listHistoryArchives()).toEqual(['2026-01'])
+    })
+
+    it('should rotate records older than maxAgeDays before the count limit is reached', () => {
+      saveWakeupConfig({ ...getDefaultConfig(), historyRetention: { maxRecords: 100, maxAgeDays: 30 } })
+      vi.useFakeTimers({ toFake: ['Date'] })
+
+      vi.setSystemTime(new Date('2026-01-10T12:00:00.000Z'))
+      addTriggerRecord(record('2026-01-10T10:00:00.000Z'))
+      vi.setSystemTime(new Date('2026-02-20T12:00:00.000Z'))
+      addTriggerRecord(record('2026-02-20T10:00:00.000Z'))
+
+      expect(loadTriggerHistory().map(r => r.timestamp)).toEqual(['2026-02-20T10:00:00.000Z'])
+      expect(listHistoryArchives()).toEqual(['2026-01'])
+
+      // The archived month expires on a later add, without anything rotating
+      vi.setSystemTime(new Date('2026-03-05T12:00:00.000Z'))
+      addTriggerRecord(record('2026-03-05T10:00:00.000Z'))
+      vi.useRealTimers()
+
+      expect(loadTriggerHistory().length).toBe(2)
+      expect(listHistoryArchives()).toEqual([])
+    })
+
+    it('should clear archives with the history', () => {
+      for (const day of ['01', '02', '03']) {
+        addTriggerRecord(record(`2026-02-${day}T10:00:00.000Z`))
+      }
+      expect(listHistoryArchives().length).toBe(1)
+
+      clearTriggerHistory()
+
+      expect(listHistoryArchives()).toEqual([])
+      expect(queryTriggerHistory()).toEqual([])
+    })
+  })
+
+  describe('Counter Operations', () => {
+    it('should return empty counters when nothing was recorded', () => {
+      expect(loadTriggerCounters()).toEqual({})
+    })
+
+    it('should count successes and failures per account and model', () => {
+      const base: TriggerRecord = {
+        timestamp: new Date().toISOString(),
+        success: true,
+        triggerType: 'auto',
+        triggerSource: 'scheduled',
+        models: ['model-a'],
+        accountEmail: 'test@example.com',
+        durationMs: 100,
+        prompt: 'hi'
+      }
+
+      addTriggerRecord(base)
+      addTriggerRecord(base)
+      addTriggerRecord({ ...base, success: false, error: 'boom' })
+      addTriggerRecord({ ...base, models: ['model-b'], accountEmail: 'other@example.com' })
+
+      const counters = loadTriggerCounters()
+      expect(counters['test@example.com']['model-a']).toEqual({ success: 2, failure: 1 })
+      expect(counters['other@example.com']['model-b']).toEqual({ success: 1, failure: 0 })
+    })
+
+    it('should keep counting after history is cleared', () => {
+      const record: TriggerRecord = {
+        timestamp: new Date().toISOString(),
+        success: true,
+        triggerType: 'manual',
+        triggerSource: 'manual',
+        models: ['model-a'],
+        accountEmail: 'test@example.com',
+        durationMs: 100,
+        prompt: 'hi'
+      }
+
+      addTriggerRecord(record)
+      clearTriggerHistory()
+      addTriggerRecord(record)
+
+      expect(loadTriggerCounters()['test@example.com']['model-a'].success).toBe(2)
+    })
+  })
 })
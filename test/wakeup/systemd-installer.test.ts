@@ -0,0 +1,104 @@
+/**
+ * Tests for systemd installer module
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  cronToOnCalendar,
+  generateSystemdUnits,
+  installSystemdTimer,
+  uninstallSystemdTimer,
+  getSystemdStatus,
+  SYSTEMD_UNIT_NAME
+} from '../../src/wakeup/systemd-installer.js'
+
+describe('systemd Installer', () => {
+  describe('cronToOnCalendar', () => {
+    it('should convert daily and interval schedules', () => {
+      expect(cronToOnCalendar('0 9,18 * * *')).toEqual(['*-*-* 09,18:00:00'])
+      expect(cronToOnCalendar('0 */6 * * *')).toEqual(['*-*-* 00,06,12,18:00:00'])
+      expect(cronToOnCalendar('*/30 * * * *')).toEqual(['*-*-* *:00,30:00'])
+    })
+
+    it('should convert weekdays, months and days of month', () => {
+      expect(cronToOnCalendar('30 9 * * MON-FRI')).toEqual(['Mon,Tue,Wed,Thu,Fri *-*-* 09:30:00'])
+      expect(cronToOnCalendar('@monthly')).toEqual(['*-*-01 00:00:00'])
+      expect(cronToOnCalendar('0 8 1 JAN,JUL *')).toEqual(['*-01,07-01 08:00:00'])
+    })
+
+    it('should split cron\'s day-of-month OR day-of-week into two entries', () => {
+      expect(cronToOnCalendar('0 0 15 * 1')).toEqual(['Mon *-*-* 00:00:00', '*-*-15 00:00:00'])
+    })
+  })
+
+  describe('generateSystemdUnits', () => {
+    it('should generate a oneshot service and a persistent timer', () => {
+      const { service, timer } = generateSystemdUnits(['0 9 * * *', '30 17 * * 5'], '/usr/local/bin:/usr/bin')
+
+      expect(service).toContain('Type=oneshot')
+      expect(service).toContain('Environment=PATH=/usr/local/bin:/usr/bin')
+      expect(service).toContain('ExecStart=/usr/bin/env antigravity-usage wakeup trigger --scheduled')
+      expect(timer).toContain('OnCalendar=*-*-* 09:00:00\nOnCalendar=Fri *-*-* 17:30:00')
+      expect(timer).toContain('Persistent=true')
+      expect(timer).toContain('WantedBy=timers.target')
+    })
+  })
+
+  describe('install and uninstall', () => {
+    let unitDir: string
+    const runCommand = vi.fn<(command: string) => Promise<void>>()
+
+    beforeEach(() => {
+      unitDir = fs.mkdtempSync(path.join(os.tmpdir(), 'antigravity-systemd-'))
+      runCommand.mockReset()
+      runCommand.mockResolvedValue(undefined)
+    })
+
+    afterEach(() => {
+      fs.rmSync(unitDir, { recursive: true, force: true })
+    })
+
+    it('should write units, enable the timer and report status', async () => {
+      const result = await installSystemdTimer(['0 9 * * *'], { unitDir, runCommand })
+
+      expect(result.success).toBe(true)
+      expect(fs.existsSync(path.join(unitDir, `${SYSTEMD_UNIT_NAME}.service`))).toBe(true)
+      expect(runCommand.mock.calls.map(([command]) => command)).toEqual([
+        'systemctl --user daemon-reload',
+        `systemctl --user enable --now ${SYSTEMD_UNIT_NAME}.timer`
+      ])
+
+      const status = getSystemdStatus({ unitDir })
+      expect(status).toMatchObject({ installed: true, backend: 'systemd', cronExpressions: ['0 9 * * *'] })
+      expect(status.nextRun).toBeTruthy()
+    })
+
+    it('should return manual instructions when systemctl fails', async () => {
+      runCommand.mockRejectedValueOnce(new Error('Failed to connect to bus'))
+
+      const result = await installSystemdTimer(['0 9 * * *'], { unitDir, runCommand })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Failed to connect to bus')
+      expect(result.manualInstructions).toContain(`systemctl --user enable --now ${SYSTEMD_UNIT_NAME}.timer`)
+    })
+
+    it('should disable the timer and remove the units', async () => {
+      await installSystemdTimer(['0 9 * * *'], { unitDir, runCommand })
+      runCommand.mockClear()
+
+      expect(await uninstallSystemdTimer({ unitDir, runCommand })).toBe(true)
+      expect(fs.readdirSync(unitDir)).toEqual([])
+      expect(runCommand).toHaveBeenCalledWith(`systemctl --user disable --now ${SYSTEMD_UNIT_NAME}.timer`)
+      expect(getSystemdStatus({ unitDir })).toEqual({ installed: false })
+    })
+
+    it('should succeed without running systemctl when nothing is installed', async () => {
+      expect(await uninstallSystemdTimer({ unitDir, runCommand })).toBe(true)
+      expect(runCommand).not.toHaveBeenCalled()
+    })
+  })
+})
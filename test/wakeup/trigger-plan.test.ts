@@ -0,0 +1,119 @@
+/**
+ * Tests for schedule-mode trigger planning
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { planScheduledTriggers } from '../../src/wakeup/trigger-plan.js'
+import { getDefaultConfig, type WakeupConfig } from '../../src/wakeup/types.js'
+
+// Every selected account exists and is valid
+vi.mock('../../src/accounts/manager.js', () => ({
+  getAccountManager: () => ({
+    hasAccount: () => true,
+    getAccountStatus: () => 'valid',
+    getActiveEmail: () => 'me@example.com',
+    getAccountEmails: () => ['me@example.com']
+  })
+}))
+
+describe('Trigger Plan', () => {
+  let config: WakeupConfig
+
+  beforeEach(() => {
+    config = {
+      ...getDefaultConfig(),
+      enabled: true,
+      selectedModels: ['claude-sonnet-4-6', 'gemini-3-flash'],
+      selectedAccounts: ['me@example.com', 'free@example.com'],
+      scheduleMode: 'daily',
+      dailyTimes: ['09:00'],
+      accountOverrides: {
+        'free@example.com': { selectedModels: ['gemini-3-flash'] }
+      }
+    }
+  })
+
+  it('should plan every account with its own models', () => {
+    const plan = planScheduledTriggers(config, { scheduled: true })
+
+    expect(plan.source).toBe('scheduled')
+    expect(plan.accounts).toEqual([
+      {
+        email: 'me@example.com',
+        models: [
+          { modelId: 'claude-sonnet-4-6', trigger: true, reason: 'Selected' },
+          { modelId: 'gemini-3-flash', trigger: true, reason: 'Selected' }
+        ]
+      },
+      {
+        email: 'free@example.com',
+        models: [{ modelId: 'gemini-3-flash', trigger: true, reason: 'Selected for this account' }]
+      }
+    ])
+  })
+
+  it('should skip accounts whose own schedule is not due', () => {
+    config.accountOverrides!['free@example.com'] = { scheduleMode: 'daily', dailyTimes: ['00:00'] }
+
+    const plan = planScheduledTriggers(config, { scheduled: true, now: new Date(2026, 0, 5, 9, 0, 10) })
+
+    expect(plan.accounts.map(a => [a.email, a.skipped])).toEqual([
+      ['me@example.com', undefined],
+      ['free@example.com', 'Schedule not due']
+    ])
+  })
+
+  it('should cover schedules that fired since the previous run when catching up', () => {
+    config.accountOverrides!['free@example.com'] = { scheduleMode: 'daily', dailyTimes: ['00:00'] }
+
+    // Machine was off from 08:00 on the 4th until 12:00 on the 5th: both schedules fired meanwhile
+    const plan = planScheduledTriggers(config, {
+      scheduled: true,
+      since: new Date(2026, 0, 4, 8, 0),
+      now: new Date(2026, 0, 5, 12, 0)
+    })
+    expect(plan.accounts.every(a => a.skipped === undefined)).toBe(true)
+
+    // Only the global schedule fired since 08:00 today
+    const later = planScheduledTriggers(config, {
+      scheduled: true,
+      since: new Date(2026, 0, 5, 8, 0),
+      now: new Date(2026, 0, 5, 12, 0)
+    })
+    expect(later.accounts.map(a => [a.email, a.skipped])).toEqual([
+      ['me@example.com', undefined],
+      ['free@example.com', 'Schedule not due']
+    ])
+  })
+
+  it('should not count a fire time already handled by the previous run', () => {
+    config.accountOverrides!['free@example.com'] = { scheduleMode: 'daily', dailyTimes: ['09:02'] }
+
+    const plan = planScheduledTriggers(config, {
+      scheduled: true,
+      since: new Date(2026, 0, 5, 9, 0, 5),
+      now: new Date(2026, 0, 5, 9, 2, 5)
+    })
+    expect(plan.accounts.map(a => [a.email, a.skipped])).toEqual([
+      ['me@example.com', 'Schedule not due'],
+      ['free@example.com', undefined]
+    ])
+  })
+
+  it('should include every account in manual runs', () => {
+    config.accountOverrides!['free@example.com'] = { scheduleMode: 'daily', dailyTimes: ['00:00'] }
+
+    const plan = planScheduledTriggers(config, { scheduled: false, now: new Date(2026, 0, 5, 12, 0) })
+
+    expect(plan.source).toBe('manual')
+    expect(plan.accounts.every(a => a.skipped === undefined)).toBe(true)
+  })
+
+  it('should skip accounts without models', () => {
+    config.accountOverrides!['free@example.com'] = { selectedModels: [] }
+
+    const plan = planScheduledTriggers(config, { scheduled: false })
+
+    expect(plan.accounts[1]).toEqual({ email: 'free@example.com', models: [], skipped: 'No models selected' })
+  })
+})
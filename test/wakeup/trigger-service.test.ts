@@ -0,0 +1,68 @@
+/**
+ * Tests for the wake-up trigger service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const tokenManager = {
+  getValidAccessToken: vi.fn(),
+  getProjectId: () => 'project',
+  setProjectId: () => {}
+}
+const generateContent = vi.fn()
+
+vi.mock('../../src/google/token-manager.js', () => ({
+  getTokenManagerForAccount: () => tokenManager
+}))
+
+vi.mock('../../src/google/cloudcode.js', () => ({
+  CloudCodeClient: class {
+    resolveProjectId = async () => 'project'
+    generateContent = generateContent
+  }
+}))
+
+vi.mock('../../src/wakeup/storage.js', () => ({
+  addTriggerRecord: vi.fn()
+}))
+
+import { executeTrigger } from '../../src/wakeup/trigger-service.js'
+import { APIError, TokenRefreshError } from '../../src/core/errors.js'
+import type { TriggerOptions } from '../../src/wakeup/types.js'
+
+const options: TriggerOptions = {
+  models: ['gemini-3-flash'],
+  accountEmail: 'me@example.com',
+  triggerType: 'auto',
+  triggerSource: 'scheduled'
+}
+
+describe('Trigger Service', () => {
+  beforeEach(() => {
+    tokenManager.getValidAccessToken.mockReset().mockResolvedValue('token')
+    generateContent.mockReset().mockResolvedValue({ text: 'hello' })
+  })
+
+  it('should trigger each model', async () => {
+    const result = await executeTrigger(options)
+
+    expect(result.success).toBe(true)
+    expect(result.results[0]).toMatchObject({ modelId: 'gemini-3-flash', success: true, response: 'hello' })
+  })
+
+  it('should retry transient token refresh failures but not rejected refresh tokens', async () => {
+    tokenManager.getValidAccessToken.mockRejectedValue(new TokenRefreshError('Failed to refresh token', { isRetryable: true }))
+    expect((await executeTrigger(options)).results[0].retryable).toBe(true)
+
+    tokenManager.getValidAccessToken.mockRejectedValue(new TokenRefreshError('Refresh token invalid', { isRetryable: false }))
+    expect((await executeTrigger(options)).results[0].retryable).toBe(false)
+  })
+
+  it('should not retry permanent API errors', async () => {
+    generateContent.mockRejectedValue(new APIError('API request failed: 404 - model not found', 404))
+    expect((await executeTrigger(options)).results[0].retryable).toBe(false)
+
+    generateContent.mockRejectedValue(new Error('All trigger attempts failed across all base URLs'))
+    expect((await executeTrigger(options)).results[0].retryable).toBe(true)
+  })
+})